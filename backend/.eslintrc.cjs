@@ -0,0 +1,29 @@
+module.exports = {
+  root: true,
+  parser: "@typescript-eslint/parser",
+  parserOptions: {
+    ecmaVersion: 2022,
+    sourceType: "module",
+  },
+  plugins: ["@typescript-eslint"],
+  extends: ["eslint:recommended", "plugin:@typescript-eslint/recommended"],
+  env: {
+    node: true,
+    es2022: true,
+  },
+  rules: {
+    // The codebase types caught errors and untyped API responses as any
+    "@typescript-eslint/no-explicit-any": "off",
+    "@typescript-eslint/no-unused-vars": ["error", { argsIgnorePattern: "^_", varsIgnorePattern: "^_" }],
+    // Global augmentation of Express.Request
+    "@typescript-eslint/no-namespace": ["error", { allowDeclarations: true }],
+    // Retry loops are written as while (true)
+    "no-constant-condition": ["error", { checkLoops: false }],
+  },
+  overrides: [
+    {
+      files: ["*.test.ts"],
+      env: { jest: true },
+    },
+  ],
+};
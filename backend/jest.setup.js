@@ -0,0 +1,3 @@
+// Keep tests off the data directory and out of the log output
+process.env.PERSISTENCE_DRIVER = "memory";
+process.env.LOG_LEVEL = "fatal";
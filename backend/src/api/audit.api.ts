@@ -0,0 +1,94 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { auditLog, auditToCsv } from "../audit/audit-log.js";
+import { createChildLogger } from "../utils/logger.js";
+
+const logger = createChildLogger("audit-api");
+const router = Router();
+
+const auditQuerySchema = z.object({
+  actor: z.string().min(1).optional(),
+  actorType: z.enum(["user", "api-key", "responder", "system"]).optional(),
+  action: z.string().min(1).optional(),
+  targetType: z.string().min(1).optional(),
+  target: z.string().min(1).optional(),
+  namespace: z.string().min(1).optional(),
+  outcome: z.enum(["success", "failure"]).optional(),
+  requestId: z.string().min(1).optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+});
+
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const parseResult = auditQuerySchema.extend({
+      page: z.coerce.number().int().positive().default(1),
+      pageSize: z.coerce.number().int().positive().max(500).default(50),
+    }).safeParse(req.query);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid audit query",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const { page, pageSize, ...filters } = parseResult.data;
+    const entries = auditLog.query(filters);
+    res.json({
+      success: true,
+      data: entries.slice((page - 1) * pageSize, page * pageSize),
+      pagination: {
+        page,
+        pageSize,
+        total: entries.length,
+        totalPages: Math.ceil(entries.length / pageSize),
+      },
+    });
+  } catch (error) {
+    logger.error({ error }, "Failed to get audit log");
+    res.status(500).json({ success: false, message: "Failed to get audit log" });
+  }
+});
+
+router.get("/actions", async (_req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: auditLog.getActions() });
+  } catch (error) {
+    logger.error({ error }, "Failed to get audit actions");
+    res.status(500).json({ success: false, message: "Failed to get audit actions" });
+  }
+});
+
+router.get("/export", async (req: Request, res: Response) => {
+  try {
+    const parseResult = auditQuerySchema.extend({
+      format: z.enum(["csv", "json"]).default("csv"),
+    }).safeParse(req.query);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid audit query",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const { format, ...filters } = parseResult.data;
+    const entries = auditLog.query(filters);
+    const filename = `octrix-audit-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    if (format === "csv") {
+      res.type("text/csv").send(auditToCsv(entries));
+    } else {
+      res.type("application/json").send(JSON.stringify(entries, null, 2));
+    }
+  } catch (error) {
+    logger.error({ error }, "Failed to export audit log");
+    res.status(500).json({ success: false, message: "Failed to export audit log" });
+  }
+});
+
+export default router;
@@ -0,0 +1,431 @@
+import { Router, Request, Response } from "express";
+import rateLimit from "express-rate-limit";
+import { z } from "zod";
+import { userStore } from "../auth/users.js";
+import { teamStore } from "../auth/teams.js";
+import { apiKeyStore, API_KEY_SCOPES } from "../auth/api-keys.js";
+import { authenticate, authorize, signToken } from "../middleware/auth.js";
+import { auditLog } from "../audit/audit-log.js";
+import { config } from "../config/index.js";
+import { createChildLogger } from "../utils/logger.js";
+
+const logger = createChildLogger("auth-api");
+const router = Router();
+
+const loginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+});
+
+const roleSchema = z.enum(["admin", "operator", "viewer"]);
+
+const namespaceSchema = z.string().regex(/^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/, "Must be a Kubernetes namespace name").max(63);
+
+const userSchema = z.object({
+  email: z.string().email(),
+  name: z.string().min(1),
+  role: roleSchema,
+  password: z.string().min(8),
+  namespaces: z.array(namespaceSchema).optional(),
+  teams: z.array(z.string().min(1)).optional(),
+});
+
+const userUpdateSchema = z.object({
+  name: z.string().min(1).optional(),
+  role: roleSchema.optional(),
+  disabled: z.boolean().optional(),
+  password: z.string().min(8).optional(),
+  namespaces: z.array(namespaceSchema).optional(),
+  teams: z.array(z.string().min(1)).optional(),
+});
+
+const teamSchema = z.object({
+  name: z.string().min(1),
+  namespaces: z.array(namespaceSchema),
+});
+
+const apiKeySchema = z.object({
+  name: z.string().min(1),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  namespaces: z.array(namespaceSchema).optional(),
+  expiresInDays: z.number().int().min(1).max(3650).optional(),
+});
+
+function unknownTeams(teamIds: string[] | undefined): string[] {
+  return (teamIds ?? []).filter((id) => !teamStore.getTeam(id));
+}
+
+// Slows down password guessing; successful logins do not count
+const loginLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  skipSuccessfulRequests: true,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { success: false, message: "Too many login attempts, try again later" },
+});
+
+router.post("/login", loginLimiter, async (req: Request, res: Response) => {
+  try {
+    const parseResult = loginSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid login request",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const user = await userStore.authenticate(parseResult.data.email, parseResult.data.password);
+    if (!user) {
+      logger.warn({ email: parseResult.data.email }, "Failed login attempt");
+      auditLog.record({
+        actor: { type: "user", id: parseResult.data.email.toLowerCase() },
+        action: "auth.login",
+        target: { type: "user", id: parseResult.data.email.toLowerCase() },
+        outcome: "failure",
+        message: "Invalid email or password",
+        requestId: req.requestId,
+      });
+      res.status(401).json({ success: false, message: "Invalid email or password" });
+      return;
+    }
+
+    logger.info({ userId: user.id, email: user.email }, "User logged in");
+    auditLog.record({
+      actor: { type: "user", id: user.id, name: user.email, role: user.role },
+      action: "auth.login",
+      target: { type: "user", id: user.id },
+      requestId: req.requestId,
+    });
+    res.json({
+      success: true,
+      data: { token: signToken(user), expiresIn: config.jwt.expiresIn, user },
+    });
+  } catch (error) {
+    logger.error({ error }, "Failed to log in");
+    res.status(500).json({ success: false, message: "Failed to log in" });
+  }
+});
+
+router.get("/me", authenticate, async (req: Request, res: Response) => {
+  try {
+    // Lets scripts check which key they are using and what it may do
+    if (req.apiKey) {
+      res.json({ success: true, data: { apiKey: req.apiKey } });
+      return;
+    }
+
+    const user = userStore.getUser(req.user!.userId);
+    if (!user) {
+      res.status(404).json({ success: false, message: "User not found" });
+      return;
+    }
+    // null when the user may see every namespace
+    res.json({ success: true, data: { ...user, allowedNamespaces: req.user!.namespaces ?? null } });
+  } catch (error) {
+    logger.error({ error }, "Failed to get current user");
+    res.status(500).json({ success: false, message: "Failed to get current user" });
+  }
+});
+
+router.get("/users", authenticate, authorize("admin"), async (_req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: userStore.getUsers() });
+  } catch (error) {
+    logger.error({ error }, "Failed to get users");
+    res.status(500).json({ success: false, message: "Failed to get users" });
+  }
+});
+
+router.post("/users", authenticate, authorize("admin"), async (req: Request, res: Response) => {
+  try {
+    const parseResult = userSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid user",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    if (userStore.findByEmail(parseResult.data.email)) {
+      res.status(409).json({ success: false, message: "A user with this email already exists" });
+      return;
+    }
+
+    const missingTeams = unknownTeams(parseResult.data.teams);
+    if (missingTeams.length > 0) {
+      res.status(400).json({ success: false, message: `Unknown teams: ${missingTeams.join(", ")}` });
+      return;
+    }
+
+    const user = await userStore.createUser(parseResult.data);
+    auditLog.recordRequest(req, {
+      action: "user.create",
+      target: { type: "user", id: user.id },
+      after: user,
+    });
+    res.status(201).json({ success: true, data: user, message: "User created" });
+  } catch (error) {
+    logger.error({ error }, "Failed to create user");
+    res.status(500).json({ success: false, message: "Failed to create user" });
+  }
+});
+
+router.put("/users/:id", authenticate, authorize("admin"), async (req: Request, res: Response) => {
+  try {
+    const parseResult = userUpdateSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid user",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const existing = userStore.getUser(req.params.id);
+    if (!existing) {
+      res.status(404).json({ success: false, message: "User not found" });
+      return;
+    }
+
+    const missingTeams = unknownTeams(parseResult.data.teams);
+    if (missingTeams.length > 0) {
+      res.status(400).json({ success: false, message: `Unknown teams: ${missingTeams.join(", ")}` });
+      return;
+    }
+
+    const { role, disabled } = parseResult.data;
+    const losesAdmin = existing.role === "admin" && !existing.disabled &&
+      ((role !== undefined && role !== "admin") || disabled === true);
+    if (losesAdmin && userStore.countActiveAdmins() <= 1) {
+      res.status(400).json({ success: false, message: "Cannot demote or disable the last admin" });
+      return;
+    }
+
+    const user = await userStore.updateUser(req.params.id, parseResult.data);
+    auditLog.recordRequest(req, {
+      action: "user.update",
+      target: { type: "user", id: req.params.id },
+      before: existing,
+      after: { ...user, passwordChanged: parseResult.data.password !== undefined },
+    });
+    res.json({ success: true, data: user, message: "User updated" });
+  } catch (error) {
+    logger.error({ error }, "Failed to update user");
+    res.status(500).json({ success: false, message: "Failed to update user" });
+  }
+});
+
+router.delete("/users/:id", authenticate, authorize("admin"), async (req: Request, res: Response) => {
+  try {
+    const existing = userStore.getUser(req.params.id);
+    if (!existing) {
+      res.status(404).json({ success: false, message: "User not found" });
+      return;
+    }
+
+    if (existing.role === "admin" && !existing.disabled && userStore.countActiveAdmins() <= 1) {
+      res.status(400).json({ success: false, message: "Cannot delete the last admin" });
+      return;
+    }
+
+    userStore.deleteUser(req.params.id);
+    auditLog.recordRequest(req, {
+      action: "user.delete",
+      target: { type: "user", id: req.params.id },
+      before: existing,
+    });
+    res.json({ success: true, message: "User deleted" });
+  } catch (error) {
+    logger.error({ error }, "Failed to delete user");
+    res.status(500).json({ success: false, message: "Failed to delete user" });
+  }
+});
+
+router.get("/teams", authenticate, authorize("admin"), async (_req: Request, res: Response) => {
+  try {
+    const teams = teamStore.getTeams().map((team) => ({
+      ...team,
+      members: userStore.getTeamMembers(team.id).map((u) => u.email),
+    }));
+    res.json({ success: true, data: teams });
+  } catch (error) {
+    logger.error({ error }, "Failed to get teams");
+    res.status(500).json({ success: false, message: "Failed to get teams" });
+  }
+});
+
+router.post("/teams", authenticate, authorize("admin"), async (req: Request, res: Response) => {
+  try {
+    const parseResult = teamSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid team",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    if (teamStore.findByName(parseResult.data.name)) {
+      res.status(409).json({ success: false, message: "A team with this name already exists" });
+      return;
+    }
+
+    const team = teamStore.createTeam(parseResult.data);
+    auditLog.recordRequest(req, {
+      action: "team.create",
+      target: { type: "team", id: team.id },
+      after: team,
+    });
+    res.status(201).json({ success: true, data: team, message: "Team created" });
+  } catch (error) {
+    logger.error({ error }, "Failed to create team");
+    res.status(500).json({ success: false, message: "Failed to create team" });
+  }
+});
+
+router.put("/teams/:id", authenticate, authorize("admin"), async (req: Request, res: Response) => {
+  try {
+    const parseResult = teamSchema.partial().safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid team",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const existing = teamStore.getTeam(req.params.id);
+    if (!existing) {
+      res.status(404).json({ success: false, message: "Team not found" });
+      return;
+    }
+
+    const { name } = parseResult.data;
+    const sameName = name ? teamStore.findByName(name) : undefined;
+    if (sameName && sameName.id !== existing.id) {
+      res.status(409).json({ success: false, message: "A team with this name already exists" });
+      return;
+    }
+
+    const team = teamStore.updateTeam(req.params.id, parseResult.data);
+    auditLog.recordRequest(req, {
+      action: "team.update",
+      target: { type: "team", id: req.params.id },
+      before: existing,
+      after: team,
+    });
+    res.json({ success: true, data: team, message: "Team updated" });
+  } catch (error) {
+    logger.error({ error }, "Failed to update team");
+    res.status(500).json({ success: false, message: "Failed to update team" });
+  }
+});
+
+router.delete("/teams/:id", authenticate, authorize("admin"), async (req: Request, res: Response) => {
+  try {
+    const existing = teamStore.getTeam(req.params.id);
+    if (!existing) {
+      res.status(404).json({ success: false, message: "Team not found" });
+      return;
+    }
+
+    // Dropping the team from its members could leave them with access to every namespace
+    const members = userStore.getTeamMembers(existing.id);
+    if (members.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: `Team still has members: ${members.map((u) => u.email).join(", ")}`,
+      });
+      return;
+    }
+
+    teamStore.deleteTeam(req.params.id);
+    auditLog.recordRequest(req, {
+      action: "team.delete",
+      target: { type: "team", id: req.params.id },
+      before: existing,
+    });
+    res.json({ success: true, message: "Team deleted" });
+  } catch (error) {
+    logger.error({ error }, "Failed to delete team");
+    res.status(500).json({ success: false, message: "Failed to delete team" });
+  }
+});
+
+router.get("/api-keys/scopes", authenticate, authorize("admin"), async (_req: Request, res: Response) => {
+  res.json({ success: true, data: API_KEY_SCOPES });
+});
+
+router.get("/api-keys", authenticate, authorize("admin"), async (_req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: apiKeyStore.getKeys() });
+  } catch (error) {
+    logger.error({ error }, "Failed to get API keys");
+    res.status(500).json({ success: false, message: "Failed to get API keys" });
+  }
+});
+
+router.post("/api-keys", authenticate, authorize("admin"), async (req: Request, res: Response) => {
+  try {
+    const parseResult = apiKeySchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid API key",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const { expiresInDays, ...input } = parseResult.data;
+    const { key, apiKey } = apiKeyStore.createKey({
+      ...input,
+      expiresAt: expiresInDays
+        ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+        : undefined,
+      createdBy: req.user!.email,
+    });
+    auditLog.recordRequest(req, {
+      action: "api-key.create",
+      target: { type: "api-key", id: apiKey.id },
+      after: apiKey,
+    });
+    res.status(201).json({
+      success: true,
+      data: { key, apiKey },
+      message: "API key created; it will not be shown again",
+    });
+  } catch (error) {
+    logger.error({ error }, "Failed to create API key");
+    res.status(500).json({ success: false, message: "Failed to create API key" });
+  }
+});
+
+router.delete("/api-keys/:id", authenticate, authorize("admin"), async (req: Request, res: Response) => {
+  try {
+    const apiKey = apiKeyStore.revokeKey(req.params.id, req.user!.email);
+    if (!apiKey) {
+      res.status(404).json({ success: false, message: "No active API key with this id" });
+      return;
+    }
+    auditLog.recordRequest(req, {
+      action: "api-key.revoke",
+      target: { type: "api-key", id: apiKey.id },
+      after: { revokedAt: apiKey.revokedAt, revokedBy: apiKey.revokedBy },
+    });
+    res.json({ success: true, data: apiKey, message: "API key revoked" });
+  } catch (error) {
+    logger.error({ error }, "Failed to revoke API key");
+    res.status(500).json({ success: false, message: "Failed to revoke API key" });
+  }
+});
+
+export default router;
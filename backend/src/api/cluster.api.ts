@@ -1,15 +1,23 @@
 import { Router, Request, Response } from "express";
 import { kubernetesService } from "../services/kubernetes.service.js";
+import { authorize } from "../middleware/auth.js";
+import { auditLog } from "../audit/audit-log.js";
+import { canAccessNamespace, filterByNamespace, hasClusterScope } from "../auth/namespaces.js";
 import { createChildLogger } from "../utils/logger.js";
 
 const logger = createChildLogger("cluster-api");
 const router = Router();
 
-router.get("/nodes", async (_req: Request, res: Response) => {
+router.get("/nodes", async (req: Request, res: Response) => {
   try {
     const { collectNodeMetrics } = await import("../metrics/node.metrics.js");
     const metrics = await collectNodeMetrics();
-    res.json({ success: true, data: metrics });
+    // Nodes are shared, but the pods listed on them are only shown for the user's namespaces
+    const scoped = hasClusterScope(req) ? metrics : metrics.map((node) => ({
+      ...node,
+      podMetrics: node.podMetrics && filterByNamespace(req, node.podMetrics, (pod) => pod.namespace),
+    }));
+    res.json({ success: true, data: scoped });
   } catch (error) {
     logger.error({ error }, "Failed to get nodes");
     res.status(500).json({ success: false, message: "Failed to get nodes" });
@@ -22,14 +30,14 @@ router.get("/pods", async (req: Request, res: Response) => {
     const { collectPodMetrics } = await import("../metrics/pod.metrics.js");
     const namespace = req.query.namespace as string | undefined;
     const metrics = await collectPodMetrics(namespace);
-    res.json({ success: true, data: metrics });
+    res.json({ success: true, data: filterByNamespace(req, metrics, (pod) => pod.namespace) });
   } catch (error) {
     logger.error({ error }, "Failed to get pods");
     res.status(500).json({ success: false, message: "Failed to get pods" });
   }
 });
 
-router.post("/pods/restart-all", async (_req: Request, res: Response) => {
+router.post("/pods/restart-all", authorize("admin"), async (req: Request, res: Response) => {
   try {
     const { kubernetesService } = await import("../services/kubernetes.service.js");
     
@@ -78,6 +86,12 @@ router.post("/pods/restart-all", async (_req: Request, res: Response) => {
       }
     }
     
+    auditLog.recordRequest(req, {
+      action: "pods.restart-all",
+      target: { type: "cluster", id: "all-pods" },
+      before: { pods: pods.length },
+      after: { deleted, created: categories.length * podsPerCategory },
+    });
     res.json({ 
       success: true, 
       message: `Restarted ${deleted} pods and spawned ${categories.length * podsPerCategory} new pods`, 
@@ -85,18 +99,155 @@ router.post("/pods/restart-all", async (_req: Request, res: Response) => {
     });
   } catch (error) {
     logger.error({ error }, "Failed to restart all pods");
+    auditLog.recordRequest(req, {
+      action: "pods.restart-all",
+      target: { type: "cluster", id: "all-pods" },
+      outcome: "failure",
+      message: error instanceof Error ? error.message : undefined,
+    });
     res.status(500).json({ success: false, message: "Failed to restart all pods" });
   }
 });
 
-router.get("/overview", async (_req: Request, res: Response) => {
+router.delete("/pods/:namespace/:name", authorize("admin", "operator"), async (req: Request, res: Response) => {
+  try {
+    const { namespace, name } = req.params;
+    if (!canAccessNamespace(req, namespace)) {
+      res.status(403).json({ success: false, message: `No access to namespace ${namespace}` });
+      return;
+    }
+    await kubernetesService.deletePod(namespace, name);
+    auditLog.recordRequest(req, { action: "pod.delete", target: { type: "pod", id: name, namespace } });
+    res.json({ success: true, message: "Pod deleted" });
+  } catch (error) {
+    logger.error({ error }, "Failed to delete pod");
+    auditLog.recordRequest(req, {
+      action: "pod.delete",
+      target: { type: "pod", id: req.params.name, namespace: req.params.namespace },
+      outcome: "failure",
+      message: error instanceof Error ? error.message : undefined,
+    });
+    res.status(500).json({ success: false, message: "Failed to delete pod" });
+  }
+});
+
+router.get("/services", async (req: Request, res: Response) => {
+  try {
+    const namespace = req.query.namespace as string | undefined;
+    const services = await kubernetesService.getServices(namespace);
+    res.json({ success: true, data: filterByNamespace(req, services, (svc) => svc.namespace) });
+  } catch (error) {
+    logger.error({ error }, "Failed to get services");
+    res.status(500).json({ success: false, message: "Failed to get services" });
+  }
+});
+
+router.get("/namespaces", async (req: Request, res: Response) => {
+  try {
+    const namespaces = await kubernetesService.getNamespaces();
+    res.json({ success: true, data: filterByNamespace(req, namespaces, (ns) => ns.name) });
+  } catch (error) {
+    logger.error({ error }, "Failed to get namespaces");
+    res.status(500).json({ success: false, message: "Failed to get namespaces" });
+  }
+});
+
+router.post("/nodes/:name/cordon", authorize("admin", "operator"), async (req: Request, res: Response) => {
+  try {
+    const { name } = req.params;
+    if (!hasClusterScope(req)) {
+      res.status(403).json({ success: false, message: "Node operations require access to every namespace" });
+      return;
+    }
+    await kubernetesService.cordonNode(name);
+    auditLog.recordRequest(req, {
+      action: "node.cordon",
+      target: { type: "node", id: name },
+      after: { unschedulable: true },
+    });
+    res.json({ success: true, message: "Node cordoned" });
+  } catch (error) {
+    logger.error({ error }, "Failed to cordon node");
+    auditLog.recordRequest(req, {
+      action: "node.cordon",
+      target: { type: "node", id: req.params.name },
+      outcome: "failure",
+      message: error instanceof Error ? error.message : undefined,
+    });
+    res.status(500).json({ success: false, message: "Failed to cordon node" });
+  }
+});
+
+router.post("/nodes/:name/uncordon", authorize("admin", "operator"), async (req: Request, res: Response) => {
+  try {
+    const { name } = req.params;
+    if (!hasClusterScope(req)) {
+      res.status(403).json({ success: false, message: "Node operations require access to every namespace" });
+      return;
+    }
+    await kubernetesService.uncordonNode(name);
+    auditLog.recordRequest(req, {
+      action: "node.uncordon",
+      target: { type: "node", id: name },
+      after: { unschedulable: false },
+    });
+    res.json({ success: true, message: "Node uncordoned" });
+  } catch (error) {
+    logger.error({ error }, "Failed to uncordon node");
+    auditLog.recordRequest(req, {
+      action: "node.uncordon",
+      target: { type: "node", id: req.params.name },
+      outcome: "failure",
+      message: error instanceof Error ? error.message : undefined,
+    });
+    res.status(500).json({ success: false, message: "Failed to uncordon node" });
+  }
+});
+
+router.post("/deployments/:namespace/:name/scale", authorize("admin", "operator"), async (req: Request, res: Response) => {
+  try {
+    const { namespace, name } = req.params;
+    const { replicas } = req.body;
+    if (!Number.isInteger(replicas) || replicas < 0) {
+      res.status(400).json({ success: false, message: "replicas must be a non-negative integer" });
+      return;
+    }
+    if (!canAccessNamespace(req, namespace)) {
+      res.status(403).json({ success: false, message: `No access to namespace ${namespace}` });
+      return;
+    }
+    const previous = await kubernetesService.getDeployment(namespace, name)
+      .then((deployment) => deployment.spec?.replicas)
+      .catch(() => undefined);
+    await kubernetesService.scaleDeployment(namespace, name, replicas);
+    auditLog.recordRequest(req, {
+      action: "deployment.scale",
+      target: { type: "deployment", id: name, namespace },
+      before: { replicas: previous },
+      after: { replicas },
+    });
+    res.json({ success: true, message: "Deployment scaled" });
+  } catch (error) {
+    logger.error({ error }, "Failed to scale deployment");
+    auditLog.recordRequest(req, {
+      action: "deployment.scale",
+      target: { type: "deployment", id: req.params.name, namespace: req.params.namespace },
+      outcome: "failure",
+      message: error instanceof Error ? error.message : undefined,
+      after: { replicas: req.body?.replicas },
+    });
+    res.status(500).json({ success: false, message: "Failed to scale deployment" });
+  }
+});
+
+router.get("/overview", async (req: Request, res: Response) => {
   try {
     const { collectClusterMetrics } = await import("../metrics/cluster.metrics.js");
     const { incidentDetector } = await import("../incidents/detector.js");
     const { escalationManager } = await import("../escalation/escalation.manager.js");
     
     const clusterMetrics = await collectClusterMetrics();
-    const incidentStats = incidentDetector.getStats();
+    const incidentStats = incidentDetector.getStats(req.user?.namespaces);
     const escalationStats = escalationManager.getStats();
 
     res.json({ 
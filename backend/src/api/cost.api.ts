@@ -2,6 +2,8 @@ import { Router, Request, Response } from "express";
 import { costService } from "../services/cost.service.js";
 import { nodeUtilizationService } from "../services/node-utilization.service.js";
 import { operationalCostRiskService } from "../services/operational-cost-risk.service.js";
+import { authorize } from "../middleware/auth.js";
+import { auditLog } from "../audit/audit-log.js";
 import { createChildLogger } from "../utils/logger.js";
 
 const logger = createChildLogger("cost-routes");
@@ -53,7 +55,7 @@ router.get("/efficiency", async (_req: Request, res: Response) => {
 });
 
 // Update issue status
-router.patch("/issues/:id", async (req: Request, res: Response) => {
+router.patch("/issues/:id", authorize("admin", "operator"), async (req: Request, res: Response) => {
   try {
     const { status } = req.body;
     if (!status || !["active", "optimized", "pending"].includes(status)) {
@@ -64,12 +66,19 @@ router.patch("/issues/:id", async (req: Request, res: Response) => {
       return;
     }
     
+    const previous = (await costService.getCostIssues()).find((i) => i.id === req.params.id)?.status;
     const issue = costService.updateIssueStatus(req.params.id, status);
     if (!issue) {
       res.status(404).json({ success: false, message: "Issue not found" });
       return;
     }
     
+    auditLog.recordRequest(req, {
+      action: "cost-issue.update",
+      target: { type: "cost-issue", id: issue.id },
+      before: { status: previous },
+      after: { status: issue.status },
+    });
     res.json({ success: true, data: issue });
   } catch (error) {
     logger.error({ error }, "Failed to update issue status");
@@ -100,11 +109,18 @@ router.get("/config", async (_req: Request, res: Response) => {
 });
 
 // Update cost configuration
-router.patch("/config", async (req: Request, res: Response) => {
+router.patch("/config", authorize("admin"), async (req: Request, res: Response) => {
   try {
     const { defaultNodeHourlyCost, nodeTypeCosts } = req.body;
+    const before = nodeUtilizationService.getCostConfig();
     nodeUtilizationService.updateCostConfig({ defaultNodeHourlyCost, nodeTypeCosts });
     const config = nodeUtilizationService.getCostConfig();
+    auditLog.recordRequest(req, {
+      action: "cost-config.update",
+      target: { type: "cost-config", id: "global" },
+      before,
+      after: config,
+    });
     res.json({ success: true, data: config });
   } catch (error) {
     logger.error({ error }, "Failed to update cost config");
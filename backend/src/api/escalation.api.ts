@@ -1,11 +1,123 @@
 import { Router, Request, Response } from "express";
+import { z } from "zod";
 import { escalationManager } from "../escalation/escalation.manager.js";
-import { notificationService } from "../escalation/notifications.js";
+import { notificationService, type NotificationChannel } from "../escalation/notifications.js";
+import { notificationTemplates, TemplateError } from "../escalation/templates.js";
+import { notificationRouter, type RouteMatch } from "../escalation/routing.js";
+import { notificationBatcher } from "../escalation/batching.js";
+import { onCallManager } from "../escalation/oncall.js";
+import { incidentDetector } from "../incidents/detector.js";
+import { authorize } from "../middleware/auth.js";
+import { auditLog } from "../audit/audit-log.js";
 import { createChildLogger } from "../utils/logger.js";
+import { isValidTimezone } from "../utils/time.js";
+import type { IncidentCategory } from "../incidents/types.js";
 
 const logger = createChildLogger("escalation-api");
 const router = Router();
 
+const templateSchema = z.object({
+  name: z.string().min(1),
+  channel: z.enum(["slack", "pagerduty", "email", "webhook", "console"]),
+  category: z.string().min(1).optional(),
+  format: z.enum(["text", "markdown", "html", "json"]),
+  subject: z.string().min(1),
+  body: z.string().min(1),
+});
+
+const channelSchema = z.enum(["slack", "pagerduty", "email", "webhook", "console"]);
+const severitySchema = z.enum(["low", "medium", "high", "critical"]);
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM");
+
+const routeMatchSchema = z.object({
+  namespaces: z.array(z.string().min(1)).optional(),
+  labels: z.record(z.string()).optional(),
+  categories: z.array(z.string().min(1)).optional(),
+  severities: z.array(severitySchema).optional(),
+  sloBurnDrivers: z.array(z.enum(["traffic-surge", "degradation", "mixed"])).optional(),
+});
+
+const routingRuleSchema = z.object({
+  name: z.string().min(1),
+  enabled: z.boolean().default(true),
+  order: z.number().int().default(100),
+  match: routeMatchSchema.default({}),
+  targets: z.array(z.object({
+    channel: channelSchema,
+    webhookUrl: z.string().url().optional(),
+    recipients: z.array(z.string().email()).optional(),
+  })).min(1),
+  continue: z.boolean().default(false),
+});
+
+const notificationWindowFields = z.object({
+  name: z.string().min(1),
+  enabled: z.boolean().default(true),
+  kind: z.enum(["quiet-hours", "maintenance"]),
+  match: routeMatchSchema.default({}),
+  action: z.enum(["suppress", "downgrade"]),
+  exemptSeverities: z.array(severitySchema).default([]),
+  days: z.array(z.number().int().min(0).max(6)).optional(),
+  start: timeOfDaySchema.optional(),
+  end: timeOfDaySchema.optional(),
+  timezone: z.string().refine(isValidTimezone, "Unknown time zone").optional(),
+  startsAt: z.string().datetime().optional(),
+  endsAt: z.string().datetime().optional(),
+  reason: z.string().optional(),
+});
+
+const notificationWindowSchema = notificationWindowFields.superRefine((window, ctx) => {
+  if (window.kind === "quiet-hours" && (!window.start || !window.end)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Quiet hours need a start and end time", path: ["start"] });
+  }
+  if (window.kind === "maintenance") {
+    if (!window.endsAt) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Maintenance windows need an end time", path: ["endsAt"] });
+    } else if (window.startsAt && new Date(window.startsAt) >= new Date(window.endsAt)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "endsAt must be after startsAt", path: ["endsAt"] });
+    }
+  }
+});
+
+const routingTestSchema = z.object({
+  incidentId: z.string().min(1),
+  channels: z.array(channelSchema).optional(),
+});
+
+const onCallMemberSchema = z.object({
+  name: z.string().min(1),
+  email: z.string().email().optional(),
+  slackUserId: z.string().min(1).optional(),
+});
+
+const onCallScheduleSchema = z.object({
+  team: z.string().min(1),
+  name: z.string().min(1),
+  timezone: z.string().refine(isValidTimezone, "Unknown time zone").default("UTC"),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD"),
+  handoffTime: timeOfDaySchema.default("09:00"),
+  shiftDays: z.number().int().positive().default(7),
+  members: z.array(onCallMemberSchema).min(1),
+  slackWebhookUrl: z.string().url().optional(),
+});
+
+const onCallOverrideSchema = z.object({
+  member: onCallMemberSchema,
+  startsAt: z.string().datetime(),
+  endsAt: z.string().datetime(),
+  reason: z.string().optional(),
+}).refine((o) => new Date(o.startsAt) < new Date(o.endsAt), {
+  message: "endsAt must be after startsAt",
+  path: ["endsAt"],
+});
+
+const freezeSchema = z.object({
+  reason: z.string().min(1),
+  namespaces: z.array(z.string().min(1)).optional(),
+  categories: z.array(z.string().min(1)).optional(),
+  durationMinutes: z.number().positive().optional(),
+});
+
 router.get("/records", async (_req: Request, res: Response) => {
   try {
     const records = escalationManager.getEscalationRecords();
@@ -30,14 +142,19 @@ router.get("/records/:incidentId", async (req: Request, res: Response) => {
   }
 });
 
-router.post("/records/:incidentId/acknowledge", async (req: Request, res: Response) => {
+router.post("/records/:incidentId/acknowledge", authorize("admin", "operator"), async (req: Request, res: Response) => {
   try {
-    const acknowledgedBy = req.body.acknowledgedBy || "system";
+    const acknowledgedBy = req.user!.email;
     const record = escalationManager.acknowledgeEscalation(req.params.incidentId, acknowledgedBy);
     if (!record) {
       res.status(404).json({ success: false, message: "Escalation record not found" });
       return;
     }
+    auditLog.recordRequest(req, {
+      action: "escalation.acknowledge",
+      target: { type: "incident", id: req.params.incidentId },
+      after: { acknowledged: true, policy: record.policy },
+    });
     res.json({ success: true, data: record, message: "Escalation acknowledged" });
   } catch (error) {
     logger.error({ error }, "Failed to acknowledge escalation");
@@ -55,13 +172,20 @@ router.get("/policies", async (_req: Request, res: Response) => {
   }
 });
 
-router.put("/policies/:id", async (req: Request, res: Response) => {
+router.put("/policies/:id", authorize("admin"), async (req: Request, res: Response) => {
   try {
+    const before = escalationManager.getPolicies().find((p) => p.id === req.params.id);
     const policy = escalationManager.updatePolicy(req.params.id, req.body);
     if (!policy) {
       res.status(404).json({ success: false, message: "Policy not found" });
       return;
     }
+    auditLog.recordRequest(req, {
+      action: "escalation-policy.update",
+      target: { type: "escalation-policy", id: policy.id },
+      before,
+      after: policy,
+    });
     res.json({ success: true, data: policy, message: "Policy updated" });
   } catch (error) {
     logger.error({ error }, "Failed to update escalation policy");
@@ -81,11 +205,13 @@ router.get("/stats", async (_req: Request, res: Response) => {
 
 router.get("/automation/status", async (_req: Request, res: Response) => {
   try {
-    const frozen = escalationManager.isAutomationFrozen();
+    const freezes = escalationManager.getActiveFreezes();
+    const frozen = freezes.length > 0;
     res.json({ 
       success: true, 
       data: { 
         frozen,
+        freezes,
         message: frozen ? "Automation is frozen - manual intervention required" : "Automation is active"
       } 
     });
@@ -95,14 +221,58 @@ router.get("/automation/status", async (_req: Request, res: Response) => {
   }
 });
 
-router.post("/automation/unfreeze", async (req: Request, res: Response) => {
+router.post("/automation/freeze", authorize("admin", "operator"), async (req: Request, res: Response) => {
   try {
-    const acknowledgedBy = req.body.acknowledgedBy || "system";
-    const unfrozen = escalationManager.unfreezeAutomation(acknowledgedBy);
+    const parseResult = freezeSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid freeze request",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const { reason, namespaces, categories, durationMinutes } = parseResult.data;
+    const freeze = escalationManager.freezeAutomation({
+      reason,
+      frozenBy: req.user!.email,
+      scope: { namespaces, categories: categories as IncidentCategory[] | undefined },
+      durationMinutes,
+    });
+    auditLog.recordRequest(req, {
+      action: "automation.freeze",
+      target: { type: "automation-freeze", id: freeze.id },
+      message: reason,
+      after: freeze,
+    });
+    res.status(201).json({ success: true, data: freeze, message: "Automation frozen" });
+  } catch (error) {
+    logger.error({ error }, "Failed to freeze automation");
+    res.status(500).json({ success: false, message: "Failed to freeze automation" });
+  }
+});
+
+router.post("/automation/unfreeze", authorize("admin", "operator"), async (req: Request, res: Response) => {
+  try {
+    const acknowledgedBy = req.user!.email;
+    const { freezeId, reason } = req.body;
+    const lifted = escalationManager.getActiveFreezes().filter((f) => !freezeId || f.id === freezeId);
+    const unfrozen = escalationManager.unfreezeAutomation(acknowledgedBy, freezeId, reason);
     if (!unfrozen) {
-      res.status(400).json({ success: false, message: "Automation was not frozen" });
+      res.status(400).json({
+        success: false,
+        message: freezeId ? "No active freeze with this id" : "Automation was not frozen",
+      });
       return;
     }
+    auditLog.recordRequest(req, {
+      action: "automation.unfreeze",
+      target: { type: "automation-freeze", id: freezeId ?? "all" },
+      message: reason,
+      before: { activeFreezes: lifted.map((f) => ({ id: f.id, reason: f.reason, frozenBy: f.frozenBy })) },
+      after: { activeFreezes: escalationManager.getActiveFreezes().map((f) => f.id) },
+    });
     res.json({ success: true, message: "Automation unfrozen" });
   } catch (error) {
     logger.error({ error }, "Failed to unfreeze automation");
@@ -110,6 +280,16 @@ router.post("/automation/unfreeze", async (req: Request, res: Response) => {
   }
 });
 
+router.get("/automation/history", async (_req: Request, res: Response) => {
+  try {
+    const history = escalationManager.getFreezeHistory();
+    res.json({ success: true, data: history });
+  } catch (error) {
+    logger.error({ error }, "Failed to get automation freeze history");
+    res.status(500).json({ success: false, message: "Failed to get automation freeze history" });
+  }
+});
+
 router.get("/notifications", async (req: Request, res: Response) => {
   try {
     const incidentId = req.query.incidentId as string | undefined;
@@ -131,4 +311,601 @@ router.get("/notifications/config", async (_req: Request, res: Response) => {
   }
 });
 
+router.put("/notifications/config/:channel", authorize("admin"), async (req: Request, res: Response) => {
+  try {
+    const channel = req.params.channel as NotificationChannel;
+    const { enabled, minSeverity, webhookUrl, recipients, digest } = req.body;
+    const current = notificationService.getConfigs().find((c) => c.channel === channel);
+    const before = current ? { ...current } : undefined;
+    const updated = notificationService.updateConfig(channel, { enabled, minSeverity, webhookUrl, recipients, digest });
+    if (!updated) {
+      res.status(404).json({ success: false, message: "Notification channel not found" });
+      return;
+    }
+    const channelConfig = notificationService.getConfigs().find((c) => c.channel === channel);
+    auditLog.recordRequest(req, {
+      action: "notification-config.update",
+      target: { type: "notification-channel", id: channel },
+      before,
+      after: channelConfig,
+    });
+    res.json({ success: true, data: channelConfig, message: "Notification config updated" });
+  } catch (error) {
+    logger.error({ error }, "Failed to update notification config");
+    res.status(500).json({ success: false, message: "Failed to update notification config" });
+  }
+});
+
+router.get("/notifications/batches", async (_req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: notificationBatcher.getPending() });
+  } catch (error) {
+    logger.error({ error }, "Failed to get notification batches");
+    res.status(500).json({ success: false, message: "Failed to get notification batches" });
+  }
+});
+
+router.post("/notifications/batches/flush", authorize("admin", "operator"), async (req: Request, res: Response) => {
+  try {
+    const pending = notificationBatcher.getPending();
+    const notifications = await notificationService.flushBatches(true);
+    auditLog.recordRequest(req, {
+      action: "notification-batches.flush",
+      target: { type: "notification-batches", id: "all" },
+      before: pending,
+      after: { sent: notifications.length },
+    });
+    res.json({ success: true, data: notifications, message: `${notifications.length} batches sent` });
+  } catch (error) {
+    logger.error({ error }, "Failed to flush notification batches");
+    res.status(500).json({ success: false, message: "Failed to flush notification batches" });
+  }
+});
+
+router.get("/notifications/templates", async (req: Request, res: Response) => {
+  try {
+    const channel = req.query.channel as NotificationChannel | undefined;
+    const templates = notificationTemplates.getTemplates(channel);
+    res.json({ success: true, data: templates });
+  } catch (error) {
+    logger.error({ error }, "Failed to get notification templates");
+    res.status(500).json({ success: false, message: "Failed to get notification templates" });
+  }
+});
+
+router.post("/notifications/templates/preview", async (req: Request, res: Response) => {
+  try {
+    const parseResult = templateSchema.omit({ name: true }).safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid template",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const incident = req.body.incidentId ? incidentDetector.getIncident(req.body.incidentId) : undefined;
+    if (req.body.incidentId && !incident) {
+      res.status(404).json({ success: false, message: "Incident not found" });
+      return;
+    }
+
+    const preview = notificationTemplates.preview({ ...parseResult.data, id: "draft" }, incident);
+    res.json({ success: true, data: preview });
+  } catch (error) {
+    logger.error({ error }, "Failed to preview notification template");
+    res.status(500).json({ success: false, message: "Failed to preview notification template" });
+  }
+});
+
+router.get("/notifications/templates/:id", async (req: Request, res: Response) => {
+  try {
+    const template = notificationTemplates.getTemplate(req.params.id);
+    if (!template) {
+      res.status(404).json({ success: false, message: "Template not found" });
+      return;
+    }
+    res.json({ success: true, data: template });
+  } catch (error) {
+    logger.error({ error }, "Failed to get notification template");
+    res.status(500).json({ success: false, message: "Failed to get notification template" });
+  }
+});
+
+router.post("/notifications/templates/:id/preview", async (req: Request, res: Response) => {
+  try {
+    const template = notificationTemplates.getTemplate(req.params.id);
+    if (!template) {
+      res.status(404).json({ success: false, message: "Template not found" });
+      return;
+    }
+
+    const incident = req.body.incidentId ? incidentDetector.getIncident(req.body.incidentId) : undefined;
+    if (req.body.incidentId && !incident) {
+      res.status(404).json({ success: false, message: "Incident not found" });
+      return;
+    }
+
+    const preview = notificationTemplates.preview(template, incident);
+    res.json({ success: true, data: preview });
+  } catch (error) {
+    logger.error({ error }, "Failed to preview notification template");
+    res.status(500).json({ success: false, message: "Failed to preview notification template" });
+  }
+});
+
+router.post("/notifications/templates", authorize("admin"), async (req: Request, res: Response) => {
+  try {
+    const parseResult = templateSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid template",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const { category, ...input } = parseResult.data;
+    const template = notificationTemplates.createTemplate({
+      ...input,
+      category: category as IncidentCategory | undefined,
+    });
+    auditLog.recordRequest(req, {
+      action: "notification-template.create",
+      target: { type: "notification-template", id: template.id },
+      after: template,
+    });
+    res.status(201).json({ success: true, data: template, message: "Template created" });
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      res.status(400).json({ success: false, message: error.message });
+      return;
+    }
+    logger.error({ error }, "Failed to create notification template");
+    res.status(500).json({ success: false, message: "Failed to create notification template" });
+  }
+});
+
+router.put("/notifications/templates/:id", authorize("admin"), async (req: Request, res: Response) => {
+  try {
+    const parseResult = templateSchema.partial().safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid template",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const { category, ...updates } = parseResult.data;
+    const before = notificationTemplates.getTemplate(req.params.id);
+    const template = notificationTemplates.updateTemplate(req.params.id, {
+      ...updates,
+      ...("category" in req.body ? { category: category as IncidentCategory | undefined } : {}),
+    });
+    if (!template) {
+      res.status(404).json({ success: false, message: "Template not found" });
+      return;
+    }
+    auditLog.recordRequest(req, {
+      action: "notification-template.update",
+      target: { type: "notification-template", id: template.id },
+      before,
+      after: template,
+    });
+    res.json({ success: true, data: template, message: "Template updated" });
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      res.status(400).json({ success: false, message: error.message });
+      return;
+    }
+    logger.error({ error }, "Failed to update notification template");
+    res.status(500).json({ success: false, message: "Failed to update notification template" });
+  }
+});
+
+router.delete("/notifications/templates/:id", authorize("admin"), async (req: Request, res: Response) => {
+  try {
+    const template = notificationTemplates.getTemplate(req.params.id);
+    const deleted = notificationTemplates.deleteTemplate(req.params.id);
+    if (!deleted) {
+      res.status(404).json({ success: false, message: "Template not found" });
+      return;
+    }
+    auditLog.recordRequest(req, {
+      action: template?.builtIn ? "notification-template.reset" : "notification-template.delete",
+      target: { type: "notification-template", id: req.params.id },
+      before: template,
+    });
+    res.json({
+      success: true,
+      message: template?.builtIn ? "Template reset to default" : "Template deleted",
+    });
+  } catch (error) {
+    logger.error({ error }, "Failed to delete notification template");
+    res.status(500).json({ success: false, message: "Failed to delete notification template" });
+  }
+});
+
+router.get("/notifications/routing/rules", async (_req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: notificationRouter.getRules() });
+  } catch (error) {
+    logger.error({ error }, "Failed to get routing rules");
+    res.status(500).json({ success: false, message: "Failed to get routing rules" });
+  }
+});
+
+router.post("/notifications/routing/rules", authorize("admin"), async (req: Request, res: Response) => {
+  try {
+    const parseResult = routingRuleSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid routing rule",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const { match, ...input } = parseResult.data;
+    const rule = notificationRouter.createRule({ ...input, match: match as RouteMatch });
+    auditLog.recordRequest(req, {
+      action: "routing-rule.create",
+      target: { type: "routing-rule", id: rule.id },
+      after: rule,
+    });
+    res.status(201).json({ success: true, data: rule, message: "Routing rule created" });
+  } catch (error) {
+    logger.error({ error }, "Failed to create routing rule");
+    res.status(500).json({ success: false, message: "Failed to create routing rule" });
+  }
+});
+
+router.put("/notifications/routing/rules/:id", authorize("admin"), async (req: Request, res: Response) => {
+  try {
+    const parseResult = routingRuleSchema.partial().safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid routing rule",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const { match, ...updates } = parseResult.data;
+    const before = notificationRouter.getRule(req.params.id);
+    const rule = notificationRouter.updateRule(req.params.id, {
+      ...updates,
+      ...(match ? { match: match as RouteMatch } : {}),
+    });
+    if (!rule) {
+      res.status(404).json({ success: false, message: "Routing rule not found" });
+      return;
+    }
+    auditLog.recordRequest(req, {
+      action: "routing-rule.update",
+      target: { type: "routing-rule", id: rule.id },
+      before,
+      after: rule,
+    });
+    res.json({ success: true, data: rule, message: "Routing rule updated" });
+  } catch (error) {
+    logger.error({ error }, "Failed to update routing rule");
+    res.status(500).json({ success: false, message: "Failed to update routing rule" });
+  }
+});
+
+router.delete("/notifications/routing/rules/:id", authorize("admin"), async (req: Request, res: Response) => {
+  try {
+    const before = notificationRouter.getRule(req.params.id);
+    if (!notificationRouter.deleteRule(req.params.id)) {
+      res.status(404).json({ success: false, message: "Routing rule not found" });
+      return;
+    }
+    auditLog.recordRequest(req, {
+      action: "routing-rule.delete",
+      target: { type: "routing-rule", id: req.params.id },
+      before,
+    });
+    res.json({ success: true, message: "Routing rule deleted" });
+  } catch (error) {
+    logger.error({ error }, "Failed to delete routing rule");
+    res.status(500).json({ success: false, message: "Failed to delete routing rule" });
+  }
+});
+
+router.get("/notifications/routing/windows", async (_req: Request, res: Response) => {
+  try {
+    const windows = notificationRouter.getWindows().map((window) => ({
+      ...window,
+      active: notificationRouter.isWindowActive(window),
+    }));
+    res.json({ success: true, data: windows });
+  } catch (error) {
+    logger.error({ error }, "Failed to get notification windows");
+    res.status(500).json({ success: false, message: "Failed to get notification windows" });
+  }
+});
+
+router.post("/notifications/routing/windows", authorize("admin"), async (req: Request, res: Response) => {
+  try {
+    const parseResult = notificationWindowSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid notification window",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const { match, ...input } = parseResult.data;
+    const window = notificationRouter.createWindow({ ...input, match: match as RouteMatch, createdBy: req.user!.email });
+    auditLog.recordRequest(req, {
+      action: "notification-window.create",
+      target: { type: "notification-window", id: window.id },
+      after: window,
+    });
+    res.status(201).json({ success: true, data: window, message: "Notification window created" });
+  } catch (error) {
+    logger.error({ error }, "Failed to create notification window");
+    res.status(500).json({ success: false, message: "Failed to create notification window" });
+  }
+});
+
+router.put("/notifications/routing/windows/:id", authorize("admin"), async (req: Request, res: Response) => {
+  try {
+    const existing = notificationRouter.getWindow(req.params.id);
+    if (!existing) {
+      res.status(404).json({ success: false, message: "Notification window not found" });
+      return;
+    }
+
+    // Validate the merged window so kind-specific fields stay consistent
+    const { id: _id, createdAt: _createdAt, ...current } = existing;
+    const parseResult = notificationWindowSchema.safeParse({ ...current, ...req.body });
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid notification window",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const { match, ...updates } = parseResult.data;
+    const window = notificationRouter.updateWindow(req.params.id, { ...updates, match: match as RouteMatch });
+    auditLog.recordRequest(req, {
+      action: "notification-window.update",
+      target: { type: "notification-window", id: req.params.id },
+      before: existing,
+      after: window,
+    });
+    res.json({ success: true, data: window, message: "Notification window updated" });
+  } catch (error) {
+    logger.error({ error }, "Failed to update notification window");
+    res.status(500).json({ success: false, message: "Failed to update notification window" });
+  }
+});
+
+router.delete("/notifications/routing/windows/:id", authorize("admin"), async (req: Request, res: Response) => {
+  try {
+    const before = notificationRouter.getWindow(req.params.id);
+    if (!notificationRouter.deleteWindow(req.params.id)) {
+      res.status(404).json({ success: false, message: "Notification window not found" });
+      return;
+    }
+    auditLog.recordRequest(req, {
+      action: "notification-window.delete",
+      target: { type: "notification-window", id: req.params.id },
+      before,
+    });
+    res.json({ success: true, message: "Notification window deleted" });
+  } catch (error) {
+    logger.error({ error }, "Failed to delete notification window");
+    res.status(500).json({ success: false, message: "Failed to delete notification window" });
+  }
+});
+
+router.post("/notifications/routing/test", async (req: Request, res: Response) => {
+  try {
+    const parseResult = routingTestSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid routing test",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const incident = incidentDetector.getIncident(parseResult.data.incidentId);
+    if (!incident) {
+      res.status(404).json({ success: false, message: "Incident not found" });
+      return;
+    }
+
+    const deliveries = await notificationService.planDeliveries(incident, parseResult.data.channels);
+    res.json({ success: true, data: deliveries });
+  } catch (error) {
+    logger.error({ error }, "Failed to test notification routing");
+    res.status(500).json({ success: false, message: "Failed to test notification routing" });
+  }
+});
+
+router.get("/oncall", async (req: Request, res: Response) => {
+  try {
+    const team = req.query.team as string | undefined;
+    const at = req.query.at ? new Date(req.query.at as string) : new Date();
+    if (isNaN(at.getTime())) {
+      res.status(400).json({ success: false, message: "Invalid at timestamp" });
+      return;
+    }
+
+    const onCall = onCallManager.getSchedules(team).map((schedule) => ({
+      scheduleId: schedule.id,
+      team: schedule.team,
+      name: schedule.name,
+      timezone: schedule.timezone,
+      ...onCallManager.whoIsOnCall(schedule, at),
+    }));
+    res.json({ success: true, data: onCall });
+  } catch (error) {
+    logger.error({ error }, "Failed to get on-call");
+    res.status(500).json({ success: false, message: "Failed to get on-call" });
+  }
+});
+
+router.get("/oncall/schedules", async (req: Request, res: Response) => {
+  try {
+    const team = req.query.team as string | undefined;
+    res.json({ success: true, data: onCallManager.getSchedules(team) });
+  } catch (error) {
+    logger.error({ error }, "Failed to get on-call schedules");
+    res.status(500).json({ success: false, message: "Failed to get on-call schedules" });
+  }
+});
+
+router.get("/oncall/schedules/:id", async (req: Request, res: Response) => {
+  try {
+    const schedule = onCallManager.getSchedule(req.params.id);
+    if (!schedule) {
+      res.status(404).json({ success: false, message: "Schedule not found" });
+      return;
+    }
+    res.json({ success: true, data: schedule });
+  } catch (error) {
+    logger.error({ error }, "Failed to get on-call schedule");
+    res.status(500).json({ success: false, message: "Failed to get on-call schedule" });
+  }
+});
+
+router.post("/oncall/schedules", authorize("admin"), async (req: Request, res: Response) => {
+  try {
+    const parseResult = onCallScheduleSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid schedule",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const schedule = onCallManager.createSchedule(parseResult.data);
+    auditLog.recordRequest(req, {
+      action: "oncall-schedule.create",
+      target: { type: "oncall-schedule", id: schedule.id },
+      after: schedule,
+    });
+    res.status(201).json({ success: true, data: schedule, message: "Schedule created" });
+  } catch (error) {
+    logger.error({ error }, "Failed to create on-call schedule");
+    res.status(500).json({ success: false, message: "Failed to create on-call schedule" });
+  }
+});
+
+router.put("/oncall/schedules/:id", authorize("admin"), async (req: Request, res: Response) => {
+  try {
+    const parseResult = onCallScheduleSchema.partial().safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid schedule",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const before = onCallManager.getSchedule(req.params.id);
+    const schedule = onCallManager.updateSchedule(req.params.id, parseResult.data);
+    if (!schedule) {
+      res.status(404).json({ success: false, message: "Schedule not found" });
+      return;
+    }
+    auditLog.recordRequest(req, {
+      action: "oncall-schedule.update",
+      target: { type: "oncall-schedule", id: schedule.id },
+      before,
+      after: schedule,
+    });
+    res.json({ success: true, data: schedule, message: "Schedule updated" });
+  } catch (error) {
+    logger.error({ error }, "Failed to update on-call schedule");
+    res.status(500).json({ success: false, message: "Failed to update on-call schedule" });
+  }
+});
+
+router.delete("/oncall/schedules/:id", authorize("admin"), async (req: Request, res: Response) => {
+  try {
+    const before = onCallManager.getSchedule(req.params.id);
+    if (!onCallManager.deleteSchedule(req.params.id)) {
+      res.status(404).json({ success: false, message: "Schedule not found" });
+      return;
+    }
+    auditLog.recordRequest(req, {
+      action: "oncall-schedule.delete",
+      target: { type: "oncall-schedule", id: req.params.id },
+      before,
+    });
+    res.json({ success: true, message: "Schedule deleted" });
+  } catch (error) {
+    logger.error({ error }, "Failed to delete on-call schedule");
+    res.status(500).json({ success: false, message: "Failed to delete on-call schedule" });
+  }
+});
+
+router.post("/oncall/schedules/:id/overrides", authorize("admin", "operator"), async (req: Request, res: Response) => {
+  try {
+    const parseResult = onCallOverrideSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid override",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const override = onCallManager.addOverride(req.params.id, { ...parseResult.data, createdBy: req.user!.email });
+    if (!override) {
+      res.status(404).json({ success: false, message: "Schedule not found" });
+      return;
+    }
+    auditLog.recordRequest(req, {
+      action: "oncall-override.create",
+      target: { type: "oncall-schedule", id: req.params.id },
+      after: override,
+    });
+    res.status(201).json({ success: true, data: override, message: "Override added" });
+  } catch (error) {
+    logger.error({ error }, "Failed to add on-call override");
+    res.status(500).json({ success: false, message: "Failed to add on-call override" });
+  }
+});
+
+router.delete("/oncall/schedules/:id/overrides/:overrideId", authorize("admin", "operator"), async (req: Request, res: Response) => {
+  try {
+    const before = onCallManager.getSchedule(req.params.id)?.overrides.find((o) => o.id === req.params.overrideId);
+    if (!onCallManager.removeOverride(req.params.id, req.params.overrideId)) {
+      res.status(404).json({ success: false, message: "Override not found" });
+      return;
+    }
+    auditLog.recordRequest(req, {
+      action: "oncall-override.delete",
+      target: { type: "oncall-schedule", id: req.params.id },
+      before,
+    });
+    res.json({ success: true, message: "Override removed" });
+  } catch (error) {
+    logger.error({ error }, "Failed to remove on-call override");
+    res.status(500).json({ success: false, message: "Failed to remove on-call override" });
+  }
+});
+
 export default router;
@@ -1,11 +1,104 @@
 import { Router, Request, Response } from "express";
+import { z } from "zod";
 import { healingRulesManager } from "../healing/rules.js";
 import { healingEngine } from "../healing/engine.js";
+import { approvalQueue, type ApprovalStatus } from "../healing/approvals.js";
+import { ruleConditionEvaluator, POD_METRICS, NODE_METRICS, type DryRunResult } from "../healing/conditions.js";
+import { healingAttempts } from "../healing/backoff.js";
+import { incidentDetector } from "../incidents/detector.js";
+import { authorize } from "../middleware/auth.js";
+import { auditLog } from "../audit/audit-log.js";
+import { canAccessNamespace, filterByNamespace } from "../auth/namespaces.js";
 import { createChildLogger } from "../utils/logger.js";
 
 const logger = createChildLogger("healing-api");
 const router = Router();
 
+const triggerSchema = z.object({
+  resourceType: z.enum(["pod", "node"]),
+  operator: z.enum(["AND", "OR"]).default("AND"),
+  conditions: z.array(z.object({
+    metric: z.string(),
+    operator: z.enum([">", "<", ">=", "<=", "==", "!="]),
+    value: z.number(),
+    duration: z.string().regex(/^(\d+(\.\d+)?\s*(s|m|h)?)?$/, "Duration must look like 30s, 5m or 1h").default(""),
+  })).min(1),
+}).superRefine((trigger, ctx) => {
+  const metrics: readonly string[] = trigger.resourceType === "pod" ? POD_METRICS : NODE_METRICS;
+  trigger.conditions.forEach((condition, index) => {
+    if (!metrics.includes(condition.metric)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["conditions", index, "metric"],
+        message: `Unknown ${trigger.resourceType} metric "${condition.metric}"`,
+      });
+    }
+  });
+});
+
+const selectorSchema = z.object({
+  namespaces: z.array(z.string().min(1)).optional(),
+  labels: z.record(z.string()).optional(),
+});
+
+const nonNegative = z.number().nonnegative().optional();
+
+// Numeric parameters the engine reads are checked; anything else passes through untouched
+const parametersSchema = z.object({
+  approvalTimeoutMinutes: z.number().positive().optional(),
+  backoffMultiplier: nonNegative,
+  maxBackoffSeconds: nonNegative,
+  retryWindowSeconds: nonNegative,
+  verificationWindowSeconds: nonNegative,
+  verificationIntervalSeconds: z.number().positive().optional(),
+  gracePeriodSeconds: nonNegative,
+  drainTimeoutSeconds: nonNegative,
+  // Negative to scale down
+  scaleBy: z.number().int().optional(),
+  minReplicas: z.number().int().nonnegative().optional(),
+  maxReplicas: z.number().int().nonnegative().optional(),
+  memoryIncreaseFactor: nonNegative,
+  cpuIncreaseFactor: nonNegative,
+  maxRetries: z.number().int().nonnegative().optional(),
+  backoffSeconds: nonNegative,
+  severity: z.enum(["low", "medium", "high", "critical"]).optional(),
+}).passthrough();
+
+const ruleSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().default(""),
+  enabled: z.boolean().default(true),
+  targetCategory: z.enum([
+    "oom-killed", "high-cpu", "high-memory", "crash-loop", "pod-throttling", "underutilization",
+    "node-eviction", "image-pull-delay", "buggy-deployment", "configmap-error", "db-failure",
+    "unknown-crash", "multi-service-failure", "node-not-ready", "node-pressure",
+  ]),
+  actionType: z.enum([
+    "restart-pod", "scale-deployment", "patch-memory", "patch-cpu", "cordon-node", "uncordon-node",
+    "drain-node", "retry-image-pull", "rollback-deployment", "notify", "no-action",
+  ]),
+  parameters: parametersSchema.default({}),
+  trigger: triggerSchema.optional(),
+  selector: selectorSchema.optional(),
+  cooldownSeconds: z.number().int().nonnegative().default(300),
+  maxRetries: z.number().int().nonnegative().default(3),
+});
+
+const dryRunSchema = z.object({
+  name: z.string().default("Draft rule"),
+  trigger: triggerSchema,
+  selector: selectorSchema.optional(),
+});
+
+/** Dry-run matches in namespaces the caller may see; node matches count as the "cluster" namespace. */
+function scopeDryRun(req: Request, result: DryRunResult): DryRunResult {
+  return {
+    ...result,
+    wouldFire: filterByNamespace(req, result.wouldFire, (m) => m.namespace),
+    pending: filterByNamespace(req, result.pending, (m) => m.namespace),
+  };
+}
+
 router.get("/rules", async (_req: Request, res: Response) => {
   try {
     const rules = healingRulesManager.getRules();
@@ -30,9 +123,64 @@ router.get("/rules/:id", async (req: Request, res: Response) => {
   }
 });
 
-router.post("/rules", async (req: Request, res: Response) => {
+router.post("/rules/dry-run", async (req: Request, res: Response) => {
+  try {
+    const parseResult = dryRunSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid rule conditions",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const result = await ruleConditionEvaluator.dryRun(parseResult.data);
+    res.json({ success: true, data: scopeDryRun(req, result) });
+  } catch (error) {
+    logger.error({ error }, "Failed to dry-run healing rule");
+    res.status(500).json({ success: false, message: "Failed to dry-run healing rule" });
+  }
+});
+
+router.post("/rules/:id/dry-run", async (req: Request, res: Response) => {
   try {
-    const rule = healingRulesManager.createRule(req.body);
+    const rule = healingRulesManager.getRule(req.params.id);
+    if (!rule) {
+      res.status(404).json({ success: false, message: "Rule not found" });
+      return;
+    }
+    if (!rule.trigger?.conditions.length) {
+      res.status(400).json({ success: false, message: "Rule has no trigger conditions" });
+      return;
+    }
+
+    const result = await ruleConditionEvaluator.dryRun(rule);
+    res.json({ success: true, data: scopeDryRun(req, result) });
+  } catch (error) {
+    logger.error({ error }, "Failed to dry-run healing rule");
+    res.status(500).json({ success: false, message: "Failed to dry-run healing rule" });
+  }
+});
+
+router.post("/rules", authorize("admin"), async (req: Request, res: Response) => {
+  try {
+    const parseResult = ruleSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid healing rule",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const rule = healingRulesManager.createRule(parseResult.data);
+    auditLog.recordRequest(req, {
+      action: "healing-rule.create",
+      target: { type: "healing-rule", id: rule.id },
+      after: rule,
+    });
     res.status(201).json({ success: true, data: rule, message: "Rule created" });
   } catch (error) {
     logger.error({ error }, "Failed to create healing rule");
@@ -40,13 +188,32 @@ router.post("/rules", async (req: Request, res: Response) => {
   }
 });
 
-router.put("/rules/:id", async (req: Request, res: Response) => {
+router.put("/rules/:id", authorize("admin"), async (req: Request, res: Response) => {
   try {
-    const rule = healingRulesManager.updateRule(req.params.id, req.body);
+    const parseResult = ruleSchema.partial().safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid healing rule",
+        errors: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const before = healingRulesManager.getRule(req.params.id);
+    const rule = healingRulesManager.updateRule(req.params.id, parseResult.data);
     if (!rule) {
       res.status(404).json({ success: false, message: "Rule not found" });
       return;
     }
+    auditLog.recordRequest(req, {
+      action: "healing-rule.update",
+      target: { type: "healing-rule", id: rule.id },
+      before,
+      after: rule,
+    });
+    // Conditions may have changed, so held durations start over
+    ruleConditionEvaluator.forgetRule(rule.id);
     res.json({ success: true, data: rule, message: "Rule updated" });
   } catch (error) {
     logger.error({ error }, "Failed to update healing rule");
@@ -54,13 +221,21 @@ router.put("/rules/:id", async (req: Request, res: Response) => {
   }
 });
 
-router.delete("/rules/:id", async (req: Request, res: Response) => {
+router.delete("/rules/:id", authorize("admin"), async (req: Request, res: Response) => {
   try {
+    const before = healingRulesManager.getRule(req.params.id);
     const deleted = healingRulesManager.deleteRule(req.params.id);
     if (!deleted) {
       res.status(404).json({ success: false, message: "Rule not found" });
       return;
     }
+    auditLog.recordRequest(req, {
+      action: "healing-rule.delete",
+      target: { type: "healing-rule", id: req.params.id },
+      before,
+    });
+    ruleConditionEvaluator.forgetRule(req.params.id);
+    healingAttempts.forgetRule(req.params.id);
     res.json({ success: true, message: "Rule deleted" });
   } catch (error) {
     logger.error({ error }, "Failed to delete healing rule");
@@ -68,13 +243,20 @@ router.delete("/rules/:id", async (req: Request, res: Response) => {
   }
 });
 
-router.post("/rules/:id/toggle", async (req: Request, res: Response) => {
+router.post("/rules/:id/toggle", authorize("admin"), async (req: Request, res: Response) => {
   try {
+    const wasEnabled = healingRulesManager.getRule(req.params.id)?.enabled;
     const rule = healingRulesManager.toggleRule(req.params.id);
     if (!rule) {
       res.status(404).json({ success: false, message: "Rule not found" });
       return;
     }
+    auditLog.recordRequest(req, {
+      action: "healing-rule.toggle",
+      target: { type: "healing-rule", id: rule.id },
+      before: { enabled: wasEnabled },
+      after: { enabled: rule.enabled },
+    });
     res.json({ success: true, data: rule, message: `Rule ${rule.enabled ? "enabled" : "disabled"}` });
   } catch (error) {
     logger.error({ error }, "Failed to toggle healing rule");
@@ -85,7 +267,7 @@ router.post("/rules/:id/toggle", async (req: Request, res: Response) => {
 router.get("/events", async (req: Request, res: Response) => {
   try {
     const limit = parseInt(req.query.limit as string) || 100;
-    const events = healingRulesManager.getEvents(limit);
+    const events = filterByNamespace(req, healingRulesManager.getEvents(Infinity), (e) => e.targetNamespace).slice(0, limit);
     res.json({ success: true, data: events });
   } catch (error) {
     logger.error({ error }, "Failed to get healing events");
@@ -93,9 +275,21 @@ router.get("/events", async (req: Request, res: Response) => {
   }
 });
 
-router.post("/manual/:incidentId", async (req: Request, res: Response) => {
+router.post("/manual/:incidentId", authorize("admin", "operator"), async (req: Request, res: Response) => {
   try {
+    const incident = incidentDetector.getIncident(req.params.incidentId);
+    if (incident && !canAccessNamespace(req, incident.namespace)) {
+      res.status(403).json({ success: false, message: `No access to namespace ${incident.namespace}` });
+      return;
+    }
     const result = await healingEngine.manualHeal(req.params.incidentId);
+    auditLog.recordRequest(req, {
+      action: "healing.manual",
+      target: { type: "incident", id: req.params.incidentId, namespace: incident?.namespace },
+      outcome: result.success ? "success" : "failure",
+      message: result.message,
+      after: { action: result.action },
+    });
     res.json({ success: result.success, data: result, message: result.message });
   } catch (error) {
     logger.error({ error }, "Failed to execute manual healing");
@@ -103,6 +297,93 @@ router.post("/manual/:incidentId", async (req: Request, res: Response) => {
   }
 });
 
+router.get("/approvals", async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status as ApprovalStatus | undefined;
+    const approvals = filterByNamespace(req, approvalQueue.getApprovals(status), (a) => a.targetNamespace);
+    res.json({ success: true, data: approvals });
+  } catch (error) {
+    logger.error({ error }, "Failed to get approval requests");
+    res.status(500).json({ success: false, message: "Failed to get approval requests" });
+  }
+});
+
+router.get("/approvals/:id", async (req: Request, res: Response) => {
+  try {
+    const approval = approvalQueue.getApproval(req.params.id);
+    if (!approval || !canAccessNamespace(req, approval.targetNamespace)) {
+      res.status(404).json({ success: false, message: "Approval request not found" });
+      return;
+    }
+    res.json({ success: true, data: approval });
+  } catch (error) {
+    logger.error({ error }, "Failed to get approval request");
+    res.status(500).json({ success: false, message: "Failed to get approval request" });
+  }
+});
+
+router.post("/approvals/:id/approve", authorize("admin", "operator"), async (req: Request, res: Response) => {
+  try {
+    const pending = approvalQueue.getApproval(req.params.id);
+    if (pending && !canAccessNamespace(req, pending.targetNamespace)) {
+      res.status(403).json({ success: false, message: `No access to namespace ${pending.targetNamespace}` });
+      return;
+    }
+    const outcome = await healingEngine.approveAndExecute(req.params.id, req.user!.email);
+    if (!outcome) {
+      res.status(404).json({ success: false, message: "No pending approval request with this id" });
+      return;
+    }
+    auditLog.recordRequest(req, {
+      action: "approval.approve",
+      target: { type: "approval", id: outcome.approval.id, namespace: outcome.approval.targetNamespace },
+      outcome: outcome.result.success ? "success" : "failure",
+      message: outcome.result.message,
+      before: { status: "pending" },
+      after: { status: outcome.approval.status, action: outcome.approval.action, resource: outcome.approval.targetResource },
+    });
+    res.json({
+      success: outcome.result.success,
+      data: { approval: outcome.approval, result: outcome.result },
+      message: outcome.result.message,
+    });
+  } catch (error) {
+    logger.error({ error }, "Failed to approve healing action");
+    res.status(500).json({ success: false, message: "Failed to approve healing action" });
+  }
+});
+
+router.post("/approvals/:id/reject", authorize("admin", "operator"), async (req: Request, res: Response) => {
+  try {
+    const { reason } = req.body;
+    if (!reason || typeof reason !== "string") {
+      res.status(400).json({ success: false, message: "A rejection reason is required" });
+      return;
+    }
+    const pending = approvalQueue.getApproval(req.params.id);
+    if (pending && !canAccessNamespace(req, pending.targetNamespace)) {
+      res.status(403).json({ success: false, message: `No access to namespace ${pending.targetNamespace}` });
+      return;
+    }
+    const approval = approvalQueue.reject(req.params.id, req.user!.email, reason);
+    if (!approval) {
+      res.status(404).json({ success: false, message: "No pending approval request with this id" });
+      return;
+    }
+    auditLog.recordRequest(req, {
+      action: "approval.reject",
+      target: { type: "approval", id: approval.id, namespace: approval.targetNamespace },
+      message: reason,
+      before: { status: "pending" },
+      after: { status: approval.status, action: approval.action, resource: approval.targetResource },
+    });
+    res.json({ success: true, data: approval, message: "Healing action rejected, incident escalated" });
+  } catch (error) {
+    logger.error({ error }, "Failed to reject healing action");
+    res.status(500).json({ success: false, message: "Failed to reject healing action" });
+  }
+});
+
 router.get("/status", async (_req: Request, res: Response) => {
   try {
     const enabled = healingEngine.enabled;
@@ -113,15 +394,22 @@ router.get("/status", async (_req: Request, res: Response) => {
   }
 });
 
-router.post("/toggle", async (req: Request, res: Response) => {
+router.post("/toggle", authorize("admin"), async (req: Request, res: Response) => {
   try {
     const { enabled } = req.body;
+    const wasEnabled = healingEngine.enabled;
     if (typeof enabled === "boolean") {
       healingEngine.setEnabled(enabled);
     } else {
       healingEngine.setEnabled(!healingEngine.enabled);
     }
     const newStatus = healingEngine.enabled;
+    auditLog.recordRequest(req, {
+      action: "healing.toggle",
+      target: { type: "healing-engine", id: "global" },
+      before: { enabled: wasEnabled },
+      after: { enabled: newStatus },
+    });
     res.json({ success: true, data: { enabled: newStatus }, message: `Healing ${newStatus ? "enabled" : "disabled"}` });
   } catch (error) {
     logger.error({ error }, "Failed to toggle healing");
@@ -129,13 +417,13 @@ router.post("/toggle", async (req: Request, res: Response) => {
   }
 });
 
-router.get("/stats", async (_req: Request, res: Response) => {
+router.get("/stats", async (req: Request, res: Response) => {
   try {
-    const events = healingRulesManager.getEvents(1000);
+    const events = filterByNamespace(req, healingRulesManager.getEvents(1000), (e) => e.targetNamespace);
     const totalActions = events.length;
     const successfulActions = events.filter(e => e.status === "success").length;
     const failedActions = events.filter(e => e.status === "failed").length;
-    const skippedActions = events.filter(e => e.status === "in-progress").length;
+    const skippedActions = events.filter(e => e.status === "skipped").length;
     
     const successfulEvents = events.filter(e => e.status === "success");
     const avgRecoveryTime = successfulEvents.length > 0
@@ -170,7 +458,7 @@ router.get("/activity", async (req: Request, res: Response) => {
     const limit = parseInt(req.query.limit as string) || 50;
     const filter = req.query.filter as string || "all";
     
-    let events = healingRulesManager.getEvents(1000);
+    let events = filterByNamespace(req, healingRulesManager.getEvents(1000), (e) => e.targetNamespace);
     
     if (filter !== "all") {
       const filterMap: Record<string, string[]> = {
@@ -214,6 +502,7 @@ function getOutcomeLabel(status: string): string {
     case "success": return "Success";
     case "failed": return "Failed (Manual intervention required)";
     case "in-progress": return "In Progress";
+    case "skipped": return "Skipped (Automation frozen)";
     default: return "Skipped (Cooldown active)";
   }
 }
@@ -1,15 +1,30 @@
 import { Router, Request, Response } from "express";
 import { incidentDetector } from "../incidents/detector.js";
+import { workloadOf } from "../incidents/correlation.js";
 import { incidentSummaryService } from "../services/incident-summary.service.js";
+import { authorize } from "../middleware/auth.js";
+import { auditLog } from "../audit/audit-log.js";
+import { canAccessNamespace, filterByNamespace } from "../auth/namespaces.js";
 import { createChildLogger } from "../utils/logger.js";
 
 const logger = createChildLogger("incidents-api");
 const router = Router();
 
+/** Incidents outside the user's namespaces are reported as not found. */
+function visibleIncident(req: Request, id: string) {
+  const incident = incidentDetector.getIncident(id);
+  return incident && canAccessNamespace(req, incident.namespace) ? incident : undefined;
+}
+
 router.get("/", async (req: Request, res: Response) => {
   try {
     const status = req.query.status as string | undefined;
-    const incidents = incidentDetector.getIncidents(status as Parameters<typeof incidentDetector.getIncidents>[0]);
+    const workload = req.query.workload as string | undefined;
+    const incidents = filterByNamespace(
+      req,
+      incidentDetector.getIncidents(status as Parameters<typeof incidentDetector.getIncidents>[0]),
+      (i) => i.namespace
+    ).filter((i) => !workload || workloadOf(i) === workload);
     res.json({ success: true, data: incidents });
   } catch (error) {
     logger.error({ error }, "Failed to get incidents");
@@ -17,9 +32,9 @@ router.get("/", async (req: Request, res: Response) => {
   }
 });
 
-router.get("/stats", async (_req: Request, res: Response) => {
+router.get("/stats", async (req: Request, res: Response) => {
   try {
-    const stats = incidentDetector.getStats();
+    const stats = incidentDetector.getStats(req.user?.namespaces);
     res.json({ success: true, data: stats });
   } catch (error) {
     logger.error({ error }, "Failed to get incident stats");
@@ -29,6 +44,10 @@ router.get("/stats", async (_req: Request, res: Response) => {
 
 router.get("/:id/summary", async (req: Request, res: Response) => {
   try {
+    if (!visibleIncident(req, req.params.id)) {
+      res.status(404).json({ success: false, message: "Incident not found" });
+      return;
+    }
     const summary = await incidentSummaryService.generateSummary(req.params.id);
     res.json({ success: true, data: summary });
   } catch (error) {
@@ -39,6 +58,10 @@ router.get("/:id/summary", async (req: Request, res: Response) => {
 
 router.get("/:id/logs", async (req: Request, res: Response) => {
   try {
+    if (!visibleIncident(req, req.params.id)) {
+      res.status(404).json({ success: false, message: "Incident not found" });
+      return;
+    }
     const logs = await incidentSummaryService.getIncidentLogs(req.params.id);
     res.json({ success: true, data: logs });
   } catch (error) {
@@ -49,25 +72,45 @@ router.get("/:id/logs", async (req: Request, res: Response) => {
 
 router.get("/:id", async (req: Request, res: Response) => {
   try {
-    const incident = incidentDetector.getIncident(req.params.id);
-    if (!incident) {
+    const tree = visibleIncident(req, req.params.id) && incidentDetector.getIncidentTree(req.params.id);
+    if (!tree) {
       res.status(404).json({ success: false, message: "Incident not found" });
       return;
     }
-    res.json({ success: true, data: incident });
+    const { incident, parent, children } = tree;
+    res.json({
+      success: true,
+      data: {
+        ...incident,
+        parent: parent && canAccessNamespace(req, parent.namespace) ? parent : undefined,
+        children: filterByNamespace(req, children, (i) => i.namespace),
+      },
+    });
   } catch (error) {
     logger.error({ error }, "Failed to get incident");
     res.status(500).json({ success: false, message: "Failed to get incident" });
   }
 });
 
-router.post("/:id/acknowledge", async (req: Request, res: Response) => {
+router.post("/:id/acknowledge", authorize("admin", "operator"), async (req: Request, res: Response) => {
   try {
+    const existing = visibleIncident(req, req.params.id);
+    if (!existing) {
+      res.status(404).json({ success: false, message: "Incident not found" });
+      return;
+    }
+    const previous = existing.status;
     const incident = incidentDetector.acknowledgeIncident(req.params.id);
     if (!incident) {
       res.status(404).json({ success: false, message: "Incident not found" });
       return;
     }
+    auditLog.recordRequest(req, {
+      action: "incident.acknowledge",
+      target: { type: "incident", id: incident.id, namespace: incident.namespace },
+      before: { status: previous },
+      after: { status: incident.status },
+    });
     res.json({ success: true, data: incident, message: "Incident acknowledged" });
   } catch (error) {
     logger.error({ error }, "Failed to acknowledge incident");
@@ -75,13 +118,25 @@ router.post("/:id/acknowledge", async (req: Request, res: Response) => {
   }
 });
 
-router.post("/:id/resolve", async (req: Request, res: Response) => {
+router.post("/:id/resolve", authorize("admin", "operator"), async (req: Request, res: Response) => {
   try {
+    const existing = visibleIncident(req, req.params.id);
+    if (!existing) {
+      res.status(404).json({ success: false, message: "Incident not found" });
+      return;
+    }
+    const previous = existing.status;
     const incident = incidentDetector.resolveIncident(req.params.id);
     if (!incident) {
       res.status(404).json({ success: false, message: "Incident not found" });
       return;
     }
+    auditLog.recordRequest(req, {
+      action: "incident.resolve",
+      target: { type: "incident", id: incident.id, namespace: incident.namespace },
+      before: { status: previous },
+      after: { status: incident.status },
+    });
     res.json({ success: true, data: incident, message: "Incident resolved" });
   } catch (error) {
     logger.error({ error }, "Failed to resolve incident");
@@ -89,9 +144,16 @@ router.post("/:id/resolve", async (req: Request, res: Response) => {
   }
 });
 
-router.post("/clear", async (_req: Request, res: Response) => {
+router.post("/clear", authorize("admin"), async (req: Request, res: Response) => {
   try {
+    const cleared = incidentDetector.getIncidents().length;
     incidentDetector.clearHistory();
+    auditLog.recordRequest(req, {
+      action: "incidents.clear",
+      target: { type: "incident-history", id: "all" },
+      before: { incidents: cleared },
+      after: { incidents: 0 },
+    });
     res.json({ success: true, message: "Incident history cleared" });
   } catch (error) {
     logger.error({ error }, "Failed to clear incident history");
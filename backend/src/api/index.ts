@@ -5,3 +5,8 @@ export { default as escalationRouter } from "./escalation.api.js";
 export { default as simulatorRouter } from "./simulator.api.js";
 export { default as clusterRouter } from "./cluster.api.js";
 export { default as timelineRouter } from "./timeline.api.js";
+export { default as costRouter } from "./cost.api.js";
+export { default as overviewRouter } from "./overview.api.js";
+export { default as authRouter } from "./auth.api.js";
+export { default as responderActionsRouter } from "./responder-actions.api.js";
+export { default as auditRouter } from "./audit.api.js";
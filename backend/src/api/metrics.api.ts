@@ -3,6 +3,7 @@ import { collectNodeMetrics } from "../metrics/node.metrics.js";
 import { collectPodMetrics } from "../metrics/pod.metrics.js";
 import { collectClusterMetrics } from "../metrics/cluster.metrics.js";
 import { prometheusCollector } from "../metrics/prometheus.collector.js";
+import { filterByNamespace } from "../auth/namespaces.js";
 import { createChildLogger } from "../utils/logger.js";
 
 const logger = createChildLogger("metrics-api");
@@ -22,7 +23,7 @@ router.get("/pods", async (req: Request, res: Response) => {
   try {
     const namespace = req.query.namespace as string | undefined;
     const metrics = await collectPodMetrics(namespace);
-    res.json({ success: true, data: metrics });
+    res.json({ success: true, data: filterByNamespace(req, metrics, (pod) => pod.namespace) });
   } catch (error) {
     logger.error({ error }, "Failed to get pod metrics");
     res.status(500).json({ success: false, message: "Failed to get pod metrics" });
@@ -55,6 +56,31 @@ router.get("/query", async (req: Request, res: Response) => {
   }
 });
 
+router.get("/query_range", async (req: Request, res: Response) => {
+  try {
+    const { query, start, end, step } = req.query;
+    
+    if (!query || !start || !end || !step) {
+      res.status(400).json({ 
+        success: false, 
+        message: "Required parameters: query, start, end, step" 
+      });
+      return;
+    }
+    
+    const result = await prometheusCollector.queryRange(
+      query as string,
+      parseFloat(start as string),
+      parseFloat(end as string),
+      step as string
+    );
+    res.json({ success: true, data: result });
+  } catch (error) {
+    logger.error({ error }, "Failed to execute Prometheus range query");
+    res.status(500).json({ success: false, message: "Failed to execute range query" });
+  }
+});
+
 router.get("/status", async (_req: Request, res: Response) => {
   try {
     const connected = await prometheusCollector.checkConnection();
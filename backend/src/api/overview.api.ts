@@ -2,15 +2,16 @@ import { Router } from "express";
 import { overviewService } from "../services/overview.service.js";
 import { collectNodeMetrics } from "../metrics/node.metrics.js";
 import { prometheusService } from "../services/prometheus.service.js";
+import { filterByNamespace } from "../auth/namespaces.js";
 import { createChildLogger } from "../utils/logger.js";
 
-const logger = createChildLogger("overview-routes");
+const logger = createChildLogger("overview-api");
 const router = Router();
 
 router.get("/", async (req, res, next) => {
   try {
     const overview = await overviewService.getClusterOverview();
-    res.json({ success: true, data: overview });
+    res.json({ success: true, data: overviewService.scopeToNamespaces(overview, req.user?.namespaces) });
   } catch (error) {
     logger.error({ error }, "Failed to get cluster overview");
     next(error);
@@ -49,7 +50,7 @@ router.get("/nodes", async (req, res, next) => {
 router.get("/oom-warnings", async (req, res, next) => {
   try {
     const podMetrics = await prometheusService.getPodMetrics();
-    const oomWarnings = podMetrics
+    const oomWarnings = filterByNamespace(req, podMetrics, (pod) => pod.namespace)
       .filter((pod) => pod.timeToOomSeconds !== undefined && pod.timeToOomSeconds < 300)
       .map((pod) => ({
         podName: pod.podName,
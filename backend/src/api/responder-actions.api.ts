@@ -0,0 +1,156 @@
+import express, { Router, Request, Response } from "express";
+import {
+  ActionTokenError,
+  consumeActionToken,
+  verifyActionToken,
+  verifySlackSignature,
+  RESPONDER_ACTIONS,
+} from "../escalation/action-links.js";
+import { performResponderAction } from "../escalation/responder.js";
+import { sendSlackResponse } from "../escalation/senders.js";
+import type { ResponderAction } from "../escalation/escalation.manager.js";
+import { incidentDetector } from "../incidents/detector.js";
+import { createChildLogger } from "../utils/logger.js";
+
+// Responders reach these from notifications without signing in: action links
+// carry their own signature and Slack signs its requests, so the router is
+// mounted ahead of authentication
+const logger = createChildLogger("responder-actions-api");
+const router = Router();
+
+const ACTION_VERBS: Record<ResponderAction, string> = {
+  acknowledge: "Acknowledge",
+  resolve: "Resolve",
+  heal: "Run healing for",
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function actionPage(title: string, body: string): string {
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>` +
+    `<body><h1>${escapeHtml(title)}</h1>${body}</body></html>`;
+}
+
+// Slack signs the exact bytes it sent, so the interaction route keeps the raw body
+const slackBodyParser = express.urlencoded({
+  extended: false,
+  verify: (req, _res, buffer) => {
+    (req as Request & { rawBody?: string }).rawBody = buffer.toString("utf8");
+  },
+});
+
+/**
+ * Landing page for a signed action link. Links are only acted on by the POST
+ * below, so mail scanners and link previews that fetch them change nothing.
+ */
+router.get("/actions/:token", async (req: Request, res: Response) => {
+  try {
+    const payload = verifyActionToken(req.params.token);
+    const incident = incidentDetector.getIncident(payload.incidentId);
+    if (!incident) {
+      res.status(404).send(actionPage("Incident not found", "<p>The incident no longer exists.</p>"));
+      return;
+    }
+
+    const nameField = payload.responder
+      ? `<p>Acting as ${escapeHtml(payload.responder)}</p>`
+      : `<p><label>Your name <input name="responder" required></label></p>`;
+    res.send(actionPage(
+      `${ACTION_VERBS[payload.action]} incident?`,
+      `<p>${escapeHtml(incident.title)} (${escapeHtml(incident.status)})</p>` +
+        `<form method="post">${nameField}<button type="submit">${ACTION_VERBS[payload.action]} incident</button></form>`
+    ));
+  } catch (error) {
+    if (error instanceof ActionTokenError) {
+      res.status(400).send(actionPage("Link not valid", `<p>${escapeHtml(error.message)}</p>`));
+      return;
+    }
+    logger.error({ error }, "Failed to load action link");
+    res.status(500).send(actionPage("Something went wrong", "<p>Failed to load action link</p>"));
+  }
+});
+
+router.post("/actions/:token", express.urlencoded({ extended: false }), async (req: Request, res: Response) => {
+  const wantsJson = req.accepts(["html", "json"]) === "json";
+  try {
+    const payload = consumeActionToken(req.params.token);
+    const responder = payload.responder ?? (typeof req.body?.responder === "string" ? req.body.responder.trim() : "");
+    if (!responder) {
+      res.status(400).json({ success: false, message: "responder is required" });
+      return;
+    }
+
+    const result = await performResponderAction(payload.incidentId, payload.action, responder, "link");
+    const status = result.incident ? (result.success ? 200 : 409) : 404;
+    if (wantsJson) {
+      res.status(status).json({ success: result.success, data: result.incident, message: result.message });
+    } else {
+      res.status(status).send(actionPage(result.success ? "Done" : "Not done", `<p>${escapeHtml(result.message)}</p>`));
+    }
+  } catch (error) {
+    if (error instanceof ActionTokenError) {
+      if (wantsJson) {
+        res.status(400).json({ success: false, message: error.message });
+      } else {
+        res.status(400).send(actionPage("Link not valid", `<p>${escapeHtml(error.message)}</p>`));
+      }
+      return;
+    }
+    logger.error({ error }, "Failed to perform action link");
+    res.status(500).json({ success: false, message: "Failed to perform action" });
+  }
+});
+
+/**
+ * Slack interactivity endpoint for the buttons on incident messages. Slack
+ * expects an answer within three seconds, so the action runs after the reply
+ * and its outcome is posted back to the message's thread.
+ */
+router.post("/slack/interactions", slackBodyParser, async (req: Request, res: Response) => {
+  try {
+    const rawBody = (req as Request & { rawBody?: string }).rawBody ?? "";
+    const valid = verifySlackSignature(
+      rawBody,
+      req.header("X-Slack-Request-Timestamp"),
+      req.header("X-Slack-Signature")
+    );
+    if (!valid) {
+      res.status(401).json({ success: false, message: "Invalid Slack signature" });
+      return;
+    }
+
+    const payload = JSON.parse(req.body.payload ?? "{}");
+    const button = (payload.actions ?? []).find((a: { action_id?: string }) => a.action_id?.startsWith("octrix_"));
+    const action = button?.action_id.replace("octrix_", "") as ResponderAction;
+    if (payload.type !== "block_actions" || !button || !RESPONDER_ACTIONS.includes(action)) {
+      res.status(200).send();
+      return;
+    }
+
+    res.status(200).send();
+
+    const user = payload.user ?? {};
+    const responder = user.name || user.username || user.id || "slack";
+    const result = await performResponderAction(button.value, action, responder, "slack");
+    if (payload.response_url) {
+      const text = `${result.success ? ":white_check_mark:" : ":warning:"} ${result.message}`;
+      await sendSlackResponse(payload.response_url, text).catch((error) => {
+        logger.warn({ error }, "Failed to post Slack action response");
+      });
+    }
+  } catch (error) {
+    logger.error({ error }, "Failed to handle Slack interaction");
+    if (!res.headersSent) {
+      res.status(500).json({ success: false, message: "Failed to handle Slack interaction" });
+    }
+  }
+});
+
+export default router;
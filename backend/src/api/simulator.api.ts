@@ -1,6 +1,9 @@
 import { Router, Request, Response } from "express";
 import { scenarioManager } from "../simulators/scenarios.js";
 import { simulationRunner } from "../simulators/runner.js";
+import { authorize } from "../middleware/auth.js";
+import { auditLog } from "../audit/audit-log.js";
+import { canAccessNamespace, filterByNamespace } from "../auth/namespaces.js";
 import { createChildLogger } from "../utils/logger.js";
 import { z } from "zod";
 
@@ -38,9 +41,14 @@ router.get("/scenarios/:id", async (req: Request, res: Response) => {
   }
 });
 
-router.post("/scenarios", async (req: Request, res: Response) => {
+router.post("/scenarios", authorize("admin", "operator"), async (req: Request, res: Response) => {
   try {
     const scenario = scenarioManager.createScenario(req.body);
+    auditLog.recordRequest(req, {
+      action: "scenario.create",
+      target: { type: "scenario", id: scenario.id },
+      after: scenario,
+    });
     res.status(201).json({ success: true, data: scenario, message: "Scenario created" });
   } catch (error) {
     logger.error({ error }, "Failed to create scenario");
@@ -48,13 +56,19 @@ router.post("/scenarios", async (req: Request, res: Response) => {
   }
 });
 
-router.delete("/scenarios/:id", async (req: Request, res: Response) => {
+router.delete("/scenarios/:id", authorize("admin", "operator"), async (req: Request, res: Response) => {
   try {
+    const before = scenarioManager.getScenario(req.params.id);
     const deleted = scenarioManager.deleteScenario(req.params.id);
     if (!deleted) {
       res.status(404).json({ success: false, message: "Scenario not found" });
       return;
     }
+    auditLog.recordRequest(req, {
+      action: "scenario.delete",
+      target: { type: "scenario", id: req.params.id },
+      before,
+    });
     res.json({ success: true, message: "Scenario deleted" });
   } catch (error) {
     logger.error({ error }, "Failed to delete scenario");
@@ -62,7 +76,7 @@ router.delete("/scenarios/:id", async (req: Request, res: Response) => {
   }
 });
 
-router.post("/scenarios/:id/start", async (req: Request, res: Response) => {
+router.post("/scenarios/:id/start", authorize("admin", "operator"), async (req: Request, res: Response) => {
   try {
     const parseResult = startSimulationSchema.safeParse(req.body);
     if (!parseResult.success) {
@@ -75,6 +89,10 @@ router.post("/scenarios/:id/start", async (req: Request, res: Response) => {
     }
 
     const { targetNamespace, targetResource, duration } = parseResult.data;
+    if (!canAccessNamespace(req, targetNamespace)) {
+      res.status(403).json({ success: false, message: `No access to namespace ${targetNamespace}` });
+      return;
+    }
     const run = await simulationRunner.startSimulation(
       req.params.id,
       targetNamespace,
@@ -82,10 +100,21 @@ router.post("/scenarios/:id/start", async (req: Request, res: Response) => {
       duration,
       parseResult.data.parameters
     );
+    auditLog.recordRequest(req, {
+      action: "simulation.start",
+      target: { type: "simulation-run", id: run.id, namespace: targetNamespace },
+      after: { scenarioId: req.params.id, targetResource, duration, parameters: parseResult.data.parameters },
+    });
     res.status(201).json({ success: true, data: run, message: "Simulation started" });
   } catch (error) {
     logger.error({ error }, "Failed to start simulation");
     const message = error instanceof Error ? error.message : "Failed to start simulation";
+    auditLog.recordRequest(req, {
+      action: "simulation.start",
+      target: { type: "scenario", id: req.params.id },
+      outcome: "failure",
+      message,
+    });
     res.status(500).json({ success: false, message });
   }
 });
@@ -93,7 +122,7 @@ router.post("/scenarios/:id/start", async (req: Request, res: Response) => {
 router.get("/runs", async (req: Request, res: Response) => {
   try {
     const limit = parseInt(req.query.limit as string) || 50;
-    const runs = simulationRunner.getRuns(limit);
+    const runs = filterByNamespace(req, simulationRunner.getRuns(Infinity), (r) => r.targetNamespace).slice(0, limit);
     res.json({ success: true, data: runs });
   } catch (error) {
     logger.error({ error }, "Failed to get simulation runs");
@@ -101,9 +130,9 @@ router.get("/runs", async (req: Request, res: Response) => {
   }
 });
 
-router.get("/runs/active", async (_req: Request, res: Response) => {
+router.get("/runs/active", async (req: Request, res: Response) => {
   try {
-    const runs = simulationRunner.getActiveRuns();
+    const runs = filterByNamespace(req, simulationRunner.getActiveRuns(), (r) => r.targetNamespace);
     res.json({ success: true, data: runs });
   } catch (error) {
     logger.error({ error }, "Failed to get active runs");
@@ -114,7 +143,7 @@ router.get("/runs/active", async (_req: Request, res: Response) => {
 router.get("/runs/:id", async (req: Request, res: Response) => {
   try {
     const run = simulationRunner.getRun(req.params.id);
-    if (!run) {
+    if (!run || !canAccessNamespace(req, run.targetNamespace)) {
       res.status(404).json({ success: false, message: "Run not found" });
       return;
     }
@@ -125,13 +154,23 @@ router.get("/runs/:id", async (req: Request, res: Response) => {
   }
 });
 
-router.post("/runs/:id/stop", async (req: Request, res: Response) => {
+router.post("/runs/:id/stop", authorize("admin", "operator"), async (req: Request, res: Response) => {
   try {
+    const existing = simulationRunner.getRun(req.params.id);
+    if (existing && !canAccessNamespace(req, existing.targetNamespace)) {
+      res.status(403).json({ success: false, message: `No access to namespace ${existing.targetNamespace}` });
+      return;
+    }
     const run = await simulationRunner.stopSimulation(req.params.id);
     if (!run) {
       res.status(404).json({ success: false, message: "Run not found" });
       return;
     }
+    auditLog.recordRequest(req, {
+      action: "simulation.stop",
+      target: { type: "simulation-run", id: run.id, namespace: run.targetNamespace },
+      after: { status: run.status },
+    });
     res.json({ success: true, data: run, message: "Simulation stopped" });
   } catch (error) {
     logger.error({ error }, "Failed to stop simulation");
@@ -139,13 +178,23 @@ router.post("/runs/:id/stop", async (req: Request, res: Response) => {
   }
 });
 
-router.post("/runs/:id/cancel", async (req: Request, res: Response) => {
+router.post("/runs/:id/cancel", authorize("admin", "operator"), async (req: Request, res: Response) => {
   try {
+    const existing = simulationRunner.getRun(req.params.id);
+    if (existing && !canAccessNamespace(req, existing.targetNamespace)) {
+      res.status(403).json({ success: false, message: `No access to namespace ${existing.targetNamespace}` });
+      return;
+    }
     const run = await simulationRunner.cancelSimulation(req.params.id);
     if (!run) {
       res.status(404).json({ success: false, message: "Run not found or not active" });
       return;
     }
+    auditLog.recordRequest(req, {
+      action: "simulation.cancel",
+      target: { type: "simulation-run", id: run.id, namespace: run.targetNamespace },
+      after: { status: run.status },
+    });
     res.json({ success: true, data: run, message: "Simulation cancelled" });
   } catch (error) {
     logger.error({ error }, "Failed to cancel simulation");
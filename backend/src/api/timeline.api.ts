@@ -1,6 +1,9 @@
 import { Router, Request, Response } from "express";
-import { healingService } from "../services/healing.service.js";
-import { incidentService } from "../services/incident.service.js";
+import { incidentDetector } from "../incidents/detector.js";
+import { healingRulesManager } from "../healing/rules.js";
+import { authorize } from "../middleware/auth.js";
+import { auditLog } from "../audit/audit-log.js";
+import { filterByNamespace } from "../auth/namespaces.js";
 import { createChildLogger } from "../utils/logger.js";
 
 const logger = createChildLogger("timeline-api");
@@ -18,35 +21,42 @@ router.get("/", async (req: Request, res: Response) => {
   try {
     const limit = parseInt(req.query.limit as string) || 20;
 
-    // Get incidents from incident service
-    const incidents = incidentService.getIncidents();
+    const incidents = filterByNamespace(req, incidentDetector.getIncidents(), (i) => i.namespace).slice(0, limit);
+    const healingEvents = filterByNamespace(req, healingRulesManager.getEvents(Infinity), (e) => e.targetNamespace)
+      .slice(0, limit);
 
-    // Convert incidents to timeline format
-    const timelineFromIncidents: TimelineEvent[] = incidents
+    const timelineFromIncidents = incidents.map((incident) => ({
+      timestamp: incident.detectedAt,
+      event: {
+        id: `incident-${incident.id}`,
+        type: "Incident",
+        service: incident.resource,
+        message: incident.title,
+      },
+    }));
+
+    const timelineFromHealing = healingEvents.map((event) => ({
+      timestamp: event.timestamp,
+      event: {
+        id: `healing-${event.id}`,
+        type: "Healing",
+        service: event.targetResource,
+        message: event.details,
+      },
+    }));
+
+    // Sort by timestamp (most recent first)
+    const sortedEvents: TimelineEvent[] = [...timelineFromIncidents, ...timelineFromHealing]
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
       .slice(0, limit)
-      .map((incident) => {
-        const timestamp = new Date(incident.detectedAt);
-        const time = timestamp.toLocaleTimeString("en-US", {
+      .map(({ timestamp, event }) => ({
+        ...event,
+        time: new Date(timestamp).toLocaleTimeString("en-US", {
           hour: "2-digit",
           minute: "2-digit",
           hour12: false,
-        });
-
-        return {
-          id: `incident-${incident.id}`,
-          time,
-          type: "Incident",
-          service: incident.resource,
-          message: incident.title,
-        };
-      });
-
-    // Sort by time (most recent first)
-    const sortedEvents = timelineFromIncidents.sort((a, b) => {
-      const timeA = new Date(`1970-01-01 ${a.time}`).getTime();
-      const timeB = new Date(`1970-01-01 ${b.time}`).getTime();
-      return timeB - timeA;
-    }).slice(0, limit);
+        }),
+      }));
 
     res.json({ success: true, data: sortedEvents });
   } catch (error) {
@@ -55,9 +65,20 @@ router.get("/", async (req: Request, res: Response) => {
   }
 });
 
-router.post("/clear", async (_req: Request, res: Response) => {
+router.post("/clear", authorize("admin"), async (req: Request, res: Response) => {
   try {
-    incidentService.clearHistory();
+    const before = {
+      incidents: incidentDetector.getIncidents().length,
+      healingEvents: healingRulesManager.getEvents(Infinity).length,
+    };
+    incidentDetector.clearHistory();
+    healingRulesManager.clearEvents();
+    auditLog.recordRequest(req, {
+      action: "timeline.clear",
+      target: { type: "timeline", id: "all" },
+      before,
+      after: { incidents: 0, healingEvents: 0 },
+    });
     res.json({ success: true, message: "Timeline cleared" });
   } catch (error) {
     logger.error({ error }, "Failed to clear timeline");
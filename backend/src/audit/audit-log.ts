@@ -0,0 +1,195 @@
+import type { Request } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { config } from "../config/index.js";
+import { createChildLogger } from "../utils/logger.js";
+import { persistence } from "../persistence/index.js";
+import type { UserRole } from "../types/index.js";
+
+const logger = createChildLogger("audit-log");
+
+const REDACTED = "[redacted]";
+const SENSITIVE_KEY = /password|secret|token|routingkey|webhookurl|apikey/i;
+
+export type AuditActorType = "user" | "api-key" | "responder" | "system";
+
+/**
+ * Who did it: a signed-in user, an API key, a responder acting from a
+ * notification link or Slack button, or an automation component such as
+ * `healing-engine`.
+ */
+export interface AuditActor {
+  type: AuditActorType;
+  id: string;
+  name?: string;
+  role?: UserRole;
+}
+
+export interface AuditTarget {
+  // e.g. node, deployment, pod, incident, healing-rule
+  type: string;
+  id: string;
+  namespace?: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actor: AuditActor;
+  // <area>.<verb>, e.g. healing.toggle, node.cordon, automation.unfreeze
+  action: string;
+  target: AuditTarget;
+  outcome: "success" | "failure";
+  message?: string;
+  before?: unknown;
+  after?: unknown;
+  requestId?: string;
+}
+
+export type AuditInput = Omit<AuditEntry, "id" | "timestamp" | "outcome"> & { outcome?: AuditEntry["outcome"] };
+
+export interface AuditQuery {
+  actor?: string;
+  actorType?: AuditActorType;
+  // Exact action, or a prefix ending in "." such as "healing."
+  action?: string;
+  targetType?: string;
+  target?: string;
+  namespace?: string;
+  outcome?: AuditEntry["outcome"];
+  requestId?: string;
+  from?: string;
+  to?: string;
+}
+
+/** Copies a before/after value with credentials and webhook URLs masked. */
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [
+      key,
+      SENSITIVE_KEY.test(key) && field !== undefined && field !== null && field !== "" ? REDACTED : redact(field),
+    ]));
+  }
+  return value;
+}
+
+export function systemActor(component: string): AuditActor {
+  return { type: "system", id: component };
+}
+
+export function requestActor(req: Request): AuditActor {
+  if (req.apiKey) return { type: "api-key", id: req.apiKey.id, name: req.apiKey.name };
+  if (!req.user) return { type: "system", id: "anonymous" };
+  return { type: "user", id: req.user.userId, name: req.user.email, role: req.user.role };
+}
+
+/**
+ * Append-only record of operator and automated actions. Entries are never
+ * edited or removed through the API; only retention drops old ones.
+ */
+class AuditLog {
+  private entries: AuditEntry[] = [];
+  private store = persistence.collection<AuditEntry>("audit-log", {
+    idOf: (entry) => entry.id,
+    timestampOf: (entry) => entry.timestamp,
+    retention: {
+      maxRecords: config.persistence.retention.maxAuditEntries,
+      maxAgeDays: config.persistence.retention.auditMaxAgeDays,
+    },
+  });
+
+  async restore(): Promise<void> {
+    this.entries = await this.store.load();
+    logger.info({ count: this.entries.length }, "Audit log restored");
+  }
+
+  record(input: AuditInput): AuditEntry {
+    const entry: AuditEntry = {
+      ...input,
+      id: uuidv4(),
+      timestamp: new Date().toISOString(),
+      outcome: input.outcome ?? "success",
+      before: redact(input.before),
+      after: redact(input.after),
+    };
+
+    this.entries.unshift(entry);
+    this.store.save(entry);
+    if (this.entries.length > this.store.maxRecords) {
+      this.entries = this.store.prune(this.entries);
+    }
+
+    logger.debug({ action: entry.action, actor: entry.actor.id, target: entry.target }, "Audit entry recorded");
+    return entry;
+  }
+
+  /** Records an action taken through the API, attributed to the signed-in user and tagged with the request id. */
+  recordRequest(req: Request, input: Omit<AuditInput, "actor" | "requestId">): AuditEntry {
+    return this.record({ ...input, actor: requestActor(req), requestId: req.requestId });
+  }
+
+  /** Matching entries, newest first. */
+  query(filters: AuditQuery = {}): AuditEntry[] {
+    const from = filters.from ? new Date(filters.from).getTime() : undefined;
+    const to = filters.to ? new Date(filters.to).getTime() : undefined;
+    const actor = filters.actor?.toLowerCase();
+
+    return this.entries.filter((entry) => {
+      const time = new Date(entry.timestamp).getTime();
+      if (from !== undefined && time < from) return false;
+      if (to !== undefined && time > to) return false;
+      if (actor && entry.actor.id.toLowerCase() !== actor && entry.actor.name?.toLowerCase() !== actor) return false;
+      if (filters.actorType && entry.actor.type !== filters.actorType) return false;
+      if (filters.action) {
+        const matches = filters.action.endsWith(".")
+          ? entry.action.startsWith(filters.action)
+          : entry.action === filters.action;
+        if (!matches) return false;
+      }
+      if (filters.targetType && entry.target.type !== filters.targetType) return false;
+      if (filters.target && entry.target.id !== filters.target) return false;
+      if (filters.namespace && entry.target.namespace !== filters.namespace) return false;
+      if (filters.outcome && entry.outcome !== filters.outcome) return false;
+      if (filters.requestId && entry.requestId !== filters.requestId) return false;
+      return true;
+    });
+  }
+
+  getActions(): string[] {
+    return Array.from(new Set(this.entries.map((e) => e.action))).sort();
+  }
+}
+
+const CSV_COLUMNS = [
+  "timestamp", "actorType", "actor", "role", "action", "targetType", "target",
+  "namespace", "outcome", "message", "before", "after", "requestId",
+];
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  let text = typeof value === "string" ? value : JSON.stringify(value);
+  // Keep spreadsheets from evaluating values as formulas
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditToCsv(entries: AuditEntry[]): string {
+  const rows = entries.map((entry) => [
+    entry.timestamp,
+    entry.actor.type,
+    entry.actor.name ?? entry.actor.id,
+    entry.actor.role,
+    entry.action,
+    entry.target.type,
+    entry.target.id,
+    entry.target.namespace,
+    entry.outcome,
+    entry.message,
+    entry.before,
+    entry.after,
+    entry.requestId,
+  ].map(csvField).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+export const auditLog = new AuditLog();
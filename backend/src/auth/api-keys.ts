@@ -0,0 +1,149 @@
+import crypto from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import { createChildLogger } from "../utils/logger.js";
+import { persistence, KEEP_ALL } from "../persistence/index.js";
+
+const logger = createChildLogger("api-keys");
+
+export const API_KEY_PREFIX = "oct_";
+
+export const API_KEY_SCOPES = [
+  "incidents:read",
+  "incidents:write",
+  "healing:read",
+  "healing:write",
+  "simulator:read",
+  "simulator:run",
+  "cluster:read",
+  "cluster:write",
+  "escalation:read",
+  "escalation:write",
+  "costs:read",
+  "costs:write",
+  "metrics:read",
+  "audit:read",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// lastUsedAt is kept in memory on every request but written through at most this often
+const LAST_USED_PERSIST_INTERVAL_MS = 60 * 1000;
+
+interface StoredApiKey {
+  id: string;
+  name: string;
+  // First characters of the key, shown so keys can be told apart
+  prefix: string;
+  // sha256 of the full key; the key itself is only returned once, at creation
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  // Same meaning as a user's namespaces; absent means every namespace
+  namespaces?: string[];
+  createdBy: string;
+  createdAt: string;
+  expiresAt?: string;
+  lastUsedAt?: string;
+  lastUsedIp?: string;
+  revokedAt?: string;
+  revokedBy?: string;
+}
+
+export type ApiKey = Omit<StoredApiKey, "keyHash">;
+
+function hashKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+function toPublic({ keyHash: _keyHash, ...key }: StoredApiKey): ApiKey {
+  return key;
+}
+
+/** Keys for CI and scripts, limited by scopes instead of a user role. */
+class ApiKeyStore {
+  private keys: Map<string, StoredApiKey> = new Map();
+  private lastPersisted: Map<string, number> = new Map();
+  private store = persistence.collection<StoredApiKey>("api-keys", {
+    idOf: (key) => key.id,
+    timestampOf: (key) => key.createdAt,
+    retention: KEEP_ALL,
+  });
+
+  async restore(): Promise<void> {
+    const keys = await this.store.load();
+    this.keys = new Map(keys.map((key) => [key.id, key]));
+    logger.info({ count: keys.length }, "API keys restored");
+  }
+
+  getKeys(): ApiKey[] {
+    return Array.from(this.keys.values())
+      .map(toPublic)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  getKey(id: string): ApiKey | undefined {
+    const key = this.keys.get(id);
+    return key ? toPublic(key) : undefined;
+  }
+
+  /** Creates a key and returns it in full; only its hash is stored. */
+  createKey(input: {
+    name: string;
+    scopes: ApiKeyScope[];
+    namespaces?: string[];
+    expiresAt?: string;
+    createdBy: string;
+  }): { key: string; apiKey: ApiKey } {
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString("base64url")}`;
+    const stored: StoredApiKey = {
+      id: uuidv4(),
+      name: input.name,
+      prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+      keyHash: hashKey(key),
+      scopes: Array.from(new Set(input.scopes)),
+      namespaces: input.namespaces,
+      createdBy: input.createdBy,
+      createdAt: new Date().toISOString(),
+      expiresAt: input.expiresAt,
+    };
+    this.saveKey(stored);
+    logger.info({ keyId: stored.id, name: stored.name, scopes: stored.scopes }, "API key created");
+    return { key, apiKey: toPublic(stored) };
+  }
+
+  /** Revoked keys are kept so their history stays visible. */
+  revokeKey(id: string, revokedBy: string): ApiKey | null {
+    const key = this.keys.get(id);
+    if (!key || key.revokedAt) return null;
+
+    const revoked: StoredApiKey = { ...key, revokedAt: new Date().toISOString(), revokedBy };
+    this.saveKey(revoked);
+    logger.info({ keyId: id, revokedBy }, "API key revoked");
+    return toPublic(revoked);
+  }
+
+  /** The active key matching a presented key, recording the use, or null. */
+  verify(presented: string, ip?: string): ApiKey | null {
+    const hash = hashKey(presented);
+    const key = Array.from(this.keys.values()).find((k) =>
+      crypto.timingSafeEqual(Buffer.from(k.keyHash, "hex"), Buffer.from(hash, "hex"))
+    );
+    if (!key || key.revokedAt) return null;
+    if (key.expiresAt && new Date(key.expiresAt).getTime() <= Date.now()) return null;
+
+    const now = Date.now();
+    key.lastUsedAt = new Date(now).toISOString();
+    key.lastUsedIp = ip;
+    if (now - (this.lastPersisted.get(key.id) ?? 0) >= LAST_USED_PERSIST_INTERVAL_MS) {
+      this.lastPersisted.set(key.id, now);
+      this.store.save(key);
+    }
+    return toPublic(key);
+  }
+
+  private saveKey(key: StoredApiKey) {
+    this.keys.set(key.id, key);
+    this.store.save(key);
+  }
+}
+
+export const apiKeyStore = new ApiKeyStore();
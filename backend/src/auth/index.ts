@@ -0,0 +1,4 @@
+export * from "./users.js";
+export * from "./teams.js";
+export * from "./namespaces.js";
+export * from "./api-keys.js";
@@ -0,0 +1,41 @@
+import type { Request } from "express";
+import { teamStore } from "./teams.js";
+import type { User } from "../types/index.js";
+
+/**
+ * Namespaces a user may see and act on, or undefined for every namespace.
+ * Admins are never restricted. Anyone else is restricted as soon as they
+ * have namespaces or teams assigned, even if a team no longer grants any.
+ */
+export function allowedNamespaces(user: Pick<User, "role" | "namespaces" | "teams">): string[] | undefined {
+  if (user.role === "admin") return undefined;
+
+  const direct = user.namespaces ?? [];
+  const teamIds = user.teams ?? [];
+  if (direct.length === 0 && teamIds.length === 0) return undefined;
+
+  const fromTeams = teamIds.flatMap((id) => teamStore.getTeam(id)?.namespaces ?? []);
+  return Array.from(new Set([...direct, ...fromTeams])).sort();
+}
+
+export function inNamespaceScope(allowed: string[] | undefined, namespace: string | undefined): boolean {
+  if (!allowed) return true;
+  return namespace !== undefined && allowed.includes(namespace);
+}
+
+/** Whether the signed-in user may see or act on resources in this namespace. */
+export function canAccessNamespace(req: Request, namespace: string | undefined): boolean {
+  return inNamespaceScope(req.user?.namespaces, namespace);
+}
+
+/** Whether the signed-in user sees every namespace, as cluster-scoped operations require. */
+export function hasClusterScope(req: Request): boolean {
+  return !req.user?.namespaces;
+}
+
+/** The items in namespaces the signed-in user may see. */
+export function filterByNamespace<T>(req: Request, items: T[], namespaceOf: (item: T) => string | undefined): T[] {
+  const allowed = req.user?.namespaces;
+  if (!allowed) return items;
+  return items.filter((item) => inNamespaceScope(allowed, namespaceOf(item)));
+}
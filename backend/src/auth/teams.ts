@@ -0,0 +1,77 @@
+import { v4 as uuidv4 } from "uuid";
+import { createChildLogger } from "../utils/logger.js";
+import { persistence, KEEP_ALL } from "../persistence/index.js";
+import type { Team } from "../types/index.js";
+
+const logger = createChildLogger("teams");
+
+/** Groups of users sharing a set of namespaces. */
+class TeamStore {
+  private teams: Map<string, Team> = new Map();
+  private store = persistence.collection<Team>("teams", {
+    idOf: (team) => team.id,
+    timestampOf: (team) => team.createdAt,
+    retention: KEEP_ALL,
+  });
+
+  async restore(): Promise<void> {
+    const teams = await this.store.load();
+    this.teams = new Map(teams.map((team) => [team.id, team]));
+    logger.info({ count: teams.length }, "Teams restored");
+  }
+
+  getTeams(): Team[] {
+    return Array.from(this.teams.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  getTeam(id: string): Team | undefined {
+    return this.teams.get(id);
+  }
+
+  findByName(name: string): Team | undefined {
+    const normalized = name.toLowerCase();
+    return Array.from(this.teams.values()).find((t) => t.name.toLowerCase() === normalized);
+  }
+
+  createTeam(input: { name: string; namespaces: string[] }): Team {
+    const team: Team = {
+      id: uuidv4(),
+      name: input.name,
+      namespaces: Array.from(new Set(input.namespaces)),
+      createdAt: new Date().toISOString(),
+    };
+    this.saveTeam(team);
+    logger.info({ teamId: team.id, name: team.name, namespaces: team.namespaces }, "Team created");
+    return team;
+  }
+
+  updateTeam(id: string, updates: { name?: string; namespaces?: string[] }): Team | null {
+    const team = this.teams.get(id);
+    if (!team) return null;
+
+    const updated: Team = {
+      ...team,
+      ...updates,
+      namespaces: updates.namespaces ? Array.from(new Set(updates.namespaces)) : team.namespaces,
+    };
+    this.saveTeam(updated);
+    logger.info({ teamId: id, namespaces: updated.namespaces }, "Team updated");
+    return updated;
+  }
+
+  deleteTeam(id: string): boolean {
+    const deleted = this.teams.delete(id);
+    if (deleted) {
+      this.store.remove([id]);
+      logger.info({ teamId: id }, "Team deleted");
+    }
+    return deleted;
+  }
+
+  private saveTeam(team: Team) {
+    this.teams.set(team.id, team);
+    this.store.save(team);
+  }
+}
+
+export const teamStore = new TeamStore();
@@ -0,0 +1,180 @@
+import crypto from "crypto";
+import { promisify } from "util";
+import { v4 as uuidv4 } from "uuid";
+import { config } from "../config/index.js";
+import { createChildLogger } from "../utils/logger.js";
+import { persistence, KEEP_ALL } from "../persistence/index.js";
+import type { User, UserRole } from "../types/index.js";
+
+const logger = createChildLogger("users");
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+interface StoredUser extends User {
+  // scrypt$<salt>$<hash>
+  passwordHash: string;
+  disabled?: boolean;
+  lastLoginAt?: string;
+}
+
+export type PublicUser = Omit<StoredUser, "passwordHash">;
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt}$${hash.toString("hex")}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scrypt(password, salt, expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+function toPublic({ passwordHash: _passwordHash, ...user }: StoredUser): PublicUser {
+  return user;
+}
+
+class UserStore {
+  private users: Map<string, StoredUser> = new Map();
+  private store = persistence.collection<StoredUser>("users", {
+    idOf: (user) => user.id,
+    timestampOf: (user) => user.createdAt,
+    retention: KEEP_ALL,
+  });
+
+  /**
+   * Loads users and, on a fresh install, creates the first admin from
+   * ADMIN_EMAIL / ADMIN_PASSWORD. Without a password one is generated and
+   * logged once, so the API is never left open or unreachable.
+   */
+  async restore(): Promise<void> {
+    const users = await this.store.load();
+    this.users = new Map(users.map((user) => [user.id, user]));
+    logger.info({ count: users.length }, "Users restored");
+
+    if (this.users.size === 0) {
+      const { adminEmail, adminPassword } = config.auth;
+      const password = adminPassword ?? crypto.randomBytes(12).toString("base64url");
+      await this.createUser({ email: adminEmail, name: "Administrator", role: "admin", password });
+      if (adminPassword) {
+        logger.info({ email: adminEmail }, "Created initial admin user");
+      } else {
+        logger.warn({ email: adminEmail }, "Created initial admin user with a generated password; set ADMIN_PASSWORD or change it");
+        // Printed once outside the structured log so it is not shipped to log aggregation
+        process.stderr.write(`\nInitial admin password for ${adminEmail}: ${password}\n\n`);
+      }
+    }
+  }
+
+  getUsers(): PublicUser[] {
+    return Array.from(this.users.values())
+      .map(toPublic)
+      .sort((a, b) => a.email.localeCompare(b.email));
+  }
+
+  getUser(id: string): PublicUser | undefined {
+    const user = this.users.get(id);
+    return user ? toPublic(user) : undefined;
+  }
+
+  findByEmail(email: string): PublicUser | undefined {
+    const user = this.findStored(email);
+    return user ? toPublic(user) : undefined;
+  }
+
+  /** The user for a valid email and password, or null. Disabled users cannot sign in. */
+  async authenticate(email: string, password: string): Promise<PublicUser | null> {
+    const user = this.findStored(email);
+    if (!user || user.disabled || !(await verifyPassword(password, user.passwordHash))) {
+      return null;
+    }
+
+    user.lastLoginAt = new Date().toISOString();
+    this.saveUser(user);
+    return toPublic(user);
+  }
+
+  async createUser(input: {
+    email: string;
+    name: string;
+    role: UserRole;
+    password: string;
+    namespaces?: string[];
+    teams?: string[];
+  }): Promise<PublicUser> {
+    const user: StoredUser = {
+      id: uuidv4(),
+      email: input.email.toLowerCase(),
+      name: input.name,
+      role: input.role,
+      namespaces: input.namespaces,
+      teams: input.teams,
+      passwordHash: await hashPassword(input.password),
+      createdAt: new Date().toISOString(),
+    };
+    this.saveUser(user);
+    logger.info({ userId: user.id, email: user.email, role: user.role }, "User created");
+    return toPublic(user);
+  }
+
+  async updateUser(
+    id: string,
+    updates: {
+      name?: string;
+      role?: UserRole;
+      disabled?: boolean;
+      password?: string;
+      namespaces?: string[];
+      teams?: string[];
+    }
+  ): Promise<PublicUser | null> {
+    const user = this.users.get(id);
+    if (!user) return null;
+
+    const { password, ...fields } = updates;
+    const updated: StoredUser = {
+      ...user,
+      ...fields,
+      passwordHash: password ? await hashPassword(password) : user.passwordHash,
+    };
+    this.saveUser(updated);
+    logger.info({ userId: id, role: updated.role, disabled: updated.disabled }, "User updated");
+    return toPublic(updated);
+  }
+
+  deleteUser(id: string): boolean {
+    const deleted = this.users.delete(id);
+    if (deleted) {
+      this.store.remove([id]);
+      logger.info({ userId: id }, "User deleted");
+    }
+    return deleted;
+  }
+
+  /** Admins that can still sign in; the last one cannot be demoted, disabled or deleted. */
+  countActiveAdmins(): number {
+    return Array.from(this.users.values()).filter((u) => u.role === "admin" && !u.disabled).length;
+  }
+
+  /** Users assigned to a team; a team cannot be deleted while it has members. */
+  getTeamMembers(teamId: string): PublicUser[] {
+    return this.getUsers().filter((u) => u.teams?.includes(teamId));
+  }
+
+  private findStored(email: string): StoredUser | undefined {
+    const normalized = email.toLowerCase();
+    return Array.from(this.users.values()).find((u) => u.email === normalized);
+  }
+
+  private saveUser(user: StoredUser) {
+    this.users.set(user.id, user);
+    this.store.save(user);
+  }
+}
+
+export const userStore = new UserStore();
@@ -3,6 +3,9 @@ import dotenv from "dotenv";
 
 dotenv.config();
 
+// Only for local development; production refuses to start with it
+const DEVELOPMENT_JWT_SECRET = "development-secret-key-min-32-chars!";
+
 const configSchema = z.object({
   port: z.coerce.number().default(3001),
   nodeEnv: z.enum(["development", "production", "test"]).default("development"),
@@ -17,6 +20,10 @@ const configSchema = z.object({
     secret: z.string().min(32),
     expiresIn: z.string().default("24h"),
   }),
+  auth: z.object({
+    adminEmail: z.string().email().default("admin@octrix.local"),
+    adminPassword: z.string().min(8).optional(),
+  }),
   cors: z.object({
     origin: z.string().default("http://localhost:3000"),
   }),
@@ -31,6 +38,79 @@ const configSchema = z.object({
     url: z.string().default("http://localhost:9090"),
     scrapeInterval: z.coerce.number().default(15000),
   }),
+  healing: z.object({
+    approvalTimeoutMinutes: z.coerce.number().default(30),
+    freezeMinutes: z.coerce.number().min(1).default(60),
+  }),
+  detection: z.object({
+    resyncIntervalMs: z.coerce.number().default(30000),
+    watch: z.enum(["true", "false"]).default("true").transform((v) => v === "true"),
+    throttleRatio: z.coerce.number().min(0).max(1).default(0.25),
+    rolloutWindowMinutes: z.coerce.number().default(30),
+    errorRatePercent: z.coerce.number().default(10),
+    httpRequestsMetric: z.string().default("http_requests_total"),
+    correlationWindowMinutes: z.coerce.number().default(5),
+    autoResolveMinutes: z.coerce.number().default(10),
+    reopenWindowMinutes: z.coerce.number().default(30),
+    flapThreshold: z.coerce.number().min(1).default(3),
+  }),
+  notifications: z.object({
+    maxRetries: z.coerce.number().default(3),
+    retryDelayMs: z.coerce.number().default(1000),
+    timeoutMs: z.coerce.number().default(10000),
+    groupWindowSeconds: z.coerce.number().default(300),
+    rateLimitPerMinute: z.coerce.number().default(10),
+    digestSeverity: z.enum(["none", "low", "medium", "high"]).default("low"),
+    digestIntervalMinutes: z.coerce.number().default(60),
+    slack: z.object({
+      webhookUrl: z.string().url().optional(),
+      signingSecret: z.string().optional(),
+    }),
+    actions: z.object({
+      baseUrl: z.string().url().optional(),
+      secret: z.string().optional(),
+      linkTtlMinutes: z.coerce.number().default(1440),
+    }),
+    webhook: z.object({
+      url: z.string().url().optional(),
+      secret: z.string().optional(),
+    }),
+    pagerduty: z.object({
+      routingKey: z.string().optional(),
+      eventsUrl: z.string().url().default("https://events.pagerduty.com/v2/enqueue"),
+    }),
+    smtp: z.object({
+      host: z.string().optional(),
+      port: z.coerce.number().default(587),
+      secure: z.enum(["true", "false"]).default("false").transform((v) => v === "true"),
+      user: z.string().optional(),
+      password: z.string().optional(),
+      from: z.string().default("octrix@localhost"),
+      recipients: z.string().default("").transform((v) => v.split(",").map((r) => r.trim()).filter(Boolean)),
+    }),
+  }),
+  persistence: z.object({
+    driver: z.enum(["file", "redis", "memory"]).default("file"),
+    dataDir: z.string().default("./data"),
+    retention: z.object({
+      maxAgeDays: z.coerce.number().default(30),
+      maxIncidents: z.coerce.number().default(5000),
+      maxHealingEvents: z.coerce.number().default(1000),
+      maxEscalationRecords: z.coerce.number().default(1000),
+      maxNotifications: z.coerce.number().default(5000),
+      maxApprovals: z.coerce.number().default(1000),
+      maxAuditEntries: z.coerce.number().default(50000),
+      auditMaxAgeDays: z.coerce.number().default(365),
+    }),
+  }),
+}).superRefine((config, ctx) => {
+  if (config.nodeEnv === "production" && config.jwt.secret === DEVELOPMENT_JWT_SECRET) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["jwt", "secret"],
+      message: "JWT_SECRET must be set when NODE_ENV=production",
+    });
+  }
 });
 
 const configInput = {
@@ -44,9 +124,13 @@ const configInput = {
     password: process.env.REDIS_PASSWORD,
   },
   jwt: {
-    secret: process.env.JWT_SECRET || "development-secret-key-min-32-chars!",
+    secret: process.env.JWT_SECRET || DEVELOPMENT_JWT_SECRET,
     expiresIn: process.env.JWT_EXPIRES_IN,
   },
+  auth: {
+    adminEmail: process.env.ADMIN_EMAIL || undefined,
+    adminPassword: process.env.ADMIN_PASSWORD || undefined,
+  },
   cors: {
     origin: process.env.CORS_ORIGIN,
   },
@@ -61,6 +145,71 @@ const configInput = {
     url: process.env.PROMETHEUS_URL,
     scrapeInterval: process.env.PROMETHEUS_SCRAPE_INTERVAL,
   },
+  healing: {
+    approvalTimeoutMinutes: process.env.HEALING_APPROVAL_TIMEOUT_MINUTES,
+    freezeMinutes: process.env.HEALING_FREEZE_MINUTES,
+  },
+  detection: {
+    resyncIntervalMs: process.env.DETECTION_RESYNC_INTERVAL_MS,
+    watch: process.env.DETECTION_WATCH_ENABLED || undefined,
+    throttleRatio: process.env.DETECTION_THROTTLE_RATIO,
+    rolloutWindowMinutes: process.env.DETECTION_ROLLOUT_WINDOW_MINUTES,
+    errorRatePercent: process.env.DETECTION_ERROR_RATE_PERCENT,
+    httpRequestsMetric: process.env.DETECTION_HTTP_REQUESTS_METRIC || undefined,
+    correlationWindowMinutes: process.env.DETECTION_CORRELATION_WINDOW_MINUTES,
+    autoResolveMinutes: process.env.DETECTION_AUTO_RESOLVE_MINUTES,
+    reopenWindowMinutes: process.env.DETECTION_REOPEN_WINDOW_MINUTES,
+    flapThreshold: process.env.DETECTION_FLAP_THRESHOLD,
+  },
+  notifications: {
+    maxRetries: process.env.NOTIFICATION_MAX_RETRIES,
+    retryDelayMs: process.env.NOTIFICATION_RETRY_DELAY_MS,
+    timeoutMs: process.env.NOTIFICATION_TIMEOUT_MS,
+    groupWindowSeconds: process.env.NOTIFICATION_GROUP_WINDOW_SECONDS,
+    rateLimitPerMinute: process.env.NOTIFICATION_RATE_LIMIT_PER_MINUTE,
+    digestSeverity: process.env.NOTIFICATION_DIGEST_SEVERITY || undefined,
+    digestIntervalMinutes: process.env.NOTIFICATION_DIGEST_INTERVAL_MINUTES,
+    slack: {
+      webhookUrl: process.env.SLACK_WEBHOOK_URL || undefined,
+      signingSecret: process.env.SLACK_SIGNING_SECRET || undefined,
+    },
+    actions: {
+      baseUrl: process.env.ACTION_BASE_URL || undefined,
+      secret: process.env.ACTION_SIGNING_SECRET || undefined,
+      linkTtlMinutes: process.env.ACTION_LINK_TTL_MINUTES,
+    },
+    webhook: {
+      url: process.env.NOTIFICATION_WEBHOOK_URL || undefined,
+      secret: process.env.NOTIFICATION_WEBHOOK_SECRET || undefined,
+    },
+    pagerduty: {
+      routingKey: process.env.PAGERDUTY_ROUTING_KEY || undefined,
+      eventsUrl: process.env.PAGERDUTY_EVENTS_URL || undefined,
+    },
+    smtp: {
+      host: process.env.SMTP_HOST || undefined,
+      port: process.env.SMTP_PORT,
+      secure: process.env.SMTP_SECURE || undefined,
+      user: process.env.SMTP_USER || undefined,
+      password: process.env.SMTP_PASSWORD || undefined,
+      from: process.env.SMTP_FROM || undefined,
+      recipients: process.env.EMAIL_RECIPIENTS,
+    },
+  },
+  persistence: {
+    driver: process.env.PERSISTENCE_DRIVER,
+    dataDir: process.env.PERSISTENCE_DATA_DIR,
+    retention: {
+      maxAgeDays: process.env.RETENTION_MAX_AGE_DAYS,
+      maxIncidents: process.env.RETENTION_MAX_INCIDENTS,
+      maxHealingEvents: process.env.RETENTION_MAX_HEALING_EVENTS,
+      maxEscalationRecords: process.env.RETENTION_MAX_ESCALATION_RECORDS,
+      maxNotifications: process.env.RETENTION_MAX_NOTIFICATIONS,
+      maxApprovals: process.env.RETENTION_MAX_APPROVALS,
+      maxAuditEntries: process.env.RETENTION_MAX_AUDIT_ENTRIES,
+      auditMaxAgeDays: process.env.RETENTION_AUDIT_MAX_AGE_DAYS,
+    },
+  },
 };
 
 export const config = configSchema.parse(configInput);
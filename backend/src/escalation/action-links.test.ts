@@ -0,0 +1,106 @@
+import crypto from "crypto";
+import {
+  ActionTokenError,
+  actionLinks,
+  consumeActionToken,
+  createActionToken,
+  restoreUsedNonces,
+  verifyActionToken,
+  verifySlackSignature,
+} from "./action-links.js";
+import { persistence, KEEP_ALL } from "../persistence/index.js";
+
+jest.mock("../config/index.js", () => {
+  const actual = jest.requireActual("../config/index.js");
+  return {
+    config: {
+      ...actual.config,
+      notifications: {
+        ...actual.config.notifications,
+        slack: { signingSecret: "slack-secret" },
+        actions: { baseUrl: "https://ops.example.com/", secret: "action-secret", linkTtlMinutes: 60 },
+      },
+    },
+  };
+});
+
+const nonceStore = () =>
+  persistence.collection<{ nonce: string; expiresAt: number }>("action-nonces", {
+    idOf: (entry) => entry.nonce,
+    timestampOf: (entry) => new Date(entry.expiresAt).toISOString(),
+    retention: KEEP_ALL,
+  });
+
+describe("action links", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("signs a token that verifies back to its payload", () => {
+    const payload = verifyActionToken(createActionToken("incident-1", "acknowledge", "ana@example.com"));
+
+    expect(payload).toMatchObject({ incidentId: "incident-1", action: "acknowledge", responder: "ana@example.com" });
+  });
+
+  it("rejects tokens whose payload was altered", () => {
+    const [encoded, signature] = createActionToken("incident-1", "acknowledge").split(".");
+    const payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+    const forged = Buffer.from(JSON.stringify({ ...payload, action: "heal" })).toString("base64url");
+
+    expect(() => verifyActionToken(`${forged}.${signature}`)).toThrow("Invalid action link");
+    expect(() => verifyActionToken("garbage")).toThrow(ActionTokenError);
+  });
+
+  it("rejects expired tokens", () => {
+    const token = createActionToken("incident-1", "resolve");
+    const later = Date.now() + 61 * 60 * 1000;
+    jest.spyOn(Date, "now").mockReturnValue(later);
+
+    expect(() => verifyActionToken(token)).toThrow("This action link has expired");
+  });
+
+  it("works once and persists the used nonce until the link expires", async () => {
+    const token = createActionToken("incident-1", "resolve");
+    const { nonce, expiresAt } = consumeActionToken(token);
+
+    expect(() => consumeActionToken(token)).toThrow("This action link has already been used");
+    expect(await nonceStore().load()).toContainEqual({ nonce, expiresAt });
+  });
+
+  it("drops expired nonces from storage on restore", async () => {
+    nonceStore().save({ nonce: "stale", expiresAt: Date.now() - 1000 });
+
+    await restoreUsedNonces();
+
+    expect((await nonceStore().load()).map((entry) => entry.nonce)).not.toContain("stale");
+  });
+
+  it("builds a link for each responder action under the base URL", () => {
+    const links = actionLinks("incident-1");
+
+    expect(Object.keys(links).sort()).toEqual(["acknowledge", "heal", "resolve"]);
+    expect(links.heal).toMatch(/^https:\/\/ops\.example\.com\/api\/v1\/escalation\/actions\/[\w-]+\.[\w-]+$/);
+  });
+});
+
+describe("verifySlackSignature", () => {
+  const body = "payload=%7B%7D";
+
+  function sign(timestamp: string): string {
+    return `v0=${crypto.createHmac("sha256", "slack-secret").update(`v0:${timestamp}:${body}`).digest("hex")}`;
+  }
+
+  it("accepts a recent request signed with the signing secret", () => {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    expect(verifySlackSignature(body, timestamp, sign(timestamp))).toBe(true);
+  });
+
+  it("rejects stale timestamps and wrong signatures", () => {
+    const stale = String(Math.floor(Date.now() / 1000) - 600);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
+    expect(verifySlackSignature(body, stale, sign(stale))).toBe(false);
+    expect(verifySlackSignature(body, timestamp, sign(stale))).toBe(false);
+    expect(verifySlackSignature(body, timestamp, undefined)).toBe(false);
+  });
+});
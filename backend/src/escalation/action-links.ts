@@ -0,0 +1,143 @@
+import crypto from "crypto";
+import { config } from "../config/index.js";
+import { persistence, KEEP_ALL } from "../persistence/index.js";
+import type { ResponderAction } from "./escalation.manager.js";
+
+const SLACK_MAX_SKEW_SECONDS = 300;
+
+export const RESPONDER_ACTIONS: ResponderAction[] = ["acknowledge", "resolve", "heal"];
+
+/** An action link that is malformed, forged, expired or already used. */
+export class ActionTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, ActionTokenError.prototype);
+  }
+}
+
+export interface ActionTokenPayload {
+  incidentId: string;
+  action: ResponderAction;
+  // Known when the link went to one person, e.g. the on-call engineer
+  responder?: string;
+  expiresAt: number;
+  nonce: string;
+}
+
+interface UsedNonce {
+  nonce: string;
+  expiresAt: number;
+}
+
+// Nonces of links already used, kept until the link would have expired anyway
+const usedNonces: Map<string, number> = new Map();
+// Entries are dropped once their link expires rather than by age
+const usedNonceStore = persistence.collection<UsedNonce>("action-nonces", {
+  idOf: (entry) => entry.nonce,
+  timestampOf: (entry) => new Date(entry.expiresAt).toISOString(),
+  retention: KEEP_ALL,
+});
+
+function sign(data: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(data).digest("base64url");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+export function actionLinksEnabled(): boolean {
+  return !!config.notifications.actions.baseUrl && !!config.notifications.actions.secret;
+}
+
+export function createActionToken(incidentId: string, action: ResponderAction, responder?: string): string {
+  const secret = config.notifications.actions.secret;
+  if (!secret) throw new ActionTokenError("Action links are not configured");
+
+  const payload: ActionTokenPayload = {
+    incidentId,
+    action,
+    responder,
+    expiresAt: Date.now() + config.notifications.actions.linkTtlMinutes * 60 * 1000,
+    nonce: crypto.randomBytes(9).toString("base64url"),
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${sign(encoded, secret)}`;
+}
+
+/** Reloads the nonces of used links that have not expired, so a link stays spent across restarts. */
+export async function restoreUsedNonces(): Promise<void> {
+  const now = Date.now();
+  const entries = await usedNonceStore.load();
+  for (const entry of entries) {
+    if (entry.expiresAt >= now) usedNonces.set(entry.nonce, entry.expiresAt);
+  }
+  usedNonceStore.remove(entries.filter((entry) => entry.expiresAt < now).map((entry) => entry.nonce));
+}
+
+/** Checks a token's signature, expiry and reuse without using it up. */
+export function verifyActionToken(token: string): ActionTokenPayload {
+  const secret = config.notifications.actions.secret;
+  if (!secret) throw new ActionTokenError("Action links are not configured");
+
+  const [encoded, signature] = token.split(".");
+  if (!encoded || !signature || !safeEqual(signature, sign(encoded, secret))) {
+    throw new ActionTokenError("Invalid action link");
+  }
+
+  let payload: ActionTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+  } catch {
+    throw new ActionTokenError("Invalid action link");
+  }
+
+  if (!RESPONDER_ACTIONS.includes(payload.action)) throw new ActionTokenError("Invalid action link");
+  if (Date.now() > payload.expiresAt) throw new ActionTokenError("This action link has expired");
+  if (usedNonces.has(payload.nonce)) throw new ActionTokenError("This action link has already been used");
+  return payload;
+}
+
+/** Verifies a token and marks it used, so each link works once. */
+export function consumeActionToken(token: string): ActionTokenPayload {
+  const payload = verifyActionToken(token);
+
+  const now = Date.now();
+  const expired: string[] = [];
+  for (const [nonce, expiresAt] of usedNonces) {
+    if (expiresAt < now) expired.push(nonce);
+  }
+  expired.forEach((nonce) => usedNonces.delete(nonce));
+  usedNonceStore.remove(expired);
+
+  usedNonces.set(payload.nonce, payload.expiresAt);
+  usedNonceStore.save({ nonce: payload.nonce, expiresAt: payload.expiresAt });
+  return payload;
+}
+
+/** Signed links for each responder action, or an empty object when links are not configured. */
+export function actionLinks(incidentId: string, responder?: string): Partial<Record<ResponderAction, string>> {
+  if (!actionLinksEnabled()) return {};
+
+  const baseUrl = config.notifications.actions.baseUrl!.replace(/\/$/, "");
+  return Object.fromEntries(RESPONDER_ACTIONS.map((action) => [
+    action,
+    `${baseUrl}/api/v1/escalation/actions/${createActionToken(incidentId, action, responder)}`,
+  ]));
+}
+
+/**
+ * Verifies a Slack request: `X-Slack-Signature` must be `v0=` plus an HMAC of
+ * `v0:<timestamp>:<raw body>` under the app's signing secret, and the
+ * timestamp must be recent.
+ */
+export function verifySlackSignature(rawBody: string, timestamp: string | undefined, signature: string | undefined): boolean {
+  const secret = config.notifications.slack.signingSecret;
+  if (!secret || !timestamp || !signature) return false;
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > SLACK_MAX_SKEW_SECONDS) return false;
+
+  const expected = `v0=${crypto.createHmac("sha256", secret).update(`v0:${timestamp}:${rawBody}`).digest("hex")}`;
+  return safeEqual(signature, expected);
+}
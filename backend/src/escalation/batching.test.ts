@@ -0,0 +1,148 @@
+import { notificationBatcher, summarizeBatch, isDigestSeverity } from "./batching.js";
+import type { NotificationConfig } from "./notifications.js";
+import type { Incident } from "../incidents/types.js";
+
+let now: number;
+let destinations = 0;
+
+function target(channel: NotificationConfig["channel"] = "slack"): NotificationConfig {
+  destinations += 1;
+  return { channel, enabled: true, minSeverity: "low", webhookUrl: `https://hooks.example.com/${destinations}` };
+}
+
+function incident(id: string, overrides: Partial<Incident> = {}): Incident {
+  return {
+    id,
+    title: `CRASH LOOP: ${id}`,
+    description: "",
+    severity: "medium",
+    category: "crash-loop",
+    status: "open",
+    resource: `api-7d9f8b6c5d-${id}`,
+    resourceType: "pod",
+    namespace: "shop",
+    workload: { kind: "Deployment", name: "api", namespace: "shop" },
+    detectedAt: new Date(now).toISOString(),
+    autoHealable: true,
+    autoHealingAttempted: false,
+    escalated: false,
+    metrics: {},
+    relatedAlerts: [],
+    suggestedAction: "",
+    productionBehavior: "",
+    ...overrides,
+  };
+}
+
+describe("notificationBatcher", () => {
+  beforeEach(() => {
+    now = Date.parse("2026-01-05T12:00:00Z");
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    notificationBatcher.takeDue(true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("sends the first incident of a workload and holds the rest for one summary", () => {
+    const slack = target();
+
+    expect(notificationBatcher.admit(incident("a"), slack).action).toBe("send");
+    expect(notificationBatcher.admit(incident("b"), slack)).toMatchObject({ action: "hold", kind: "group" });
+    expect(notificationBatcher.takeDue()).toHaveLength(0);
+
+    now += 300 * 1000;
+    const [batch] = notificationBatcher.takeDue();
+    expect(batch.kind).toBe("group");
+    expect(batch.incidents.map((i) => i.id)).toEqual(["a", "b"]);
+  });
+
+  it("drops only unchanged repeats of an incident already in the group", () => {
+    const slack = target();
+    notificationBatcher.admit(incident("a"), slack);
+
+    expect(notificationBatcher.admit(incident("a"), slack).action).toBe("duplicate");
+    expect(notificationBatcher.admit(incident("a", { severity: "critical" }), slack).action).toBe("hold");
+
+    now += 300 * 1000;
+    const [batch] = notificationBatcher.takeDue();
+    expect(batch.incidents).toHaveLength(1);
+    expect(batch.incidents[0].severity).toBe("critical");
+    expect(batch.priority).toBe("critical");
+  });
+
+  it("holds sends over the rate limit and releases them once there is room", () => {
+    const webhook = target("webhook");
+    for (let i = 0; i < 10; i++) {
+      const admission = notificationBatcher.admit(incident(`r${i}`, { category: "high-cpu", resource: `web${i}-api`, workload: undefined }), webhook);
+      expect(admission.action).toBe("send");
+      notificationBatcher.recordSend(webhook);
+    }
+
+    const overflow = notificationBatcher.admit(incident("r10", { category: "high-cpu", resource: "web10-api", workload: undefined }), webhook);
+    expect(overflow).toMatchObject({ action: "hold", kind: "overflow" });
+    expect(notificationBatcher.takeDue().filter((b) => b.kind === "overflow")).toHaveLength(0);
+
+    now += 60 * 1000;
+    const released = notificationBatcher.takeDue().filter((b) => b.kind === "overflow");
+    expect(released.map((b) => b.incidents.map((i) => i.id))).toEqual([["r10"]]);
+  });
+
+  it("replaces a queued digest entry when the incident changes", () => {
+    const email = target("email");
+
+    expect(notificationBatcher.addToDigest(incident("d", { severity: "low" }), email)).toBe(true);
+    expect(notificationBatcher.addToDigest(incident("d", { severity: "low" }), email)).toBe(false);
+    expect(notificationBatcher.addToDigest(incident("d", { severity: "low", status: "acknowledged" }), email)).toBe(true);
+
+    const [digest] = notificationBatcher.takeDue(true).filter((b) => b.kind === "digest");
+    expect(digest.incidents).toHaveLength(1);
+    expect(digest.incidents[0].status).toBe("acknowledged");
+  });
+
+  it("never batches the console", () => {
+    const consoleTarget = target("console");
+    notificationBatcher.admit(incident("c"), consoleTarget);
+
+    expect(notificationBatcher.admit(incident("c"), consoleTarget).action).toBe("send");
+  });
+});
+
+describe("batch helpers", () => {
+  beforeEach(() => {
+    now = Date.parse("2026-01-05T12:00:00Z");
+  });
+
+  it("treats severities up to the digest severity as digest-only", () => {
+    expect(isDigestSeverity("low")).toBe(true);
+    expect(isDigestSeverity("medium")).toBe(false);
+  });
+
+  it("summarises a group as one line per incident", () => {
+    const summary = summarizeBatch({
+      kind: "group",
+      key: "group",
+      target: target(),
+      priority: "high",
+      incidents: [incident("a"), incident("b", { severity: "high" })],
+    });
+
+    expect(summary.subject).toBe("[HIGH] 2 crash-loop incidents on shop/api");
+    expect(summary.body.split("\n")).toHaveLength(2);
+    expect(summary.body).toContain("• [HIGH] CRASH LOOP: b");
+  });
+
+  it("sends webhooks the incidents as JSON", () => {
+    const summary = summarizeBatch({
+      kind: "digest",
+      key: "digest",
+      target: target("webhook"),
+      priority: "low",
+      incidents: [incident("a")],
+    });
+
+    expect(summary.format).toBe("json");
+    expect(JSON.parse(summary.body)).toMatchObject({ event: "incident.digest", title: "Digest: 1 incident" });
+  });
+});
@@ -0,0 +1,255 @@
+import { config } from "../config/index.js";
+import { createChildLogger } from "../utils/logger.js";
+import type { Incident, IncidentSeverity } from "../incidents/types.js";
+import { workloadOf } from "../incidents/correlation.js";
+import type { NotificationConfig, NotificationPriority } from "./notifications.js";
+
+const logger = createChildLogger("notification-batching");
+
+const SEVERITY_ORDER: IncidentSeverity[] = ["low", "medium", "high", "critical"];
+const MAX_SUMMARY_LINES = 50;
+
+export type BatchKind = "group" | "digest" | "overflow";
+
+/** Incidents held back for one destination, sent together as a single notification. */
+export interface NotificationBatch {
+  kind: BatchKind;
+  key: string;
+  target: NotificationConfig;
+  priority: NotificationPriority;
+  incidents: Incident[];
+  // For groups, the notification already sent for the first incident
+  leadNotificationId?: string;
+}
+
+export type Admission =
+  | { action: "send"; groupKey?: string }
+  | { action: "duplicate" }
+  | { action: "hold"; kind: BatchKind; key: string };
+
+interface PendingBatch {
+  target: NotificationConfig;
+  openedAt: number;
+  incidents: Incident[];
+}
+
+interface OpenGroup extends PendingBatch {
+  // Incidents that joined after the first, or changed since it was sent, and have not been sent yet
+  held: Set<string>;
+  leadNotificationId?: string;
+}
+
+function targetKey(target: NotificationConfig): string {
+  return `${target.channel}|${target.webhookUrl ?? ""}|${(target.recipients ?? []).join(",")}|${target.mention ?? ""}`;
+}
+
+// A summary line shows these, so an update that leaves them alone adds nothing
+function sameSummary(a: Incident, b: Incident): boolean {
+  return a.severity === b.severity && a.status === b.status && a.title === b.title;
+}
+
+function highestPriority(incidents: Incident[]): NotificationPriority {
+  const index = Math.max(...incidents.map((i) => SEVERITY_ORDER.indexOf(i.severity)));
+  return SEVERITY_ORDER[index] as NotificationPriority;
+}
+
+export function isDigestSeverity(severity: IncidentSeverity): boolean {
+  const digestSeverity = config.notifications.digestSeverity;
+  if (digestSeverity === "none") return false;
+  return SEVERITY_ORDER.indexOf(severity) <= SEVERITY_ORDER.indexOf(digestSeverity);
+}
+
+/**
+ * Decides whether a notification goes out now or is held for a batch.
+ *
+ * - Groups: incidents of the same category on the same workload, for the same
+ *   destination, within `groupWindowSeconds` of the first. The first is sent
+ *   right away; the rest are held and sent as one updated summary of the whole
+ *   group when the window closes. An incident already in the group replaces
+ *   its queued entry; it is only a duplicate when nothing it shows changed.
+ * - Rate limit: at most `rateLimitPerMinute` sends per destination. The
+ *   overflow is held and released as one summary once there is room again.
+ * - Digest: incidents at or below `digestSeverity` collected per destination
+ *   and summarised every `digestIntervalMinutes`.
+ *
+ * Held batches live in memory; the notifications they cover are recorded as `batched`.
+ */
+class NotificationBatcher {
+  private groups: Map<string, OpenGroup> = new Map();
+  private digests: Map<string, PendingBatch> = new Map();
+  private overflow: Map<string, PendingBatch> = new Map();
+  private sendTimes: Map<string, number[]> = new Map();
+
+  admit(incident: Incident, target: NotificationConfig): Admission {
+    if (target.channel === "console") return { action: "send" };
+
+    const destination = targetKey(target);
+    const now = Date.now();
+    const windowMs = config.notifications.groupWindowSeconds * 1000;
+    let groupKey: string | undefined;
+
+    if (windowMs > 0) {
+      groupKey = `${destination}|${incident.category}|${incident.namespace}/${workloadOf(incident)}`;
+      const group = this.groups.get(groupKey);
+
+      if (group && now - group.openedAt < windowMs) {
+        const index = group.incidents.findIndex((i) => i.id === incident.id);
+        if (index >= 0 && sameSummary(group.incidents[index], incident)) {
+          return { action: "duplicate" };
+        }
+        if (index >= 0) {
+          group.incidents[index] = incident;
+        } else {
+          group.incidents.push(incident);
+        }
+        group.held.add(incident.id);
+        return { action: "hold", kind: "group", key: groupKey };
+      }
+      this.groups.set(groupKey, { target, openedAt: now, incidents: [incident], held: new Set() });
+    }
+
+    if (this.isRateLimited(destination, now)) {
+      this.hold(this.overflow, destination, target, incident, now);
+      logger.warn({ channel: target.channel, incidentId: incident.id }, "Notification rate limit reached, holding");
+      return { action: "hold", kind: "overflow", key: destination };
+    }
+
+    return { action: "send", groupKey };
+  }
+
+  /**
+   * Queues an incident for the destination's next digest, replacing an older
+   * entry for it. Returns false if it is already queued unchanged.
+   */
+  addToDigest(incident: Incident, target: NotificationConfig): boolean {
+    const destination = targetKey(target);
+    const queued = this.digests.get(destination)?.incidents.find((i) => i.id === incident.id);
+    if (queued && sameSummary(queued, incident)) return false;
+    this.hold(this.digests, destination, target, incident, Date.now());
+    return true;
+  }
+
+  recordSend(target: NotificationConfig, groupKey?: string, notificationId?: string) {
+    if (target.channel === "console") return;
+
+    const destination = targetKey(target);
+    this.sendTimes.set(destination, [...(this.sendTimes.get(destination) ?? []), Date.now()]);
+
+    const group = groupKey ? this.groups.get(groupKey) : undefined;
+    if (group && notificationId && !group.leadNotificationId) {
+      group.leadNotificationId = notificationId;
+    }
+  }
+
+  /** Removes and returns every batch that is due to be sent, or all of them when forced. */
+  takeDue(force = false): NotificationBatch[] {
+    const due: NotificationBatch[] = [];
+    const now = Date.now();
+    const windowMs = config.notifications.groupWindowSeconds * 1000;
+    const digestMs = config.notifications.digestIntervalMinutes * 60 * 1000;
+
+    for (const [key, group] of this.groups) {
+      if (!force && now - group.openedAt < windowMs) continue;
+      this.groups.delete(key);
+      if (group.held.size === 0) continue;
+
+      due.push({
+        kind: "group",
+        key,
+        target: group.target,
+        priority: highestPriority(group.incidents),
+        incidents: group.incidents,
+        leadNotificationId: group.leadNotificationId,
+      });
+    }
+
+    for (const [key, digest] of this.digests) {
+      if (!force && now - digest.openedAt < digestMs) continue;
+      this.digests.delete(key);
+      due.push({
+        kind: "digest",
+        key,
+        target: digest.target,
+        priority: highestPriority(digest.incidents),
+        incidents: digest.incidents,
+      });
+    }
+
+    for (const [key, held] of this.overflow) {
+      if (!force && this.isRateLimited(key, now)) continue;
+      this.overflow.delete(key);
+      due.push({
+        kind: "overflow",
+        key,
+        target: held.target,
+        priority: highestPriority(held.incidents),
+        incidents: held.incidents,
+      });
+    }
+
+    return due;
+  }
+
+  getPending(): { groups: number; digests: number; overflow: number; heldIncidents: number } {
+    const held = (batches: Iterable<PendingBatch>) =>
+      Array.from(batches).reduce((sum, batch) => sum + batch.incidents.length, 0);
+    return {
+      groups: Array.from(this.groups.values()).filter((g) => g.held.size > 0).length,
+      digests: this.digests.size,
+      overflow: this.overflow.size,
+      heldIncidents: Array.from(this.groups.values()).reduce((sum, g) => sum + g.held.size, 0) +
+        held(this.digests.values()) + held(this.overflow.values()),
+    };
+  }
+
+  private hold(batches: Map<string, PendingBatch>, key: string, target: NotificationConfig, incident: Incident, now: number) {
+    const batch = batches.get(key);
+    const index = batch ? batch.incidents.findIndex((i) => i.id === incident.id) : -1;
+    if (batch && index >= 0) {
+      batch.incidents[index] = incident;
+    } else if (batch) {
+      batch.incidents.push(incident);
+    } else {
+      batches.set(key, { target, openedAt: now, incidents: [incident] });
+    }
+  }
+
+  private isRateLimited(destination: string, now: number): boolean {
+    const limit = config.notifications.rateLimitPerMinute;
+    if (limit <= 0) return false;
+
+    const recent = (this.sendTimes.get(destination) ?? []).filter((t) => now - t < 60000);
+    this.sendTimes.set(destination, recent);
+    return recent.length >= limit;
+  }
+}
+
+/** Title and body for a batch, in the destination channel's format. */
+export function summarizeBatch(batch: NotificationBatch): { subject: string; body: string; format: "text" | "json" } {
+  const [first] = batch.incidents;
+  const count = batch.incidents.length;
+  const subject = {
+    group: `[${batch.priority.toUpperCase()}] ${count} ${first.category} incidents on ${first.namespace}/${workloadOf(first)}`,
+    digest: `Digest: ${count} incident${count === 1 ? "" : "s"}`,
+    overflow: `${count} notification${count === 1 ? "" : "s"} held by rate limit`,
+  }[batch.kind];
+
+  if (batch.target.channel === "webhook") {
+    return {
+      subject,
+      format: "json",
+      body: JSON.stringify({ event: `incident.${batch.kind}`, title: subject, incidents: batch.incidents }),
+    };
+  }
+
+  const bullet = batch.target.channel === "slack" ? "•" : "-";
+  const lines = batch.incidents.slice(0, MAX_SUMMARY_LINES).map((incident) =>
+    `${bullet} [${incident.severity.toUpperCase()}] ${incident.title} (${incident.namespace}/${incident.resource}, ${incident.detectedAt})`
+  );
+  if (count > MAX_SUMMARY_LINES) {
+    lines.push(`…and ${count - MAX_SUMMARY_LINES} more`);
+  }
+  return { subject, format: "text", body: lines.join("\n") };
+}
+
+export const notificationBatcher = new NotificationBatcher();
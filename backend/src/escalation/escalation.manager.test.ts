@@ -0,0 +1,183 @@
+import { escalationManager } from "./escalation.manager.js";
+import { notificationService } from "./notifications.js";
+import { incidentDetector } from "../incidents/detector.js";
+import { approvalQueue } from "../healing/approvals.js";
+import type { Incident } from "../incidents/types.js";
+
+jest.mock("../incidents/detector.js", () => ({
+  incidentDetector: {
+    escalateIncident: jest.fn(),
+    acknowledgeIncident: jest.fn(),
+    getIncident: jest.fn(),
+    getIncidents: jest.fn(() => []),
+  },
+}));
+jest.mock("./notifications.js", () => ({
+  notificationService: { sendNotification: jest.fn() },
+}));
+
+const notifications = notificationService as jest.Mocked<typeof notificationService>;
+const detector = incidentDetector as jest.Mocked<typeof incidentDetector>;
+
+function incident(overrides: Partial<Incident> = {}): Incident {
+  return {
+    id: "incident-1",
+    title: "NODE NOT READY: worker-1",
+    description: "",
+    severity: "critical",
+    category: "node-not-ready",
+    status: "open",
+    resource: "worker-1",
+    resourceType: "node",
+    namespace: "",
+    detectedAt: new Date().toISOString(),
+    autoHealable: false,
+    autoHealingAttempted: false,
+    escalated: false,
+    metrics: {},
+    relatedAlerts: [],
+    suggestedAction: "",
+    productionBehavior: "",
+    ...overrides,
+  };
+}
+
+describe("escalationManager.escalate", () => {
+  afterEach(() => {
+    escalationManager.unfreezeAutomation("test");
+    jest.clearAllMocks();
+  });
+
+  it("pages once when the same incident is escalated concurrently", async () => {
+    let deliver: (value: []) => void = () => undefined;
+    notifications.sendNotification.mockReturnValue(new Promise((resolve) => { deliver = resolve; }));
+    const target = incident({ id: "incident-concurrent" });
+
+    const first = escalationManager.escalate(target);
+    const second = escalationManager.escalate(target);
+    deliver([]);
+
+    const [a, b] = await Promise.all([first, second]);
+    expect(b).toBe(a);
+    expect(notifications.sendNotification).toHaveBeenCalledTimes(1);
+    expect(detector.escalateIncident).toHaveBeenCalledWith("incident-concurrent");
+    expect(escalationManager.getActiveFreezes()).toHaveLength(1);
+  });
+
+  it("gives freezes raised by a policy an expiry", async () => {
+    notifications.sendNotification.mockResolvedValue([]);
+
+    await escalationManager.escalate(incident({ id: "incident-freeze" }));
+
+    const [freeze] = escalationManager.getActiveFreezes();
+    expect(freeze.incidentId).toBe("incident-freeze");
+    expect(Date.parse(freeze.expiresAt!) - Date.parse(freeze.frozenAt)).toBe(60 * 60 * 1000);
+  });
+});
+
+describe("escalationManager scheduler", () => {
+  const minutes = (n: number) => n * 60 * 1000;
+  let incidents: Incident[];
+
+  const channelsSent = () => notifications.sendNotification.mock.calls.map(([, channels]) => channels);
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: Date.parse("2026-01-05T12:00:00Z") });
+    incidents = [];
+    notifications.sendNotification.mockResolvedValue([]);
+    detector.getIncidents.mockImplementation(() => incidents);
+    detector.getIncident.mockImplementation((id) => incidents.find((i) => i.id === id));
+    escalationManager.startScheduler(30 * 1000);
+  });
+
+  afterEach(() => {
+    escalationManager.stopScheduler();
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it("escalates an unacknowledged incident once its policy's grace period has passed", async () => {
+    incidents = [incident({ id: "sched-due", severity: "high", detectedAt: new Date().toISOString() })];
+
+    await jest.advanceTimersByTimeAsync(minutes(4.5));
+    expect(notifications.sendNotification).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(minutes(0.5));
+    expect(channelsSent()).toEqual([["slack"]]);
+    expect(escalationManager.getEscalationRecord("sched-due")).toMatchObject({ policyId: "high-5min", currentStep: 0 });
+  });
+
+  it("gives a reopened incident a fresh grace period", async () => {
+    incidents = [incident({
+      id: "sched-reopened",
+      severity: "high",
+      detectedAt: new Date(Date.now() - minutes(60)).toISOString(),
+      reopenedAt: new Date().toISOString(),
+    })];
+
+    await jest.advanceTimersByTimeAsync(minutes(4.5));
+    expect(notifications.sendNotification).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(minutes(0.5));
+    expect(notifications.sendNotification).toHaveBeenCalledTimes(1);
+  });
+
+  it("walks the chain and repeats the latest step until acknowledged", async () => {
+    incidents = [incident({ id: "sched-chain", severity: "high", detectedAt: new Date().toISOString() })];
+
+    // Escalated at 5m; email at +10m, repeated 15m later; PagerDuty at +30m
+    await jest.advanceTimersByTimeAsync(minutes(36));
+    expect(channelsSent()).toEqual([["slack"], ["email"], ["email"], ["pagerduty"]]);
+    expect(escalationManager.getEscalationRecord("sched-chain")).toMatchObject({ currentStep: 2, repeatCount: 0 });
+
+    await jest.advanceTimersByTimeAsync(minutes(15));
+    expect(channelsSent()).toHaveLength(5);
+    expect(escalationManager.getEscalationRecord("sched-chain")?.repeatCount).toBe(1);
+  });
+
+  it("stops notifying once the escalation is acknowledged", async () => {
+    incidents = [incident({ id: "sched-ack", severity: "high", detectedAt: new Date().toISOString() })];
+    await jest.advanceTimersByTimeAsync(minutes(5));
+
+    escalationManager.acknowledgeEscalation("sched-ack", "ana@example.com");
+    await jest.advanceTimersByTimeAsync(minutes(60));
+
+    expect(notifications.sendNotification).toHaveBeenCalledTimes(1);
+    expect(detector.acknowledgeIncident).toHaveBeenCalledWith("sched-ack");
+  });
+
+  it("stops notifying once the incident is resolved", async () => {
+    const target = incident({ id: "sched-resolved", severity: "high", detectedAt: new Date().toISOString() });
+    incidents = [target];
+    await jest.advanceTimersByTimeAsync(minutes(5));
+
+    target.status = "resolved";
+    await jest.advanceTimersByTimeAsync(minutes(60));
+
+    expect(notifications.sendNotification).toHaveBeenCalledTimes(1);
+  });
+
+  it("leaves incidents waiting on a healing retry or an approval to the healing engine", async () => {
+    const retrying = incident({
+      id: "sched-retrying",
+      severity: "high",
+      detectedAt: new Date().toISOString(),
+      autoHealingResult: "failed",
+      nextHealingAttemptAt: new Date(Date.now() + minutes(10)).toISOString(),
+    });
+    const awaitingApproval = incident({ id: "sched-approval", severity: "high", detectedAt: new Date().toISOString() });
+    approvalQueue.request(
+      awaitingApproval,
+      { id: "rule-1", name: "Drain", parameters: { approvalTimeoutMinutes: 120 } },
+      { type: "drain-node", description: "Drain the node", parameters: {} }
+    );
+    incidents = [retrying, awaitingApproval];
+
+    await jest.advanceTimersByTimeAsync(minutes(9));
+    expect(notifications.sendNotification).not.toHaveBeenCalled();
+
+    // The backoff ran out without the engine picking the incident up again
+    await jest.advanceTimersByTimeAsync(minutes(1.5));
+    expect(notifications.sendNotification.mock.calls.map(([escalated]) => escalated.id)).toEqual(["sched-retrying"]);
+  });
+});
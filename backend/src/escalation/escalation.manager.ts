@@ -1,25 +1,85 @@
+import { v4 as uuidv4 } from "uuid";
 import { createChildLogger } from "../utils/logger.js";
 import { incidentDetector } from "../incidents/detector.js";
-import { notificationService } from "./notifications.js";
-import type { Incident, IncidentSeverity } from "../incidents/types.js";
+import { notificationService, type DirectTarget, type NotificationChannel } from "./notifications.js";
+import { onCallManager } from "./oncall.js";
+import { approvalQueue } from "../healing/approvals.js";
+import type { Incident, IncidentSeverity, IncidentCategory } from "../incidents/types.js";
+import { persistence } from "../persistence/index.js";
+import { config } from "../config/index.js";
+import { auditLog, systemActor } from "../audit/audit-log.js";
 
 const logger = createChildLogger("escalation-manager");
 
+/** A later stage of an escalation chain, counted from when the incident was escalated. */
+export interface EscalationStep {
+  afterMinutes: number;
+  notifyChannels: NotificationChannel[];
+  // Teams whose current on-call engineer is notified directly
+  notifyOnCall?: string[];
+}
+
 export interface EscalationPolicy {
   id: string;
   name: string;
   severity: IncidentSeverity;
+  // Unacknowledged incidents are escalated this long after detection
   escalateAfterMinutes: number;
-  notifyChannels: string[];
+  notifyChannels: NotificationChannel[];
+  notifyOnCall?: string[];
+  chain: EscalationStep[];
+  // Re-send the latest step until acknowledged; 0 disables
+  repeatIntervalMinutes: number;
   freezeAutomation: boolean;
+  // How long a freeze raised by this policy lasts; defaults to HEALING_FREEZE_MINUTES
+  freezeDurationMinutes?: number;
   requiresAck: boolean;
 }
 
+export interface FreezeScope {
+  // Empty or missing lists match everything; a freeze with neither is global
+  namespaces?: string[];
+  categories?: IncidentCategory[];
+}
+
+export interface AutomationFreeze {
+  id: string;
+  scope: FreezeScope;
+  reason: string;
+  frozenBy: string;
+  frozenAt: string;
+  expiresAt?: string;
+  incidentId?: string;
+  unfrozenAt?: string;
+  unfrozenBy?: string;
+  unfreezeReason?: string;
+}
+
+export type ResponderAction = "acknowledge" | "resolve" | "heal";
+
+/** Something a responder did about an escalated incident, and where they did it from. */
+export interface ResponderActionRecord {
+  action: ResponderAction;
+  by: string;
+  via: "api" | "link" | "slack";
+  at: string;
+  success: boolean;
+  message?: string;
+}
+
 export interface EscalationRecord {
   incidentId: string;
   escalatedAt: string;
   policy: string;
   notificationsSent: number;
+  policyId?: string;
+  // 0 is the policy's own channels, n is chain[n - 1]
+  currentStep?: number;
+  lastNotifiedAt?: string;
+  repeatCount?: number;
+  // On-call engineers notified so far
+  notifiedOnCall?: string[];
+  responderActions?: ResponderActionRecord[];
   acknowledged: boolean;
   acknowledgedBy?: string;
   acknowledgedAt?: string;
@@ -33,6 +93,8 @@ class EscalationManager {
       severity: "critical",
       escalateAfterMinutes: 0,
       notifyChannels: ["pagerduty", "slack", "email"],
+      chain: [],
+      repeatIntervalMinutes: 5,
       freezeAutomation: true,
       requiresAck: true,
     },
@@ -41,7 +103,12 @@ class EscalationManager {
       name: "High - 5 Minute Escalation",
       severity: "high",
       escalateAfterMinutes: 5,
-      notifyChannels: ["slack", "email"],
+      notifyChannels: ["slack"],
+      chain: [
+        { afterMinutes: 10, notifyChannels: ["email"] },
+        { afterMinutes: 30, notifyChannels: ["pagerduty"] },
+      ],
+      repeatIntervalMinutes: 15,
       freezeAutomation: false,
       requiresAck: true,
     },
@@ -51,20 +118,179 @@ class EscalationManager {
       severity: "medium",
       escalateAfterMinutes: 15,
       notifyChannels: ["slack"],
+      chain: [],
+      repeatIntervalMinutes: 0,
       freezeAutomation: false,
       requiresAck: false,
     },
   ];
 
   private escalationRecords: Map<string, EscalationRecord> = new Map();
-  private automationFrozen: boolean = false;
+  private schedulerInterval: NodeJS.Timeout | null = null;
+  private schedulerRunning = false;
+  private freezes: Map<string, AutomationFreeze> = new Map();
+  private recordStore = persistence.collection<EscalationRecord>("escalation-records", {
+    idOf: (record) => record.incidentId,
+    timestampOf: (record) => record.escalatedAt,
+    retention: {
+      maxRecords: config.persistence.retention.maxEscalationRecords,
+      maxAgeDays: config.persistence.retention.maxAgeDays,
+    },
+  });
+
+  private freezeStore = persistence.collection<AutomationFreeze>("automation-freezes", {
+    idOf: (freeze) => freeze.id,
+    timestampOf: (freeze) => freeze.frozenAt,
+    retention: {
+      maxRecords: config.persistence.retention.maxEscalationRecords,
+      maxAgeDays: config.persistence.retention.maxAgeDays,
+    },
+  });
+
+  async restore(): Promise<void> {
+    const [records, freezes] = await Promise.all([this.recordStore.load(), this.freezeStore.load()]);
+    this.escalationRecords = new Map(records.map((record) => [record.incidentId, record]));
+    this.freezes = new Map(freezes.map((freeze) => [freeze.id, freeze]));
+    logger.info({ count: records.length, freezes: freezes.length }, "Escalation records restored");
+  }
+
+  startScheduler(intervalMs = 30000) {
+    if (this.schedulerInterval) {
+      clearInterval(this.schedulerInterval);
+    }
+
+    this.schedulerInterval = setInterval(() => {
+      this.runScheduler();
+    }, intervalMs);
+
+    logger.info({ intervalMs }, "Escalation scheduler started");
+  }
+
+  stopScheduler() {
+    if (this.schedulerInterval) {
+      clearInterval(this.schedulerInterval);
+      this.schedulerInterval = null;
+      logger.info("Escalation scheduler stopped");
+    }
+  }
+
+  /**
+   * Escalates incidents nobody has picked up within their policy's
+   * escalateAfterMinutes, then walks each open escalation down its chain and
+   * re-notifies until someone acknowledges it.
+   */
+  private async runScheduler() {
+    // A slow channel can outlast the interval; overlapping runs would page twice
+    if (this.schedulerRunning) return;
+    this.schedulerRunning = true;
+
+    try {
+      const now = Date.now();
+
+      for (const incident of incidentDetector.getIncidents()) {
+        if (incident.status !== "open" && incident.status !== "escalated") continue;
+        if (this.escalationRecords.has(incident.id)) continue;
+        if (this.isAwaitingHealing(incident, now)) continue;
+
+        const policy = this.getPolicyForSeverity(incident.severity);
+        if (!policy) continue;
+
+        // A reopened incident gets the full grace period again
+        const since = new Date(incident.reopenedAt ?? incident.detectedAt).getTime();
+        const dueAt = since + policy.escalateAfterMinutes * 60 * 1000;
+        if (incident.status === "escalated" || now >= dueAt) {
+          await this.escalate(incident);
+        }
+      }
+
+      for (const record of this.escalationRecords.values()) {
+        if (record.acknowledged || !record.policyId) continue;
+        await this.advanceEscalation(record, now);
+      }
+    } catch (error) {
+      logger.error({ error }, "Escalation scheduler run failed");
+    } finally {
+      this.schedulerRunning = false;
+    }
+  }
+
+  /**
+   * Incidents the healing engine still owns: back to open while a retry
+   * backoff runs, or held for an approval. Exhausted retries and rejected or
+   * expired approvals escalate them directly.
+   */
+  private isAwaitingHealing(incident: Incident, now: number): boolean {
+    if (approvalQueue.getOpenForIncident(incident.id)) return true;
+    return incident.autoHealingResult === "failed" &&
+      !!incident.nextHealingAttemptAt &&
+      new Date(incident.nextHealingAttemptAt).getTime() > now;
+  }
+
+  private async advanceEscalation(record: EscalationRecord, now: number) {
+    const policy = this.policies.find((p) => p.id === record.policyId);
+    const incident = incidentDetector.getIncident(record.incidentId);
+    if (!policy || !incident) return;
+    // Someone picked the incident up elsewhere, nothing left to chase
+    if (incident.status === "acknowledged" || incident.status === "resolved") return;
+
+    const step = record.currentStep ?? 0;
+    const next = policy.chain[step];
+    const escalatedAt = new Date(record.escalatedAt).getTime();
+
+    if (next && now >= escalatedAt + next.afterMinutes * 60 * 1000) {
+      record.currentStep = step + 1;
+      record.repeatCount = 0;
+      await this.notify(record, incident, next);
+      logger.warn({
+        incidentId: incident.id,
+        step: record.currentStep,
+        channels: next.notifyChannels,
+        onCall: next.notifyOnCall,
+      }, "Escalation advanced");
+      return;
+    }
+
+    if (!policy.requiresAck || policy.repeatIntervalMinutes <= 0) return;
+
+    const lastNotifiedAt = new Date(record.lastNotifiedAt ?? record.escalatedAt).getTime();
+    if (now >= lastNotifiedAt + policy.repeatIntervalMinutes * 60 * 1000) {
+      record.repeatCount = (record.repeatCount ?? 0) + 1;
+      await this.notify(record, incident, step === 0 ? policy : policy.chain[step - 1]);
+      logger.info({ incidentId: incident.id, repeat: record.repeatCount }, "Unacknowledged escalation re-notified");
+    }
+  }
+
+  private async notify(
+    record: EscalationRecord,
+    incident: Incident,
+    step: Pick<EscalationStep, "notifyChannels" | "notifyOnCall">
+  ) {
+    const direct: DirectTarget[] = (step.notifyOnCall ?? []).flatMap((team) =>
+      onCallManager.getTargets(team).map(({ target, member }) => ({ target, recipient: member.name }))
+    );
+    const notifications = await notificationService.sendNotification(incident, step.notifyChannels, direct);
+    record.notificationsSent += notifications.length;
+    if (direct.length > 0) {
+      record.notifiedOnCall = Array.from(new Set([...(record.notifiedOnCall ?? []), ...direct.map((d) => d.recipient)]));
+    }
+    record.lastNotifiedAt = new Date().toISOString();
+    this.saveRecord(record);
+  }
 
   async escalate(incident: Incident): Promise<EscalationRecord> {
+    const existing = this.escalationRecords.get(incident.id);
+    if (existing && !existing.acknowledged) {
+      incidentDetector.escalateIncident(incident.id);
+      return existing;
+    }
+
     const policy = this.getPolicyForSeverity(incident.severity);
     
     if (!policy) {
       logger.warn({ incidentId: incident.id, severity: incident.severity }, "No escalation policy found");
-      return this.createBasicEscalation(incident);
+      const record = this.createBasicEscalation(incident);
+      incidentDetector.escalateIncident(incident.id);
+      return record;
     }
 
     logger.warn({
@@ -73,23 +299,46 @@ class EscalationManager {
       policy: policy.name,
     }, "Escalating incident");
 
-    if (policy.freezeAutomation) {
-      this.freezeAutomation(incident);
-    }
-
-    const notifications = await notificationService.sendNotification(incident);
-
     const record: EscalationRecord = {
       incidentId: incident.id,
       escalatedAt: new Date().toISOString(),
       policy: policy.name,
-      notificationsSent: notifications.length,
+      policyId: policy.id,
+      currentStep: 0,
+      repeatCount: 0,
+      notificationsSent: 0,
       acknowledged: false,
     };
 
-    this.escalationRecords.set(incident.id, record);
+    // Claim the incident before notifying so a concurrent call sees the record and stops
+    this.saveRecord(record);
     incidentDetector.escalateIncident(incident.id);
 
+    if (policy.freezeAutomation) {
+      const freeze = this.freezeAutomation({
+        reason: `${incident.severity} incident: ${incident.title}`,
+        frozenBy: "system",
+        incidentId: incident.id,
+        durationMinutes: policy.freezeDurationMinutes ?? config.healing.freezeMinutes,
+      });
+      auditLog.record({
+        actor: systemActor("escalation-manager"),
+        action: "automation.freeze",
+        target: { type: "automation-freeze", id: freeze.id },
+        message: freeze.reason,
+        after: freeze,
+      });
+    }
+
+    await this.notify(record, incident, policy);
+    auditLog.record({
+      actor: systemActor("escalation-manager"),
+      action: "incident.escalate",
+      target: { type: "incident", id: incident.id, namespace: incident.namespace },
+      message: `Escalated under ${policy.name}`,
+      after: { policy: policy.name, notifiedOnCall: record.notifiedOnCall },
+    });
+
     return record;
   }
 
@@ -101,32 +350,127 @@ class EscalationManager {
       notificationsSent: 0,
       acknowledged: false,
     };
-    this.escalationRecords.set(incident.id, record);
+    this.saveRecord(record);
     return record;
   }
 
+  private saveRecord(record: EscalationRecord) {
+    this.escalationRecords.set(record.incidentId, record);
+    this.recordStore.save(record);
+
+    if (this.escalationRecords.size > this.recordStore.maxRecords) {
+      const kept = this.recordStore.prune(Array.from(this.escalationRecords.values()));
+      this.escalationRecords = new Map(kept.map((r) => [r.incidentId, r]));
+    }
+  }
+
   private getPolicyForSeverity(severity: IncidentSeverity): EscalationPolicy | undefined {
     return this.policies.find((p) => p.severity === severity);
   }
 
-  private freezeAutomation(incident: Incident) {
-    this.automationFrozen = true;
+  freezeAutomation(options: {
+    reason: string;
+    frozenBy: string;
+    scope?: FreezeScope;
+    durationMinutes?: number;
+    incidentId?: string;
+  }): AutomationFreeze {
+    const now = Date.now();
+    const freeze: AutomationFreeze = {
+      id: uuidv4(),
+      scope: options.scope ?? {},
+      reason: options.reason,
+      frozenBy: options.frozenBy,
+      frozenAt: new Date(now).toISOString(),
+      expiresAt: options.durationMinutes
+        ? new Date(now + options.durationMinutes * 60 * 1000).toISOString()
+        : undefined,
+      incidentId: options.incidentId,
+    };
+
+    this.saveFreeze(freeze);
     logger.warn({
-      incidentId: incident.id,
-      reason: "Critical incident detected",
-    }, "Automation frozen - manual intervention required");
+      freezeId: freeze.id,
+      scope: freeze.scope,
+      reason: freeze.reason,
+      frozenBy: freeze.frozenBy,
+      expiresAt: freeze.expiresAt,
+    }, "Automation frozen");
+    return freeze;
   }
 
-  unfreezeAutomation(acknowledgedBy: string): boolean {
-    if (!this.automationFrozen) return false;
-    
-    this.automationFrozen = false;
-    logger.info({ acknowledgedBy }, "Automation unfrozen");
+  /**
+   * Lifts one freeze, or every active freeze when no id is given. Returns
+   * false when there was nothing to lift.
+   */
+  unfreezeAutomation(unfrozenBy: string, freezeId?: string, reason?: string): boolean {
+    const targets = this.getActiveFreezes().filter((f) => !freezeId || f.id === freezeId);
+    if (targets.length === 0) return false;
+
+    for (const freeze of targets) {
+      this.liftFreeze(freeze, unfrozenBy, reason ?? "Unfrozen manually");
+    }
+    logger.info({ unfrozenBy, freezeIds: targets.map((f) => f.id) }, "Automation unfrozen");
     return true;
   }
 
   isAutomationFrozen(): boolean {
-    return this.automationFrozen;
+    return this.getActiveFreezes().length > 0;
+  }
+
+  /** The active freeze covering a namespace and incident category, if any. */
+  getFreezeFor(target: { namespace: string; category?: IncidentCategory }): AutomationFreeze | undefined {
+    return this.getActiveFreezes().find(({ scope }) =>
+      (!scope.namespaces?.length || scope.namespaces.includes(target.namespace)) &&
+      (!scope.categories?.length || (!!target.category && scope.categories.includes(target.category)))
+    );
+  }
+
+  getActiveFreezes(): AutomationFreeze[] {
+    const now = Date.now();
+    const active: AutomationFreeze[] = [];
+
+    for (const freeze of this.freezes.values()) {
+      if (freeze.unfrozenAt) continue;
+      if (freeze.expiresAt && new Date(freeze.expiresAt).getTime() <= now) {
+        this.liftFreeze(freeze, "system", "Expired");
+        auditLog.record({
+          actor: systemActor("escalation-manager"),
+          action: "automation.unfreeze",
+          target: { type: "automation-freeze", id: freeze.id },
+          message: "Expired",
+          before: { reason: freeze.reason, frozenBy: freeze.frozenBy, expiresAt: freeze.expiresAt },
+        });
+        logger.info({ freezeId: freeze.id }, "Automation freeze expired");
+        continue;
+      }
+      active.push(freeze);
+    }
+    return active;
+  }
+
+  getFreezeHistory(): AutomationFreeze[] {
+    this.getActiveFreezes();
+    return Array.from(this.freezes.values()).sort((a, b) =>
+      new Date(b.frozenAt).getTime() - new Date(a.frozenAt).getTime()
+    );
+  }
+
+  private liftFreeze(freeze: AutomationFreeze, unfrozenBy: string, reason: string) {
+    freeze.unfrozenAt = new Date().toISOString();
+    freeze.unfrozenBy = unfrozenBy;
+    freeze.unfreezeReason = reason;
+    this.saveFreeze(freeze);
+  }
+
+  private saveFreeze(freeze: AutomationFreeze) {
+    this.freezes.set(freeze.id, freeze);
+    this.freezeStore.save(freeze);
+
+    if (this.freezes.size > this.freezeStore.maxRecords) {
+      const kept = this.freezeStore.prune(Array.from(this.freezes.values()));
+      this.freezes = new Map(kept.map((f) => [f.id, f]));
+    }
   }
 
   acknowledgeEscalation(incidentId: string, acknowledgedBy: string): EscalationRecord | null {
@@ -136,12 +480,28 @@ class EscalationManager {
     record.acknowledged = true;
     record.acknowledgedBy = acknowledgedBy;
     record.acknowledgedAt = new Date().toISOString();
-    this.escalationRecords.set(incidentId, record);
+    this.saveRecord(record);
+
+    const incident = incidentDetector.getIncident(incidentId);
+    if (incident && incident.status !== "resolved") {
+      incidentDetector.acknowledgeIncident(incidentId);
+    }
 
     logger.info({ incidentId, acknowledgedBy }, "Escalation acknowledged");
     return record;
   }
 
+  /** Attributes an action to a responder on the incident's escalation, if it has one. */
+  recordResponderAction(incidentId: string, action: Omit<ResponderActionRecord, "at">): EscalationRecord | null {
+    const record = this.escalationRecords.get(incidentId);
+    if (!record) return null;
+
+    record.responderActions = [...(record.responderActions ?? []), { ...action, at: new Date().toISOString() }];
+    this.saveRecord(record);
+    logger.info({ incidentId, ...action }, "Responder action recorded");
+    return record;
+  }
+
   getEscalationRecord(incidentId: string): EscalationRecord | undefined {
     return this.escalationRecords.get(incidentId);
   }
@@ -176,7 +536,7 @@ class EscalationManager {
       last24h: recent.length,
       acknowledged: records.filter((r) => r.acknowledged).length,
       pending: records.filter((r) => !r.acknowledged).length,
-      automationFrozen: this.automationFrozen,
+      automationFrozen: this.isAutomationFrozen(),
     };
   }
 }
@@ -1,2 +1,8 @@
 export * from "./escalation.manager.js";
 export * from "./notifications.js";
+export * from "./templates.js";
+export * from "./routing.js";
+export * from "./batching.js";
+export * from "./oncall.js";
+export * from "./action-links.js";
+export * from "./responder.js";
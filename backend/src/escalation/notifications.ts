@@ -1,11 +1,32 @@
 import { v4 as uuidv4 } from "uuid";
 import { createChildLogger } from "../utils/logger.js";
 import type { Incident, IncidentSeverity } from "../incidents/types.js";
+import { persistence } from "../persistence/index.js";
+import { config } from "../config/index.js";
+import {
+  DeliveryError,
+  resolvePagerDuty,
+  sendEmail,
+  sendPagerDuty,
+  sendSlack,
+  sendWebhook,
+  type SenderTarget,
+} from "./senders.js";
+import { notificationTemplates, type TemplateFormat } from "./templates.js";
+import { notificationRouter, type PlannedDelivery } from "./routing.js";
+import {
+  isDigestSeverity,
+  notificationBatcher,
+  summarizeBatch,
+  type BatchKind,
+  type NotificationBatch,
+} from "./batching.js";
 
 const logger = createChildLogger("notifications");
 
 export type NotificationChannel = "slack" | "pagerduty" | "email" | "webhook" | "console";
 export type NotificationPriority = "low" | "medium" | "high" | "critical";
+export type DeliveryStatus = "pending" | "delivered" | "failed" | "suppressed" | "batched";
 
 export interface Notification {
   id: string;
@@ -14,7 +35,21 @@ export interface Notification {
   priority: NotificationPriority;
   title: string;
   message: string;
+  format?: TemplateFormat;
+  templateId?: string;
+  routingRuleId?: string;
+  // Person addressed directly, e.g. the on-call engineer
+  recipient?: string;
+  // Quiet-hours or maintenance window that held this notification back
+  suppressedBy?: string;
+  // Summaries cover several incidents; incidentId is the first of them
+  incidentIds?: string[];
+  batchKind?: BatchKind;
   sentAt: string;
+  deliveryStatus: DeliveryStatus;
+  deliveryAttempts: number;
+  deliveredAt?: string;
+  deliveryError?: string;
   acknowledged: boolean;
   acknowledgedAt?: string;
   acknowledgedBy?: string;
@@ -26,71 +61,330 @@ export interface NotificationConfig {
   minSeverity: IncidentSeverity;
   webhookUrl?: string;
   recipients?: string[];
+  // Receives the periodic digest of low-severity incidents
+  digest?: boolean;
+  // Slack user to mention, for messages addressed to one person
+  mention?: string;
+}
+
+/** A delivery to one person, such as whoever is on call, on top of the channels. */
+export interface DirectTarget {
+  target: NotificationConfig;
+  recipient: string;
 }
 
 class NotificationService {
   private notifications: Map<string, Notification> = new Map();
   private configs: NotificationConfig[] = [
     { channel: "console", enabled: true, minSeverity: "low" },
-    { channel: "slack", enabled: false, minSeverity: "medium" },
-    { channel: "pagerduty", enabled: false, minSeverity: "critical" },
-    { channel: "email", enabled: false, minSeverity: "high" },
+    { channel: "slack", enabled: !!config.notifications.slack.webhookUrl, minSeverity: "medium", digest: true },
+    { channel: "webhook", enabled: !!config.notifications.webhook.url, minSeverity: "medium", digest: false },
+    { channel: "pagerduty", enabled: !!config.notifications.pagerduty.routingKey, minSeverity: "critical", digest: false },
+    { channel: "email", enabled: !!config.notifications.smtp.host, minSeverity: "high", digest: true },
   ];
+  private batchInterval: NodeJS.Timeout | null = null;
+  private store = persistence.collection<Notification>("notifications", {
+    idOf: (notification) => notification.id,
+    timestampOf: (notification) => notification.sentAt,
+    retention: {
+      maxRecords: config.persistence.retention.maxNotifications,
+      maxAgeDays: config.persistence.retention.maxAgeDays,
+    },
+  });
 
-  async sendNotification(incident: Incident): Promise<Notification[]> {
-    const sentNotifications: Notification[] = [];
-    const priority = this.mapSeverityToPriority(incident.severity);
+  async restore(): Promise<void> {
+    const notifications = await this.store.load();
+    this.notifications = new Map(notifications.map((n) => [n.id, n]));
+    logger.info({ count: notifications.length }, "Notifications restored");
+  }
 
-    for (const config of this.configs) {
-      if (!config.enabled) continue;
-      if (!this.shouldNotify(incident.severity, config.minSeverity)) continue;
+  /**
+   * Sends the incident to every enabled channel at or above its minimum
+   * severity. An escalation step passes its own channels instead, which are
+   * used regardless of severity; the console log always receives a copy.
+   * Routing rules and notification windows can redirect, suppress or
+   * downgrade these deliveries (see routing.ts). Correlated child incidents
+   * are covered by their parent's notifications and send none.
+   */
+  async sendNotification(
+    incident: Incident,
+    channels?: NotificationChannel[],
+    direct: DirectTarget[] = []
+  ): Promise<Notification[]> {
+    if (incident.parentId) {
+      logger.info({ incidentId: incident.id, parentId: incident.parentId }, "Notification skipped for correlated child incident");
+      return [];
+    }
 
-      const notification = await this.send(incident, config.channel, priority);
-      sentNotifications.push(notification);
+    const deliveries = await this.planDeliveries(incident, channels, direct);
+    const sentNotifications: Notification[] = [];
+    for (const delivery of deliveries) {
+      const notification = await this.send(incident, delivery);
+      if (notification) sentNotifications.push(notification);
     }
 
     return sentNotifications;
   }
 
-  private async send(
+  /** Where a notification for the incident would go right now, without sending it. */
+  async planDeliveries(
     incident: Incident,
-    channel: NotificationChannel,
-    priority: NotificationPriority
-  ): Promise<Notification> {
+    channels?: NotificationChannel[],
+    direct: DirectTarget[] = []
+  ): Promise<PlannedDelivery[]> {
+    const defaults = this.configs.filter((config) => {
+      if (!config.enabled) return false;
+      if (channels) return config.channel === "console" || channels.includes(config.channel);
+      return this.shouldNotify(incident.severity, config.minSeverity);
+    });
+
+    return notificationRouter.plan(incident, defaults, this.configs, channels, direct);
+  }
+
+  private async send(incident: Incident, delivery: PlannedDelivery): Promise<Notification | null> {
+    const { target: channelConfig, priority } = delivery;
+    const admission = delivery.suppressedBy
+      ? { action: "send" as const, groupKey: undefined }
+      : notificationBatcher.admit(incident, channelConfig);
+    if (admission.action === "duplicate") {
+      logger.debug({ incidentId: incident.id, channel: channelConfig.channel }, "Duplicate notification dropped");
+      return null;
+    }
+
+    const id = uuidv4();
+    const rendered = notificationTemplates.render(
+      notificationTemplates.resolve(channelConfig.channel, incident.category),
+      incident,
+      { id, channel: channelConfig.channel, priority, recipient: delivery.recipient }
+    );
     const notification: Notification = {
-      id: uuidv4(),
+      id,
       incidentId: incident.id,
-      channel,
+      channel: channelConfig.channel,
       priority,
-      title: `[${incident.severity.toUpperCase()}] ${incident.title}`,
-      message: this.formatMessage(incident),
+      title: rendered.subject,
+      message: rendered.body,
+      format: rendered.format,
+      templateId: rendered.templateId,
+      routingRuleId: delivery.routingRuleId,
+      recipient: delivery.recipient,
+      suppressedBy: delivery.suppressedBy,
       sentAt: new Date().toISOString(),
+      deliveryStatus: delivery.suppressedBy ? "suppressed" : "pending",
+      deliveryAttempts: 0,
       acknowledged: false,
     };
 
-    this.notifications.set(notification.id, notification);
+    if (delivery.suppressedBy) {
+      this.saveNotification(notification);
+      logger.info({ notificationId: id, channel: channelConfig.channel, windowId: delivery.suppressedBy }, "Notification suppressed");
+      return notification;
+    }
+    if (admission.action === "hold") {
+      notification.deliveryStatus = "batched";
+      notification.batchKind = admission.kind;
+      this.saveNotification(notification);
+      return notification;
+    }
+
+    this.saveNotification(notification);
+    await this.dispatch(notification, incident, channelConfig);
+    notificationBatcher.recordSend(channelConfig, admission.groupKey, notification.id);
+    return notification;
+  }
 
-    switch (channel) {
+  private async dispatch(notification: Notification, incident: Incident, channelConfig: NotificationConfig) {
+    const target: SenderTarget = {
+      webhookUrl: channelConfig.webhookUrl,
+      recipients: channelConfig.recipients,
+      mention: channelConfig.mention,
+    };
+    switch (channelConfig.channel) {
       case "console":
+        notification.deliveryAttempts = 1;
         this.sendToConsole(notification, incident);
+        this.markDelivered(notification);
         break;
       case "slack":
-        await this.sendToSlack(notification, incident);
+        await this.deliver(notification, () => sendSlack(target, notification, incident));
         break;
       case "pagerduty":
-        await this.sendToPagerDuty(notification, incident);
+        await this.deliver(notification, () => sendPagerDuty(target, notification, incident));
         break;
       case "email":
-        await this.sendEmail(notification, incident);
+        await this.deliver(notification, () => sendEmail(target, notification, incident));
         break;
       case "webhook":
-        await this.sendWebhook(notification, incident);
+        await this.deliver(notification, () => sendWebhook(target, notification, incident));
         break;
     }
+  }
+
+  /**
+   * Queues a newly detected incident at or below the digest severity for the
+   * next digest on every channel that takes one, following routing rules and
+   * notification windows like any other notification.
+   */
+  async queueForDigest(incident: Incident): Promise<void> {
+    if (incident.parentId || !isDigestSeverity(incident.severity)) return;
+
+    const channels = this.configs.filter((c) => c.digest).map((c) => c.channel);
+    if (channels.length === 0) return;
+
+    const deliveries = await this.planDeliveries(incident, channels);
+    for (const delivery of deliveries) {
+      if (delivery.target.channel === "console" || delivery.suppressedBy) continue;
+      notificationBatcher.addToDigest(incident, delivery.target);
+    }
+  }
+
+  startBatching(intervalMs: number = 15000) {
+    if (this.batchInterval) return;
+
+    this.batchInterval = setInterval(() => {
+      this.flushBatches().catch((error) => {
+        logger.error({ error }, "Failed to flush notification batches");
+      });
+    }, intervalMs);
+
+    logger.info({ intervalMs }, "Notification batching started");
+  }
+
+  stopBatching() {
+    if (this.batchInterval) {
+      clearInterval(this.batchInterval);
+      this.batchInterval = null;
+      logger.info("Notification batching stopped");
+    }
+  }
+
+  async flushBatches(force = false): Promise<Notification[]> {
+    const sent: Notification[] = [];
+    for (const batch of notificationBatcher.takeDue(force)) {
+      sent.push(await this.sendBatch(batch));
+    }
+    return sent;
+  }
+
+  /**
+   * Sends one notification covering a batch. A group follow-up to PagerDuty
+   * carries the first incident's dedup key, so it updates the page already
+   * open rather than raising another.
+   */
+  private async sendBatch(batch: NotificationBatch): Promise<Notification> {
+    const [lead] = batch.incidents;
+    const id = uuidv4();
+    const notification: Notification = {
+      id,
+      incidentId: lead.id,
+      channel: batch.target.channel,
+      priority: batch.priority,
+      title: "",
+      message: "",
+      incidentIds: batch.incidents.map((i) => i.id),
+      batchKind: batch.kind,
+      sentAt: new Date().toISOString(),
+      deliveryStatus: "pending",
+      deliveryAttempts: 0,
+      acknowledged: false,
+    };
+
+    if (batch.incidents.length === 1) {
+      // A batch of one is sent with its normal template
+      const rendered = notificationTemplates.render(
+        notificationTemplates.resolve(batch.target.channel, lead.category),
+        lead,
+        { id, channel: batch.target.channel, priority: batch.priority }
+      );
+      Object.assign(notification, {
+        title: rendered.subject,
+        message: rendered.body,
+        format: rendered.format,
+        templateId: rendered.templateId,
+      });
+    } else {
+      const summary = summarizeBatch(batch);
+      Object.assign(notification, { title: summary.subject, message: summary.body, format: summary.format });
+    }
 
+    this.saveNotification(notification);
+    await this.dispatch(notification, lead, batch.target);
+    notificationBatcher.recordSend(batch.target);
+    logger.info({
+      notificationId: id,
+      channel: batch.target.channel,
+      kind: batch.kind,
+      incidents: batch.incidents.length,
+    }, "Notification batch sent");
     return notification;
   }
 
+  /**
+   * Runs a sender with exponential backoff between attempts. Non-retryable
+   * failures (4xx, missing configuration) stop immediately. The outcome is
+   * recorded on the notification rather than thrown.
+   */
+  private async deliver(notification: Notification, sender: () => Promise<void>) {
+    const maxAttempts = config.notifications.maxRetries + 1;
+
+    while (notification.deliveryAttempts < maxAttempts) {
+      notification.deliveryAttempts++;
+      try {
+        await sender();
+        this.markDelivered(notification);
+        logger.info({
+          notificationId: notification.id,
+          channel: notification.channel,
+          attempts: notification.deliveryAttempts,
+        }, "Notification delivered");
+        return;
+      } catch (error) {
+        const retryable = !(error instanceof DeliveryError) || error.retryable;
+        notification.deliveryError = error instanceof Error ? error.message : String(error);
+        logger.warn({
+          notificationId: notification.id,
+          channel: notification.channel,
+          attempt: notification.deliveryAttempts,
+          error: notification.deliveryError,
+        }, "Notification delivery failed");
+
+        if (!retryable) break;
+        if (notification.deliveryAttempts < maxAttempts) {
+          const delay = config.notifications.retryDelayMs * Math.pow(2, notification.deliveryAttempts - 1);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+    }
+
+    notification.deliveryStatus = "failed";
+    this.saveNotification(notification);
+  }
+
+  private markDelivered(notification: Notification) {
+    notification.deliveryStatus = "delivered";
+    notification.deliveredAt = new Date().toISOString();
+    notification.deliveryError = undefined;
+    this.saveNotification(notification);
+  }
+
+  /**
+   * Closes the PagerDuty alert for a resolved incident. Only sent when a
+   * page actually went out for it.
+   */
+  async sendResolution(incident: Incident): Promise<void> {
+    const paged = Array.from(this.notifications.values()).some(
+      (n) => n.incidentId === incident.id && n.channel === "pagerduty" && n.deliveryStatus === "delivered"
+    );
+    if (!paged) return;
+
+    try {
+      await resolvePagerDuty(incident);
+      logger.info({ incidentId: incident.id }, "PagerDuty alert resolved");
+    } catch (error) {
+      logger.error({ error, incidentId: incident.id }, "Failed to resolve PagerDuty alert");
+    }
+  }
+
   private sendToConsole(notification: Notification, incident: Incident) {
     const severityColors: Record<IncidentSeverity, string> = {
       low: "\x1b[34m",
@@ -110,46 +404,6 @@ class NotificationService {
     }, `${color}ALERT${reset}: ${notification.title}`);
   }
 
-  private async sendToSlack(notification: Notification, incident: Incident) {
-    logger.info({ channel: "slack", incidentId: incident.id }, "Slack notification (simulated)");
-  }
-
-  private async sendToPagerDuty(notification: Notification, incident: Incident) {
-    logger.info({ channel: "pagerduty", incidentId: incident.id }, "PagerDuty alert (simulated)");
-  }
-
-  private async sendEmail(notification: Notification, incident: Incident) {
-    logger.info({ channel: "email", incidentId: incident.id }, "Email notification (simulated)");
-  }
-
-  private async sendWebhook(notification: Notification, incident: Incident) {
-    logger.info({ channel: "webhook", incidentId: incident.id }, "Webhook notification (simulated)");
-  }
-
-  private formatMessage(incident: Incident): string {
-    return `
-Incident: ${incident.title}
-Severity: ${incident.severity.toUpperCase()}
-Category: ${incident.category}
-Resource: ${incident.resource}
-Namespace: ${incident.namespace}
-Detected: ${incident.detectedAt}
-Auto-Healable: ${incident.autoHealable ? "Yes" : "No"}
-Suggested Action: ${incident.suggestedAction}
-Production Behavior: ${incident.productionBehavior}
-    `.trim();
-  }
-
-  private mapSeverityToPriority(severity: IncidentSeverity): NotificationPriority {
-    const map: Record<IncidentSeverity, NotificationPriority> = {
-      low: "low",
-      medium: "medium",
-      high: "high",
-      critical: "critical",
-    };
-    return map[severity];
-  }
-
   private shouldNotify(incidentSeverity: IncidentSeverity, minSeverity: IncidentSeverity): boolean {
     const severityOrder: IncidentSeverity[] = ["low", "medium", "high", "critical"];
     return severityOrder.indexOf(incidentSeverity) >= severityOrder.indexOf(minSeverity);
@@ -158,7 +412,7 @@ Production Behavior: ${incident.productionBehavior}
   getNotifications(incidentId?: string): Notification[] {
     const notifications = Array.from(this.notifications.values());
     if (incidentId) {
-      return notifications.filter((n) => n.incidentId === incidentId);
+      return notifications.filter((n) => n.incidentId === incidentId || n.incidentIds?.includes(incidentId));
     }
     return notifications.sort((a, b) => 
       new Date(b.sentAt).getTime() - new Date(a.sentAt).getTime()
@@ -172,15 +426,27 @@ Production Behavior: ${incident.productionBehavior}
     notification.acknowledged = true;
     notification.acknowledgedAt = new Date().toISOString();
     notification.acknowledgedBy = acknowledgedBy;
-    this.notifications.set(id, notification);
+    this.saveNotification(notification);
     return notification;
   }
 
+  private saveNotification(notification: Notification) {
+    this.notifications.set(notification.id, notification);
+    this.store.save(notification);
+
+    if (this.notifications.size > this.store.maxRecords) {
+      const kept = this.store.prune(Array.from(this.notifications.values()));
+      this.notifications = new Map(kept.map((n) => [n.id, n]));
+    }
+  }
+
   updateConfig(channel: NotificationChannel, updates: Partial<NotificationConfig>): boolean {
     const config = this.configs.find((c) => c.channel === channel);
     if (!config) return false;
 
-    Object.assign(config, updates);
+    // Undefined fields in a partial update leave the current value alone
+    const defined = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+    Object.assign(config, defined);
     logger.info({ channel, updates }, "Notification config updated");
     return true;
   }
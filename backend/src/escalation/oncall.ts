@@ -0,0 +1,246 @@
+import { v4 as uuidv4 } from "uuid";
+import { createChildLogger } from "../utils/logger.js";
+import { persistence, KEEP_ALL } from "../persistence/index.js";
+import { minutesOfDay, zonedParts, zonedTimeToUtc } from "../utils/time.js";
+import type { NotificationConfig } from "./notifications.js";
+
+const logger = createChildLogger("oncall");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface OnCallMember {
+  name: string;
+  email?: string;
+  // Mentioned in Slack notifications, e.g. U024BE7LH
+  slackUserId?: string;
+}
+
+export interface OnCallOverride {
+  id: string;
+  member: OnCallMember;
+  startsAt: string;
+  endsAt: string;
+  reason?: string;
+  createdBy?: string;
+}
+
+/**
+ * A rotation through `members`, handing off every `shiftDays` days at
+ * `handoffTime` local to `timezone`, starting with the first member on
+ * `startDate`. Overrides replace whoever the rotation has on call.
+ */
+export interface OnCallSchedule {
+  id: string;
+  team: string;
+  name: string;
+  timezone: string;
+  // YYYY-MM-DD
+  startDate: string;
+  // HH:MM
+  handoffTime: string;
+  shiftDays: number;
+  members: OnCallMember[];
+  overrides: OnCallOverride[];
+  // Slack destination for this team; the global Slack webhook otherwise
+  slackWebhookUrl?: string;
+  createdAt: string;
+}
+
+export interface OnCallShift {
+  member: OnCallMember;
+  source: "rotation" | "override";
+  overrideId?: string;
+  startsAt: string;
+  endsAt: string;
+}
+
+class OnCallManager {
+  private schedules: Map<string, OnCallSchedule> = new Map();
+  private store = persistence.collection<OnCallSchedule>("oncall-schedules", {
+    idOf: (schedule) => schedule.id,
+    timestampOf: (schedule) => schedule.createdAt,
+    retention: KEEP_ALL,
+  });
+
+  async restore(): Promise<void> {
+    const schedules = await this.store.load();
+    this.schedules = new Map(schedules.map((schedule) => [schedule.id, schedule]));
+    logger.info({ count: schedules.length }, "On-call schedules restored");
+  }
+
+  getSchedules(team?: string): OnCallSchedule[] {
+    const schedules = Array.from(this.schedules.values());
+    return (team ? schedules.filter((s) => s.team === team) : schedules)
+      .sort((a, b) => a.team.localeCompare(b.team) || a.name.localeCompare(b.name));
+  }
+
+  getSchedule(id: string): OnCallSchedule | undefined {
+    return this.schedules.get(id);
+  }
+
+  createSchedule(input: Omit<OnCallSchedule, "id" | "overrides" | "createdAt">): OnCallSchedule {
+    const schedule: OnCallSchedule = {
+      ...input,
+      id: uuidv4(),
+      overrides: [],
+      createdAt: new Date().toISOString(),
+    };
+    this.saveSchedule(schedule);
+    logger.info({ scheduleId: schedule.id, team: schedule.team }, "On-call schedule created");
+    return schedule;
+  }
+
+  updateSchedule(id: string, updates: Partial<Omit<OnCallSchedule, "id" | "overrides" | "createdAt">>): OnCallSchedule | null {
+    const schedule = this.schedules.get(id);
+    if (!schedule) return null;
+
+    const updated = { ...schedule, ...updates, id };
+    this.saveSchedule(updated);
+    logger.info({ scheduleId: id }, "On-call schedule updated");
+    return updated;
+  }
+
+  deleteSchedule(id: string): boolean {
+    const deleted = this.schedules.delete(id);
+    if (deleted) {
+      this.store.remove([id]);
+      logger.info({ scheduleId: id }, "On-call schedule deleted");
+    }
+    return deleted;
+  }
+
+  addOverride(scheduleId: string, input: Omit<OnCallOverride, "id">): OnCallOverride | null {
+    const schedule = this.schedules.get(scheduleId);
+    if (!schedule) return null;
+
+    const override: OnCallOverride = { ...input, id: uuidv4() };
+    // Drop overrides that have already ended while we are here
+    const now = Date.now();
+    schedule.overrides = [
+      ...schedule.overrides.filter((o) => new Date(o.endsAt).getTime() > now),
+      override,
+    ].sort((a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime());
+
+    this.saveSchedule(schedule);
+    logger.info({ scheduleId, overrideId: override.id, member: override.member.name }, "On-call override added");
+    return override;
+  }
+
+  removeOverride(scheduleId: string, overrideId: string): boolean {
+    const schedule = this.schedules.get(scheduleId);
+    if (!schedule) return false;
+
+    const remaining = schedule.overrides.filter((o) => o.id !== overrideId);
+    if (remaining.length === schedule.overrides.length) return false;
+
+    schedule.overrides = remaining;
+    this.saveSchedule(schedule);
+    logger.info({ scheduleId, overrideId }, "On-call override removed");
+    return true;
+  }
+
+  /** Who is on call at `at`, and until when; null for an empty rotation with no override. */
+  getShift(schedule: OnCallSchedule, at = new Date()): OnCallShift | null {
+    const time = at.getTime();
+    const rotation = this.rotationShift(schedule, at);
+
+    const override = schedule.overrides.find((o) =>
+      new Date(o.startsAt).getTime() <= time && time < new Date(o.endsAt).getTime()
+    );
+    if (override) {
+      return {
+        member: override.member,
+        source: "override",
+        overrideId: override.id,
+        startsAt: override.startsAt,
+        endsAt: override.endsAt,
+      };
+    }
+    if (!rotation) return null;
+
+    // The rotation shift is cut short by the next override that starts during it
+    const nextOverride = schedule.overrides.find((o) => {
+      const startsAt = new Date(o.startsAt).getTime();
+      return startsAt > time && startsAt < new Date(rotation.endsAt).getTime();
+    });
+    return nextOverride ? { ...rotation, endsAt: nextOverride.startsAt } : rotation;
+  }
+
+  /** The current shift and the one after it. */
+  whoIsOnCall(schedule: OnCallSchedule, at = new Date()): { current: OnCallShift | null; next: OnCallShift | null } {
+    const current = this.getShift(schedule, at);
+    const next = current ? this.getShift(schedule, new Date(current.endsAt)) : null;
+    return { current, next };
+  }
+
+  /**
+   * Notification targets reaching whoever is on call for a team now: an email
+   * to each member with an address, and a Slack message mentioning them.
+   */
+  getTargets(team: string, at = new Date()): Array<{ target: NotificationConfig; member: OnCallMember }> {
+    const targets: Array<{ target: NotificationConfig; member: OnCallMember }> = [];
+
+    for (const schedule of this.getSchedules(team)) {
+      const shift = this.getShift(schedule, at);
+      if (!shift) {
+        logger.warn({ scheduleId: schedule.id, team }, "Nobody on call for schedule");
+        continue;
+      }
+
+      const { member } = shift;
+      if (member.email) {
+        targets.push({
+          target: { channel: "email", enabled: true, minSeverity: "low", recipients: [member.email] },
+          member,
+        });
+      }
+      if (member.slackUserId) {
+        targets.push({
+          target: {
+            channel: "slack",
+            enabled: true,
+            minSeverity: "low",
+            webhookUrl: schedule.slackWebhookUrl,
+            mention: member.slackUserId,
+          },
+          member,
+        });
+      }
+    }
+
+    return targets;
+  }
+
+  private rotationShift(schedule: OnCallSchedule, at: Date): OnCallShift | null {
+    if (schedule.members.length === 0) return null;
+
+    const [startYear, startMonth, startDay] = schedule.startDate.split("-").map(Number);
+    const handoff = minutesOfDay(schedule.handoffTime);
+    const local = zonedParts(at, schedule.timezone);
+
+    // Count whole local days since the start date; before today's handoff still belongs to yesterday
+    let days = Math.round(
+      (Date.UTC(local.year, local.month - 1, local.day) - Date.UTC(startYear, startMonth - 1, startDay)) / DAY_MS
+    );
+    if (local.minutes < handoff) days--;
+
+    const shiftIndex = Math.floor(days / schedule.shiftDays);
+    const memberIndex = ((shiftIndex % schedule.members.length) + schedule.members.length) % schedule.members.length;
+    const shiftStart = (index: number) =>
+      zonedTimeToUtc(startYear, startMonth, startDay + index * schedule.shiftDays, handoff, schedule.timezone);
+
+    return {
+      member: schedule.members[memberIndex],
+      source: "rotation",
+      startsAt: shiftStart(shiftIndex).toISOString(),
+      endsAt: shiftStart(shiftIndex + 1).toISOString(),
+    };
+  }
+
+  private saveSchedule(schedule: OnCallSchedule) {
+    this.schedules.set(schedule.id, schedule);
+    this.store.save(schedule);
+  }
+}
+
+export const onCallManager = new OnCallManager();
@@ -0,0 +1,71 @@
+import { createChildLogger } from "../utils/logger.js";
+import { incidentDetector } from "../incidents/detector.js";
+import { healingEngine } from "../healing/engine.js";
+import { escalationManager, type ResponderAction, type ResponderActionRecord } from "./escalation.manager.js";
+import { auditLog } from "../audit/audit-log.js";
+import type { Incident } from "../incidents/types.js";
+
+const logger = createChildLogger("responder-actions");
+
+export interface ResponderActionResult {
+  success: boolean;
+  message: string;
+  incident?: Incident;
+}
+
+/**
+ * Carries out an action a responder took from a notification (a signed
+ * link or a Slack button) and records it on the incident's escalation.
+ */
+export async function performResponderAction(
+  incidentId: string,
+  action: ResponderAction,
+  by: string,
+  via: ResponderActionRecord["via"]
+): Promise<ResponderActionResult> {
+  const incident = incidentDetector.getIncident(incidentId);
+  if (!incident) {
+    return { success: false, message: "Incident not found" };
+  }
+
+  let result: ResponderActionResult;
+  if (incident.status === "resolved" && action !== "resolve") {
+    result = { success: false, message: "Incident is already resolved", incident };
+  } else {
+    switch (action) {
+      case "acknowledge": {
+        const record = escalationManager.acknowledgeEscalation(incidentId, by);
+        if (!record) incidentDetector.acknowledgeIncident(incidentId);
+        result = { success: true, message: `Acknowledged by ${by}`, incident };
+        break;
+      }
+      case "resolve": {
+        if (incident.status !== "resolved") incidentDetector.resolveIncident(incidentId);
+        result = { success: true, message: `Resolved by ${by}`, incident };
+        break;
+      }
+      case "heal": {
+        const healing = await healingEngine.manualHeal(incidentId);
+        result = { success: healing.success, message: healing.message, incident };
+        break;
+      }
+    }
+  }
+
+  escalationManager.recordResponderAction(incidentId, {
+    action,
+    by,
+    via,
+    success: result.success,
+    message: result.message,
+  });
+  auditLog.record({
+    actor: { type: "responder", id: by },
+    action: `incident.${action}`,
+    target: { type: "incident", id: incidentId, namespace: incident.namespace },
+    outcome: result.success ? "success" : "failure",
+    message: `${result.message} (via ${via})`,
+  });
+  logger.info({ incidentId, action, by, via, success: result.success }, "Responder action handled");
+  return result;
+}
@@ -0,0 +1,139 @@
+import { notificationRouter, type NotificationWindow } from "./routing.js";
+import type { NotificationConfig } from "./notifications.js";
+import type { Incident } from "../incidents/types.js";
+
+jest.mock("../services/kubernetes.service.js", () => ({
+  kubernetesService: { getPod: jest.fn(), getNodes: jest.fn() },
+}));
+
+function window(overrides: Partial<NotificationWindow> = {}): NotificationWindow {
+  return {
+    id: "window-1",
+    name: "Night",
+    enabled: true,
+    kind: "quiet-hours",
+    match: {},
+    action: "suppress",
+    exemptSeverities: [],
+    start: "22:00",
+    end: "06:00",
+    timezone: "UTC",
+    createdAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+function incident(overrides: Partial<Incident> = {}): Incident {
+  return {
+    id: "incident-1",
+    title: "HIGH CPU: api",
+    description: "",
+    severity: "medium",
+    category: "high-cpu",
+    status: "open",
+    resource: "api-1",
+    resourceType: "pod",
+    namespace: "shop",
+    detectedAt: new Date().toISOString(),
+    autoHealable: false,
+    autoHealingAttempted: false,
+    escalated: false,
+    metrics: {},
+    relatedAlerts: [],
+    suggestedAction: "",
+    productionBehavior: "",
+    ...overrides,
+  };
+}
+
+const configs: NotificationConfig[] = [
+  { channel: "console", enabled: true, minSeverity: "low" },
+  { channel: "slack", enabled: true, minSeverity: "low", webhookUrl: "https://hooks.example.com/global" },
+  { channel: "pagerduty", enabled: true, minSeverity: "high" },
+];
+
+describe("notificationRouter.isWindowActive", () => {
+  // 2026-01-05 is a Monday
+  it("covers a same-day range", () => {
+    const daytime = window({ start: "09:00", end: "17:00" });
+
+    expect(notificationRouter.isWindowActive(daytime, new Date("2026-01-05T12:00:00Z"))).toBe(true);
+    expect(notificationRouter.isWindowActive(daytime, new Date("2026-01-05T17:00:00Z"))).toBe(false);
+  });
+
+  it("wraps past midnight and credits the early hours to the previous day", () => {
+    const weeknights = window({ days: [1] });
+
+    expect(notificationRouter.isWindowActive(weeknights, new Date("2026-01-05T23:00:00Z"))).toBe(true);
+    expect(notificationRouter.isWindowActive(weeknights, new Date("2026-01-06T05:59:00Z"))).toBe(true);
+    expect(notificationRouter.isWindowActive(weeknights, new Date("2026-01-05T05:00:00Z"))).toBe(false);
+  });
+
+  it("reads the time of day in the window's time zone", () => {
+    const newYork = window({ start: "09:00", end: "17:00", timezone: "America/New_York" });
+
+    expect(notificationRouter.isWindowActive(newYork, new Date("2026-01-05T15:00:00Z"))).toBe(true);
+    expect(notificationRouter.isWindowActive(newYork, new Date("2026-01-05T12:00:00Z"))).toBe(false);
+  });
+
+  it("bounds maintenance windows by their start and end", () => {
+    const maintenance = window({
+      kind: "maintenance",
+      startsAt: "2026-01-05T10:00:00Z",
+      endsAt: "2026-01-05T11:00:00Z",
+    });
+
+    expect(notificationRouter.isWindowActive(maintenance, new Date("2026-01-05T10:30:00Z"))).toBe(true);
+    expect(notificationRouter.isWindowActive(maintenance, new Date("2026-01-05T11:00:00Z"))).toBe(false);
+    expect(notificationRouter.isWindowActive({ ...maintenance, enabled: false }, new Date("2026-01-05T10:30:00Z"))).toBe(false);
+  });
+});
+
+describe("notificationRouter.plan", () => {
+  const created: Array<{ kind: "rule" | "window"; id: string }> = [];
+
+  afterEach(() => {
+    for (const entry of created.splice(0)) {
+      if (entry.kind === "rule") notificationRouter.deleteRule(entry.id);
+      else notificationRouter.deleteWindow(entry.id);
+    }
+  });
+
+  it("sends a matching team's targets instead of the defaults", async () => {
+    const rule = notificationRouter.createRule({
+      name: "Shop team",
+      enabled: true,
+      order: 10,
+      match: { namespaces: ["shop"] },
+      targets: [{ channel: "slack", webhookUrl: "https://hooks.example.com/shop" }],
+      continue: false,
+    });
+    created.push({ kind: "rule", id: rule.id });
+
+    const deliveries = await notificationRouter.plan(incident(), [configs[1]], configs);
+
+    expect(deliveries.map((d) => [d.target.channel, d.target.webhookUrl])).toEqual([
+      ["slack", "https://hooks.example.com/shop"],
+      ["console", undefined],
+    ]);
+  });
+
+  it("downgrades quiet channels and holds back paging ones inside a downgrade window", async () => {
+    const quiet = notificationRouter.createWindow(window({ kind: "maintenance", action: "downgrade" }));
+    created.push({ kind: "window", id: quiet.id });
+
+    const deliveries = await notificationRouter.plan(incident({ severity: "high" }), [configs[1], configs[2]], configs);
+
+    expect(deliveries.find((d) => d.target.channel === "slack")).toMatchObject({ priority: "medium" });
+    expect(deliveries.find((d) => d.target.channel === "pagerduty")?.suppressedBy).toBe(quiet.id);
+  });
+
+  it("leaves exempt severities alone", async () => {
+    const quiet = notificationRouter.createWindow(window({ kind: "maintenance", exemptSeverities: ["critical"] }));
+    created.push({ kind: "window", id: quiet.id });
+
+    const deliveries = await notificationRouter.plan(incident({ severity: "critical" }), [configs[2]], configs);
+
+    expect(deliveries).toEqual([{ target: configs[2], priority: "critical" }]);
+  });
+});
@@ -0,0 +1,321 @@
+import { v4 as uuidv4 } from "uuid";
+import { createChildLogger } from "../utils/logger.js";
+import { persistence, KEEP_ALL } from "../persistence/index.js";
+import { kubernetesService } from "../services/kubernetes.service.js";
+import { minutesOfDay, zonedParts } from "../utils/time.js";
+import type { Incident, IncidentCategory, IncidentSeverity, SLOBurnDriver } from "../incidents/types.js";
+import type { DirectTarget, NotificationChannel, NotificationConfig, NotificationPriority } from "./notifications.js";
+
+const logger = createChildLogger("notification-routing");
+
+/** Every listed field must match; missing or empty fields match anything. */
+export interface RouteMatch {
+  namespaces?: string[];
+  labels?: Record<string, string>;
+  categories?: IncidentCategory[];
+  severities?: IncidentSeverity[];
+  sloBurnDrivers?: SLOBurnDriver[];
+}
+
+export interface RouteTarget {
+  channel: NotificationChannel;
+  // Team-specific destination; falls back to the channel's global setting
+  webhookUrl?: string;
+  recipients?: string[];
+}
+
+export interface RoutingRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // Lower runs first
+  order: number;
+  match: RouteMatch;
+  targets: RouteTarget[];
+  // Keep evaluating later rules after this one matches
+  continue: boolean;
+  createdAt: string;
+}
+
+export type WindowAction = "suppress" | "downgrade";
+
+export interface NotificationWindow {
+  id: string;
+  name: string;
+  enabled: boolean;
+  kind: "quiet-hours" | "maintenance";
+  match: RouteMatch;
+  action: WindowAction;
+  // Severities still delivered normally inside the window
+  exemptSeverities: IncidentSeverity[];
+  // Quiet hours: recurring daily window in a time zone; end before start wraps past midnight
+  days?: number[];
+  start?: string;
+  end?: string;
+  timezone?: string;
+  // Maintenance: one-off window
+  startsAt?: string;
+  endsAt?: string;
+  reason?: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface PlannedDelivery {
+  target: NotificationConfig;
+  priority: NotificationPriority;
+  routingRuleId?: string;
+  recipient?: string;
+  suppressedBy?: string;
+}
+
+// Channels that page or interrupt someone; a downgrade keeps only the quieter ones
+const INTERRUPTING_CHANNELS: NotificationChannel[] = ["pagerduty", "email"];
+const PRIORITY_ORDER: NotificationPriority[] = ["low", "medium", "high", "critical"];
+
+function matches(match: RouteMatch, incident: Incident, labels?: Record<string, string>): boolean {
+  if (match.namespaces?.length && !match.namespaces.includes(incident.namespace)) return false;
+  if (match.categories?.length && !match.categories.includes(incident.category)) return false;
+  if (match.severities?.length && !match.severities.includes(incident.severity)) return false;
+  if (match.sloBurnDrivers?.length &&
+      (!incident.sloBurnDriver || !match.sloBurnDrivers.includes(incident.sloBurnDriver))) {
+    return false;
+  }
+  const required = match.labels ? Object.entries(match.labels) : [];
+  return required.every(([key, value]) => labels?.[key] === value);
+}
+
+class NotificationRouter {
+  private rules: Map<string, RoutingRule> = new Map();
+  private windows: Map<string, NotificationWindow> = new Map();
+  private ruleStore = persistence.collection<RoutingRule>("routing-rules", {
+    idOf: (rule) => rule.id,
+    timestampOf: (rule) => rule.createdAt,
+    retention: KEEP_ALL,
+  });
+  private windowStore = persistence.collection<NotificationWindow>("notification-windows", {
+    idOf: (window) => window.id,
+    timestampOf: (window) => window.createdAt,
+    retention: KEEP_ALL,
+  });
+
+  async restore(): Promise<void> {
+    const [rules, windows] = await Promise.all([this.ruleStore.load(), this.windowStore.load()]);
+    this.rules = new Map(rules.map((rule) => [rule.id, rule]));
+    this.windows = new Map(windows.map((window) => [window.id, window]));
+    logger.info({ rules: rules.length, windows: windows.length }, "Notification routing restored");
+  }
+
+  getRules(): RoutingRule[] {
+    return Array.from(this.rules.values()).sort((a, b) => a.order - b.order);
+  }
+
+  getRule(id: string): RoutingRule | undefined {
+    return this.rules.get(id);
+  }
+
+  createRule(input: Omit<RoutingRule, "id" | "createdAt">): RoutingRule {
+    const rule: RoutingRule = { ...input, id: uuidv4(), createdAt: new Date().toISOString() };
+    this.rules.set(rule.id, rule);
+    this.ruleStore.save(rule);
+    logger.info({ ruleId: rule.id, ruleName: rule.name }, "Routing rule created");
+    return rule;
+  }
+
+  updateRule(id: string, updates: Partial<Omit<RoutingRule, "id" | "createdAt">>): RoutingRule | null {
+    const rule = this.rules.get(id);
+    if (!rule) return null;
+
+    const updated = { ...rule, ...updates, id };
+    this.rules.set(id, updated);
+    this.ruleStore.save(updated);
+    logger.info({ ruleId: id }, "Routing rule updated");
+    return updated;
+  }
+
+  deleteRule(id: string): boolean {
+    const deleted = this.rules.delete(id);
+    if (deleted) {
+      this.ruleStore.remove([id]);
+      logger.info({ ruleId: id }, "Routing rule deleted");
+    }
+    return deleted;
+  }
+
+  getWindows(): NotificationWindow[] {
+    return Array.from(this.windows.values()).sort((a, b) =>
+      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+  }
+
+  getWindow(id: string): NotificationWindow | undefined {
+    return this.windows.get(id);
+  }
+
+  createWindow(input: Omit<NotificationWindow, "id" | "createdAt">): NotificationWindow {
+    const window: NotificationWindow = { ...input, id: uuidv4(), createdAt: new Date().toISOString() };
+    this.windows.set(window.id, window);
+    this.windowStore.save(window);
+    logger.info({ windowId: window.id, kind: window.kind, action: window.action }, "Notification window created");
+    return window;
+  }
+
+  updateWindow(id: string, updates: Partial<Omit<NotificationWindow, "id" | "createdAt">>): NotificationWindow | null {
+    const window = this.windows.get(id);
+    if (!window) return null;
+
+    const updated = { ...window, ...updates, id };
+    this.windows.set(id, updated);
+    this.windowStore.save(updated);
+    logger.info({ windowId: id }, "Notification window updated");
+    return updated;
+  }
+
+  deleteWindow(id: string): boolean {
+    const deleted = this.windows.delete(id);
+    if (deleted) {
+      this.windowStore.remove([id]);
+      logger.info({ windowId: id }, "Notification window deleted");
+    }
+    return deleted;
+  }
+
+  isWindowActive(window: NotificationWindow, at = new Date()): boolean {
+    if (!window.enabled) return false;
+
+    if (window.kind === "maintenance") {
+      const startsAt = window.startsAt ? new Date(window.startsAt).getTime() : -Infinity;
+      const endsAt = window.endsAt ? new Date(window.endsAt).getTime() : Infinity;
+      return at.getTime() >= startsAt && at.getTime() < endsAt;
+    }
+
+    if (!window.start || !window.end) return false;
+    const { weekday: day, minutes } = zonedParts(at, window.timezone || "UTC");
+    const start = minutesOfDay(window.start);
+    const end = minutesOfDay(window.end);
+    const onDay = (d: number) => !window.days?.length || window.days.includes(d);
+
+    if (start <= end) {
+      return onDay(day) && minutes >= start && minutes < end;
+    }
+    // Wraps past midnight: the early-morning part belongs to the previous day's window
+    return (onDay(day) && minutes >= start) || (onDay((day + 6) % 7) && minutes < end);
+  }
+
+  /**
+   * Decides where an incident's notifications go. Matching routing rules
+   * replace the default targets with their own (team destinations first,
+   * global channel settings otherwise); active quiet hours or maintenance
+   * windows then suppress or downgrade them. Direct deliveries to people are
+   * added as given. The console log always gets a copy.
+   */
+  async plan(
+    incident: Incident,
+    defaults: NotificationConfig[],
+    configs: NotificationConfig[],
+    channels?: NotificationChannel[],
+    direct: DirectTarget[] = []
+  ): Promise<PlannedDelivery[]> {
+    const labels = await this.labelsFor(incident);
+    const priority = incident.severity as NotificationPriority;
+
+    const matchedRules: RoutingRule[] = [];
+    for (const rule of this.getRules()) {
+      if (!rule.enabled || !matches(rule.match, incident, labels)) continue;
+      matchedRules.push(rule);
+      if (!rule.continue) break;
+    }
+
+    let deliveries: PlannedDelivery[];
+    if (matchedRules.length === 0) {
+      deliveries = defaults.map((target) => ({ target, priority }));
+    } else {
+      deliveries = this.routeTargets(matchedRules, configs, channels, priority);
+    }
+    deliveries.push(...direct.map(({ target, recipient }) => ({ target, priority, recipient })));
+
+    const window = this.getWindows().find((w) =>
+      this.isWindowActive(w) &&
+      !w.exemptSeverities.includes(incident.severity) &&
+      matches(w.match, incident, labels)
+    );
+    if (!window) return deliveries;
+
+    logger.info({ incidentId: incident.id, windowId: window.id, action: window.action }, "Notification window applied");
+    return deliveries.map((delivery) => {
+      if (delivery.target.channel === "console") return delivery;
+      if (window.action === "suppress" || INTERRUPTING_CHANNELS.includes(delivery.target.channel)) {
+        return { ...delivery, suppressedBy: window.id };
+      }
+      const lowered = PRIORITY_ORDER[Math.max(0, PRIORITY_ORDER.indexOf(delivery.priority) - 1)];
+      return { ...delivery, priority: lowered };
+    });
+  }
+
+  private routeTargets(
+    rules: RoutingRule[],
+    configs: NotificationConfig[],
+    channels: NotificationChannel[] | undefined,
+    priority: NotificationPriority
+  ): PlannedDelivery[] {
+    const deliveries: PlannedDelivery[] = [];
+    const seen = new Set<string>();
+    const add = (target: NotificationConfig, routingRuleId?: string) => {
+      const key = `${target.channel}|${target.webhookUrl ?? ""}|${(target.recipients ?? []).join(",")}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      deliveries.push({ target, priority, routingRuleId });
+    };
+
+    for (const rule of rules) {
+      for (const routeTarget of rule.targets) {
+        if (channels && !channels.includes(routeTarget.channel)) continue;
+
+        const base = configs.find((c) => c.channel === routeTarget.channel);
+        const hasOwnDestination = !!routeTarget.webhookUrl || !!routeTarget.recipients?.length;
+        if (!hasOwnDestination && !base?.enabled) continue;
+
+        add({
+          channel: routeTarget.channel,
+          enabled: true,
+          minSeverity: base?.minSeverity ?? "low",
+          webhookUrl: routeTarget.webhookUrl ?? base?.webhookUrl,
+          recipients: routeTarget.recipients?.length ? routeTarget.recipients : base?.recipients,
+        }, rule.id);
+      }
+    }
+
+    // An escalation step asking for a channel the team has no target for still reaches the global one
+    for (const channel of channels ?? []) {
+      if (deliveries.some((d) => d.target.channel === channel)) continue;
+      const base = configs.find((c) => c.channel === channel && c.enabled);
+      if (base) add(base);
+    }
+
+    const consoleConfig = configs.find((c) => c.channel === "console" && c.enabled);
+    if (consoleConfig) add(consoleConfig);
+
+    return deliveries;
+  }
+
+  private async labelsFor(incident: Incident): Promise<Record<string, string> | undefined> {
+    const usesLabels = [...this.rules.values(), ...this.windows.values()].some(
+      (entry) => entry.enabled && entry.match.labels && Object.keys(entry.match.labels).length > 0
+    );
+    if (!usesLabels || incident.simulated) return undefined;
+
+    try {
+      if (incident.resourceType === "pod") {
+        return (await kubernetesService.getPod(incident.namespace, incident.resource))?.labels;
+      }
+      if (incident.resourceType === "node") {
+        return (await kubernetesService.getNodes()).find((n) => n.name === incident.resource)?.labels;
+      }
+    } catch (error) {
+      logger.warn({ error, incidentId: incident.id }, "Failed to look up labels for routing");
+    }
+    return undefined;
+  }
+}
+
+export const notificationRouter = new NotificationRouter();
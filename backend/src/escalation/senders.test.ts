@@ -0,0 +1,245 @@
+import crypto from "crypto";
+import http from "http";
+import net from "net";
+import type { AddressInfo } from "net";
+import { config } from "../config/index.js";
+import {
+  DeliveryError,
+  pagerDutyDedupKey,
+  resolvePagerDuty,
+  sendEmail,
+  sendPagerDuty,
+  sendSlack,
+  sendWebhook,
+} from "./senders.js";
+import { notificationService, type Notification } from "./notifications.js";
+import type { Incident } from "../incidents/types.js";
+
+jest.mock("../config/index.js", () => {
+  const actual = jest.requireActual("../config/index.js");
+  return {
+    config: {
+      ...actual.config,
+      notifications: {
+        ...actual.config.notifications,
+        maxRetries: 2,
+        retryDelayMs: 1,
+        slack: {},
+        actions: { ...actual.config.notifications.actions, baseUrl: undefined, secret: undefined },
+        webhook: { secret: "webhook-secret" },
+        pagerduty: { routingKey: "routing-key", eventsUrl: "http://127.0.0.1/unused" },
+        smtp: { ...actual.config.notifications.smtp, host: "127.0.0.1", recipients: ["ops@example.com"] },
+      },
+    },
+  };
+});
+jest.mock("../services/kubernetes.service.js", () => ({
+  kubernetesService: { getPod: jest.fn(), getNodes: jest.fn() },
+}));
+
+interface ReceivedRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// Local stand-in for Slack, PagerDuty and webhook receivers; replies with queued statuses, then 200
+const received: ReceivedRequest[] = [];
+let statuses: number[] = [];
+const httpServer = http.createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => { body += chunk; });
+  req.on("end", () => {
+    received.push({ path: req.url ?? "", headers: req.headers, body });
+    res.writeHead(statuses.shift() ?? 200).end("ok");
+  });
+});
+
+// Just enough SMTP for nodemailer: no extensions, optional rejection of recipients
+const mails: string[] = [];
+let rejectRecipients = false;
+const smtpServer = net.createServer((socket) => {
+  let inData = false;
+  let buffer = "";
+  socket.write("220 localhost ESMTP\r\n");
+  socket.on("data", (chunk) => {
+    buffer += chunk.toString();
+    let line: number;
+    while (!inData && (line = buffer.indexOf("\r\n")) >= 0) {
+      const command = buffer.slice(0, line).toUpperCase();
+      buffer = buffer.slice(line + 2);
+      if (command.startsWith("EHLO") || command.startsWith("HELO")) socket.write("250 localhost\r\n");
+      else if (command.startsWith("RCPT")) socket.write(rejectRecipients ? "550 No such user\r\n" : "250 OK\r\n");
+      else if (command.startsWith("DATA")) { inData = true; socket.write("354 End data with <CR><LF>.<CR><LF>\r\n"); }
+      else if (command.startsWith("QUIT")) { socket.end("221 Bye\r\n"); return; }
+      else socket.write("250 OK\r\n");
+    }
+    const end = buffer.indexOf("\r\n.\r\n");
+    if (inData && end >= 0) {
+      mails.push(buffer.slice(0, end));
+      buffer = buffer.slice(end + 5);
+      inData = false;
+      socket.write("250 Queued\r\n");
+    }
+  });
+});
+
+let baseUrl: string;
+
+function listen(server: http.Server | net.Server): Promise<number> {
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve((server.address() as AddressInfo).port)));
+}
+
+function incident(id: string, overrides: Partial<Incident> = {}): Incident {
+  return {
+    id,
+    title: `HIGH CPU: ${id}`,
+    description: "CPU above limit",
+    severity: "high",
+    category: "high-cpu",
+    status: "open",
+    resource: `${id}-api`,
+    resourceType: "pod",
+    namespace: "shop",
+    detectedAt: new Date().toISOString(),
+    autoHealable: false,
+    autoHealingAttempted: false,
+    escalated: false,
+    metrics: {},
+    relatedAlerts: [],
+    suggestedAction: "Scale up",
+    productionBehavior: "",
+    ...overrides,
+  };
+}
+
+function notification(overrides: Partial<Notification> = {}): Notification {
+  return {
+    id: "notification-1",
+    incidentId: "incident-1",
+    channel: "slack",
+    priority: "high",
+    title: "[HIGH] HIGH CPU: api",
+    message: "CPU above limit",
+    sentAt: new Date().toISOString(),
+    deliveryStatus: "pending",
+    deliveryAttempts: 0,
+    acknowledged: false,
+    ...overrides,
+  };
+}
+
+beforeAll(async () => {
+  baseUrl = `http://127.0.0.1:${await listen(httpServer)}`;
+  config.notifications.pagerduty.eventsUrl = `${baseUrl}/pagerduty`;
+  config.notifications.smtp.port = await listen(smtpServer);
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => httpServer.close(resolve));
+  await new Promise((resolve) => smtpServer.close(resolve));
+});
+
+beforeEach(() => {
+  received.length = 0;
+  mails.length = 0;
+  statuses = [];
+  rejectRecipients = false;
+});
+
+describe("senders", () => {
+  it("posts Slack messages as blocks and mentions a direct recipient", async () => {
+    await sendSlack({ webhookUrl: `${baseUrl}/slack`, mention: "U123" }, notification(), incident("incident-1"));
+
+    const body = JSON.parse(received[0].body);
+    expect(received[0].path).toBe("/slack");
+    expect(body.text).toBe("[HIGH] HIGH CPU: api");
+    expect(body.blocks.map((block: { type: string }) => block.type)).toEqual(["header", "section", "context"]);
+    expect(body.blocks[1].text.text).toBe("<@U123> CPU above limit");
+  });
+
+  it("signs webhook payloads over the timestamp and body", async () => {
+    await sendWebhook({ webhookUrl: `${baseUrl}/hook` }, notification({ channel: "webhook" }), incident("incident-1"));
+
+    const [{ headers, body }] = received;
+    const expected = crypto
+      .createHmac("sha256", "webhook-secret")
+      .update(`${headers["x-octrix-timestamp"]}.${body}`)
+      .digest("hex");
+    expect(headers["x-octrix-signature"]).toBe(`sha256=${expected}`);
+    expect(JSON.parse(body)).toMatchObject({ event: "incident.notification", incident: { id: "incident-1" } });
+  });
+
+  it("triggers and resolves a PagerDuty alert under the same dedup key", async () => {
+    const target = incident("incident-1");
+
+    await sendPagerDuty({}, notification({ channel: "pagerduty" }), target);
+    await resolvePagerDuty(target);
+
+    const [trigger, resolve] = received.map((request) => JSON.parse(request.body));
+    expect(trigger).toMatchObject({ routing_key: "routing-key", event_action: "trigger", payload: { severity: "error" } });
+    expect(resolve).toEqual({ routing_key: "routing-key", event_action: "resolve", dedup_key: trigger.dedup_key });
+    expect(trigger.dedup_key).toBe(pagerDutyDedupKey(target));
+  });
+
+  it("marks 4xx replies permanent and 429 and 5xx replies retryable", async () => {
+    statuses = [400, 429, 503];
+    const send = () => sendWebhook({ webhookUrl: `${baseUrl}/hook` }, notification(), incident("incident-1"));
+
+    await expect(send()).rejects.toMatchObject({ retryable: false });
+    await expect(send()).rejects.toMatchObject({ retryable: true });
+    await expect(send()).rejects.toMatchObject({ retryable: true, message: expect.stringContaining("HTTP 503") });
+  });
+
+  it("emails the recipients and treats SMTP 5xx replies as permanent", async () => {
+    await sendEmail({}, notification({ channel: "email" }), incident("incident-1"));
+
+    expect(mails[0]).toContain("Subject: [HIGH] HIGH CPU: api");
+    expect(mails[0]).toContain("X-Octrix-Incident: incident-1");
+    expect(mails[0]).toContain("To: ops@example.com");
+
+    rejectRecipients = true;
+    const failure = sendEmail({}, notification({ channel: "email" }), incident("incident-1"));
+    await expect(failure).rejects.toBeInstanceOf(DeliveryError);
+    await expect(failure).rejects.toMatchObject({ retryable: false });
+  });
+});
+
+describe("notificationService delivery", () => {
+  beforeAll(() => {
+    notificationService.updateConfig("webhook", { enabled: true, webhookUrl: `${baseUrl}/hook` });
+  });
+
+  async function deliverWebhook(id: string): Promise<Notification | undefined> {
+    const sent = await notificationService.sendNotification(incident(id), ["webhook"]);
+    return sent.find((n) => n.channel === "webhook");
+  }
+
+  it("retries 5xx and 429 replies until one is delivered", async () => {
+    statuses = [503, 429];
+
+    const delivered = await deliverWebhook("retry");
+
+    expect(received).toHaveLength(3);
+    expect(delivered).toMatchObject({ deliveryStatus: "delivered", deliveryAttempts: 3, deliveryError: undefined });
+  });
+
+  it("gives up on a 4xx reply without retrying", async () => {
+    statuses = [404];
+
+    const failed = await deliverWebhook("rejected");
+
+    expect(received).toHaveLength(1);
+    expect(failed).toMatchObject({ deliveryStatus: "failed", deliveryAttempts: 1 });
+    expect(failed?.deliveryError).toContain("HTTP 404");
+  });
+
+  it("fails once the retries are used up", async () => {
+    statuses = [500, 502, 503];
+
+    const failed = await deliverWebhook("exhausted");
+
+    expect(received).toHaveLength(3);
+    expect(failed).toMatchObject({ deliveryStatus: "failed", deliveryAttempts: 3 });
+  });
+});
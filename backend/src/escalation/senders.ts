@@ -0,0 +1,261 @@
+import crypto from "crypto";
+import nodemailer, { type Transporter } from "nodemailer";
+import { config } from "../config/index.js";
+import type { Incident, IncidentSeverity } from "../incidents/types.js";
+import type { Notification } from "./notifications.js";
+import type { ResponderAction } from "./escalation.manager.js";
+import { actionLinks, actionLinksEnabled, RESPONDER_ACTIONS } from "./action-links.js";
+
+/** A failed delivery; retryable failures (network, 429, 5xx) are attempted again. */
+export class DeliveryError extends Error {
+  constructor(message: string, public retryable: boolean) {
+    super(message);
+    Object.setPrototypeOf(this, DeliveryError.prototype);
+  }
+}
+
+export interface SenderTarget {
+  webhookUrl?: string;
+  recipients?: string[];
+  mention?: string;
+}
+
+const SEVERITY_EMOJI: Record<IncidentSeverity, string> = {
+  low: ":large_blue_circle:",
+  medium: ":large_yellow_circle:",
+  high: ":large_orange_circle:",
+  critical: ":red_circle:",
+};
+
+const PAGERDUTY_SEVERITY: Record<IncidentSeverity, string> = {
+  low: "info",
+  medium: "warning",
+  high: "error",
+  critical: "critical",
+};
+
+export function pagerDutyDedupKey(incident: Pick<Incident, "id">): string {
+  return `octrix-${incident.id}`;
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<string> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), config.notifications.timeoutMs);
+  const payload = typeof body === "string" ? body : JSON.stringify(body);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: payload,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new DeliveryError(`Request to ${new URL(url).host} failed: ${message}`, true);
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  const text = await response.text().catch(() => "");
+  if (!response.ok) {
+    const retryable = response.status === 429 || response.status >= 500;
+    throw new DeliveryError(`HTTP ${response.status} from ${new URL(url).host}: ${text.slice(0, 200)}`, retryable);
+  }
+  return text;
+}
+
+function requireTarget<T>(value: T | undefined, what: string): T {
+  if (!value || (Array.isArray(value) && value.length === 0)) {
+    throw new DeliveryError(`No ${what} configured`, false);
+  }
+  return value;
+}
+
+const ACTION_LABELS: Record<ResponderAction, string> = {
+  acknowledge: "Acknowledge",
+  resolve: "Resolve",
+  heal: "Run healing",
+};
+
+/**
+ * Buttons for a single-incident message. With a Slack signing secret they
+ * post back to the interactivity endpoint; otherwise they open signed links.
+ */
+function slackActionBlock(notification: Notification, incident: Incident): Record<string, unknown> | null {
+  if (notification.batchKind) return null;
+
+  if (config.notifications.slack.signingSecret) {
+    return {
+      type: "actions",
+      elements: RESPONDER_ACTIONS.map((action) => ({
+        type: "button",
+        action_id: `octrix_${action}`,
+        text: { type: "plain_text", text: ACTION_LABELS[action] },
+        value: incident.id,
+        ...(action === "acknowledge" ? { style: "primary" } : {}),
+      })),
+    };
+  }
+
+  if (actionLinksEnabled()) {
+    const links = actionLinks(incident.id, notification.recipient);
+    return {
+      type: "actions",
+      elements: RESPONDER_ACTIONS.map((action) => ({
+        type: "button",
+        action_id: `octrix_link_${action}`,
+        text: { type: "plain_text", text: ACTION_LABELS[action] },
+        url: links[action],
+      })),
+    };
+  }
+
+  return null;
+}
+
+export async function sendSlack(target: SenderTarget, notification: Notification, incident: Incident): Promise<void> {
+  const url = requireTarget(target.webhookUrl ?? config.notifications.slack.webhookUrl, "Slack webhook URL");
+  const text = target.mention ? `<@${target.mention}> ${notification.message}` : notification.message;
+
+  await postJson(url, {
+    text: notification.title,
+    blocks: [
+      {
+        type: "header",
+        text: { type: "plain_text", text: notification.title.slice(0, 150), emoji: true },
+      },
+      {
+        type: "section",
+        // Section text is capped at 3000 characters by Slack
+        text: { type: "mrkdwn", text: text.slice(0, 3000) },
+      },
+      {
+        type: "context",
+        elements: [
+          { type: "mrkdwn", text: `${SEVERITY_EMOJI[incident.severity]} Detected ${incident.detectedAt} · Incident \`${incident.id}\`` },
+        ],
+      },
+      ...[slackActionBlock(notification, incident)].filter(Boolean),
+    ],
+  });
+}
+
+/** Posts a follow-up to the `response_url` of a Slack interaction. */
+export async function sendSlackResponse(responseUrl: string, text: string): Promise<void> {
+  await postJson(responseUrl, { response_type: "in_channel", replace_original: false, text });
+}
+
+/**
+ * Posts the notification as JSON. With a secret configured the request carries
+ * `X-Octrix-Signature: sha256=<hex>`, an HMAC over `<timestamp>.<body>` using
+ * the `X-Octrix-Timestamp` header, so receivers can verify and reject replays.
+ */
+export async function sendWebhook(target: SenderTarget, notification: Notification, incident: Incident): Promise<void> {
+  const url = requireTarget(target.webhookUrl ?? config.notifications.webhook.url, "webhook URL");
+  // A JSON template is the payload itself; anything else is wrapped
+  const body = notification.format === "json"
+    ? notification.message
+    : JSON.stringify({ event: "incident.notification", notification, incident });
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const headers: Record<string, string> = { "X-Octrix-Timestamp": timestamp };
+
+  const secret = config.notifications.webhook.secret;
+  if (secret) {
+    const signature = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+    headers["X-Octrix-Signature"] = `sha256=${signature}`;
+  }
+
+  await postJson(url, body, headers);
+}
+
+async function sendPagerDutyEvent(body: Record<string, unknown>): Promise<void> {
+  const routingKey = requireTarget(config.notifications.pagerduty.routingKey, "PagerDuty routing key");
+  await postJson(config.notifications.pagerduty.eventsUrl, { routing_key: routingKey, ...body });
+}
+
+export async function sendPagerDuty(_target: SenderTarget, notification: Notification, incident: Incident): Promise<void> {
+  await sendPagerDutyEvent({
+    event_action: "trigger",
+    dedup_key: pagerDutyDedupKey(incident),
+    payload: {
+      summary: notification.title.slice(0, 1024),
+      source: incident.resource,
+      severity: PAGERDUTY_SEVERITY[incident.severity],
+      component: incident.resource,
+      group: incident.namespace,
+      class: incident.category,
+      custom_details: {
+        details: notification.message,
+        description: incident.description,
+        suggestedAction: incident.suggestedAction,
+        detectedAt: incident.detectedAt,
+        metrics: incident.metrics,
+      },
+    },
+  });
+}
+
+/** Resolves the PagerDuty alert opened for the incident; the dedup key ties the two together. */
+export async function resolvePagerDuty(incident: Incident): Promise<void> {
+  await sendPagerDutyEvent({
+    event_action: "resolve",
+    dedup_key: pagerDutyDedupKey(incident),
+  });
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>|<\/(p|tr|h\d)>/gi, "\n")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s+/g, "\n")
+    .trim();
+}
+
+let transporter: Transporter | null = null;
+
+function getTransporter(): Transporter {
+  if (!transporter) {
+    const smtp = config.notifications.smtp;
+    transporter = nodemailer.createTransport({
+      host: requireTarget(smtp.host, "SMTP host"),
+      port: smtp.port,
+      secure: smtp.secure,
+      auth: smtp.user ? { user: smtp.user, pass: smtp.password } : undefined,
+      connectionTimeout: config.notifications.timeoutMs,
+    });
+  }
+  return transporter;
+}
+
+export async function sendEmail(target: SenderTarget, notification: Notification, incident: Incident): Promise<void> {
+  const recipients = requireTarget(
+    target.recipients?.length ? target.recipients : config.notifications.smtp.recipients,
+    "email recipients"
+  );
+
+  try {
+    await getTransporter().sendMail({
+      from: config.notifications.smtp.from,
+      to: recipients.join(", "),
+      subject: notification.title,
+      ...(notification.format === "html"
+        ? { html: notification.message, text: htmlToText(notification.message) }
+        : { text: notification.message }),
+      headers: { "X-Octrix-Incident": incident.id },
+    });
+  } catch (error) {
+    if (error instanceof DeliveryError) throw error;
+    const responseCode = (error as { responseCode?: number }).responseCode;
+    const message = error instanceof Error ? error.message : String(error);
+    // SMTP 5xx replies are permanent (bad recipient, rejected sender); everything else may pass later
+    throw new DeliveryError(`SMTP delivery failed: ${message}`, !responseCode || responseCode < 500);
+  }
+}
@@ -0,0 +1,55 @@
+import { renderTemplate, notificationTemplates, SAMPLE_INCIDENT, TemplateError } from "./templates.js";
+
+describe("renderTemplate", () => {
+  const context = {
+    incident: { title: "Disk <full>", namespace: "shop" },
+    links: { acknowledge: "https://ops.example.com/ack" },
+    empty: [],
+  };
+
+  it("escapes values for the format and leaves triple braces raw", () => {
+    expect(renderTemplate("<p>{{incident.title}}</p>", context, "html")).toBe("<p>Disk &lt;full&gt;</p>");
+    expect(renderTemplate("{{{incident}}}", context, "json")).toBe(JSON.stringify(context.incident));
+    expect(renderTemplate("\"{{incident.title}}\"", { incident: { title: "say \"hi\"" } }, "json")).toBe("\"say \\\"hi\\\"\"");
+  });
+
+  it("renders missing values as empty strings", () => {
+    expect(renderTemplate("[{{incident.owner}}]", context, "text")).toBe("[]");
+  });
+
+  it("keeps if blocks only when the value is present", () => {
+    const template = "{{#if links.acknowledge}}ack{{/if}}{{#if links.heal}}heal{{/if}}{{#if empty}}none{{/if}}";
+    expect(renderTemplate(template, context, "text")).toBe("ack");
+  });
+
+  it("does not expand placeholders that arrive inside a value", () => {
+    const injected = { incident: { title: "{{links.acknowledge}}", raw: "{{{links}}}" }, links: context.links };
+
+    expect(renderTemplate("{{incident.title}}", injected, "text")).toBe("{{links.acknowledge}}");
+    expect(renderTemplate("{{{incident.raw}}}", injected, "text")).toBe("{{{links}}}");
+  });
+});
+
+describe("notificationTemplates", () => {
+  it("falls back to the channel default when no category template exists", () => {
+    expect(notificationTemplates.resolve("slack", "crash-loop").id).toBe("default-slack");
+  });
+
+  it("renders the built-in webhook template to valid JSON", () => {
+    const rendered = notificationTemplates.preview(notificationTemplates.getTemplate("default-webhook")!);
+
+    const body = JSON.parse(rendered.body);
+    expect(body.incident.id).toBe(SAMPLE_INCIDENT.id);
+    expect(body.title).toBe(`[HIGH] ${SAMPLE_INCIDENT.title}`);
+  });
+
+  it("rejects JSON templates that do not render to JSON", () => {
+    expect(() => notificationTemplates.createTemplate({
+      name: "Broken",
+      channel: "webhook",
+      format: "json",
+      subject: "{{incident.title}}",
+      body: "{ \"title\": {{incident.title}} }",
+    })).toThrow(TemplateError);
+  });
+});
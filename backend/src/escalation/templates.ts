@@ -0,0 +1,361 @@
+import { v4 as uuidv4 } from "uuid";
+import { createChildLogger } from "../utils/logger.js";
+import { persistence, KEEP_ALL } from "../persistence/index.js";
+import type { Incident, IncidentCategory } from "../incidents/types.js";
+import type { NotificationChannel, NotificationPriority } from "./notifications.js";
+import { actionLinks } from "./action-links.js";
+
+const logger = createChildLogger("notification-templates");
+
+export type TemplateFormat = "text" | "markdown" | "html" | "json";
+
+export interface NotificationTemplate {
+  id: string;
+  name: string;
+  channel: NotificationChannel;
+  // Without a category the template is the channel's default
+  category?: IncidentCategory;
+  format: TemplateFormat;
+  subject: string;
+  body: string;
+  builtIn: boolean;
+  updatedAt: string;
+}
+
+export interface RenderedNotification {
+  templateId: string;
+  format: TemplateFormat;
+  subject: string;
+  body: string;
+}
+
+/** A template that cannot be saved, e.g. JSON that does not parse once rendered. */
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, TemplateError.prototype);
+  }
+}
+
+type TemplateInput = Pick<NotificationTemplate, "name" | "channel" | "format" | "subject" | "body"> & {
+  category?: IncidentCategory;
+};
+
+const DEFAULT_SUBJECT = "[{{severity}}] {{incident.title}}";
+
+const BUILT_IN_TEMPLATES: TemplateInput[] = [
+  {
+    name: "Console",
+    channel: "console",
+    format: "text",
+    subject: DEFAULT_SUBJECT,
+    body: [
+      "Incident: {{incident.title}}",
+      "Severity: {{severity}}",
+      "Category: {{incident.category}}",
+      "Resource: {{incident.resource}}",
+      "Namespace: {{incident.namespace}}",
+      "Detected: {{incident.detectedAt}}",
+      "Auto-Healable: {{autoHealable}}",
+      "Suggested Action: {{incident.suggestedAction}}",
+      "Production Behavior: {{incident.productionBehavior}}",
+    ].join("\n"),
+  },
+  {
+    name: "Slack",
+    channel: "slack",
+    format: "markdown",
+    subject: DEFAULT_SUBJECT,
+    body: [
+      "*{{incident.title}}*",
+      "*Severity:* {{severity}}   *Category:* {{incident.category}}",
+      "*Resource:* `{{incident.namespace}}/{{incident.resource}}`",
+      "",
+      "{{incident.productionBehavior}}",
+      "{{#if slo.driver}}",
+      "*SLO burn:* {{slo.driver}} ({{slo.confidence}} confidence) — {{slo.evidence}}",
+      "{{/if}}",
+      "*Suggested action:* {{incident.suggestedAction}}",
+      "{{#if metrics}}_Metrics: {{metrics}}_{{/if}}",
+    ].join("\n"),
+  },
+  {
+    name: "Email",
+    channel: "email",
+    format: "html",
+    subject: DEFAULT_SUBJECT,
+    body: [
+      "<h2>{{incident.title}}</h2>",
+      "<table>",
+      "<tr><th align=\"left\">Severity</th><td>{{severity}}</td></tr>",
+      "<tr><th align=\"left\">Category</th><td>{{incident.category}}</td></tr>",
+      "<tr><th align=\"left\">Resource</th><td>{{incident.namespace}}/{{incident.resource}}</td></tr>",
+      "<tr><th align=\"left\">Detected</th><td>{{incident.detectedAt}}</td></tr>",
+      "</table>",
+      "<p>{{incident.productionBehavior}}</p>",
+      "{{#if slo.driver}}<p><strong>SLO burn:</strong> {{slo.driver}} ({{slo.confidence}} confidence)<br>{{slo.evidence}}</p>{{/if}}",
+      "<p><strong>Suggested action:</strong> {{incident.suggestedAction}}</p>",
+      "{{#if metrics}}<p><small>Metrics: {{metrics}}</small></p>{{/if}}",
+      "{{#if links.acknowledge}}",
+      "<p><a href=\"{{links.acknowledge}}\">Acknowledge</a> · <a href=\"{{links.resolve}}\">Resolve</a> · <a href=\"{{links.heal}}\">Run healing</a></p>",
+      "{{/if}}",
+    ].join("\n"),
+  },
+  {
+    name: "Webhook",
+    channel: "webhook",
+    format: "json",
+    subject: DEFAULT_SUBJECT,
+    body: [
+      "{",
+      "  \"event\": \"incident.notification\",",
+      "  \"notificationId\": \"{{notification.id}}\",",
+      "  \"title\": \"{{notification.title}}\",",
+      "  \"priority\": \"{{notification.priority}}\",",
+      "  \"actions\": {{{links}}},",
+      "  \"incident\": {{{incident}}}",
+      "}",
+    ].join("\n"),
+  },
+  {
+    name: "PagerDuty",
+    channel: "pagerduty",
+    format: "text",
+    subject: "[{{severity}}] {{incident.title}} ({{incident.namespace}}/{{incident.resource}})",
+    body: "{{incident.productionBehavior}}\nSuggested action: {{incident.suggestedAction}}",
+  },
+];
+
+export const SAMPLE_INCIDENT: Incident = {
+  id: "sample-incident",
+  title: "CRASH LOOP: checkout-7d9f8b6c5-x2kqp",
+  description: "Pod restarted 6 times in 10 minutes",
+  severity: "high",
+  category: "crash-loop",
+  status: "open",
+  resource: "checkout-7d9f8b6c5-x2kqp",
+  resourceType: "pod",
+  namespace: "production",
+  detectedAt: "2026-01-01T12:00:00.000Z",
+  autoHealable: true,
+  autoHealingAttempted: false,
+  escalated: false,
+  metrics: { restartCount: 6, cpuUsage: 42.5, memoryUsage: 88.1 },
+  relatedAlerts: [],
+  suggestedAction: "Restart with exponential backoff",
+  productionBehavior: "Repeated pod restarts (CrashLoopBackOff)",
+  sloBurnDriver: "degradation",
+  sloBurnEvidence: "Error rate rose 4x while request rate stayed flat",
+  sloBurnConfidence: 0.82,
+};
+
+function lookup(context: Record<string, unknown>, path: string): unknown {
+  return path.split(".").reduce<unknown>(
+    (value, key) => (value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined),
+    context
+  );
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function escape(value: string, format: TemplateFormat): string {
+  switch (format) {
+    case "html":
+      return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+    case "markdown":
+      // Slack mrkdwn only reserves these three
+      return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+    case "json":
+      return JSON.stringify(value).slice(1, -1);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Renders `{{path}}` (escaped for the format), `{{{path}}}` (raw; objects as
+ * JSON) and `{{#if path}}...{{/if}}` blocks against the context. Values are
+ * substituted in a single pass over the template, so placeholders inside a
+ * value (an incident title, say) are left as literal text.
+ */
+export function renderTemplate(template: string, context: Record<string, unknown>, format: TemplateFormat): string {
+  return template
+    .replace(/\{\{#if\s+([\w.]+)\s*\}\}([\s\S]*?)\{\{\/if\}\}\n?/g, (_match, path: string, inner: string) => {
+      const value = lookup(context, path);
+      const truthy = Array.isArray(value) ? value.length > 0 : !!value;
+      return truthy ? inner : "";
+    })
+    .replace(/\{\{\{\s*([\w.]+)\s*\}\}\}|\{\{\s*([\w.]+)\s*\}\}/g, (_match, rawPath?: string, path?: string) =>
+      rawPath ? stringify(lookup(context, rawPath)) : escape(stringify(lookup(context, path!)), format)
+    );
+}
+
+function buildContext(
+  incident: Incident,
+  notification: { id: string; channel: NotificationChannel; priority: NotificationPriority; recipient?: string }
+): Record<string, unknown> {
+  return {
+    incident,
+    notification,
+    links: actionLinks(incident.id, notification.recipient),
+    severity: incident.severity.toUpperCase(),
+    autoHealable: incident.autoHealable ? "Yes" : "No",
+    metrics: Object.entries(incident.metrics).map(([key, value]) => `${key}: ${value}`).join(", "),
+    slo: incident.sloBurnDriver
+      ? {
+          driver: incident.sloBurnDriver,
+          evidence: incident.sloBurnEvidence ?? "",
+          confidence: `${Math.round((incident.sloBurnConfidence ?? 0) * 100)}%`,
+        }
+      : {},
+  };
+}
+
+class NotificationTemplateManager {
+  private templates: Map<string, NotificationTemplate> = new Map();
+  private store = persistence.collection<NotificationTemplate>("notification-templates", {
+    idOf: (template) => template.id,
+    timestampOf: (template) => template.updatedAt,
+    retention: KEEP_ALL,
+  });
+
+  constructor() {
+    this.loadBuiltIns();
+  }
+
+  async restore(): Promise<void> {
+    const templates = await this.store.load();
+    for (const template of templates) {
+      this.templates.set(template.id, template);
+    }
+    logger.info({ count: templates.length }, "Notification templates restored");
+  }
+
+  getTemplates(channel?: NotificationChannel): NotificationTemplate[] {
+    const templates = Array.from(this.templates.values());
+    return (channel ? templates.filter((t) => t.channel === channel) : templates).sort((a, b) =>
+      a.channel.localeCompare(b.channel) || (a.category ?? "").localeCompare(b.category ?? "")
+    );
+  }
+
+  getTemplate(id: string): NotificationTemplate | undefined {
+    return this.templates.get(id);
+  }
+
+  /** The category-specific template for a channel, falling back to the channel default. */
+  resolve(channel: NotificationChannel, category: IncidentCategory): NotificationTemplate {
+    const templates = Array.from(this.templates.values()).filter((t) => t.channel === channel);
+    return templates.find((t) => t.category === category) ??
+      templates.find((t) => !t.category) ??
+      this.templates.get(`default-console`)!;
+  }
+
+  createTemplate(input: TemplateInput): NotificationTemplate {
+    this.validate(input);
+
+    const template: NotificationTemplate = {
+      ...input,
+      id: uuidv4(),
+      builtIn: false,
+      updatedAt: new Date().toISOString(),
+    };
+    this.save(template);
+    logger.info({ templateId: template.id, channel: template.channel, category: template.category }, "Notification template created");
+    return template;
+  }
+
+  updateTemplate(id: string, updates: Partial<TemplateInput>): NotificationTemplate | null {
+    const existing = this.templates.get(id);
+    if (!existing) return null;
+
+    const template: NotificationTemplate = {
+      ...existing,
+      ...updates,
+      // Built-in defaults can be reworded but stay the channel default
+      channel: existing.builtIn ? existing.channel : updates.channel ?? existing.channel,
+      category: existing.builtIn ? undefined : "category" in updates ? updates.category : existing.category,
+      id,
+      updatedAt: new Date().toISOString(),
+    };
+    this.validate(template);
+    this.save(template);
+    logger.info({ templateId: id }, "Notification template updated");
+    return template;
+  }
+
+  /** Deletes a custom template; deleting a built-in one restores its original text. */
+  deleteTemplate(id: string): boolean {
+    const template = this.templates.get(id);
+    if (!template) return false;
+
+    this.store.remove([id]);
+    this.templates.delete(id);
+    if (template.builtIn) {
+      this.loadBuiltIns();
+    }
+    logger.info({ templateId: id, builtIn: template.builtIn }, "Notification template deleted");
+    return true;
+  }
+
+  render(
+    template: Pick<NotificationTemplate, "id" | "format" | "subject" | "body">,
+    incident: Incident,
+    notification: { id: string; channel: NotificationChannel; priority: NotificationPriority; recipient?: string }
+  ): RenderedNotification {
+    const context = buildContext(incident, notification);
+    // The subject is plain text everywhere, so it is rendered unescaped first
+    const subject = renderTemplate(template.subject, context, "text").trim();
+    const body = renderTemplate(template.body, { ...context, notification: { ...notification, title: subject } }, template.format);
+
+    return { templateId: template.id, format: template.format, subject, body };
+  }
+
+  /**
+   * Renders a template against an incident, or against a sample incident
+   * with SLO burn data when none is given.
+   */
+  preview(
+    template: Pick<NotificationTemplate, "id" | "channel" | "format" | "subject" | "body">,
+    incident: Incident = SAMPLE_INCIDENT
+  ): RenderedNotification {
+    const priority = incident.severity as NotificationPriority;
+    return this.render(template, incident, { id: "preview", channel: template.channel, priority });
+  }
+
+  /** Throws when a JSON template would not produce valid JSON. */
+  private validate(template: Pick<NotificationTemplate, "channel" | "format" | "subject" | "body">) {
+    if (template.format !== "json") return;
+
+    const rendered = this.preview({ ...template, id: "validation" });
+    try {
+      JSON.parse(rendered.body);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new TemplateError(`Template does not render to valid JSON: ${message}`);
+    }
+  }
+
+  private loadBuiltIns() {
+    for (const input of BUILT_IN_TEMPLATES) {
+      const id = `default-${input.channel}`;
+      if (this.templates.has(id)) continue;
+      this.templates.set(id, { ...input, id, builtIn: true, updatedAt: new Date(0).toISOString() });
+    }
+  }
+
+  private save(template: NotificationTemplate) {
+    this.templates.set(template.id, template);
+    this.store.save(template);
+  }
+}
+
+export const notificationTemplates = new NotificationTemplateManager();
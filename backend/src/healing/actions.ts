@@ -1,8 +1,5 @@
-import { createChildLogger } from "../utils/logger.js";
 import type { IncidentCategory } from "../incidents/types.js";
 
-const logger = createChildLogger("healing-actions");
-
 export type HealingActionType = 
   | "restart-pod"
   | "scale-deployment"
@@ -98,9 +95,9 @@ export function getHealingActionForCategory(category: IncidentCategory): Healing
       parameters: { severity: "critical", pageOnCall: true, freezeAll: true },
     },
     "node-not-ready": {
-      type: "notify",
-      description: "Investigate node health - manual intervention required",
-      parameters: { severity: "critical", checkKubelet: true },
+      type: "drain-node",
+      description: "Drain node so workloads reschedule elsewhere",
+      parameters: { gracePeriodSeconds: 30, drainTimeoutSeconds: 300 },
     },
     "node-pressure": {
       type: "cordon-node",
@@ -0,0 +1,133 @@
+import { approvalQueue } from "./approvals.js";
+import { escalationManager } from "../escalation/escalation.manager.js";
+import { incidentDetector } from "../incidents/detector.js";
+import { config } from "../config/index.js";
+import type { Incident } from "../incidents/types.js";
+
+jest.mock("../incidents/detector.js", () => ({
+  incidentDetector: { getIncident: jest.fn() },
+}));
+jest.mock("../escalation/escalation.manager.js", () => ({
+  escalationManager: { escalate: jest.fn().mockResolvedValue(undefined) },
+}));
+jest.mock("../config/index.js", () => {
+  const actual = jest.requireActual("../config/index.js");
+  return {
+    config: {
+      ...actual.config,
+      persistence: {
+        ...actual.config.persistence,
+        retention: { ...actual.config.persistence.retention, maxApprovals: 2 },
+      },
+    },
+  };
+});
+
+const detector = incidentDetector as jest.Mocked<typeof incidentDetector>;
+const escalation = escalationManager as jest.Mocked<typeof escalationManager>;
+
+let sequence = 0;
+
+function incident(overrides: Partial<Incident> = {}): Incident {
+  sequence += 1;
+  return {
+    id: `incident-${sequence}`,
+    title: "NODE NOT READY: worker-1",
+    description: "",
+    severity: "high",
+    category: "node-not-ready",
+    status: "open",
+    resource: "worker-1",
+    resourceType: "node",
+    namespace: "",
+    detectedAt: new Date().toISOString(),
+    autoHealable: false,
+    autoHealingAttempted: false,
+    escalated: false,
+    metrics: {},
+    relatedAlerts: [],
+    suggestedAction: "",
+    productionBehavior: "",
+    ...overrides,
+  };
+}
+
+const rule = { id: "rule-cordon", name: "Cordon unhealthy node", parameters: {} };
+const action = { type: "cordon-node" as const, description: "Cordon the node", parameters: {} };
+
+describe("approvalQueue", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    detector.getIncident.mockReturnValue(undefined);
+  });
+
+  it("returns the open request instead of filing a second one for the same incident", () => {
+    const target = incident();
+    const first = approvalQueue.request(target, rule, action);
+    const second = approvalQueue.request(target, rule, action);
+
+    expect(second.id).toBe(first.id);
+    expect(first.status).toBe("pending");
+  });
+
+  it("falls back to the default timeout when the rule's is not a usable number", () => {
+    const minutesUntilExpiry = (parameters: Record<string, unknown>) => {
+      const request = approvalQueue.request(incident(), { ...rule, parameters }, action);
+      return (Date.parse(request.expiresAt) - Date.parse(request.requestedAt)) / 60000;
+    };
+
+    expect(minutesUntilExpiry({ approvalTimeoutMinutes: 5 })).toBe(5);
+    expect(minutesUntilExpiry({ approvalTimeoutMinutes: "soon" })).toBe(config.healing.approvalTimeoutMinutes);
+    expect(minutesUntilExpiry({ approvalTimeoutMinutes: { minutes: 5 } })).toBe(config.healing.approvalTimeoutMinutes);
+  });
+
+  it("keeps an approved request open until it is marked executed", () => {
+    const target = incident();
+    const request = approvalQueue.request(target, rule, action);
+
+    approvalQueue.approve(request.id, "oncall@example.com");
+    expect(approvalQueue.getOpenForIncident(target.id)?.id).toBe(request.id);
+
+    approvalQueue.markExecuted(request.id, true, "Node worker-1 cordoned");
+    expect(approvalQueue.getOpenForIncident(target.id)).toBeUndefined();
+    expect(approvalQueue.getApproval(request.id)?.status).toBe("executed");
+  });
+
+  it("expires pending requests past their deadline and escalates the incident", () => {
+    const target = incident();
+    detector.getIncident.mockReturnValue(target);
+    const request = approvalQueue.request(target, { ...rule, parameters: { approvalTimeoutMinutes: 1 } }, action);
+    const later = Date.now() + 2 * 60 * 1000;
+    jest.spyOn(Date, "now").mockReturnValue(later);
+
+    const expired = approvalQueue.expireStale();
+    jest.restoreAllMocks();
+
+    expect(expired.map((a) => a.id)).toContain(request.id);
+    expect(approvalQueue.getApproval(request.id)?.status).toBe("expired");
+    expect(escalation.escalate).toHaveBeenCalledWith(target);
+  });
+
+  it("expires approved requests that never settled when restored", async () => {
+    const target = incident();
+    const request = approvalQueue.request(target, rule, action);
+    approvalQueue.approve(request.id, "oncall@example.com");
+
+    await approvalQueue.restore();
+
+    expect(approvalQueue.getApproval(request.id)?.status).toBe("expired");
+    expect(approvalQueue.getOpenForIncident(target.id)).toBeUndefined();
+  });
+
+  it("caps decided requests in memory without dropping open ones", () => {
+    const open = approvalQueue.request(incident(), rule, action);
+    for (let i = 0; i < 4; i++) {
+      const request = approvalQueue.request(incident(), rule, action);
+      approvalQueue.reject(request.id, "oncall@example.com", "Not now");
+    }
+
+    const approvals = approvalQueue.getApprovals();
+    expect(approvals.filter((a) => a.status !== "pending" && a.status !== "approved")).toHaveLength(2);
+    expect(approvalQueue.getApproval(open.id)?.status).toBe("pending");
+  });
+});
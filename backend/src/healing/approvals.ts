@@ -0,0 +1,255 @@
+import { v4 as uuidv4 } from "uuid";
+import { createChildLogger } from "../utils/logger.js";
+import { incidentDetector } from "../incidents/detector.js";
+import { escalationManager } from "../escalation/escalation.manager.js";
+import { persistence } from "../persistence/index.js";
+import { config } from "../config/index.js";
+import { auditLog, systemActor } from "../audit/audit-log.js";
+import type { Incident } from "../incidents/types.js";
+import type { HealingActionType } from "./actions.js";
+
+const logger = createChildLogger("healing-approvals");
+
+export type ApprovalStatus = "pending" | "approved" | "rejected" | "expired" | "executed" | "failed";
+
+export interface ApprovalRequest {
+  id: string;
+  incidentId: string;
+  incidentTitle: string;
+  severity: Incident["severity"];
+  ruleId: string;
+  ruleName: string;
+  action: HealingActionType;
+  description: string;
+  parameters: Record<string, unknown>;
+  targetResource: string;
+  targetNamespace: string;
+  status: ApprovalStatus;
+  requestedAt: string;
+  expiresAt: string;
+  decidedAt?: string;
+  decidedBy?: string;
+  rejectionReason?: string;
+  result?: string;
+}
+
+export type ApprovalEvent = "requested" | "approved" | "rejected" | "expired" | "executed" | "failed";
+type ApprovalListener = (event: ApprovalEvent, approval: ApprovalRequest) => void;
+
+function isOpen(approval: ApprovalRequest): boolean {
+  return approval.status === "pending" || approval.status === "approved";
+}
+
+class ApprovalQueue {
+  private approvals: Map<string, ApprovalRequest> = new Map();
+  private listeners: ApprovalListener[] = [];
+  private store = persistence.collection<ApprovalRequest>("approvals", {
+    idOf: (approval) => approval.id,
+    timestampOf: (approval) => approval.requestedAt,
+    retention: {
+      maxRecords: config.persistence.retention.maxApprovals,
+      maxAgeDays: config.persistence.retention.maxAgeDays,
+    },
+  });
+
+  /**
+   * An "approved" request on disk was signed off but never settled before the
+   * last shutdown, so its action may or may not have run. It is expired rather
+   * than replayed; the engine raises a fresh request if the incident persists.
+   */
+  async restore(): Promise<void> {
+    const approvals = await this.store.load();
+    this.approvals = new Map(approvals.map((approval) => [approval.id, approval]));
+
+    const interrupted = approvals.filter((approval) => approval.status === "approved");
+    for (const approval of interrupted) {
+      approval.status = "expired";
+      approval.result = "Approved but not completed before restart";
+      this.store.save(approval);
+    }
+
+    logger.info({ count: approvals.length, interrupted: interrupted.length }, "Approval requests restored");
+  }
+
+  subscribe(listener: ApprovalListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  getApprovals(status?: ApprovalStatus): ApprovalRequest[] {
+    const approvals = Array.from(this.approvals.values());
+    const filtered = status ? approvals.filter((a) => a.status === status) : approvals;
+    return filtered.sort((a, b) => new Date(b.requestedAt).getTime() - new Date(a.requestedAt).getTime());
+  }
+
+  getApproval(id: string): ApprovalRequest | undefined {
+    return this.approvals.get(id);
+  }
+
+  /** Open (pending or approved but not yet executed) request for an incident, if any. */
+  getOpenForIncident(incidentId: string): ApprovalRequest | undefined {
+    return Array.from(this.approvals.values()).find((a) => a.incidentId === incidentId && isOpen(a));
+  }
+
+  request(
+    incident: Incident,
+    rule: { id: string; name: string; parameters: Record<string, unknown> },
+    action: { type: HealingActionType; description: string; parameters: Record<string, unknown> }
+  ): ApprovalRequest {
+    const existing = this.getOpenForIncident(incident.id);
+    if (existing) return existing;
+
+    // Only rules that come through the API have their parameters validated
+    const configured = rule.parameters.approvalTimeoutMinutes;
+    const timeoutMinutes = typeof configured === "number" && Number.isFinite(configured) && configured > 0
+      ? configured
+      : config.healing.approvalTimeoutMinutes;
+    const now = Date.now();
+
+    const approval: ApprovalRequest = {
+      id: uuidv4(),
+      incidentId: incident.id,
+      incidentTitle: incident.title,
+      severity: incident.severity,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      action: action.type,
+      description: action.description,
+      parameters: { ...action.parameters, ...rule.parameters },
+      targetResource: incident.resource,
+      targetNamespace: incident.namespace,
+      status: "pending",
+      requestedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + timeoutMinutes * 60 * 1000).toISOString(),
+    };
+
+    this.save(approval, "requested");
+    logger.info({
+      approvalId: approval.id,
+      incidentId: incident.id,
+      action: action.type,
+      expiresAt: approval.expiresAt,
+    }, "Healing action awaiting approval");
+    return approval;
+  }
+
+  approve(id: string, approvedBy: string): ApprovalRequest | null {
+    const approval = this.getPending(id);
+    if (!approval) return null;
+
+    approval.status = "approved";
+    approval.decidedAt = new Date().toISOString();
+    approval.decidedBy = approvedBy;
+    this.save(approval, "approved");
+    logger.info({ approvalId: id, approvedBy }, "Healing action approved");
+    return approval;
+  }
+
+  reject(id: string, rejectedBy: string, reason: string): ApprovalRequest | null {
+    const approval = this.getPending(id);
+    if (!approval) return null;
+
+    approval.status = "rejected";
+    approval.decidedAt = new Date().toISOString();
+    approval.decidedBy = rejectedBy;
+    approval.rejectionReason = reason;
+    this.save(approval, "rejected");
+
+    this.escalate(approval);
+    logger.info({ approvalId: id, rejectedBy, reason }, "Healing action rejected");
+    return approval;
+  }
+
+  markExecuted(id: string, success: boolean, result: string): ApprovalRequest | null {
+    const approval = this.approvals.get(id);
+    if (!approval) return null;
+
+    approval.status = success ? "executed" : "failed";
+    approval.result = result;
+    this.save(approval, success ? "executed" : "failed");
+    return approval;
+  }
+
+  /**
+   * Expires pending requests past their deadline. Nobody signed off in time,
+   * so the incident is escalated for manual handling instead.
+   */
+  expireStale(): ApprovalRequest[] {
+    const now = Date.now();
+    const expired: ApprovalRequest[] = [];
+
+    for (const approval of this.approvals.values()) {
+      if (approval.status !== "pending" || new Date(approval.expiresAt).getTime() > now) continue;
+
+      approval.status = "expired";
+      approval.decidedAt = new Date(now).toISOString();
+      this.save(approval, "expired");
+      this.escalate(approval);
+      expired.push(approval);
+      auditLog.record({
+        actor: systemActor("approval-queue"),
+        action: "approval.expire",
+        target: { type: "approval", id: approval.id, namespace: approval.targetNamespace },
+        before: { status: "pending" },
+        after: { status: "expired", action: approval.action, resource: approval.targetResource },
+      });
+      logger.warn({ approvalId: approval.id, incidentId: approval.incidentId }, "Approval request expired");
+    }
+
+    return expired;
+  }
+
+  getStats() {
+    const approvals = Array.from(this.approvals.values());
+    return {
+      pending: approvals.filter((a) => a.status === "pending").length,
+      approved: approvals.filter((a) => a.status === "approved" || a.status === "executed").length,
+      rejected: approvals.filter((a) => a.status === "rejected").length,
+      expired: approvals.filter((a) => a.status === "expired").length,
+    };
+  }
+
+  private escalate(approval: ApprovalRequest) {
+    const incident = incidentDetector.getIncident(approval.incidentId);
+    if (!incident) return;
+
+    escalationManager.escalate(incident).catch((error) => {
+      logger.error({ error, incidentId: incident.id }, "Failed to escalate incident");
+    });
+  }
+
+  /** Caps decided requests; pending and approved ones are never dropped. */
+  private enforceRetention() {
+    const decided = Array.from(this.approvals.values()).filter((a) => !isOpen(a));
+    if (decided.length <= this.store.maxRecords) return;
+
+    const kept = new Set(this.store.prune(decided));
+    for (const approval of decided) {
+      if (!kept.has(approval)) this.approvals.delete(approval.id);
+    }
+  }
+
+  private getPending(id: string): ApprovalRequest | null {
+    const approval = this.approvals.get(id);
+    if (!approval || approval.status !== "pending") return null;
+    return approval;
+  }
+
+  private save(approval: ApprovalRequest, event: ApprovalEvent) {
+    this.approvals.set(approval.id, approval);
+    this.store.save(approval);
+    this.enforceRetention();
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event, approval);
+      } catch (error) {
+        logger.error({ error, event }, "Approval listener failed");
+      }
+    }
+  }
+}
+
+export const approvalQueue = new ApprovalQueue();
@@ -0,0 +1,114 @@
+import { healingAttempts } from "./backoff.js";
+import type { Incident } from "../incidents/types.js";
+
+let now: number;
+
+function incident(overrides: Partial<Incident> = {}): Incident {
+  return {
+    id: "incident-1",
+    title: "CRASH LOOP: api",
+    description: "",
+    severity: "medium",
+    category: "crash-loop",
+    status: "open",
+    resource: "api-7d9f8b6c5d-x2k4p",
+    resourceType: "pod",
+    namespace: "shop",
+    detectedAt: new Date(now).toISOString(),
+    autoHealable: true,
+    autoHealingAttempted: false,
+    escalated: false,
+    metrics: {},
+    relatedAlerts: [],
+    suggestedAction: "",
+    productionBehavior: "",
+    ...overrides,
+  };
+}
+
+function rule(id: string, parameters: Record<string, unknown> = {}) {
+  return { id, cooldownSeconds: 60, maxRetries: 3, parameters };
+}
+
+describe("healingAttempts", () => {
+  beforeEach(() => {
+    now = Date.parse("2026-01-01T00:00:00Z");
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("doubles the wait after each attempt", () => {
+    const limits = rule("rule-doubling");
+    const target = incident();
+
+    const first = healingAttempts.recordAttempt(limits, target);
+    expect(Date.parse(first.nextAttemptAt) - now).toBe(60_000);
+
+    now = Date.parse(first.nextAttemptAt);
+    const second = healingAttempts.recordAttempt(limits, target);
+    expect(Date.parse(second.nextAttemptAt) - now).toBe(120_000);
+  });
+
+  it("holds attempts back until the backoff elapses", () => {
+    const limits = rule("rule-gate");
+    const target = incident();
+    healingAttempts.recordAttempt(limits, target);
+
+    now += 30_000;
+    expect(healingAttempts.check(limits, target)).toMatchObject({ allowed: false, reason: "backoff" });
+
+    now += 30_000;
+    expect(healingAttempts.check(limits, target).allowed).toBe(true);
+  });
+
+  it("caps the wait at maxBackoffSeconds", () => {
+    const limits = rule("rule-capped", { backoffMultiplier: 10, maxBackoffSeconds: 300 });
+    const target = incident();
+
+    healingAttempts.recordAttempt(limits, target);
+    const second = healingAttempts.recordAttempt(limits, target);
+
+    expect(Date.parse(second.nextAttemptAt) - now).toBe(300_000);
+  });
+
+  it("reports the resource as exhausted after maxRetries attempts", () => {
+    const limits = rule("rule-exhausted");
+    const target = incident();
+    for (let i = 0; i < 3; i++) healingAttempts.recordAttempt(limits, target);
+
+    now += 10 * 60 * 1000;
+    expect(healingAttempts.check(limits, target)).toMatchObject({ allowed: false, reason: "exhausted" });
+  });
+
+  it("starts the count over once the retry window passes", () => {
+    const limits = rule("rule-window", { retryWindowSeconds: 600 });
+    const target = incident();
+    for (let i = 0; i < 3; i++) healingAttempts.recordAttempt(limits, target);
+
+    now += (240 + 600) * 1000 + 1;
+    expect(healingAttempts.check(limits, target)).toEqual({ allowed: true });
+  });
+
+  it("shares attempts between pods of the same workload", () => {
+    const limits = rule("rule-workload");
+    const workload = { kind: "Deployment" as const, name: "api", namespace: "shop" };
+    healingAttempts.recordAttempt(limits, incident({ resource: "api-1", workload }));
+
+    const replacement = healingAttempts.recordAttempt(limits, incident({ resource: "api-2", workload }));
+
+    expect(replacement.attempts).toBe(2);
+    expect(replacement.resource).toBe("Deployment:shop/api");
+  });
+
+  it("forgets every resource of a deleted rule", () => {
+    const limits = rule("rule-forgotten");
+    healingAttempts.recordAttempt(limits, incident());
+
+    healingAttempts.forgetRule("rule-forgotten");
+
+    expect(healingAttempts.getState(limits, incident())).toBeUndefined();
+  });
+});
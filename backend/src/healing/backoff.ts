@@ -0,0 +1,110 @@
+import { createChildLogger } from "../utils/logger.js";
+import type { Incident } from "../incidents/types.js";
+import type { HealingRule } from "./rules.js";
+
+const logger = createChildLogger("healing-backoff");
+
+const DEFAULT_BACKOFF_MULTIPLIER = 2;
+const DEFAULT_MAX_BACKOFF_SECONDS = 3600;
+const DEFAULT_RETRY_WINDOW_SECONDS = 3600;
+
+export interface AttemptState {
+  ruleId: string;
+  resource: string;
+  attempts: number;
+  maxAttempts: number;
+  lastAttemptAt: string;
+  nextAttemptAt: string;
+}
+
+export type AttemptGate =
+  | { allowed: true; state?: AttemptState }
+  | { allowed: false; reason: "backoff" | "exhausted"; state: AttemptState };
+
+type RuleLimits = Pick<HealingRule, "id" | "cooldownSeconds" | "maxRetries" | "parameters">;
+
+// Pods of a workload share attempts, so a replacement pod does not start the count over
+function resourceKey(incident: Pick<Incident, "resourceType" | "namespace" | "resource" | "workload">): string {
+  if (incident.workload) {
+    return `${incident.workload.kind}:${incident.namespace}/${incident.workload.name}`;
+  }
+  return `${incident.resourceType}:${incident.namespace}/${incident.resource}`;
+}
+
+/**
+ * Tracks automatic healing attempts per rule and resource, across incidents,
+ * so a resource that keeps failing is not healed in a tight loop.
+ *
+ * After attempt n the next one waits cooldownSeconds * backoffMultiplier^(n-1)
+ * (capped at maxBackoffSeconds). A rule gets at most maxRetries attempts on a
+ * resource; the count starts over once retryWindowSeconds pass after the next
+ * attempt was due without another one being needed.
+ */
+class HealingAttemptTracker {
+  private attempts: Map<string, AttemptState> = new Map();
+
+  check(rule: RuleLimits, incident: Incident): AttemptGate {
+    const state = this.getState(rule, incident);
+    if (!state) return { allowed: true };
+
+    if (state.attempts >= state.maxAttempts) {
+      return { allowed: false, reason: "exhausted", state };
+    }
+    if (Date.now() < new Date(state.nextAttemptAt).getTime()) {
+      return { allowed: false, reason: "backoff", state };
+    }
+    return { allowed: true, state };
+  }
+
+  recordAttempt(rule: RuleLimits, incident: Incident): AttemptState {
+    const previous = this.getState(rule, incident);
+    const attempts = (previous?.attempts ?? 0) + 1;
+    const now = Date.now();
+
+    const state: AttemptState = {
+      ruleId: rule.id,
+      resource: resourceKey(incident),
+      attempts,
+      maxAttempts: Math.max(1, rule.maxRetries),
+      lastAttemptAt: new Date(now).toISOString(),
+      nextAttemptAt: new Date(now + this.backoffSeconds(rule, attempts) * 1000).toISOString(),
+    };
+
+    this.attempts.set(`${rule.id}|${state.resource}`, state);
+    logger.debug({ ruleId: rule.id, resource: state.resource, attempts, nextAttemptAt: state.nextAttemptAt }, "Healing attempt recorded");
+    return state;
+  }
+
+  getState(rule: RuleLimits, incident: Incident): AttemptState | undefined {
+    const key = `${rule.id}|${resourceKey(incident)}`;
+    const state = this.attempts.get(key);
+    if (!state) return undefined;
+
+    const windowSeconds = (rule.parameters.retryWindowSeconds as number) ?? DEFAULT_RETRY_WINDOW_SECONDS;
+    if (Date.now() > new Date(state.nextAttemptAt).getTime() + windowSeconds * 1000) {
+      this.attempts.delete(key);
+      return undefined;
+    }
+    return state;
+  }
+
+  getStates(): AttemptState[] {
+    return Array.from(this.attempts.values());
+  }
+
+  forgetRule(ruleId: string) {
+    for (const key of this.attempts.keys()) {
+      if (key.startsWith(`${ruleId}|`)) {
+        this.attempts.delete(key);
+      }
+    }
+  }
+
+  private backoffSeconds(rule: RuleLimits, attempts: number): number {
+    const multiplier = (rule.parameters.backoffMultiplier as number) ?? DEFAULT_BACKOFF_MULTIPLIER;
+    const maxBackoff = (rule.parameters.maxBackoffSeconds as number) ?? DEFAULT_MAX_BACKOFF_SECONDS;
+    return Math.min(rule.cooldownSeconds * Math.pow(multiplier, attempts - 1), maxBackoff);
+  }
+}
+
+export const healingAttempts = new HealingAttemptTracker();
@@ -0,0 +1,158 @@
+import { parseDuration, ruleConditionEvaluator } from "./conditions.js";
+import { collectPodMetrics, type PodMetrics } from "../metrics/pod.metrics.js";
+import type { HealingRule } from "./rules.js";
+
+jest.mock("../metrics/pod.metrics.js", () => ({ collectPodMetrics: jest.fn() }));
+jest.mock("../metrics/node.metrics.js", () => ({ collectNodeMetrics: jest.fn().mockResolvedValue([]) }));
+jest.mock("../services/kubernetes.service.js", () => ({
+  kubernetesService: {
+    getPods: jest.fn().mockResolvedValue([]),
+    getNodes: jest.fn().mockResolvedValue([]),
+  },
+}));
+
+const podMetrics = collectPodMetrics as jest.MockedFunction<typeof collectPodMetrics>;
+
+function pod(name: string, overrides: Partial<PodMetrics> = {}): PodMetrics {
+  return {
+    podName: name,
+    namespace: "shop",
+    nodeName: "worker-1",
+    cpuUsageCores: 0.1,
+    cpuRequestCores: 0.5,
+    cpuLimitCores: 1,
+    memoryUsageBytes: 100,
+    memoryRequestBytes: 200,
+    memoryLimitBytes: 400,
+    restartCount: 0,
+    oomKilled: false,
+    throttled: false,
+    throttleRatio: 0,
+    phase: "Running",
+    containerStatuses: [],
+    ...overrides,
+  };
+}
+
+function rule(overrides: Partial<HealingRule> = {}): HealingRule {
+  return {
+    id: "rule-memory",
+    name: "Memory near limit",
+    description: "",
+    enabled: true,
+    targetCategory: "high-memory",
+    actionType: "patch-memory",
+    parameters: {},
+    trigger: {
+      resourceType: "pod",
+      operator: "AND",
+      conditions: [{ metric: "memory_limit_percent", operator: ">", value: 90, duration: "5m" }],
+    },
+    cooldownSeconds: 300,
+    maxRetries: 3,
+    triggerCount: 0,
+    createdAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+describe("parseDuration", () => {
+  it("reads seconds, minutes and hours", () => {
+    expect(parseDuration("30s")).toBe(30);
+    expect(parseDuration("5m")).toBe(300);
+    expect(parseDuration("1.5h")).toBe(5400);
+    expect(parseDuration("45")).toBe(45);
+  });
+
+  it("treats empty and unparseable durations as immediate", () => {
+    expect(parseDuration("")).toBe(0);
+    expect(parseDuration("soon")).toBe(0);
+  });
+});
+
+describe("ruleConditionEvaluator", () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = Date.parse("2026-01-01T00:00:00Z");
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("fires only once a condition has held for its duration", async () => {
+    const target = rule({ id: "rule-duration" });
+    podMetrics.mockResolvedValue([pod("api-1", { memoryUsageBytes: 380 })]);
+
+    expect((await ruleConditionEvaluator.evaluate([target])).size).toBe(0);
+
+    now += 4 * 60 * 1000;
+    expect((await ruleConditionEvaluator.evaluate([target])).size).toBe(0);
+
+    now += 60 * 1000;
+    const firing = await ruleConditionEvaluator.evaluate([target]);
+    expect(firing.get(target.id)?.map((m) => m.resource)).toEqual(["api-1"]);
+  });
+
+  it("resets the timer as soon as a condition stops holding", async () => {
+    const target = rule({ id: "rule-reset" });
+    podMetrics.mockResolvedValue([pod("api-1", { memoryUsageBytes: 380 })]);
+    await ruleConditionEvaluator.evaluate([target]);
+
+    now += 4 * 60 * 1000;
+    podMetrics.mockResolvedValue([pod("api-1", { memoryUsageBytes: 100 })]);
+    await ruleConditionEvaluator.evaluate([target]);
+
+    now += 2 * 60 * 1000;
+    podMetrics.mockResolvedValue([pod("api-1", { memoryUsageBytes: 380 })]);
+    expect((await ruleConditionEvaluator.evaluate([target])).size).toBe(0);
+  });
+
+  it("fires OR rules when any condition is satisfied", async () => {
+    const target = rule({
+      id: "rule-or",
+      trigger: {
+        resourceType: "pod",
+        operator: "OR",
+        conditions: [
+          { metric: "memory_limit_percent", operator: ">", value: 90, duration: "" },
+          { metric: "restart_count", operator: ">=", value: 5, duration: "" },
+        ],
+      },
+    });
+    podMetrics.mockResolvedValue([pod("api-1", { restartCount: 6 }), pod("api-2")]);
+
+    const firing = await ruleConditionEvaluator.evaluate([target]);
+
+    expect(firing.get(target.id)?.map((m) => m.resource)).toEqual(["api-1"]);
+  });
+
+  it("skips resources outside the rule's selector", async () => {
+    const target = rule({
+      id: "rule-scoped",
+      trigger: {
+        resourceType: "pod",
+        operator: "AND",
+        conditions: [{ metric: "oom_killed", operator: "==", value: 1, duration: "" }],
+      },
+      selector: { namespaces: ["payments"] },
+    });
+    podMetrics.mockResolvedValue([pod("api-1", { oomKilled: true })]);
+
+    expect((await ruleConditionEvaluator.evaluate([target])).size).toBe(0);
+  });
+
+  it("dry runs report pending matches without starting timers", async () => {
+    const target = rule({ id: "rule-dry-run" });
+    podMetrics.mockResolvedValue([pod("api-1", { memoryUsageBytes: 380 })]);
+
+    const result = await ruleConditionEvaluator.dryRun(target);
+    expect(result.wouldFire).toHaveLength(0);
+    expect(result.pending.map((m) => m.resource)).toEqual(["api-1"]);
+
+    now += 10 * 60 * 1000;
+    expect((await ruleConditionEvaluator.evaluate([target])).size).toBe(0);
+  });
+});
@@ -0,0 +1,313 @@
+import { createChildLogger } from "../utils/logger.js";
+import { collectPodMetrics, type PodMetrics } from "../metrics/pod.metrics.js";
+import { collectNodeMetrics, type NodeMetrics } from "../metrics/node.metrics.js";
+import { kubernetesService } from "../services/kubernetes.service.js";
+import type { TriggerCondition } from "../types/index.js";
+import { matchesSelector, type HealingRule } from "./rules.js";
+
+const logger = createChildLogger("healing-conditions");
+
+export interface ConditionResult extends TriggerCondition {
+  actual: number | null;
+  met: boolean;
+  heldForSeconds: number;
+  satisfied: boolean;
+}
+
+export interface RuleMatch {
+  resource: string;
+  resourceType: "pod" | "node";
+  namespace: string;
+  fires: boolean;
+  conditions: ConditionResult[];
+  values: Record<string, number>;
+}
+
+export interface DryRunResult {
+  ruleId?: string;
+  ruleName: string;
+  evaluatedAt: string;
+  evaluatedResources: number;
+  wouldFire: RuleMatch[];
+  pending: RuleMatch[];
+}
+
+/** The parts of a rule condition evaluation reads; drafts have no id yet. */
+type EvaluableRule = Pick<HealingRule, "name" | "trigger" | "selector"> & { id?: string };
+
+interface EvaluatedResource {
+  name: string;
+  resourceType: "pod" | "node";
+  namespace: string;
+  labels?: Record<string, string>;
+  values: Record<string, number>;
+}
+
+export const POD_METRICS = [
+  "cpu_usage_cores",
+  "cpu_limit_percent",
+  "cpu_request_percent",
+  "memory_usage_bytes",
+  "memory_limit_percent",
+  "memory_request_percent",
+  "restart_count",
+  "oom_killed",
+  "throttled",
+  "cpu_throttled_percent",
+] as const;
+
+export const NODE_METRICS = [
+  "cpu_usage_percent",
+  "memory_usage_percent",
+  "disk_usage_percent",
+  "pod_count",
+  "ready",
+  "memory_pressure",
+  "disk_pressure",
+  "pid_pressure",
+] as const;
+
+/**
+ * Parses a condition duration such as "30s", "5m" or "1h". A bare number is
+ * read as seconds; an empty duration means the condition fires immediately.
+ */
+export function parseDuration(duration: string): number {
+  if (!duration) return 0;
+
+  const match = duration.trim().match(/^(\d+(?:\.\d+)?)\s*(s|m|h)?$/);
+  if (!match) {
+    logger.warn({ duration }, "Unparseable condition duration, treating as 0s");
+    return 0;
+  }
+
+  const value = parseFloat(match[1]);
+  switch (match[2]) {
+    case "h":
+      return value * 3600;
+    case "m":
+      return value * 60;
+    default:
+      return value;
+  }
+}
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? (part / whole) * 100 : 0;
+}
+
+function podValues(pod: PodMetrics): Record<string, number> {
+  return {
+    cpu_usage_cores: pod.cpuUsageCores,
+    cpu_limit_percent: percent(pod.cpuUsageCores, pod.cpuLimitCores),
+    cpu_request_percent: percent(pod.cpuUsageCores, pod.cpuRequestCores),
+    memory_usage_bytes: pod.memoryUsageBytes,
+    memory_limit_percent: percent(pod.memoryUsageBytes, pod.memoryLimitBytes),
+    memory_request_percent: percent(pod.memoryUsageBytes, pod.memoryRequestBytes),
+    restart_count: pod.restartCount,
+    oom_killed: pod.oomKilled ? 1 : 0,
+    throttled: pod.throttled ? 1 : 0,
+    cpu_throttled_percent: pod.throttleRatio * 100,
+  };
+}
+
+function nodeValues(node: NodeMetrics): Record<string, number> {
+  return {
+    cpu_usage_percent: node.cpuUsagePercent,
+    memory_usage_percent: node.memoryUsagePercent,
+    disk_usage_percent: node.diskUsagePercent,
+    pod_count: node.podCount,
+    ready: node.conditions.ready ? 1 : 0,
+    memory_pressure: node.conditions.memoryPressure ? 1 : 0,
+    disk_pressure: node.conditions.diskPressure ? 1 : 0,
+    pid_pressure: node.conditions.pidPressure ? 1 : 0,
+  };
+}
+
+function compare(actual: number, operator: TriggerCondition["operator"], value: number): boolean {
+  switch (operator) {
+    case ">":
+      return actual > value;
+    case "<":
+      return actual < value;
+    case ">=":
+      return actual >= value;
+    case "<=":
+      return actual <= value;
+    case "==":
+      return actual === value;
+    case "!=":
+      return actual !== value;
+    default:
+      return false;
+  }
+}
+
+class RuleConditionEvaluator {
+  // When each (rule, resource, condition) was first seen true; cleared as soon as it stops holding
+  private metSince: Map<string, number> = new Map();
+
+  /**
+   * Evaluates every condition rule against live metrics, advancing the
+   * duration timers. Returns the resources each rule fires on, keyed by rule id.
+   */
+  async evaluate(rules: HealingRule[]): Promise<Map<string, RuleMatch[]>> {
+    const firing = new Map<string, RuleMatch[]>();
+    if (rules.length === 0) return firing;
+
+    const resources = await this.collectResources(rules);
+    const now = Date.now();
+
+    for (const rule of rules) {
+      const matches = this.evaluateRule(rule, resources, now, true);
+      const fired = matches.filter((m) => m.fires);
+      if (fired.length > 0) {
+        firing.set(rule.id, fired);
+      }
+    }
+
+    return firing;
+  }
+
+  /**
+   * Reports which resources a rule would fire on right now without touching
+   * the duration timers. Conditions already being tracked by the live loop
+   * report how long they have held; new ones count from zero.
+   */
+  async dryRun(rule: EvaluableRule): Promise<DryRunResult> {
+    const resources = await this.collectResources([rule]);
+    const matches = this.evaluateRule(rule, resources, Date.now(), false);
+    const resourceType = rule.trigger?.resourceType ?? "pod";
+
+    return {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      evaluatedAt: new Date().toISOString(),
+      evaluatedResources: resources.filter((r) => r.resourceType === resourceType && this.inScope(rule, r)).length,
+      wouldFire: matches.filter((m) => m.fires),
+      pending: matches.filter((m) => !m.fires),
+    };
+  }
+
+  forgetRule(ruleId: string) {
+    for (const key of this.metSince.keys()) {
+      if (key.startsWith(`${ruleId}|`)) {
+        this.metSince.delete(key);
+      }
+    }
+  }
+
+  private evaluateRule(
+    rule: EvaluableRule,
+    resources: EvaluatedResource[],
+    now: number,
+    record: boolean
+  ): RuleMatch[] {
+    const trigger = rule.trigger;
+    if (!trigger || trigger.conditions.length === 0) return [];
+
+    const ruleKey = rule.id ?? "dry-run";
+    const seen = new Set<string>();
+    const matches: RuleMatch[] = [];
+
+    for (const resource of resources) {
+      if (resource.resourceType !== trigger.resourceType || !this.inScope(rule, resource)) continue;
+
+      const conditions = trigger.conditions.map((condition, index): ConditionResult => {
+        const key = `${ruleKey}|${resource.resourceType}:${resource.namespace}/${resource.name}|${index}`;
+        const actual = resource.values[condition.metric] ?? null;
+        const met = actual !== null && compare(actual, condition.operator, condition.value);
+
+        let since = this.metSince.get(key);
+        if (record) {
+          if (met) {
+            seen.add(key);
+            if (since === undefined) {
+              since = now;
+              this.metSince.set(key, now);
+            }
+          } else {
+            this.metSince.delete(key);
+          }
+        }
+
+        const heldForSeconds = met ? Math.floor((now - (since ?? now)) / 1000) : 0;
+        return {
+          ...condition,
+          actual,
+          met,
+          heldForSeconds,
+          satisfied: met && heldForSeconds >= parseDuration(condition.duration),
+        };
+      });
+
+      const fires = trigger.operator === "OR"
+        ? conditions.some((c) => c.satisfied)
+        : conditions.every((c) => c.satisfied);
+
+      if (conditions.some((c) => c.met)) {
+        matches.push({
+          resource: resource.name,
+          resourceType: resource.resourceType,
+          namespace: resource.namespace,
+          fires,
+          conditions,
+          values: resource.values,
+        });
+      }
+    }
+
+    if (record) {
+      // Drop timers for resources that disappeared since the last evaluation
+      for (const key of this.metSince.keys()) {
+        if (key.startsWith(`${ruleKey}|`) && !seen.has(key)) {
+          this.metSince.delete(key);
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  private inScope(rule: Pick<HealingRule, "selector">, resource: EvaluatedResource): boolean {
+    // Nodes are cluster-scoped, so only label selectors apply to them
+    const selector = resource.resourceType === "node"
+      ? { labels: rule.selector?.labels }
+      : rule.selector;
+    return matchesSelector(selector, resource);
+  }
+
+  private async collectResources(rules: Array<Pick<HealingRule, "trigger" | "selector">>): Promise<EvaluatedResource[]> {
+    const needsPods = rules.some((r) => r.trigger?.resourceType === "pod");
+    const needsNodes = rules.some((r) => r.trigger?.resourceType === "node");
+    const needsLabels = rules.some((r) => r.selector?.labels && Object.keys(r.selector.labels).length > 0);
+
+    const [podMetrics, nodeMetrics, pods, nodes] = await Promise.all([
+      needsPods ? collectPodMetrics() : Promise.resolve([]),
+      needsNodes ? collectNodeMetrics() : Promise.resolve([]),
+      needsPods && needsLabels ? kubernetesService.getPods().catch(() => []) : Promise.resolve([]),
+      needsNodes && needsLabels ? kubernetesService.getNodes().catch(() => []) : Promise.resolve([]),
+    ]);
+
+    const podLabels = new Map(pods.map((p) => [`${p.namespace}/${p.name}`, p.labels]));
+    const nodeLabels = new Map(nodes.map((n) => [n.name, n.labels]));
+
+    return [
+      ...podMetrics.map((pod): EvaluatedResource => ({
+        name: pod.podName,
+        resourceType: "pod",
+        namespace: pod.namespace,
+        labels: podLabels.get(`${pod.namespace}/${pod.podName}`),
+        values: podValues(pod),
+      })),
+      ...nodeMetrics.map((node): EvaluatedResource => ({
+        name: node.nodeName,
+        resourceType: "node",
+        namespace: "cluster",
+        labels: nodeLabels.get(node.nodeName),
+        values: nodeValues(node),
+      })),
+    ];
+  }
+}
+
+export const ruleConditionEvaluator = new RuleConditionEvaluator();
@@ -1,3 +1,6 @@
 export * from "./engine.js";
 export * from "./actions.js";
 export * from "./rules.js";
+export * from "./approvals.js";
+export * from "./conditions.js";
+export * from "./backoff.js";
@@ -0,0 +1,60 @@
+import { healingRulesManager } from "./rules.js";
+
+describe("healingRulesManager persistence", () => {
+  beforeAll(async () => {
+    // Startup seeds the empty store with the default rules
+    await healingRulesManager.restore();
+  });
+
+  it("gives default rules ids that stay the same across restarts", async () => {
+    const before = healingRulesManager.getRules().map((rule) => rule.id);
+
+    await healingRulesManager.restore();
+
+    expect(healingRulesManager.getRules().map((rule) => rule.id).sort()).toEqual(before.sort());
+    expect(healingRulesManager.getRule("default-crash-loop-restart")?.targetCategory).toBe("crash-loop");
+  });
+
+  it("restores created, edited and triggered rules", async () => {
+    const created = healingRulesManager.createRule({
+      name: "Restart on sustained memory",
+      description: "",
+      enabled: true,
+      targetCategory: "high-memory",
+      actionType: "restart-pod",
+      parameters: {},
+      trigger: {
+        resourceType: "pod",
+        operator: "AND",
+        conditions: [{ metric: "memory_limit_percent", operator: ">", value: 95, duration: "5m" }],
+      },
+      cooldownSeconds: 300,
+      maxRetries: 1,
+    });
+    healingRulesManager.toggleRule(created.id);
+    healingRulesManager.recordEvent({
+      ruleId: "default-oom-patch-memory",
+      ruleName: "Auto-restart OOMKilled Pods",
+      incidentId: "incident-1",
+      status: "success",
+      targetResource: "api-7d9f8b6c5d-x2k4p",
+      targetNamespace: "shop",
+      action: "patch-memory",
+      details: "Memory limit raised",
+      duration: 1000,
+    });
+
+    await healingRulesManager.restore();
+
+    expect(healingRulesManager.getRule(created.id)).toMatchObject({ name: "Restart on sustained memory", enabled: false });
+    expect(healingRulesManager.getRule("default-oom-patch-memory")?.triggerCount).toBe(1);
+  });
+
+  it("keeps a deleted default rule deleted", async () => {
+    healingRulesManager.deleteRule("default-underutilized-scale-down");
+
+    await healingRulesManager.restore();
+
+    expect(healingRulesManager.getRule("default-underutilized-scale-down")).toBeUndefined();
+  });
+});
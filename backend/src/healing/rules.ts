@@ -2,6 +2,9 @@ import { v4 as uuidv4 } from "uuid";
 import { createChildLogger } from "../utils/logger.js";
 import type { IncidentCategory } from "../incidents/types.js";
 import type { HealingActionType } from "./actions.js";
+import type { HealingTrigger, ResourceSelector } from "../types/index.js";
+import { persistence, KEEP_ALL } from "../persistence/index.js";
+import { config } from "../config/index.js";
 
 const logger = createChildLogger("healing-rules");
 
@@ -13,6 +16,9 @@ export interface HealingRule {
   targetCategory: IncidentCategory;
   actionType: HealingActionType;
   parameters: Record<string, unknown>;
+  // Optional metric conditions; without them the rule fires on detected incidents of targetCategory
+  trigger?: HealingTrigger;
+  selector?: ResourceSelector;
   cooldownSeconds: number;
   maxRetries: number;
   triggerCount: number;
@@ -26,26 +32,74 @@ export interface HealingEvent {
   ruleName: string;
   incidentId: string;
   timestamp: string;
-  status: "success" | "failed" | "in-progress";
+  status: "success" | "failed" | "in-progress" | "skipped";
   targetResource: string;
   targetNamespace: string;
   action: HealingActionType;
   details: string;
   duration: number;
+  fromReplicas?: number;
+  toReplicas?: number;
+  verification?: "passed" | "failed";
+  rolledBack?: boolean;
+}
+
+export function matchesSelector(
+  selector: ResourceSelector | undefined,
+  resource: { namespace: string; labels?: Record<string, string> }
+): boolean {
+  if (!selector) return true;
+
+  if (selector.namespaces?.length && !selector.namespaces.includes(resource.namespace)) {
+    return false;
+  }
+
+  const labels = selector.labels ? Object.entries(selector.labels) : [];
+  return labels.every(([key, value]) => resource.labels?.[key] === value);
 }
 
 class HealingRulesManager {
   private rules: Map<string, HealingRule> = new Map();
   private events: HealingEvent[] = [];
+  private eventStore = persistence.collection<HealingEvent>("healing-events", {
+    idOf: (event) => event.id,
+    timestampOf: (event) => event.timestamp,
+    retention: {
+      maxRecords: config.persistence.retention.maxHealingEvents,
+      maxAgeDays: config.persistence.retention.maxAgeDays,
+    },
+  });
+
+  private ruleStore = persistence.collection<HealingRule>("healing-rules", {
+    idOf: (rule) => rule.id,
+    timestampOf: (rule) => rule.createdAt,
+    retention: KEEP_ALL,
+  });
 
   constructor() {
     this.loadDefaultRules();
-    // Removed sample events loading to show only real data
   }
 
+  /**
+   * Stored rules replace the defaults, so edits and deletions of default rules
+   * survive a restart. A store without rules is seeded with the defaults.
+   */
+  async restore(): Promise<void> {
+    const [events, rules] = await Promise.all([this.eventStore.load(), this.ruleStore.load()]);
+    this.events = events;
+    if (rules.length > 0) {
+      this.rules = new Map(rules.map((rule) => [rule.id, rule]));
+    } else {
+      this.rules.forEach((rule) => this.ruleStore.save(rule));
+    }
+    logger.info({ events: events.length, rules: this.rules.size }, "Healing rules and events restored");
+  }
+
+  // Default rules keep fixed ids so incidents, approvals and events can refer to them across restarts
   private loadDefaultRules() {
-    const defaultRules: Omit<HealingRule, "id" | "createdAt" | "triggerCount">[] = [
+    const defaultRules: Omit<HealingRule, "createdAt" | "triggerCount">[] = [
       {
+        id: "default-oom-patch-memory",
         name: "Auto-restart OOMKilled Pods",
         description: "Patch memory limit and restart pods killed due to OOM",
         enabled: true,
@@ -56,6 +110,7 @@ class HealingRulesManager {
         maxRetries: 3,
       },
       {
+        id: "default-high-cpu-scale",
         name: "Scale on High CPU",
         description: "Scale deployment when CPU exceeds threshold",
         enabled: true,
@@ -66,6 +121,7 @@ class HealingRulesManager {
         maxRetries: 2,
       },
       {
+        id: "default-crash-loop-restart",
         name: "Restart CrashLoop Pods",
         description: "Restart pods in CrashLoopBackOff with backoff",
         enabled: true,
@@ -76,6 +132,7 @@ class HealingRulesManager {
         maxRetries: 5,
       },
       {
+        id: "default-throttling-patch-cpu",
         name: "Fix CPU Throttling",
         description: "Increase CPU limit for throttled pods",
         enabled: true,
@@ -86,6 +143,7 @@ class HealingRulesManager {
         maxRetries: 2,
       },
       {
+        id: "default-underutilized-scale-down",
         name: "Scale Down Underutilized",
         description: "Scale down deployments with low resource usage",
         enabled: true,
@@ -96,6 +154,7 @@ class HealingRulesManager {
         maxRetries: 1,
       },
       {
+        id: "default-image-pull-retry",
         name: "Retry Image Pull",
         description: "Retry failed image pulls with backoff",
         enabled: true,
@@ -105,12 +164,61 @@ class HealingRulesManager {
         cooldownSeconds: 120,
         maxRetries: 3,
       },
+      {
+        id: "default-buggy-deployment-rollback",
+        name: "Rollback Buggy Deployment",
+        description: "Roll back to the previous ReplicaSet revision on 5xx spikes after a rollout",
+        enabled: true,
+        targetCategory: "buggy-deployment",
+        actionType: "rollback-deployment",
+        parameters: { notifyDevs: true },
+        cooldownSeconds: 900,
+        maxRetries: 1,
+      },
+      {
+        id: "default-node-pressure-cordon",
+        name: "Cordon Pressured Node",
+        description: "Stop scheduling onto a node under resource pressure",
+        enabled: true,
+        targetCategory: "node-pressure",
+        actionType: "cordon-node",
+        parameters: {},
+        cooldownSeconds: 600,
+        maxRetries: 1,
+      },
+      {
+        id: "default-node-not-ready-drain",
+        name: "Drain NotReady Node",
+        description: "Evict pods from a NotReady node, honoring PodDisruptionBudgets",
+        enabled: true,
+        targetCategory: "node-not-ready",
+        actionType: "drain-node",
+        parameters: { gracePeriodSeconds: 30, drainTimeoutSeconds: 300 },
+        cooldownSeconds: 900,
+        maxRetries: 1,
+      },
+      {
+        id: "default-sustained-cpu-scale",
+        name: "Scale on Sustained Pod CPU",
+        description: "Scale out when a pod stays above 90% of its CPU limit for 10 minutes",
+        enabled: false,
+        targetCategory: "high-cpu",
+        actionType: "scale-deployment",
+        parameters: { scaleBy: 1, maxReplicas: 10 },
+        trigger: {
+          resourceType: "pod",
+          operator: "AND",
+          conditions: [{ metric: "cpu_limit_percent", operator: ">", value: 90, duration: "10m" }],
+        },
+        selector: { namespaces: ["default"] },
+        cooldownSeconds: 900,
+        maxRetries: 2,
+      },
     ];
 
     defaultRules.forEach((rule) => {
       const fullRule: HealingRule = {
         ...rule,
-        id: uuidv4(),
         triggerCount: 0,
         createdAt: new Date().toISOString(),
       };
@@ -132,6 +240,18 @@ class HealingRulesManager {
     );
   }
 
+  getRulesForCategory(category: IncidentCategory): HealingRule[] {
+    return Array.from(this.rules.values()).filter(
+      (rule) => rule.enabled && rule.targetCategory === category
+    );
+  }
+
+  getConditionRules(): HealingRule[] {
+    return Array.from(this.rules.values()).filter(
+      (rule) => rule.enabled && (rule.trigger?.conditions.length ?? 0) > 0
+    );
+  }
+
   createRule(rule: Omit<HealingRule, "id" | "createdAt" | "triggerCount">): HealingRule {
     const newRule: HealingRule = {
       ...rule,
@@ -139,7 +259,7 @@ class HealingRulesManager {
       triggerCount: 0,
       createdAt: new Date().toISOString(),
     };
-    this.rules.set(newRule.id, newRule);
+    this.saveRule(newRule);
     logger.info({ ruleId: newRule.id, name: newRule.name }, "Healing rule created");
     return newRule;
   }
@@ -149,7 +269,7 @@ class HealingRulesManager {
     if (!rule) return null;
 
     const updatedRule = { ...rule, ...updates, id: rule.id };
-    this.rules.set(id, updatedRule);
+    this.saveRule(updatedRule);
     logger.info({ ruleId: id }, "Healing rule updated");
     return updatedRule;
   }
@@ -157,6 +277,7 @@ class HealingRulesManager {
   deleteRule(id: string): boolean {
     const deleted = this.rules.delete(id);
     if (deleted) {
+      this.ruleStore.remove([id]);
       logger.info({ ruleId: id }, "Healing rule deleted");
     }
     return deleted;
@@ -167,7 +288,7 @@ class HealingRulesManager {
     if (!rule) return null;
 
     rule.enabled = !rule.enabled;
-    this.rules.set(id, rule);
+    this.saveRule(rule);
     logger.info({ ruleId: id, enabled: rule.enabled }, "Healing rule toggled");
     return rule;
   }
@@ -179,16 +300,17 @@ class HealingRulesManager {
       timestamp: new Date().toISOString(),
     };
     this.events.unshift(fullEvent);
+    this.eventStore.save(fullEvent);
 
-    if (this.events.length > 1000) {
-      this.events = this.events.slice(0, 1000);
+    if (this.events.length > this.eventStore.maxRecords) {
+      this.events = this.eventStore.prune(this.events);
     }
 
     const rule = this.rules.get(event.ruleId);
-    if (rule) {
+    if (rule && event.status !== "skipped") {
       rule.triggerCount++;
       rule.lastTriggered = fullEvent.timestamp;
-      this.rules.set(rule.id, rule);
+      this.saveRule(rule);
     }
 
     return fullEvent;
@@ -200,6 +322,7 @@ class HealingRulesManager {
 
   clearEvents(): void {
     this.events = [];
+    this.eventStore.clear();
     logger.info("Healing events cleared");
   }
 
@@ -207,92 +330,9 @@ class HealingRulesManager {
     return this.events.filter((e) => e.ruleId === ruleId).slice(0, limit);
   }
 
-  private loadSampleEvents() {
-    const now = Date.now();
-    const rules = this.getRules();
-    
-    const sampleEvents: HealingEvent[] = [
-      {
-        id: uuidv4(),
-        ruleId: rules[1]?.id || "rule-1",
-        ruleName: "Scale on High CPU",
-        incidentId: "inc-1",
-        timestamp: new Date(now - 5 * 60 * 1000).toISOString(),
-        status: "success",
-        targetResource: "api-gateway",
-        targetNamespace: "production",
-        action: "scale-deployment",
-        details: "Scaled up replicas from 3 to 5",
-        duration: 45000,
-      },
-      {
-        id: uuidv4(),
-        ruleId: rules[0]?.id || "rule-2",
-        ruleName: "Auto-restart OOMKilled Pods",
-        incidentId: "inc-2",
-        timestamp: new Date(now - 20 * 60 * 1000).toISOString(),
-        status: "success",
-        targetResource: "content-processor",
-        targetNamespace: "production",
-        action: "patch-memory",
-        details: "Increased memory limit to 256Mi",
-        duration: 32000,
-      },
-      {
-        id: uuidv4(),
-        ruleId: rules[2]?.id || "rule-3",
-        ruleName: "Restart CrashLoop Pods",
-        incidentId: "inc-3",
-        timestamp: new Date(now - 45 * 60 * 1000).toISOString(),
-        status: "failed",
-        targetResource: "worker-node-4",
-        targetNamespace: "production",
-        action: "restart-pod",
-        details: "Attempted pod restart on worker-node-4",
-        duration: 120000,
-      },
-      {
-        id: uuidv4(),
-        ruleId: rules[4]?.id || "rule-4",
-        ruleName: "Scale Down Underutilized",
-        incidentId: "inc-4",
-        timestamp: new Date(now - 60 * 60 * 1000).toISOString(),
-        status: "in-progress",
-        targetResource: "recommendation-service",
-        targetNamespace: "production",
-        action: "scale-deployment",
-        details: "Scaled down replicas from 4 to 2",
-        duration: 0,
-      },
-      {
-        id: uuidv4(),
-        ruleId: rules[1]?.id || "rule-5",
-        ruleName: "Scale on High CPU",
-        incidentId: "inc-5",
-        timestamp: new Date(now - 2 * 60 * 60 * 1000).toISOString(),
-        status: "success",
-        targetResource: "video-transcoder",
-        targetNamespace: "production",
-        action: "scale-deployment",
-        details: "Scaled up replicas from 2 to 4",
-        duration: 38000,
-      },
-      {
-        id: uuidv4(),
-        ruleId: rules[2]?.id || "rule-6",
-        ruleName: "Restart CrashLoop Pods",
-        incidentId: "inc-6",
-        timestamp: new Date(now - 3 * 60 * 60 * 1000).toISOString(),
-        status: "success",
-        targetResource: "auth-service-pod-xyz",
-        targetNamespace: "production",
-        action: "restart-pod",
-        details: "Pod restarted successfully after crash loop",
-        duration: 52000,
-      },
-    ];
-
-    this.events = sampleEvents;
+  private saveRule(rule: HealingRule) {
+    this.rules.set(rule.id, rule);
+    this.ruleStore.save(rule);
   }
 }
 
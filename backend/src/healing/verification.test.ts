@@ -0,0 +1,164 @@
+import { healingVerifier } from "./verification.js";
+import { kubernetesService } from "../services/kubernetes.service.js";
+import { collectPodMetrics } from "../metrics/pod.metrics.js";
+import type { Incident } from "../incidents/types.js";
+import type { Pod } from "../types/index.js";
+import type { HealingResult } from "./actions.js";
+
+jest.mock("../services/kubernetes.service.js", () => ({
+  kubernetesService: {
+    getWorkloadPods: jest.fn(),
+    getPod: jest.fn(),
+    getPodStatus: jest.fn(),
+    scaleDeployment: jest.fn(),
+    patchDeploymentResources: jest.fn(),
+  },
+}));
+jest.mock("../metrics/pod.metrics.js", () => ({ collectPodMetrics: jest.fn() }));
+
+const k8s = kubernetesService as jest.Mocked<typeof kubernetesService>;
+
+function incident(overrides: Partial<Incident> = {}): Incident {
+  return {
+    id: "incident-1",
+    title: "CRASH LOOP: api",
+    description: "",
+    severity: "medium",
+    category: "crash-loop",
+    status: "healing",
+    resource: "api-7d9f8b6c5d-x2k4p",
+    resourceType: "pod",
+    namespace: "shop",
+    detectedAt: new Date().toISOString(),
+    autoHealable: true,
+    autoHealingAttempted: true,
+    escalated: false,
+    metrics: {},
+    relatedAlerts: [],
+    suggestedAction: "",
+    productionBehavior: "",
+    ...overrides,
+  };
+}
+
+function pod(restarts: number): Pod {
+  return { name: "api-7d9f8b6c5d-x2k4p", namespace: "shop", phase: "Running", restarts } as Pod;
+}
+
+function podStatus(restartCount: number, stateReason?: string) {
+  return {
+    phase: "Running",
+    containerStatuses: [{ name: "app", restartCount, stateReason }],
+  } as unknown as Awaited<ReturnType<typeof kubernetesService.getPodStatus>>;
+}
+
+const restart: HealingResult = {
+  success: true,
+  action: "restart-pod",
+  message: "Pod deleted",
+  duration: 0,
+  details: { workload: { kind: "Deployment", name: "api", namespace: "shop" } },
+};
+
+// A zero-length window runs exactly one check
+const params = { verificationWindowSeconds: 0 };
+
+describe("healingVerifier.verify", () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    (collectPodMetrics as jest.Mock).mockResolvedValue([]);
+  });
+
+  it("passes when the workload's pods stop restarting", async () => {
+    k8s.getWorkloadPods.mockResolvedValue([pod(3)]);
+    k8s.getPodStatus.mockResolvedValue(podStatus(3));
+
+    const result = await healingVerifier.verify(incident(), restart, params);
+
+    expect(result.healthy).toBe(true);
+    expect(result.checks).toBe(1);
+    expect(k8s.getWorkloadPods).toHaveBeenCalledWith(restart.details!.workload);
+  });
+
+  it("fails when a pod restarted again after the action", async () => {
+    k8s.getWorkloadPods.mockResolvedValueOnce([pod(3)]).mockResolvedValue([pod(4)]);
+    k8s.getPodStatus.mockResolvedValue(podStatus(4));
+
+    const result = await healingVerifier.verify(incident(), restart, params);
+
+    expect(result.healthy).toBe(false);
+    expect(result.message).toContain("restarted again");
+  });
+
+  it("fails while a container is still in CrashLoopBackOff", async () => {
+    k8s.getWorkloadPods.mockResolvedValue([pod(3)]);
+    k8s.getPodStatus.mockResolvedValue(podStatus(3, "CrashLoopBackOff"));
+
+    const result = await healingVerifier.verify(incident(), restart, params);
+
+    expect(result).toMatchObject({ healthy: false, message: expect.stringContaining("CrashLoopBackOff") });
+  });
+
+  it("checks the incident's workload when the action names none", async () => {
+    const workload = { kind: "StatefulSet" as const, name: "db", namespace: "shop" };
+    k8s.getWorkloadPods.mockResolvedValue([pod(0)]);
+    k8s.getPodStatus.mockResolvedValue(podStatus(0));
+
+    await healingVerifier.verify(incident({ workload }), { ...restart, details: {} }, params);
+
+    expect(k8s.getWorkloadPods).toHaveBeenCalledWith(workload);
+  });
+});
+
+describe("healingVerifier.rollback", () => {
+  beforeEach(() => jest.resetAllMocks());
+
+  it("restores the replica count of a scaled deployment", async () => {
+    const result = await healingVerifier.rollback(incident(), {
+      success: true,
+      action: "scale-deployment",
+      message: "",
+      duration: 0,
+      details: { deployment: "api", fromReplicas: 2, toReplicas: 3 },
+    });
+
+    expect(result.rolledBack).toBe(true);
+    expect(k8s.scaleDeployment).toHaveBeenCalledWith("shop", "api", 2);
+  });
+
+  it("restores patched memory limits", async () => {
+    const result = await healingVerifier.rollback(incident(), {
+      success: true,
+      action: "patch-memory",
+      message: "",
+      duration: 0,
+      details: { deployment: "api", changes: [{ container: "app", from: "256Mi", to: "384Mi" }] },
+    });
+
+    expect(result.rolledBack).toBe(true);
+    expect(k8s.patchDeploymentResources).toHaveBeenCalledWith("shop", "api", [
+      { name: "app", resources: { limits: { memory: "256Mi" } } },
+    ]);
+  });
+
+  it("has nothing to undo after a pod restart", async () => {
+    expect(await healingVerifier.rollback(incident(), restart)).toEqual({
+      rolledBack: false,
+      message: "Nothing to roll back",
+    });
+  });
+
+  it("reports a failed rollback instead of throwing", async () => {
+    k8s.scaleDeployment.mockRejectedValue(new Error("forbidden"));
+
+    const result = await healingVerifier.rollback(incident(), {
+      success: true,
+      action: "scale-deployment",
+      message: "",
+      duration: 0,
+      details: { deployment: "api", fromReplicas: 2 },
+    });
+
+    expect(result).toEqual({ rolledBack: false, message: "Rollback failed: forbidden" });
+  });
+});
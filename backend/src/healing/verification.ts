@@ -0,0 +1,221 @@
+import { createChildLogger } from "../utils/logger.js";
+import { collectPodMetrics, type PodMetrics } from "../metrics/pod.metrics.js";
+import { kubernetesService } from "../services/kubernetes.service.js";
+import { IMAGE_PULL_REASONS } from "../incidents/classifier.js";
+import type { Incident } from "../incidents/types.js";
+import type { Pod, WorkloadReference } from "../types/index.js";
+import type { HealingResult } from "./actions.js";
+
+const logger = createChildLogger("healing-verification");
+
+export interface VerificationResult {
+  healthy: boolean;
+  checks: number;
+  message: string;
+}
+
+export interface RollbackResult {
+  rolledBack: boolean;
+  message: string;
+}
+
+interface ResourceChange {
+  container: string;
+  from: string;
+  to: string;
+}
+
+class HealingVerifier {
+  private readonly DEFAULT_WINDOW_SECONDS = 60;
+  private readonly DEFAULT_INTERVAL_SECONDS = 15;
+
+  /**
+   * Re-checks the healed workload until the verification window closes. The
+   * attempt counts as healthy only if the symptom is gone on the final check,
+   * so a problem that recurs late in the window (e.g. a second OOMKill) fails.
+   */
+  async verify(
+    incident: Incident,
+    result: HealingResult,
+    params: Record<string, unknown>
+  ): Promise<VerificationResult> {
+    const windowMs = ((params.verificationWindowSeconds as number) ?? this.DEFAULT_WINDOW_SECONDS) * 1000;
+    const intervalMs = ((params.verificationIntervalSeconds as number) ?? this.DEFAULT_INTERVAL_SECONDS) * 1000;
+    const deadline = Date.now() + windowMs;
+
+    const baseline = await this.captureRestartCounts(incident, result);
+    let symptom: string | null = null;
+    let checks = 0;
+
+    do {
+      await this.sleep(Math.max(0, Math.min(intervalMs, deadline - Date.now())));
+      try {
+        symptom = await this.findSymptom(incident, result, baseline);
+      } catch (error) {
+        symptom = `Verification check failed: ${error instanceof Error ? error.message : "Unknown error"}`;
+      }
+      checks++;
+      logger.debug({ incidentId: incident.id, checks, symptom }, "Verification check");
+    } while (Date.now() < deadline);
+
+    if (symptom) {
+      return { healthy: false, checks, message: symptom };
+    }
+    return {
+      healthy: true,
+      checks,
+      message: `Symptom cleared over ${Math.round(windowMs / 1000)}s verification window`,
+    };
+  }
+
+  /**
+   * Reverts the changes an action made to the workload spec. Pod restarts and
+   * image pull retries have nothing to undo.
+   */
+  async rollback(incident: Incident, result: HealingResult): Promise<RollbackResult> {
+    const details = result.details || {};
+    const deployment = details.deployment as string | undefined;
+    if (!deployment) {
+      return { rolledBack: false, message: "Nothing to roll back" };
+    }
+
+    try {
+      switch (result.action) {
+        case "scale-deployment": {
+          const fromReplicas = details.fromReplicas as number;
+          await kubernetesService.scaleDeployment(incident.namespace, deployment, fromReplicas);
+          return { rolledBack: true, message: `Replicas of ${deployment} restored to ${fromReplicas}` };
+        }
+
+        case "patch-memory":
+        case "patch-cpu": {
+          const resource = result.action === "patch-memory" ? "memory" : "cpu";
+          const changes = (details.changes as ResourceChange[]) || [];
+          await kubernetesService.patchDeploymentResources(
+            incident.namespace,
+            deployment,
+            changes.map((c) => ({ name: c.container, resources: { limits: { [resource]: c.from } } }))
+          );
+          return {
+            rolledBack: true,
+            message: `${resource === "memory" ? "Memory" : "CPU"} limits of ${deployment} restored (${changes.map((c) => `${c.container}: ${c.from}`).join(", ")})`,
+          };
+        }
+
+        default:
+          return { rolledBack: false, message: "Nothing to roll back" };
+      }
+    } catch (error) {
+      logger.error({ error, incidentId: incident.id, action: result.action }, "Rollback failed");
+      return {
+        rolledBack: false,
+        message: `Rollback failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      };
+    }
+  }
+
+  private async findSymptom(
+    incident: Incident,
+    result: HealingResult,
+    baseline: Map<string, number>
+  ): Promise<string | null> {
+    const pods = await this.getTargetPods(incident, result);
+    if (pods.length === 0) {
+      return `No pods found for ${incident.resource} after ${result.action}`;
+    }
+
+    const metrics = new Map<string, PodMetrics>(
+      (await collectPodMetrics(incident.namespace)).map((m) => [m.podName, m])
+    );
+
+    for (const pod of pods) {
+      const status = await kubernetesService.getPodStatus(pod.namespace, pod.name);
+      const podMetrics = metrics.get(pod.name);
+      const restartCount = status
+        ? status.containerStatuses.reduce((sum, c) => sum + c.restartCount, 0)
+        : pod.restarts;
+      const restartedSinceAction = restartCount > (baseline.get(pod.name) ?? 0);
+
+      if ((status?.phase || pod.phase) === "Failed") {
+        return `Pod ${pod.name} is in Failed state`;
+      }
+
+      const crashLooping = status?.containerStatuses.find((c) => c.stateReason === "CrashLoopBackOff");
+      if (crashLooping) {
+        return `Container ${crashLooping.name} in ${pod.name} is still in CrashLoopBackOff`;
+      }
+
+      switch (incident.category) {
+        case "oom-killed":
+        case "high-memory": {
+          const oomKilled = status?.containerStatuses.some((c) => c.lastTerminationReason === "OOMKilled");
+          if ((oomKilled || podMetrics?.oomKilled) && restartedSinceAction) {
+            return `Pod ${pod.name} was OOMKilled again`;
+          }
+          break;
+        }
+
+        case "crash-loop":
+        case "unknown-crash":
+          if (restartedSinceAction) {
+            return `Pod ${pod.name} restarted again (${restartCount} restarts)`;
+          }
+          break;
+
+        case "high-cpu":
+          if (podMetrics && podMetrics.cpuLimitCores > 0 &&
+              podMetrics.cpuUsageCores / podMetrics.cpuLimitCores > 0.8) {
+            return `Pod ${pod.name} CPU still at ${Math.round((podMetrics.cpuUsageCores / podMetrics.cpuLimitCores) * 100)}% of limit`;
+          }
+          break;
+
+        case "pod-throttling":
+          if (podMetrics?.throttled) {
+            return `Pod ${pod.name} is still being CPU throttled`;
+          }
+          break;
+
+        case "image-pull-delay": {
+          const pulling = status?.containerStatuses.find((c) => IMAGE_PULL_REASONS.includes(c.stateReason || ""));
+          if (pulling) {
+            return `Container ${pulling.name} in ${pod.name} is still in ${pulling.stateReason}`;
+          }
+          break;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private async captureRestartCounts(incident: Incident, result: HealingResult): Promise<Map<string, number>> {
+    try {
+      const pods = await this.getTargetPods(incident, result);
+      return new Map(pods.map((pod) => [pod.name, pod.restarts]));
+    } catch (error) {
+      logger.warn({ error, incidentId: incident.id }, "Failed to capture restart baseline");
+      return new Map();
+    }
+  }
+
+  private async getTargetPods(incident: Incident, result: HealingResult): Promise<Pod[]> {
+    const details = result.details || {};
+    const workload = (details.workload as WorkloadReference | undefined) ||
+      (details.deployment
+        ? { kind: "Deployment" as const, name: details.deployment as string, namespace: incident.namespace }
+        : incident.workload);
+
+    if (workload) {
+      return kubernetesService.getWorkloadPods(workload);
+    }
+
+    const pod = await kubernetesService.getPod(incident.namespace, incident.resource);
+    return pod ? [pod] : [];
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+export const healingVerifier = new HealingVerifier();
@@ -1,16 +1,32 @@
-import { createChildLogger } from "../utils/logger.js";
-import type { 
-  Incident, 
-  IncidentSeverity, 
-  IncidentCategory,
-  IncidentScenario,
-  AUTO_HEALABLE_SCENARIOS,
-  ESCALATED_SCENARIOS 
-} from "./types.js";
+import type { IncidentSeverity, IncidentCategory } from "./types.js";
 import type { PodMetrics } from "../metrics/pod.metrics.js";
 import type { NodeMetrics } from "../metrics/node.metrics.js";
+import { config } from "../config/index.js";
 
-const logger = createChildLogger("incident-classifier");
+// Container waiting reasons, as reported by the kubelet
+export const IMAGE_PULL_REASONS = ["ImagePullBackOff", "ErrImagePull", "InvalidImageName"];
+export const CONFIG_ERROR_REASONS = ["CreateContainerConfigError"];
+
+// Images whose failure takes down everything that depends on them
+const DATABASE_IMAGES = ["postgres", "mysql", "mariadb", "mongo", "redis", "cockroach", "cassandra", "clickhouse"];
+
+function hasContainerReason(pod: PodMetrics, reasons: string[]): boolean {
+  return pod.containerStatuses.some((c) => reasons.includes(c.reason || ""));
+}
+
+function isDatabasePod(pod: PodMetrics): boolean {
+  return pod.containerStatuses.some((c) => {
+    // registry.example.com/library/postgres:16 -> postgres
+    const repository = (c.image || "").split("@")[0].split(":")[0].split("/").pop() || "";
+    return DATABASE_IMAGES.some((db) => repository.startsWith(db));
+  });
+}
+
+function isFailing(pod: PodMetrics): boolean {
+  return pod.phase === "Failed" ||
+    pod.restartCount >= 5 ||
+    hasContainerReason(pod, ["CrashLoopBackOff", "Error"]);
+}
 
 interface ClassificationResult {
   category: IncidentCategory;
@@ -28,6 +44,47 @@ export function classifyPodIncident(pod: PodMetrics): ClassificationResult | nul
     return null;
   }
 
+  // Evicted pods end up Failed, so this has to win over the generic failure below
+  if (pod.statusReason === "Evicted") {
+    return {
+      category: "node-eviction",
+      severity: "medium",
+      autoHealable: true,
+      suggestedAction: "Allow Kubernetes to reschedule",
+      productionBehavior: "Pod evicted by the kubelet, rescheduled to a different node",
+    };
+  }
+
+  if (hasContainerReason(pod, CONFIG_ERROR_REASONS)) {
+    return {
+      category: "configmap-error",
+      severity: "high",
+      autoHealable: false,
+      suggestedAction: "Stop automation, alert ops team",
+      productionBehavior: "Container cannot start: missing ConfigMap, Secret or key",
+    };
+  }
+
+  if (hasContainerReason(pod, IMAGE_PULL_REASONS)) {
+    return {
+      category: "image-pull-delay",
+      severity: "medium",
+      autoHealable: true,
+      suggestedAction: "Retry image pull with backoff",
+      productionBehavior: "Pod stuck waiting on its image",
+    };
+  }
+
+  if (isDatabasePod(pod) && isFailing(pod)) {
+    return {
+      category: "db-failure",
+      severity: "critical",
+      autoHealable: false,
+      suggestedAction: "Freeze healing, alert DBA and on-call",
+      productionBehavior: "Database down, dependent services failing",
+    };
+  }
+
   if (pod.oomKilled) {
     return {
       category: "oom-killed",
@@ -61,7 +118,18 @@ export function classifyPodIncident(pod: PodMetrics): ClassificationResult | nul
     };
   }
 
-  if (pod.restartCount >= 5) {
+  if (pod.throttleRatio >= config.detection.throttleRatio) {
+    return {
+      category: "pod-throttling",
+      severity: "medium",
+      autoHealable: true,
+      suggestedAction: "Increase CPU limit",
+      productionBehavior: "CPU capped by its limit, degraded performance",
+    };
+  }
+
+  const crashLooping = hasContainerReason(pod, ["CrashLoopBackOff"]);
+  if (pod.restartCount >= 5 || crashLooping) {
     return {
       category: "crash-loop",
       severity: "medium",
@@ -84,7 +152,24 @@ export function classifyPodIncident(pod: PodMetrics): ClassificationResult | nul
   return null;
 }
 
+// Restart counts and last termination reasons never reset, so these only
+// describe a live problem while the pod is not running and ready
+const RESTART_HISTORY_CATEGORIES: IncidentCategory[] = ["crash-loop", "oom-killed", "unknown-crash", "db-failure"];
+
+/** Whether a pod's classification reflects a current problem rather than its restart history. */
+export function isOngoing(pod: PodMetrics, category: IncidentCategory): boolean {
+  if (!RESTART_HISTORY_CATEGORIES.includes(category)) return true;
+  const healthy = pod.phase === "Running" &&
+    pod.containerStatuses.length > 0 &&
+    pod.containerStatuses.every((c) => c.state === "running" && c.ready);
+  return !healthy;
+}
+
 function determineSeverity(pod: PodMetrics): "low" | "medium" | "high" | "critical" {
+  if (isDatabasePod(pod) && isFailing(pod)) return "critical";
+  if (hasContainerReason(pod, CONFIG_ERROR_REASONS)) return "high";
+  if (pod.statusReason === "Evicted") return "medium";
+  if (hasContainerReason(pod, IMAGE_PULL_REASONS)) return "medium";
   if (pod.oomKilled) return "medium";
   if (pod.cpuUsageCores > 0 && pod.cpuLimitCores > 0) {
     const cpuPercent = (pod.cpuUsageCores / pod.cpuLimitCores) * 100;
@@ -92,6 +177,8 @@ function determineSeverity(pod: PodMetrics): "low" | "medium" | "high" | "critic
     if (cpuPercent > 80) return "medium";
   }
   if (pod.restartCount >= 10) return "high";
+  if (pod.throttleRatio >= config.detection.throttleRatio) return "medium";
+  if (hasContainerReason(pod, ["CrashLoopBackOff"])) return "medium";
   if (pod.phase === "Failed") return "high";
   return "low";
 }
@@ -175,7 +262,7 @@ export function classifyDeploymentIncident(
     };
   }
 
-  if (errorRate > 10) {
+  if (errorRate > config.detection.errorRatePercent) {
     return {
       category: "buggy-deployment",
       severity: "high",
@@ -0,0 +1,103 @@
+import { correlate, workloadOf } from "./correlation.js";
+import type { Incident } from "./types.js";
+
+const now = Date.parse("2026-01-05T12:00:00Z");
+
+function incident(id: string, overrides: Partial<Incident> = {}): Incident {
+  return {
+    id,
+    title: `CRASH LOOP: ${id}`,
+    description: "",
+    severity: "high",
+    category: "crash-loop",
+    status: "open",
+    resource: `${id}-7d9f8b6c5d-x2k4p`,
+    resourceType: "pod",
+    namespace: "shop",
+    detectedAt: new Date(now - 60 * 1000).toISOString(),
+    autoHealable: true,
+    autoHealingAttempted: false,
+    escalated: false,
+    metrics: {},
+    relatedAlerts: [],
+    suggestedAction: "",
+    productionBehavior: "",
+    ...overrides,
+  };
+}
+
+describe("workloadOf", () => {
+  it("prefers the recorded owner over the pod name", () => {
+    expect(workloadOf(incident("api", { workload: { kind: "StatefulSet", name: "db", namespace: "shop" } }))).toBe("db");
+  });
+
+  it("strips generated suffixes from pod names", () => {
+    expect(workloadOf(incident("x", { resource: "api-7d9f8b6c5d-x2k4p" }))).toBe("api");
+    expect(workloadOf(incident("x", { resource: "agent-x2k4p" }))).toBe("agent");
+    expect(workloadOf(incident("x", { resource: "db-0" }))).toBe("db");
+    expect(workloadOf(incident("x", { resource: "worker-1", resourceType: "node" }))).toBe("worker-1");
+  });
+});
+
+describe("correlate", () => {
+  it("puts a pod incident under the open incident for its node", () => {
+    const node = incident("worker-1", { resource: "worker-1", resourceType: "node", namespace: "" });
+
+    const decision = correlate(incident("api", { node: "worker-1" }), [node], now);
+
+    expect(decision.parent).toEqual({ incident: node, reason: "node" });
+  });
+
+  it("lets a node incident adopt the open top-level pod incidents on it", () => {
+    const onNode = incident("api", { node: "worker-1" });
+    const elsewhere = incident("web", { node: "worker-2" });
+    const child = incident("cart", { node: "worker-1", parentId: "other" });
+
+    const decision = correlate(
+      incident("worker-1", { resource: "worker-1", resourceType: "node", namespace: "" }),
+      [onNode, elsewhere, child],
+      now
+    );
+
+    expect(decision.adopt).toEqual([onNode]);
+  });
+
+  it("groups incidents on the same workload under the first one in the window", () => {
+    const first = incident("api", { resource: "api-7d9f8b6c5d-xxxxx" });
+    const sibling = incident("api-2", { resource: "api-7d9f8b6c5d-bbbbb", parentId: first.id, correlationReason: "workload" });
+    const stale = incident("api-old", { resource: "api-7d9f8b6c5d-ccccc", detectedAt: new Date(now - 60 * 60 * 1000).toISOString() });
+
+    const decision = correlate(incident("api-3", { resource: "api-7d9f8b6c5d-zzzzz" }), [stale, sibling, first], now);
+
+    expect(decision.parent).toEqual({ incident: first, reason: "workload" });
+  });
+
+  it("ignores resolved and simulated incidents", () => {
+    const resolved = incident("api", { status: "resolved" });
+    const simulated = incident("api-sim", { resource: "api-7d9f8b6c5d-bbbbb", simulated: true });
+
+    expect(correlate(incident("api-2", { resource: "api-7d9f8b6c5d-zzzzz" }), [resolved, simulated], now).parent).toBeUndefined();
+    expect(correlate(incident("api-2", { simulated: true }), [incident("api")], now)).toEqual({ adopt: [] });
+  });
+
+  it("raises a multi-service failure when enough unrelated workloads fail together", () => {
+    const api = incident("api");
+    const web = incident("web");
+
+    expect(correlate(incident("cart"), [api, web], now).multiService?.map((i) => i.id)).toEqual(["api", "web", "cart"]);
+    expect(correlate(incident("cart"), [api], now).multiService).toBeUndefined();
+  });
+
+  it("counts several incidents on one workload as one failing service", () => {
+    const api = incident("api", { resource: "api-7d9f8b6c5d-xxxxx" });
+    const otherApi = incident("api-b", { resource: "api-7d9f8b6c5d-bbbbb", category: "high-cpu" });
+
+    expect(correlate(incident("web"), [api, otherApi], now).multiService).toBeUndefined();
+  });
+
+  it("joins an open multi-service failure instead of raising another", () => {
+    const outage = incident("outage", { category: "multi-service-failure", resource: "cluster", resourceType: "deployment" });
+
+    expect(correlate(incident("cart"), [outage], now).parent).toEqual({ incident: outage, reason: "time-window" });
+  });
+});
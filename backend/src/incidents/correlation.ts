@@ -0,0 +1,92 @@
+import { config } from "../config/index.js";
+import { classifyMultiServiceFailure } from "./classifier.js";
+import type { Incident, CorrelationReason } from "./types.js";
+
+// Generated pod name suffixes use this alphabet (no vowels, no 0/1/3)
+const HASH = "[bcdfghjklmnpqrstvwxz2456789]";
+const POD_SUFFIX = new RegExp(`-(?:${HASH}{6,10}-${HASH}{5}|${HASH}{5}|\\d+)$`);
+
+/**
+ * The workload a pod belongs to: the owner recorded on the incident, or for
+ * incidents without one, the pod name without its generated suffix.
+ */
+export function workloadOf(incident: Pick<Incident, "resourceType" | "resource" | "workload">): string {
+  if (incident.workload) return incident.workload.name;
+  return incident.resourceType === "pod" ? incident.resource.replace(POD_SUFFIX, "") : incident.resource;
+}
+
+export interface CorrelationDecision {
+  // Existing incident the new one belongs under
+  parent?: { incident: Incident; reason: CorrelationReason };
+  // Open top-level incidents the new one takes over as its children
+  adopt: Incident[];
+  // Unrelated top-level incidents, including the new one, that together make a multi-service failure
+  multiService?: Incident[];
+}
+
+function isOpen(incident: Incident): boolean {
+  return incident.status !== "resolved";
+}
+
+/** What a top-level incident is about, so several incidents on one workload count once. */
+function subjectOf(incident: Incident): string {
+  if (incident.resourceType === "node") return `node:${incident.resource}`;
+  return `${incident.namespace}/${workloadOf(incident)}`;
+}
+
+/**
+ * Decides where a newly detected incident sits in the incident tree.
+ * - node: a pod incident joins the open incident for the node it runs on, and
+ *   a node incident adopts the open pod incidents on that node
+ * - workload: incidents on the same workload within the window share a parent
+ * - time-window: enough unrelated workloads failing within the window are
+ *   grouped under one multi-service-failure incident
+ */
+export function correlate(incident: Incident, incidents: Incident[], now = Date.now()): CorrelationDecision {
+  const decision: CorrelationDecision = { adopt: [] };
+  if (incident.simulated || incident.category === "multi-service-failure") return decision;
+
+  const windowMs = config.detection.correlationWindowMinutes * 60 * 1000;
+  const open = incidents.filter((i) => i.id !== incident.id && isOpen(i) && !i.simulated);
+  const recent = open.filter((i) => now - new Date(i.detectedAt).getTime() <= windowMs);
+
+  if (incident.node) {
+    const nodeIncident = open.find((i) => i.resourceType === "node" && i.resource === incident.node);
+    if (nodeIncident) {
+      decision.parent = { incident: nodeIncident, reason: "node" };
+      return decision;
+    }
+  }
+
+  if (incident.resourceType === "pod" || incident.resourceType === "deployment") {
+    const subject = subjectOf(incident);
+    // The first incident on the workload is the parent; later ones are its siblings' children
+    const first = recent.find(
+      (i) => (i.resourceType === "pod" || i.resourceType === "deployment") &&
+        subjectOf(i) === subject &&
+        i.correlationReason !== "workload"
+    );
+    if (first) {
+      decision.parent = { incident: first, reason: "workload" };
+      return decision;
+    }
+  }
+
+  if (incident.resourceType === "node") {
+    decision.adopt = open.filter((i) => !i.parentId && i.node === incident.resource);
+  }
+
+  const adopted = new Set(decision.adopt.map((i) => i.id));
+  const roots = recent.filter((i) => !i.parentId && !adopted.has(i.id));
+  const outage = roots.find((i) => i.category === "multi-service-failure");
+  if (outage) {
+    decision.parent = { incident: outage, reason: "time-window" };
+    return decision;
+  }
+
+  const subjects = new Set([...roots, incident].map(subjectOf));
+  if (classifyMultiServiceFailure(subjects.size)) {
+    decision.multiService = [...roots, incident];
+  }
+  return decision;
+}
@@ -0,0 +1,178 @@
+import { incidentDetector } from "./detector.js";
+import { kubernetesService, type WatchEventType } from "../services/kubernetes.service.js";
+import type { Pod } from "../types/index.js";
+
+jest.mock("../services/kubernetes.service.js", () => ({
+  workloadFromOwners: jest.requireActual("../services/kubernetes.service.js").workloadFromOwners,
+  kubernetesService: {
+    onPodChange: jest.fn(() => () => undefined),
+    onNodeChange: jest.fn(() => () => undefined),
+    onWarningEvent: jest.fn(() => () => undefined),
+    startWatches: jest.fn(),
+    stopWatches: jest.fn(async () => undefined),
+    getPods: jest.fn(async () => []),
+    getRecentRollouts: jest.fn(async () => []),
+  },
+}));
+jest.mock("../metrics/index.js", () => ({
+  ...jest.requireActual("../metrics/index.js"),
+  collectNodeMetrics: jest.fn(async () => []),
+  collectPodMetrics: jest.fn(async () => []),
+  collectPodRequestRates: jest.fn(async () => []),
+}));
+
+const RESYNC_MS = 60 * 1000;
+
+function emitPod(type: WatchEventType, pod: Pod) {
+  const [[listener]] = (kubernetesService.onPodChange as jest.Mock).mock.calls;
+  listener(type, pod);
+}
+
+/** A pod stuck on a missing ConfigMap, owned by the Deployment's ReplicaSet unless `bare`. */
+function failingPod(name: string, namespace: string, bare = false): Pod {
+  return {
+    id: name,
+    name,
+    namespace,
+    status: "pending",
+    phase: "Pending",
+    nodeName: "worker-1",
+    containers: [{
+      name: "app",
+      image: "shop/api:1.0.0",
+      status: "waiting",
+      reason: "CreateContainerConfigError",
+      ready: false,
+      restartCount: 0,
+      cpuUsage: 0,
+      memoryUsage: 0,
+      ports: [],
+    }],
+    restarts: 0,
+    cpuUsage: 0,
+    memoryUsage: 0,
+    createdAt: new Date().toISOString(),
+    labels: bare ? {} : { "pod-template-hash": "7d9f8b6c5d" },
+    annotations: {},
+    ownerReferences: bare ? [] : [{ kind: "ReplicaSet", name: "api-7d9f8b6c5d", uid: "rs" }],
+    ip: "",
+    volumes: [],
+  };
+}
+
+function incidentsIn(namespace: string) {
+  return incidentDetector.getIncidents().filter((i) => i.namespace === namespace);
+}
+
+describe("incidentDetector", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: Date.parse("2026-01-05T12:00:00Z") });
+    incidentDetector.startDetection(RESYNC_MS);
+  });
+
+  afterEach(() => {
+    incidentDetector.stopDetection();
+    incidentDetector.clearHistory();
+    jest.useRealTimers();
+  });
+
+  describe("workload keying", () => {
+    it("keeps one incident per workload as its pods are replaced", () => {
+      emitPod("update", failingPod("api-7d9f8b6c5d-x2k4p", "shop"));
+      emitPod("add", failingPod("api-7d9f8b6c5d-b6z8q", "shop"));
+
+      const [incident, ...others] = incidentsIn("shop");
+      expect(others).toHaveLength(0);
+      expect(incident.title).toBe("CONFIGMAP ERROR: api");
+      expect(incident.workload).toEqual({ kind: "Deployment", name: "api", namespace: "shop" });
+      expect(incident.pods).toEqual(["api-7d9f8b6c5d-x2k4p", "api-7d9f8b6c5d-b6z8q"]);
+      expect(incident.resource).toBe("api-7d9f8b6c5d-b6z8q");
+    });
+
+    it("keeps a healing incident on the pod that was acted on", () => {
+      emitPod("update", failingPod("api-7d9f8b6c5d-x2k4p", "shop"));
+      const [incident] = incidentsIn("shop");
+      incidentDetector.markAsHealing(incident.id);
+
+      emitPod("add", failingPod("api-7d9f8b6c5d-b6z8q", "shop"));
+
+      expect(incident.resource).toBe("api-7d9f8b6c5d-x2k4p");
+      expect(incident.pods).toEqual(["api-7d9f8b6c5d-x2k4p", "api-7d9f8b6c5d-b6z8q"]);
+    });
+
+    it("keys pods without an owner on the pod itself", () => {
+      emitPod("update", failingPod("debug-x2k4p", "tools", true));
+      emitPod("update", failingPod("debug-b6z8q", "tools", true));
+
+      expect(incidentsIn("tools").map((i) => i.resource).sort()).toEqual(["debug-b6z8q", "debug-x2k4p"]);
+      expect(incidentsIn("tools").every((i) => !i.workload)).toBe(true);
+    });
+
+    it("keeps the same workload name in another namespace separate", () => {
+      emitPod("update", failingPod("api-7d9f8b6c5d-x2k4p", "shop"));
+      emitPod("update", failingPod("api-7d9f8b6c5d-x2k4p", "billing"));
+
+      expect(incidentsIn("shop")).toHaveLength(1);
+      expect(incidentsIn("billing")).toHaveLength(1);
+    });
+  });
+
+  describe("lifecycle", () => {
+    const minutes = (n: number) => n * 60 * 1000;
+
+    it("auto-resolves an incident once its condition has not been seen for a while", async () => {
+      emitPod("update", failingPod("api-7d9f8b6c5d-x2k4p", "shop"));
+      await jest.advanceTimersByTimeAsync(minutes(5));
+      emitPod("update", failingPod("api-7d9f8b6c5d-x2k4p", "shop"));
+
+      await jest.advanceTimersByTimeAsync(minutes(9));
+      expect(incidentsIn("shop")[0].status).toBe("open");
+
+      await jest.advanceTimersByTimeAsync(minutes(1));
+      expect(incidentsIn("shop")[0]).toMatchObject({ status: "resolved", autoResolved: true });
+    });
+
+    it("reopens a recently resolved incident instead of raising another", () => {
+      emitPod("update", failingPod("api-7d9f8b6c5d-x2k4p", "shop"));
+      const [incident] = incidentsIn("shop");
+      incidentDetector.resolveIncident(incident.id);
+
+      emitPod("update", failingPod("api-7d9f8b6c5d-b6z8q", "shop"));
+
+      expect(incidentsIn("shop")).toHaveLength(1);
+      expect(incident).toMatchObject({ status: "open", reopenCount: 1, autoResolved: undefined });
+      expect(incident.pods).toContain("api-7d9f8b6c5d-b6z8q");
+    });
+
+    it("raises a new incident once the reopen window has passed", async () => {
+      emitPod("update", failingPod("api-7d9f8b6c5d-x2k4p", "shop"));
+      incidentDetector.resolveIncident(incidentsIn("shop")[0].id);
+
+      await jest.advanceTimersByTimeAsync(minutes(31));
+      emitPod("update", failingPod("api-7d9f8b6c5d-x2k4p", "shop"));
+
+      expect(incidentsIn("shop").map((i) => i.status).sort()).toEqual(["open", "resolved"]);
+    });
+
+    it("flags a flapping incident, stops announcing it and holds it open for the reopen window", async () => {
+      const announced = jest.fn();
+      const unsubscribe = incidentDetector.onDetected(announced);
+      emitPod("update", failingPod("api-7d9f8b6c5d-x2k4p", "shop"));
+      const [incident] = incidentsIn("shop");
+
+      for (let i = 0; i < 3; i++) {
+        incidentDetector.resolveIncident(incident.id);
+        emitPod("update", failingPod("api-7d9f8b6c5d-x2k4p", "shop"));
+      }
+      unsubscribe();
+
+      expect(incident).toMatchObject({ status: "open", reopenCount: 3, flapping: true });
+      expect(announced).toHaveBeenCalledTimes(3);
+
+      await jest.advanceTimersByTimeAsync(minutes(15));
+      expect(incident.status).toBe("open");
+      await jest.advanceTimersByTimeAsync(minutes(15));
+      expect(incident.status).toBe("resolved");
+    });
+  });
+});
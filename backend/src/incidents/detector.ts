@@ -1,25 +1,85 @@
 import { v4 as uuidv4 } from "uuid";
 import { createChildLogger } from "../utils/logger.js";
-import { collectNodeMetrics, collectPodMetrics } from "../metrics/index.js";
+import {
+  collectNodeMetrics,
+  collectPodMetrics,
+  collectPodRequestRates,
+  podMetricsFromPod,
+  withPodStatus,
+  nodeMetricsFromNode,
+  type PodMetrics,
+  type NodeMetrics,
+} from "../metrics/index.js";
 import { 
   classifyPodIncident, 
   classifyNodeIncident, 
   classifyMultiServiceFailure,
-  isAutoHealable,
-  shouldEscalate 
+  classifyDeploymentIncident,
+  isOngoing,
 } from "./classifier.js";
 import { enrichIncidentWithSLOBurn, type SLOBurnSignals } from "./slo-burn-classifier.js";
-import type { Incident, IncidentStatus, IncidentCategory, IncidentSeverity, SLOBurnDriver } from "./types.js";
-import { kubernetesService } from "../services/kubernetes.service.js";
+import { correlate } from "./correlation.js";
+import type {
+  Incident,
+  IncidentStatus,
+  IncidentCategory,
+  IncidentSeverity,
+  SLOBurnDriver,
+  HealingVerification,
+  CorrelationReason,
+} from "./types.js";
+import {
+  kubernetesService,
+  workloadFromOwners,
+  type WatchEventType,
+  type ClusterEvent,
+} from "../services/kubernetes.service.js";
+import type { Node, Pod, WorkloadReference } from "../types/index.js";
+import { persistence } from "../persistence/index.js";
+import { config } from "../config/index.js";
 
 const logger = createChildLogger("incident-detector");
 
 class IncidentDetector {
   private incidents: Map<string, Incident> = new Map();
   private detectionInterval: NodeJS.Timeout | null = null;
+  private watchUnsubscribers: Array<() => void> = [];
+  private eventChecks: Map<string, number> = new Map();
   private cooldowns: Map<string, number> = new Map();
+  private detectedListeners: Array<(incident: Incident) => void> = [];
+  private resolvedListeners: Array<(incident: Incident) => void> = [];
   private readonly COOLDOWN_MS = 300000;
+  // A burst of warning events for one pod triggers a single re-read
+  private readonly EVENT_RECHECK_MS = 10000;
   private readonly SYSTEM_NAMESPACES = ["kube-system", "kube-public", "kube-node-lease", "monitoring"];
+  private store = persistence.collection<Incident>("incidents", {
+    idOf: (incident) => incident.id,
+    timestampOf: (incident) => incident.detectedAt,
+    retention: {
+      maxRecords: config.persistence.retention.maxIncidents,
+      maxAgeDays: config.persistence.retention.maxAgeDays,
+    },
+  });
+
+  async restore(): Promise<void> {
+    const incidents = await this.store.load();
+    this.incidents = new Map(incidents.map((incident) => [incident.id, incident]));
+    logger.info({ count: incidents.length }, "Incident history restored");
+  }
+
+  onDetected(listener: (incident: Incident) => void): () => void {
+    this.detectedListeners.push(listener);
+    return () => {
+      this.detectedListeners = this.detectedListeners.filter((l) => l !== listener);
+    };
+  }
+
+  onResolved(listener: (incident: Incident) => void): () => void {
+    this.resolvedListeners.push(listener);
+    return () => {
+      this.resolvedListeners = this.resolvedListeners.filter((l) => l !== listener);
+    };
+  }
 
   getIncidents(status?: IncidentStatus): Incident[] {
     const incidents = Array.from(this.incidents.values());
@@ -41,7 +101,7 @@ class IncidentDetector {
 
     incident.status = "acknowledged";
     incident.acknowledgedAt = new Date().toISOString();
-    this.incidents.set(id, incident);
+    this.persist(incident);
     logger.info({ incidentId: id }, "Incident acknowledged");
     return incident;
   }
@@ -50,11 +110,17 @@ class IncidentDetector {
     const incident = this.incidents.get(id);
     if (!incident) return null;
 
+    this.resolve(incident, false);
+    return incident;
+  }
+
+  private resolve(incident: Incident, auto: boolean) {
     incident.status = "resolved";
     incident.resolvedAt = new Date().toISOString();
-    this.incidents.set(id, incident);
-    logger.info({ incidentId: id }, "Incident resolved");
-    return incident;
+    incident.autoResolved = auto || undefined;
+    this.persist(incident);
+    this.notifyListeners(this.resolvedListeners, incident, "Resolved listener failed");
+    logger.info({ incidentId: incident.id, auto }, "Incident resolved");
   }
 
   markAsHealing(id: string): Incident | null {
@@ -64,7 +130,7 @@ class IncidentDetector {
     incident.status = "healing";
     incident.autoHealingAttempted = true;
     incident.autoHealingResult = "pending";
-    this.incidents.set(id, incident);
+    this.persist(incident);
     return incident;
   }
 
@@ -81,7 +147,48 @@ class IncidentDetector {
       incident.escalated = true;
       incident.escalatedAt = new Date().toISOString();
     }
-    this.incidents.set(id, incident);
+    this.persist(incident);
+    if (success) {
+      this.notifyListeners(this.resolvedListeners, incident, "Resolved listener failed");
+    }
+    return incident;
+  }
+
+  recordHealingAttempt(
+    id: string,
+    attempts: number,
+    maxAttempts: number,
+    nextAttemptAt?: string
+  ): Incident | null {
+    const incident = this.incidents.get(id);
+    if (!incident) return null;
+
+    incident.healingAttempts = attempts;
+    incident.maxHealingAttempts = maxAttempts;
+    incident.nextHealingAttemptAt = nextAttemptAt;
+    this.persist(incident);
+    return incident;
+  }
+
+  /** Returns a failed incident to the open queue so the engine retries it after backoff. */
+  scheduleHealingRetry(id: string, nextAttemptAt: string): Incident | null {
+    const incident = this.incidents.get(id);
+    if (!incident) return null;
+
+    incident.status = "open";
+    incident.autoHealingResult = "failed";
+    incident.nextHealingAttemptAt = nextAttemptAt;
+    this.persist(incident);
+    logger.info({ incidentId: id, nextAttemptAt }, "Healing retry scheduled");
+    return incident;
+  }
+
+  setHealingVerification(id: string, verification: HealingVerification): Incident | null {
+    const incident = this.incidents.get(id);
+    if (!incident) return null;
+
+    incident.healingVerification = verification;
+    this.persist(incident);
     return incident;
   }
 
@@ -92,25 +199,44 @@ class IncidentDetector {
     incident.status = "escalated";
     incident.escalated = true;
     incident.escalatedAt = new Date().toISOString();
-    this.incidents.set(id, incident);
+    this.persist(incident);
     logger.warn({ incidentId: id, severity: incident.severity }, "Incident escalated");
     return incident;
   }
 
-  startDetection(intervalMs = 30000) {
-    if (this.detectionInterval) {
-      clearInterval(this.detectionInterval);
-    }
+  /**
+   * Reacts to Pod, Node and Warning Event watches as changes happen, with the
+   * periodic full scan kept as a resync that also picks up Prometheus-only
+   * signals such as CPU usage.
+   */
+  startDetection(resyncIntervalMs = config.detection.resyncIntervalMs) {
+    this.stopDetection();
 
     this.detectionInterval = setInterval(() => {
       this.runDetection();
-    }, intervalMs);
+    }, resyncIntervalMs);
+
+    if (config.detection.watch) {
+      this.watchUnsubscribers = [
+        kubernetesService.onPodChange((type, pod) => this.handlePodChange(type, pod)),
+        kubernetesService.onNodeChange((type, node) => this.handleNodeChange(type, node)),
+        kubernetesService.onWarningEvent((event) => this.handleWarningEvent(event)),
+      ];
+      kubernetesService.startWatches();
+    }
 
-    logger.info({ intervalMs }, "Incident detection started");
+    logger.info({ resyncIntervalMs, watch: config.detection.watch }, "Incident detection started");
     this.runDetection();
   }
 
   stopDetection() {
+    if (this.watchUnsubscribers.length > 0) {
+      this.watchUnsubscribers.forEach((unsubscribe) => unsubscribe());
+      this.watchUnsubscribers = [];
+      kubernetesService.stopWatches().catch((error) => {
+        logger.error({ error }, "Failed to stop Kubernetes watches");
+      });
+    }
     if (this.detectionInterval) {
       clearInterval(this.detectionInterval);
       this.detectionInterval = null;
@@ -118,109 +244,85 @@ class IncidentDetector {
     }
   }
 
+  private handlePodChange(type: WatchEventType, pod: Pod) {
+    if (type === "delete") return;
+    if (this.SYSTEM_NAMESPACES.includes(pod.namespace)) return;
+    if (pod.labels?.simulated === "true") return;
+    this.evaluatePod(podMetricsFromPod(pod), false, workloadFromOwners(pod));
+  }
+
+  private handleNodeChange(type: WatchEventType, node: Node) {
+    if (type === "delete") return;
+    this.evaluateNode(nodeMetricsFromNode(node));
+  }
+
+  /** Warning events (BackOff, OOMKilling, Evicted...) often precede the pod status update, so re-read the pod. */
+  private async handleWarningEvent(event: ClusterEvent) {
+    const { kind, name, namespace } = event.involvedObject;
+    if (kind !== "Pod" || this.SYSTEM_NAMESPACES.includes(namespace)) return;
+
+    const key = `${namespace}/${name}`;
+    const lastChecked = this.eventChecks.get(key);
+    if (lastChecked && Date.now() - lastChecked < this.EVENT_RECHECK_MS) return;
+    this.eventChecks.set(key, Date.now());
+
+    try {
+      const pod = await kubernetesService.getPod(namespace, name);
+      if (pod) this.handlePodChange("update", pod);
+    } catch (error) {
+      logger.error({ error, pod: key, reason: event.reason }, "Failed to re-check pod after warning event");
+    }
+  }
+
   private async runDetection() {
+    for (const [key, checkedAt] of this.eventChecks) {
+      if (Date.now() - checkedAt >= this.EVENT_RECHECK_MS) this.eventChecks.delete(key);
+    }
+
     try {
       const [nodeMetrics, podMetrics] = await Promise.all([
         collectNodeMetrics(),
         collectPodMetrics(),
       ]);
 
-      // Get actual pods to check for simulated labels
+      // Get actual pods to check for simulated labels and merge in their status
       const actualPods = await kubernetesService.getPods();
+      const podsByKey = new Map(actualPods.map((p) => [`${p.namespace}/${p.name}`, p]));
       const simulatedPodNames = new Set(
         actualPods
           .filter((p) => p.labels?.simulated === "true")
           .map((p) => `${p.namespace}/${p.name}`)
       );
 
-      let failedServices = 0;
+      // Pods the metrics pipeline missed (e.g. stuck pulling images) are still evaluated on their status
+      const scrapedKeys = new Set(podMetrics.map((p) => `${p.namespace}/${p.podName}`));
+      const allPodMetrics = [
+        ...podMetrics.map((metrics) => {
+          const pod = podsByKey.get(`${metrics.namespace}/${metrics.podName}`);
+          return pod ? withPodStatus(metrics, pod) : metrics;
+        }),
+        ...actualPods
+          .filter((p) => !scrapedKeys.has(`${p.namespace}/${p.name}`))
+          .map(podMetricsFromPod),
+      ];
 
       for (const node of nodeMetrics) {
-        const cooldownKey = `node:${node.nodeName}`;
-        if (this.isInCooldown(cooldownKey)) continue;
-
-        const classification = classifyNodeIncident(node);
-        if (classification) {
-          this.createIncident({
-            title: `${classification.category.replace(/-/g, " ").toUpperCase()}: ${node.nodeName}`,
-            description: classification.productionBehavior,
-            severity: classification.severity,
-            category: classification.category,
-            resource: node.nodeName,
-            resourceType: "node",
-            namespace: "cluster",
-            autoHealable: classification.autoHealable,
-            suggestedAction: classification.suggestedAction,
-            productionBehavior: classification.productionBehavior,
-            metrics: {
-              cpuUsage: node.cpuUsagePercent,
-              memoryUsage: node.memoryUsagePercent,
-              diskUsage: node.diskUsagePercent,
-            },
-          });
-          this.setCooldown(cooldownKey);
-        }
+        this.evaluateNode(node);
       }
 
-      for (const pod of podMetrics) {
+      for (const pod of allPodMetrics) {
         // Skip system namespaces to prevent incidents for critical pods
         if (this.SYSTEM_NAMESPACES.includes(pod.namespace)) continue;
-        
-        const podKey = `${pod.namespace}/${pod.podName}`;
-        
+
         // Skip simulated pods to avoid duplicate incidents
-        if (simulatedPodNames.has(podKey)) continue;
-        
-        // Check if there's already an open incident for this pod
-        const existingIncident = Array.from(this.incidents.values()).find(
-          (i) => i.resource === pod.podName && 
-               i.namespace === pod.namespace && 
-               i.resourceType === "pod" &&
-               i.status !== "resolved" &&
-               i.status !== "acknowledged"
-        );
-        
-        if (existingIncident) {
-          // Update metrics on existing incident
-          existingIncident.metrics = {
-            cpuUsage: pod.cpuUsageCores,
-            memoryUsage: pod.memoryUsageBytes,
-            restartCount: pod.restartCount,
-          };
-          this.incidents.set(existingIncident.id, existingIncident);
-          continue;
-        }
-        
-        const cooldownKey = `pod:${podKey}`;
-        if (this.isInCooldown(cooldownKey)) continue;
-
-        const classification = classifyPodIncident(pod);
-        if (classification) {
-          if (pod.phase === "Failed") {
-            failedServices++;
-          }
+        if (simulatedPodNames.has(`${pod.namespace}/${pod.podName}`)) continue;
 
-          this.createIncident({
-            title: `${classification.category.replace(/-/g, " ").toUpperCase()}: ${pod.podName}`,
-            description: classification.productionBehavior,
-            severity: classification.severity,
-            category: classification.category,
-            resource: pod.podName,
-            resourceType: "pod",
-            namespace: pod.namespace,
-            autoHealable: classification.autoHealable,
-            suggestedAction: classification.suggestedAction,
-            productionBehavior: classification.productionBehavior,
-            metrics: {
-              cpuUsage: pod.cpuUsageCores,
-              memoryUsage: pod.memoryUsageBytes,
-              restartCount: pod.restartCount,
-            },
-          });
-          this.setCooldown(cooldownKey);
-        }
+        const actualPod = podsByKey.get(`${pod.namespace}/${pod.podName}`);
+        this.evaluatePod(pod, true, actualPod ? workloadFromOwners(actualPod) : null);
       }
 
+      await this.detectBuggyRollouts(actualPods);
+
       // Enhanced Monitoring: Check for failed Critical Services (specifically streaming-service)
       // We check this explicitly because they might be marked as 'simulated' and skipped above,
       // or they might be in a 'Failed' state which doesn't generate metrics.
@@ -230,15 +332,13 @@ class IncidentDetector {
         if (pod.phase === "Failed" || pod.status === "failed") {
           const podKey = `${pod.namespace}/${pod.name}`;
           
-          // Check if incident already exists
-          const existingIncident = Array.from(this.incidents.values()).find(
-            (i) => i.resource === pod.name && 
-                 i.namespace === pod.namespace && 
-                 i.status !== "resolved" &&
-                 i.status !== "acknowledged"
-          );
-
-          if (existingIncident) continue;
+          const matches = (i: Incident) => i.resource === pod.name && i.namespace === pod.namespace;
+          const existingIncident = this.findActive(matches);
+          if (existingIncident) {
+            this.markSeen(existingIncident);
+            continue;
+          }
+          if (this.reopenRecent(matches, "crash-loop")) continue;
           if (this.isInCooldown(`pod:${podKey}`)) continue;
 
           this.createIncident({
@@ -249,6 +349,7 @@ class IncidentDetector {
             resource: pod.name,
             resourceType: "pod",
             namespace: pod.namespace,
+            node: pod.nodeName || undefined,
             autoHealable: true,
             suggestedAction: "Restart pod immediately",
             productionBehavior: "Video playback interruptions for users",
@@ -263,28 +364,247 @@ class IncidentDetector {
         }
       }
 
-      const multiServiceClassification = classifyMultiServiceFailure(failedServices);
-      if (multiServiceClassification && !this.isInCooldown("multi-service")) {
-        this.createIncident({
-          title: "MULTI-SERVICE FAILURE: Cascading Outage Detected",
-          description: multiServiceClassification.productionBehavior,
-          severity: multiServiceClassification.severity,
-          category: multiServiceClassification.category,
-          resource: "cluster",
-          resourceType: "service",
-          namespace: "cluster",
-          autoHealable: false,
-          suggestedAction: multiServiceClassification.suggestedAction,
-          productionBehavior: multiServiceClassification.productionBehavior,
-          metrics: { failedServiceCount: failedServices },
-        });
-        this.setCooldown("multi-service");
-      }
+      // Only after a complete scan, so a failed collection never reads as the condition clearing
+      this.resolveCleared();
     } catch (error) {
       logger.error({ error }, "Error during incident detection");
     }
   }
 
+  /**
+   * Resolves incidents whose condition has not been seen for
+   * DETECTION_AUTO_RESOLVE_MINUTES. Flapping incidents wait out the reopen
+   * window instead, and a multi-service failure resolves with its last child.
+   * Simulated and rule-raised incidents are left to their own lifecycle.
+   */
+  private resolveCleared() {
+    const autoResolveMs = config.detection.autoResolveMinutes * 60 * 1000;
+    if (autoResolveMs <= 0) return;
+
+    const now = Date.now();
+    for (const incident of this.incidents.values()) {
+      if (incident.status === "resolved" || incident.status === "healing") continue;
+      if (incident.simulated || incident.ruleId) continue;
+
+      if (incident.category === "multi-service-failure") {
+        const children = (incident.childIds || []).map((id) => this.incidents.get(id));
+        if (children.length > 0 && children.every((child) => !child || child.status === "resolved")) {
+          this.resolve(incident, true);
+        }
+        continue;
+      }
+
+      const clearMs = incident.flapping ? config.detection.reopenWindowMinutes * 60 * 1000 : autoResolveMs;
+      const lastSeen = new Date(incident.lastSeenAt ?? incident.detectedAt).getTime();
+      if (now - lastSeen >= clearMs) {
+        this.resolve(incident, true);
+      }
+    }
+  }
+
+  private evaluateNode(node: NodeMetrics): Incident | null {
+    const classification = classifyNodeIncident(node);
+    const matches = (i: Incident) => i.resourceType === "node" && i.resource === node.nodeName;
+
+    const existingIncident = this.findActive(matches);
+    if (existingIncident) {
+      if (classification) this.markSeen(existingIncident);
+      return null;
+    }
+    if (!classification) return null;
+    if (this.reopenRecent(matches, classification.category)) return null;
+
+    const cooldownKey = `node:${node.nodeName}`;
+    if (this.isInCooldown(cooldownKey)) return null;
+
+    const incident = this.createIncident({
+      title: `${classification.category.replace(/-/g, " ").toUpperCase()}: ${node.nodeName}`,
+      description: classification.productionBehavior,
+      severity: classification.severity,
+      category: classification.category,
+      resource: node.nodeName,
+      resourceType: "node",
+      namespace: "cluster",
+      autoHealable: classification.autoHealable,
+      suggestedAction: classification.suggestedAction,
+      productionBehavior: classification.productionBehavior,
+      metrics: {
+        cpuUsage: node.cpuUsagePercent,
+        memoryUsage: node.memoryUsagePercent,
+        diskUsage: node.diskUsagePercent,
+      },
+    });
+    this.setCooldown(cooldownKey);
+    return incident;
+  }
+
+  /**
+   * Opens an incident for a pod when it classifies as one. Incidents are keyed
+   * on the pod's workload when it has one, so a pod replaced by its controller
+   * joins the open incident (and its cooldown) instead of opening another,
+   * and a recurrence shortly after resolving reopens it. An open incident
+   * only has its metrics refreshed when they come from a scrape; watch
+   * updates carry no usage numbers.
+   */
+  private evaluatePod(pod: PodMetrics, refreshExisting: boolean, workload: WorkloadReference | null): Incident | null {
+    const matches = (i: Incident) =>
+      i.resourceType === "pod" &&
+      i.namespace === pod.namespace &&
+      (workload
+        ? i.workload?.kind === workload.kind && i.workload.name === workload.name
+        : i.resource === pod.podName);
+    const classified = classifyPodIncident(pod);
+    const classification = classified && isOngoing(pod, classified.category) ? classified : null;
+
+    const existingIncident = this.findActive(matches);
+    if (existingIncident) {
+      const isNewPod = existingIncident.resource !== pod.podName && !existingIncident.pods?.includes(pod.podName);
+      if (classification && isNewPod) {
+        this.addAffectedPod(existingIncident, pod);
+        return null;
+      }
+      const refresh = refreshExisting && existingIncident.resource === pod.podName;
+      if (classification) {
+        existingIncident.lastSeenAt = new Date().toISOString();
+      }
+      if (refresh) {
+        existingIncident.metrics = {
+          cpuUsage: pod.cpuUsageCores,
+          memoryUsage: pod.memoryUsageBytes,
+          restartCount: pod.restartCount,
+        };
+      }
+      if (classification || refresh) this.persist(existingIncident);
+      return null;
+    }
+    if (!classification) return null;
+
+    const reopened = this.reopenRecent(matches, classification.category);
+    if (reopened) {
+      if (workload && reopened.resource !== pod.podName) this.addAffectedPod(reopened, pod);
+      return null;
+    }
+
+    const cooldownKey = workload
+      ? `workload:${pod.namespace}/${workload.kind}/${workload.name}`
+      : `pod:${pod.namespace}/${pod.podName}`;
+    if (this.isInCooldown(cooldownKey)) return null;
+
+    const incident = this.createIncident({
+      title: `${classification.category.replace(/-/g, " ").toUpperCase()}: ${workload?.name ?? pod.podName}`,
+      description: classification.productionBehavior,
+      severity: classification.severity,
+      category: classification.category,
+      resource: pod.podName,
+      resourceType: "pod",
+      namespace: pod.namespace,
+      node: pod.nodeName !== "unknown" ? pod.nodeName : undefined,
+      workload: workload ?? undefined,
+      pods: workload ? [pod.podName] : undefined,
+      autoHealable: classification.autoHealable,
+      suggestedAction: classification.suggestedAction,
+      productionBehavior: classification.productionBehavior,
+      metrics: {
+        cpuUsage: pod.cpuUsageCores,
+        memoryUsage: pod.memoryUsageBytes,
+        restartCount: pod.restartCount,
+      },
+    });
+    this.setCooldown(cooldownKey);
+    return incident;
+  }
+
+  /**
+   * Lists a newly failing pod on its workload's incident and points the
+   * incident at it, since healing acts on that pod. While an attempt is
+   * running or being verified the incident stays on the pod that was acted on.
+   */
+  private addAffectedPod(incident: Incident, pod: PodMetrics) {
+    incident.pods = Array.from(new Set([...(incident.pods || []), pod.podName]));
+    incident.lastSeenAt = new Date().toISOString();
+    const healing = incident.status === "healing" || incident.healingVerification?.status === "verifying";
+    if (!healing) {
+      incident.resource = pod.podName;
+      incident.node = pod.nodeName !== "unknown" ? pod.nodeName : incident.node;
+      incident.metrics = {
+        cpuUsage: pod.cpuUsageCores,
+        memoryUsage: pod.memoryUsageBytes,
+        restartCount: pod.restartCount,
+      };
+    }
+    this.persist(incident);
+    logger.info({ incidentId: incident.id, pod: pod.podName, pods: incident.pods.length }, "Pod added to workload incident");
+  }
+
+  /**
+   * A 5xx spike only points at the code when it follows a rollout, so error
+   * rates are summed over the pods of each Deployment's new ReplicaSet and
+   * only for rollouts inside DETECTION_ROLLOUT_WINDOW_MINUTES.
+   */
+  private async detectBuggyRollouts(pods: Pod[]) {
+    const rollouts = await kubernetesService.getRecentRollouts(config.detection.rolloutWindowMinutes * 60 * 1000);
+    if (rollouts.length === 0) return;
+
+    const rates = await collectPodRequestRates();
+    const ratesByPod = new Map(rates.map((r) => [`${r.namespace}/${r.podName}`, r]));
+
+    for (const rollout of rollouts) {
+      if (this.SYSTEM_NAMESPACES.includes(rollout.namespace)) continue;
+
+      const rolloutPods = pods.filter((p) =>
+        p.namespace === rollout.namespace &&
+        p.ownerReferences.some((o) => o.kind === "ReplicaSet" && o.name === rollout.replicaSet)
+      );
+      let requests = 0;
+      let errors = 0;
+      for (const pod of rolloutPods) {
+        const rate = ratesByPod.get(`${pod.namespace}/${pod.name}`);
+        requests += rate?.requestsPerSecond || 0;
+        errors += rate?.errorsPerSecond || 0;
+      }
+      if (requests === 0) continue;
+
+      const errorRate = (errors / requests) * 100;
+      const classification = classifyDeploymentIncident(errorRate, false, false);
+      if (!classification) continue;
+
+      const matches = (i: Incident) =>
+        i.resource === rollout.deployment &&
+        i.namespace === rollout.namespace &&
+        i.resourceType === "deployment";
+      const existingIncident = this.findActive(matches);
+      if (existingIncident) {
+        this.markSeen(existingIncident);
+        continue;
+      }
+      if (this.reopenRecent(matches, classification.category)) continue;
+
+      const cooldownKey = `deployment:${rollout.namespace}/${rollout.deployment}`;
+      if (this.isInCooldown(cooldownKey)) continue;
+
+      this.createIncident({
+        title: `${classification.category.replace(/-/g, " ").toUpperCase()}: ${rollout.deployment}`,
+        description: `${errorRate.toFixed(1)}% of requests failing with 5xx since revision ${rollout.revision} rolled out at ${rollout.startedAt}`,
+        severity: classification.severity,
+        category: classification.category,
+        resource: rollout.deployment,
+        resourceType: "deployment",
+        namespace: rollout.namespace,
+        autoHealable: classification.autoHealable,
+        suggestedAction: classification.suggestedAction,
+        productionBehavior: classification.productionBehavior,
+        metrics: {
+          errorRate: Math.round(errorRate * 10) / 10,
+          requestsPerSecond: Math.round(requests * 100) / 100,
+          revision: rollout.revision,
+          replicaSet: rollout.replicaSet,
+          rolledOutAt: rollout.startedAt,
+        },
+      });
+      this.setCooldown(cooldownKey);
+    }
+  }
+
   createIncident(params: {
     title: string;
     description: string;
@@ -293,16 +613,22 @@ class IncidentDetector {
     resource: string;
     resourceType: "pod" | "node" | "deployment" | "service" | "configmap";
     namespace: string;
+    node?: string;
+    workload?: WorkloadReference;
+    pods?: string[];
     autoHealable: boolean;
     suggestedAction: string;
     productionBehavior: string;
     metrics: Record<string, number | string | boolean>;
+    simulated?: boolean;
     sloBurnSignals?: Partial<SLOBurnSignals>;
     sloBurnDriver?: SLOBurnDriver;
     sloBurnConfidence?: number;
     sloBurnEvidence?: string;
+    ruleId?: string;
   }): Incident {
     // Create base incident
+    const detectedAt = new Date().toISOString();
     const baseIncident: Incident = {
       id: uuidv4(),
       title: params.title,
@@ -312,15 +638,21 @@ class IncidentDetector {
       resource: params.resource,
       resourceType: params.resourceType,
       namespace: params.namespace,
+      node: params.node,
+      workload: params.workload,
+      pods: params.pods,
       autoHealable: params.autoHealable,
       suggestedAction: params.suggestedAction,
       productionBehavior: params.productionBehavior,
       metrics: params.metrics,
+      simulated: params.simulated,
       status: "open",
-      detectedAt: new Date().toISOString(),
+      detectedAt,
+      lastSeenAt: detectedAt,
       autoHealingAttempted: false,
       escalated: false,
       relatedAlerts: [],
+      ruleId: params.ruleId,
     };
 
     // Dynamically classify SLO burn driver OR use overrides
@@ -342,7 +674,18 @@ class IncidentDetector {
       sloBurnConfidence: sloBurnConfidence as number,
     };
 
-    this.incidents.set(incident.id, incident);
+    const correlation = correlate(incident, Array.from(this.incidents.values()));
+    if (correlation.parent) {
+      this.attachChild(correlation.parent.incident, incident, correlation.parent.reason);
+    }
+    this.persist(incident);
+    for (const root of correlation.adopt) {
+      this.attachChild(incident, root, "node");
+    }
+    if (correlation.multiService) {
+      this.raiseMultiServiceFailure(correlation.multiService);
+    }
+    this.enforceRetention();
     
     logger.info({
       incidentId: incident.id,
@@ -352,8 +695,10 @@ class IncidentDetector {
       autoHealable: incident.autoHealable,
       sloBurnDriver: incident.sloBurnDriver,
       sloBurnConfidence: incident.sloBurnConfidence,
+      parentId: incident.parentId,
     }, "Incident detected with SLO burn classification");
 
+    this.notifyListeners(this.detectedListeners, incident, "Detected listener failed");
     return incident;
   }
 
@@ -373,17 +718,141 @@ class IncidentDetector {
     sloBurnConfidence?: number;
     sloBurnEvidence?: string;
   }): Incident {
-    const incident = this.createIncident({
+    // The simulated flag distinguishes them from real incidents and keeps them out of correlation
+    return this.createIncident({
       ...params,
       title: `[SIMULATED] ${params.title}`,
+      simulated: true,
     });
-    
-    // Add simulated flag to distinguish from real incidents
-    (incident as any).simulated = true;
-    
+  }
+
+  /** An incident with its parent and children, for the incident detail view. */
+  getIncidentTree(id: string): { incident: Incident; parent?: Incident; children: Incident[] } | undefined {
+    const incident = this.incidents.get(id);
+    if (!incident) return undefined;
+
+    return {
+      incident,
+      parent: incident.parentId ? this.incidents.get(incident.parentId) : undefined,
+      children: (incident.childIds || [])
+        .map((childId) => this.incidents.get(childId))
+        .filter((child): child is Incident => !!child),
+    };
+  }
+
+  /** Puts an incident under a parent; it keeps its own children, so a node outage stays one subtree. */
+  private attachChild(parent: Incident, child: Incident, reason: CorrelationReason) {
+    child.parentId = parent.id;
+    child.correlationReason = reason;
+    if (this.incidents.has(child.id)) this.persist(child);
+
+    parent.childIds = Array.from(new Set([...(parent.childIds || []), child.id]));
+    this.persist(parent);
+
+    logger.info({ parentId: parent.id, childId: child.id, reason }, "Incidents correlated");
+  }
+
+  private raiseMultiServiceFailure(roots: Incident[]) {
+    if (this.isInCooldown("multi-service")) return;
+
+    const classification = classifyMultiServiceFailure(roots.length);
+    if (!classification) return;
+
+    const parent = this.createIncident({
+      title: "MULTI-SERVICE FAILURE: Cascading Outage Detected",
+      description: `${roots.length} workloads failed within ${config.detection.correlationWindowMinutes} minutes`,
+      severity: classification.severity,
+      category: classification.category,
+      resource: "cluster",
+      resourceType: "service",
+      namespace: "cluster",
+      autoHealable: false,
+      suggestedAction: classification.suggestedAction,
+      productionBehavior: classification.productionBehavior,
+      metrics: { failedServiceCount: roots.length },
+    });
+    this.setCooldown("multi-service");
+
+    for (const root of roots) {
+      this.attachChild(parent, root, "time-window");
+    }
+  }
+
+  /** The unresolved incident matching a problem; acknowledged ones still track it. */
+  private findActive(matches: (incident: Incident) => boolean): Incident | undefined {
+    return Array.from(this.incidents.values()).find((i) => i.status !== "resolved" && matches(i));
+  }
+
+  private markSeen(incident: Incident) {
+    incident.lastSeenAt = new Date().toISOString();
+    this.persist(incident);
+  }
+
+  /**
+   * Reopens the most recently resolved incident for the same problem when it
+   * was resolved within DETECTION_REOPEN_WINDOW_MINUTES, rather than raising a
+   * duplicate. After DETECTION_FLAP_THRESHOLD reopens it is flagged as
+   * flapping and is no longer announced again on each reopen.
+   */
+  private reopenRecent(matches: (incident: Incident) => boolean, category: IncidentCategory): Incident | undefined {
+    const windowMs = config.detection.reopenWindowMinutes * 60 * 1000;
+    const now = Date.now();
+    const incident = Array.from(this.incidents.values())
+      .filter((i) =>
+        i.status === "resolved" &&
+        i.category === category &&
+        !i.simulated &&
+        !i.ruleId &&
+        !!i.resolvedAt &&
+        now - new Date(i.resolvedAt).getTime() <= windowMs &&
+        matches(i)
+      )
+      .sort((a, b) => new Date(b.resolvedAt!).getTime() - new Date(a.resolvedAt!).getTime())[0];
+    if (!incident) return undefined;
+
+    const reopenedAt = new Date(now).toISOString();
+    incident.status = "open";
+    incident.resolvedAt = undefined;
+    incident.autoResolved = undefined;
+    incident.reopenCount = (incident.reopenCount ?? 0) + 1;
+    incident.reopenedAt = reopenedAt;
+    incident.lastSeenAt = reopenedAt;
+    const startedFlapping = !incident.flapping && incident.reopenCount >= config.detection.flapThreshold;
+    if (startedFlapping) incident.flapping = true;
+    this.persist(incident);
+
+    if (startedFlapping) {
+      logger.warn({ incidentId: incident.id, reopenCount: incident.reopenCount }, "Incident is flapping");
+    } else {
+      logger.info({ incidentId: incident.id, reopenCount: incident.reopenCount }, "Incident reopened");
+    }
+    if (!incident.flapping) {
+      this.notifyListeners(this.detectedListeners, incident, "Detected listener failed");
+    }
     return incident;
   }
 
+  private persist(incident: Incident) {
+    this.incidents.set(incident.id, incident);
+    this.store.save(incident);
+  }
+
+  private notifyListeners(listeners: Array<(incident: Incident) => void>, incident: Incident, failure: string) {
+    for (const listener of listeners) {
+      try {
+        listener(incident);
+      } catch (error) {
+        logger.error({ error, incidentId: incident.id }, failure);
+      }
+    }
+  }
+
+  private enforceRetention() {
+    if (this.incidents.size <= this.store.maxRecords) return;
+    const kept = this.store.prune(Array.from(this.incidents.values()));
+    this.incidents = new Map(kept.map((incident) => [incident.id, incident]));
+  }
+
   private isInCooldown(key: string): boolean {
     const lastTime = this.cooldowns.get(key);
     if (!lastTime) return false;
@@ -394,8 +863,10 @@ class IncidentDetector {
     this.cooldowns.set(key, Date.now());
   }
 
-  getStats() {
-    const incidents = Array.from(this.incidents.values());
+  /** Counts across all incidents, or only those in the given namespaces. */
+  getStats(namespaces?: string[]) {
+    const incidents = Array.from(this.incidents.values())
+      .filter((i) => !namespaces || namespaces.includes(i.namespace));
     const now = new Date();
     const last24h = new Date(now.getTime() - 24 * 60 * 60 * 1000);
     const recent = incidents.filter((i) => new Date(i.detectedAt) >= last24h);
@@ -425,6 +896,7 @@ class IncidentDetector {
   clearHistory(): void {
     this.incidents.clear();
     this.cooldowns.clear();
+    this.store.clear();
     logger.info("Incident history cleared");
   }
 }
@@ -1,4 +1,5 @@
 export * from "./detector.js";
 export * from "./classifier.js";
+export * from "./correlation.js";
 export * from "./types.js";
 export * from "./slo-burn-classifier.js";
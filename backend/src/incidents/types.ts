@@ -1,3 +1,5 @@
+import type { WorkloadReference } from "../types/index.js";
+
 export type IncidentSeverity = "low" | "medium" | "high" | "critical";
 export type IncidentStatus = "open" | "acknowledged" | "healing" | "escalated" | "resolved";
 
@@ -26,6 +28,19 @@ export type IncidentCategory =
  */
 export type SLOBurnDriver = "traffic-surge" | "degradation" | "mixed";
 
+/** Why an incident was grouped under its parent. */
+export type CorrelationReason = "node" | "workload" | "time-window";
+
+export interface HealingVerification {
+  status: "verifying" | "passed" | "failed";
+  action: string;
+  startedAt: string;
+  completedAt?: string;
+  checks: number;
+  message?: string;
+  rolledBack?: boolean;
+}
+
 export interface Incident {
   id: string;
   title: string;
@@ -39,9 +54,25 @@ export interface Incident {
   detectedAt: string;
   acknowledgedAt?: string;
   resolvedAt?: string;
+  // Resolved by the detector after the condition stayed clear, not by healing or a person
+  autoResolved?: boolean;
+  // Last time detection still saw the condition
+  lastSeenAt?: string;
+  // Times the incident came back within the reopen window after being resolved
+  reopenCount?: number;
+  reopenedAt?: string;
+  // Reopened DETECTION_FLAP_THRESHOLD times; held open instead of cycling
+  flapping?: boolean;
   autoHealable: boolean;
   autoHealingAttempted: boolean;
   autoHealingResult?: "success" | "failed" | "pending";
+  healingVerification?: HealingVerification;
+  // Automatic attempts made by the healing rule on this resource, including earlier incidents
+  healingAttempts?: number;
+  maxHealingAttempts?: number;
+  nextHealingAttemptAt?: string;
+  // Set when a condition-based healing rule raised the incident
+  ruleId?: string;
   escalated: boolean;
   escalatedAt?: string;
   metrics: Record<string, number | string | boolean>;
@@ -52,6 +83,18 @@ export interface Incident {
   sloBurnDriver?: SLOBurnDriver;
   sloBurnEvidence?: string;
   sloBurnConfidence?: number;
+  // Injected by the simulator; there is no real workload behind the resource
+  simulated?: boolean;
+  // Node a pod incident's pod was scheduled on
+  node?: string;
+  // Pod incidents belong to the pod's controller; resource is the most recent failing pod
+  workload?: WorkloadReference;
+  // Every pod of the workload that failed while the incident was open
+  pods?: string[];
+  // Correlated incidents form trees; children send no notifications of their own
+  parentId?: string;
+  childIds?: string[];
+  correlationReason?: CorrelationReason;
 }
 
 export interface IncidentScenario {
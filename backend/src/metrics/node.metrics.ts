@@ -3,6 +3,7 @@ import { prometheusCollector } from "./prometheus.collector.js";
 import { kubectlTopService } from "../services/kubectl-top.service.js";
 import { kubernetesService } from "../services/kubernetes.service.js";
 import { customPodSimulator } from "../simulators/custom-pod-simulator.js";
+import type { Node } from "../types/index.js";
 
 const logger = createChildLogger("node-metrics");
 
@@ -34,6 +35,31 @@ export interface NodeMetrics {
   }>;
 }
 
+/** Condition-only metrics for a node seen on a watch; usage stays zero until the next scrape. */
+export function nodeMetricsFromNode(node: Node): NodeMetrics {
+  const isTrue = (type: string) => node.conditions.some((c) => c.type === type && c.status === "True");
+  return {
+    nodeName: node.name,
+    cpuUsagePercent: 0,
+    cpuUsedCores: 0,
+    cpuTotalCores: node.cpuCapacity,
+    memoryUsagePercent: 0,
+    memoryUsageBytes: 0,
+    memoryTotalBytes: node.memoryCapacity,
+    diskUsagePercent: 0,
+    networkReceiveBytesRate: 0,
+    networkTransmitBytesRate: 0,
+    podCount: node.podCount,
+    uptimeSeconds: 0,
+    conditions: {
+      ready: isTrue("Ready"),
+      memoryPressure: isTrue("MemoryPressure"),
+      diskPressure: isTrue("DiskPressure"),
+      pidPressure: isTrue("PIDPressure"),
+    },
+  };
+}
+
 interface SimulatedPodMetric {
   name: string;
   namespace: string;
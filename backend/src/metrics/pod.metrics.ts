@@ -1,5 +1,7 @@
 import { createChildLogger } from "../utils/logger.js";
 import { prometheusCollector } from "./prometheus.collector.js";
+import { config } from "../config/index.js";
+import type { Pod } from "../types/index.js";
 
 const logger = createChildLogger("pod-metrics");
 
@@ -16,18 +18,80 @@ export interface PodMetrics {
   restartCount: number;
   oomKilled: boolean;
   throttled: boolean;
+  // Share of CFS periods in which the pod was throttled over the last 5m, 0-1
+  throttleRatio: number;
   phase: string;
+  // Pod-level reason from the API server, e.g. Evicted
+  statusReason?: string;
   containerStatuses: ContainerMetrics[];
 }
 
 export interface ContainerMetrics {
   containerName: string;
+  image?: string;
   cpuUsageCores: number;
   memoryUsageBytes: number;
   restartCount: number;
   state: "running" | "waiting" | "terminated";
   ready: boolean;
   oomKilled: boolean;
+  // Waiting or terminated reason, e.g. CrashLoopBackOff or ImagePullBackOff
+  reason?: string;
+}
+
+/** Metrics for a pod known only from the API server, e.g. one seen on a watch before any scrape. */
+export function podMetricsFromPod(pod: Pod): PodMetrics {
+  return withPodStatus(
+    {
+      podName: pod.name,
+      namespace: pod.namespace,
+      nodeName: pod.nodeName || "unknown",
+      cpuUsageCores: 0,
+      cpuRequestCores: 0,
+      cpuLimitCores: 0,
+      memoryUsageBytes: 0,
+      memoryRequestBytes: 0,
+      memoryLimitBytes: 0,
+      restartCount: 0,
+      oomKilled: false,
+      throttled: false,
+      throttleRatio: 0,
+      phase: pod.phase,
+      containerStatuses: [],
+    },
+    pod
+  );
+}
+
+/**
+ * Overlays the API server's view of a pod onto its scraped metrics. Prometheus
+ * only reports usage, so phase and container states and reasons come from here.
+ */
+export function withPodStatus(metrics: PodMetrics, pod: Pod): PodMetrics {
+  const containerStatuses: ContainerMetrics[] = pod.containers.map((container) => {
+    const scraped = metrics.containerStatuses.find((c) => c.containerName === container.name);
+    return {
+      containerName: container.name,
+      image: container.image,
+      cpuUsageCores: scraped?.cpuUsageCores ?? 0,
+      memoryUsageBytes: scraped?.memoryUsageBytes ?? 0,
+      restartCount: container.restartCount,
+      state: container.status,
+      ready: container.ready,
+      oomKilled: container.reason === "OOMKilled" || container.lastTerminationReason === "OOMKilled",
+      reason: container.reason,
+    };
+  });
+
+  return {
+    ...metrics,
+    nodeName: pod.nodeName || metrics.nodeName,
+    restartCount: Math.max(metrics.restartCount, pod.restarts),
+    oomKilled: metrics.oomKilled || containerStatuses.some((c) => c.oomKilled),
+    phase: pod.phase,
+    statusReason: pod.reason,
+    containerStatuses,
+  };
 }
 
 export async function collectPodMetrics(namespace?: string): Promise<PodMetrics[]> {
@@ -40,13 +104,17 @@ export async function collectPodMetrics(namespace?: string): Promise<PodMetrics[
 
   try {
     const namespaceFilter = namespace ? `namespace="${namespace}"` : "";
+    const containerFilter = ['container!=""', namespaceFilter].filter(Boolean).join(",");
     
     const [cpuResult, memoryResult, restartResult, oomResult, throttledResult] = await Promise.all([
       prometheusCollector.query(`sum by (pod, namespace, node) (rate(container_cpu_usage_seconds_total{${namespaceFilter}}[5m]))`),
       prometheusCollector.query(`sum by (pod, namespace, node) (container_memory_usage_bytes{${namespaceFilter}})`),
       prometheusCollector.query(`sum by (pod, namespace) (kube_pod_container_status_restarts_total{${namespaceFilter}})`),
       prometheusCollector.query(`sum by (pod, namespace) (kube_pod_container_status_last_terminated_reason{reason="OOMKilled",${namespaceFilter}})`),
-      prometheusCollector.query(`sum by (pod, namespace) (rate(container_cpu_cfs_throttled_periods_total{${namespaceFilter}}[5m]))`),
+      prometheusCollector.query(
+        `sum by (pod, namespace) (rate(container_cpu_cfs_throttled_periods_total{${containerFilter}}[5m]))` +
+        ` / sum by (pod, namespace) (rate(container_cpu_cfs_periods_total{${containerFilter}}[5m]))`
+      ),
     ]);
 
     const podMap = new Map<string, Partial<PodMetrics>>();
@@ -92,7 +160,8 @@ export async function collectPodMetrics(namespace?: string): Promise<PodMetrics[
       const key = `${r.labels.namespace}/${r.labels.pod}`;
       podMap.set(key, {
         ...podMap.get(key),
-        throttled: r.value > 0.1,
+        throttled: r.value >= config.detection.throttleRatio,
+        throttleRatio: r.value,
       });
     });
 
@@ -109,6 +178,7 @@ export async function collectPodMetrics(namespace?: string): Promise<PodMetrics[
       restartCount: p.restartCount || 0,
       oomKilled: p.oomKilled || false,
       throttled: p.throttled || false,
+      throttleRatio: p.throttleRatio || 0,
       phase: "Running",
       containerStatuses: [],
     }));
@@ -118,6 +188,48 @@ export async function collectPodMetrics(namespace?: string): Promise<PodMetrics[
   }
 }
 
-function getMockPodMetrics(namespace?: string): PodMetrics[] {
+export interface PodRequestRates {
+  podName: string;
+  namespace: string;
+  requestsPerSecond: number;
+  errorsPerSecond: number;
+}
+
+/**
+ * HTTP request and 5xx rates per pod over the last 5m, from the metric named
+ * by DETECTION_HTTP_REQUESTS_METRIC. The status code may be labelled `status`
+ * or `code`. Empty when Prometheus is unreachable or nothing is instrumented.
+ */
+export async function collectPodRequestRates(namespace?: string): Promise<PodRequestRates[]> {
+  const connected = await prometheusCollector.checkConnection();
+  if (!connected) return [];
+
+  try {
+    const metric = config.detection.httpRequestsMetric;
+    const namespaceFilter = namespace ? `,namespace="${namespace}"` : "";
+    const [totalResult, errorResult] = await Promise.all([
+      prometheusCollector.query(`sum by (pod, namespace) (rate(${metric}{pod!=""${namespaceFilter}}[5m]))`),
+      prometheusCollector.query(
+        `sum by (pod, namespace) (rate(${metric}{status=~"5..",pod!=""${namespaceFilter}}[5m]))` +
+        ` or sum by (pod, namespace) (rate(${metric}{code=~"5..",pod!=""${namespaceFilter}}[5m]))`
+      ),
+    ]);
+
+    const errors = new Map(
+      prometheusCollector.extractValues(errorResult).map((r) => [`${r.labels.namespace}/${r.labels.pod}`, r.value])
+    );
+    return prometheusCollector.extractValues(totalResult).map((r) => ({
+      podName: r.labels.pod,
+      namespace: r.labels.namespace,
+      requestsPerSecond: r.value,
+      errorsPerSecond: errors.get(`${r.labels.namespace}/${r.labels.pod}`) || 0,
+    }));
+  } catch (error) {
+    logger.error({ error }, "Failed to collect pod request rates from Prometheus");
+    return [];
+  }
+}
+
+function getMockPodMetrics(_namespace?: string): PodMetrics[] {
   return [];
 }
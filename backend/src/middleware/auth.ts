@@ -2,17 +2,50 @@ import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { config } from "../config/index.js";
 import { AppError } from "./error-handler.js";
-import type { JwtPayload, UserRole } from "../types/index.js";
+import { userStore } from "../auth/users.js";
+import { allowedNamespaces } from "../auth/namespaces.js";
+import { apiKeyStore, API_KEY_PREFIX, type ApiKey, type ApiKeyScope } from "../auth/api-keys.js";
+import type { JwtPayload, User, UserRole } from "../types/index.js";
 
 declare global {
   namespace Express {
     interface Request {
       user?: JwtPayload;
+      // Set when the request was made with an API key rather than a user token
+      apiKey?: ApiKey;
     }
   }
 }
 
+/** An API key sent as `X-API-Key` or as an `oct_` bearer token. */
+function presentedApiKey(req: Request): string | undefined {
+  const header = req.headers["x-api-key"];
+  if (typeof header === "string" && header) return header;
+
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith(`Bearer ${API_KEY_PREFIX}`)) return authHeader.slice("Bearer ".length);
+  return undefined;
+}
+
 export function authenticate(req: Request, _res: Response, next: NextFunction) {
+  const key = presentedApiKey(req);
+  if (key) {
+    const apiKey = apiKeyStore.verify(key, req.ip);
+    if (!apiKey) {
+      throw new AppError(401, "Invalid, expired or revoked API key");
+    }
+
+    // Keys never act as admins; their scopes narrow them further
+    req.apiKey = apiKey;
+    req.user = {
+      userId: `api-key:${apiKey.id}`,
+      email: `api-key:${apiKey.name}`,
+      role: "operator",
+      namespaces: apiKey.namespaces,
+    };
+    return next();
+  }
+
   const authHeader = req.headers.authorization;
 
   if (!authHeader || !authHeader.startsWith("Bearer ")) {
@@ -21,13 +54,26 @@ export function authenticate(req: Request, _res: Response, next: NextFunction) {
 
   const token = authHeader.split(" ")[1];
 
+  let decoded: JwtPayload;
   try {
-    const decoded = jwt.verify(token, config.jwt.secret) as JwtPayload;
-    req.user = decoded;
-    next();
+    decoded = jwt.verify(token, config.jwt.secret) as JwtPayload;
   } catch {
     throw new AppError(401, "Invalid or expired token");
   }
+
+  // Deleting or disabling a user, or changing their role or namespaces, takes effect before their token expires
+  const user = userStore.getUser(decoded.userId);
+  if (!user || user.disabled) {
+    throw new AppError(401, "Invalid or expired token");
+  }
+
+  req.user = { ...decoded, email: user.email, role: user.role, namespaces: allowedNamespaces(user) };
+  next();
+}
+
+export function signToken(user: Pick<User, "id" | "email" | "role">): string {
+  const payload: JwtPayload = { userId: user.id, email: user.email, role: user.role };
+  return jwt.sign(payload, config.jwt.secret, { expiresIn: config.jwt.expiresIn } as jwt.SignOptions);
 }
 
 export function authorize(...roles: UserRole[]) {
@@ -43,3 +89,24 @@ export function authorize(...roles: UserRole[]) {
     next();
   };
 }
+
+/**
+ * Scope check for API key requests: reads need the read or write scope,
+ * anything else the write scope. Requests from users pass through and are
+ * governed by their role.
+ */
+export function requireScope(readScope: ApiKeyScope, writeScope?: ApiKeyScope) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    if (!req.apiKey) {
+      return next();
+    }
+
+    const isRead = req.method === "GET" || req.method === "HEAD";
+    const accepted = isRead ? [readScope, writeScope] : [writeScope];
+    if (!accepted.some((scope) => scope && req.apiKey!.scopes.includes(scope))) {
+      throw new AppError(403, `API key is missing the ${isRead ? readScope : writeScope ?? readScope} scope`);
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,20 @@
+import { Request, Response, NextFunction } from "express";
+import { v4 as uuidv4 } from "uuid";
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
+
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/** Tags each request with an id, taken from `X-Request-Id` when a proxy set one, and echoes it back. */
+export function requestId(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.header("X-Request-Id");
+  req.requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : uuidv4();
+  res.setHeader("X-Request-Id", req.requestId);
+  next();
+}
@@ -0,0 +1,46 @@
+import { PersistentCollection } from "./collection.js";
+import { MemoryStore } from "./memory.store.js";
+
+interface Record {
+  id: string;
+  at: string;
+}
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+function createCollection(store: MemoryStore, maxRecords: number, maxAgeDays: number) {
+  return new PersistentCollection<Record>("incidents", () => store, {
+    idOf: (r) => r.id,
+    timestampOf: (r) => r.at,
+    retention: { maxRecords, maxAgeDays },
+  });
+}
+
+describe("PersistentCollection", () => {
+  it("loads records newest first and prunes those outside retention from storage", async () => {
+    const store = new MemoryStore();
+    await store.save("incidents", "old", { id: "old", at: daysAgo(40) });
+    await store.save("incidents", "new", { id: "new", at: daysAgo(1) });
+    await store.save("incidents", "mid", { id: "mid", at: daysAgo(5) });
+
+    const kept = await createCollection(store, 10, 30).load();
+
+    expect(kept.map((r) => r.id)).toEqual(["new", "mid"]);
+    expect((await store.loadAll<Record>("incidents")).map((r) => r.id).sort()).toEqual(["mid", "new"]);
+  });
+
+  it("keeps at most maxRecords when pruning in memory", async () => {
+    const store = new MemoryStore();
+    const collection = createCollection(store, 2, 30);
+    const records = [
+      { id: "a", at: daysAgo(3) },
+      { id: "b", at: daysAgo(2) },
+      { id: "c", at: daysAgo(1) },
+    ];
+    records.forEach((r) => collection.save(r));
+
+    expect(collection.prune(records).map((r) => r.id)).toEqual(["c", "b"]);
+    await new Promise((resolve) => setImmediate(resolve));
+    expect((await store.loadAll<Record>("incidents")).map((r) => r.id).sort()).toEqual(["b", "c"]);
+  });
+});
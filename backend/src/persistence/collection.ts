@@ -0,0 +1,92 @@
+import { createChildLogger } from "../utils/logger.js";
+import type { CollectionName, PersistenceStore, RetentionPolicy } from "./types.js";
+
+const logger = createChildLogger("persistent-collection");
+
+export interface CollectionOptions<T> {
+  idOf: (record: T) => string;
+  timestampOf: (record: T) => string;
+  retention: RetentionPolicy;
+}
+
+/**
+ * Write-through view of one collection. Managers keep their in-memory Maps as
+ * the source of truth for reads and call `save`/`remove` on every mutation;
+ * writes are fire-and-forget so callers stay synchronous.
+ */
+export class PersistentCollection<T> {
+  constructor(
+    private name: CollectionName,
+    private getStore: () => PersistenceStore,
+    private options: CollectionOptions<T>
+  ) {}
+
+  /**
+   * Loads the stored records, newest first, dropping anything outside the
+   * retention policy from storage as a side effect.
+   */
+  async load(): Promise<T[]> {
+    const records = await this.getStore().loadAll<T>(this.name);
+    const { kept, expired } = this.partition(records);
+
+    if (expired.length > 0) {
+      await this.getStore().remove(this.name, expired.map(this.options.idOf));
+      logger.info({ collection: this.name, removed: expired.length }, "Pruned records outside retention");
+    }
+
+    return kept;
+  }
+
+  save(record: T): void {
+    this.run("save", () => this.getStore().save(this.name, this.options.idOf(record), record));
+  }
+
+  remove(ids: string[]): void {
+    if (ids.length === 0) return;
+    this.run("remove", () => this.getStore().remove(this.name, ids));
+  }
+
+  clear(): void {
+    this.run("clear", () => this.getStore().clear(this.name));
+  }
+
+  /**
+   * Applies the retention policy to an in-memory record set and removes the
+   * overflow from storage. Returns the records to keep, newest first.
+   */
+  prune(records: T[]): T[] {
+    const { kept, expired } = this.partition(records);
+    this.remove(expired.map(this.options.idOf));
+    return kept;
+  }
+
+  get maxRecords(): number {
+    return this.options.retention.maxRecords;
+  }
+
+  private partition(records: T[]): { kept: T[]; expired: T[] } {
+    const { maxRecords, maxAgeDays } = this.options.retention;
+    const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+    const sorted = [...records].sort((a, b) =>
+      new Date(this.options.timestampOf(b)).getTime() - new Date(this.options.timestampOf(a)).getTime()
+    );
+
+    const kept: T[] = [];
+    const expired: T[] = [];
+    for (const record of sorted) {
+      const fresh = new Date(this.options.timestampOf(record)).getTime() >= cutoff;
+      if (fresh && kept.length < maxRecords) {
+        kept.push(record);
+      } else {
+        expired.push(record);
+      }
+    }
+    return { kept, expired };
+  }
+
+  private run(operation: string, fn: () => Promise<void>) {
+    fn().catch((error) => {
+      logger.error({ error, collection: this.name, operation }, "Persistence write failed");
+    });
+  }
+}
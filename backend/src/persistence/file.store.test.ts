@@ -0,0 +1,50 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { FileStore } from "./file.store.js";
+
+describe("FileStore", () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "octrix-file-store-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("writes pending records on close and reads them back", async () => {
+    const store = new FileStore(dataDir);
+    await store.connect();
+    await store.save("incidents", "a", { id: "a" });
+    await store.save("incidents", "b", { id: "b" });
+    await store.remove("incidents", ["a"]);
+    await store.close();
+
+    const reopened = new FileStore(dataDir);
+    expect(await reopened.loadAll("incidents")).toEqual([{ id: "b" }]);
+  });
+
+  it("serializes overlapping flushes of one collection", async () => {
+    const store = new FileStore(dataDir);
+    await store.connect();
+    await store.save("incidents", "a", { id: "a" });
+
+    const flush = (store as unknown as { flush(name: string): Promise<void> }).flush.bind(store);
+    const first = flush("incidents");
+    await store.save("incidents", "b", { id: "b" });
+    const second = flush("incidents");
+    await expect(Promise.all([first, second])).resolves.toBeDefined();
+    await store.close();
+
+    const raw = JSON.parse(await fs.readFile(path.join(dataDir, "incidents.json"), "utf-8"));
+    expect(Object.keys(raw).sort()).toEqual(["a", "b"]);
+    expect(await fs.readdir(dataDir)).toEqual(["incidents.json"]);
+  });
+
+  it("starts empty when the collection file is missing", async () => {
+    const store = new FileStore(dataDir);
+    expect(await store.loadAll("approvals")).toEqual([]);
+  });
+});
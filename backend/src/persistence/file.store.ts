@@ -0,0 +1,120 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { createChildLogger } from "../utils/logger.js";
+import type { CollectionName, PersistenceStore } from "./types.js";
+
+const logger = createChildLogger("file-store");
+
+/**
+ * Keeps each collection as a single JSON document under the data directory.
+ * Writes are batched and flushed through a temp file + rename so a crash
+ * mid-write never leaves a truncated collection behind. Flushes of one
+ * collection run one at a time, so a slow write is never overtaken.
+ */
+export class FileStore implements PersistenceStore {
+  readonly driver = "file" as const;
+  private collections: Map<CollectionName, Promise<Map<string, unknown>>> = new Map();
+  private pendingFlushes: Map<CollectionName, NodeJS.Timeout> = new Map();
+  private flushQueues: Map<CollectionName, Promise<void>> = new Map();
+  private readonly FLUSH_DELAY_MS = 250;
+
+  constructor(private dataDir: string) {}
+
+  async connect(): Promise<void> {
+    await fs.mkdir(this.dataDir, { recursive: true });
+    logger.info({ dataDir: path.resolve(this.dataDir) }, "File store ready");
+  }
+
+  async loadAll<T>(collection: CollectionName): Promise<T[]> {
+    const records = await this.getCollection(collection);
+    return Array.from(records.values()) as T[];
+  }
+
+  async save<T>(collection: CollectionName, id: string, record: T): Promise<void> {
+    const records = await this.getCollection(collection);
+    records.set(id, record);
+    this.scheduleFlush(collection);
+  }
+
+  async remove(collection: CollectionName, ids: string[]): Promise<void> {
+    const records = await this.getCollection(collection);
+    ids.forEach((id) => records.delete(id));
+    this.scheduleFlush(collection);
+  }
+
+  async clear(collection: CollectionName): Promise<void> {
+    this.collections.set(collection, Promise.resolve(new Map()));
+    this.scheduleFlush(collection);
+  }
+
+  async close(): Promise<void> {
+    const pending = Array.from(this.pendingFlushes.keys());
+    this.pendingFlushes.forEach((timer) => clearTimeout(timer));
+    this.pendingFlushes.clear();
+    pending.forEach((collection) => this.flush(collection));
+    const results = await Promise.allSettled(Array.from(this.flushQueues.values()));
+    for (const result of results) {
+      if (result.status === "rejected") {
+        logger.error({ error: result.reason }, "Failed to flush collection on close");
+      }
+    }
+  }
+
+  private getCollection(collection: CollectionName): Promise<Map<string, unknown>> {
+    let records = this.collections.get(collection);
+    if (!records) {
+      records = this.readCollection(collection);
+      this.collections.set(collection, records);
+    }
+    return records;
+  }
+
+  private async readCollection(collection: CollectionName): Promise<Map<string, unknown>> {
+    try {
+      const raw = await fs.readFile(this.filePath(collection), "utf-8");
+      return new Map(Object.entries(JSON.parse(raw) as Record<string, unknown>));
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") {
+        logger.error({ error, collection }, "Failed to read collection, starting empty");
+      }
+      return new Map();
+    }
+  }
+
+  private scheduleFlush(collection: CollectionName) {
+    if (this.pendingFlushes.has(collection)) return;
+
+    const timer = setTimeout(() => {
+      this.pendingFlushes.delete(collection);
+      this.flush(collection).catch((error) => {
+        logger.error({ error, collection }, "Failed to flush collection");
+      });
+    }, this.FLUSH_DELAY_MS);
+    this.pendingFlushes.set(collection, timer);
+  }
+
+  /** Queues a write behind any flush of the same collection still in progress. */
+  private flush(collection: CollectionName): Promise<void> {
+    const previous = this.flushQueues.get(collection) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(() => this.writeCollection(collection));
+    this.flushQueues.set(collection, next);
+    next.finally(() => {
+      if (this.flushQueues.get(collection) === next) this.flushQueues.delete(collection);
+    }).catch(() => undefined);
+    return next;
+  }
+
+  private async writeCollection(collection: CollectionName): Promise<void> {
+    const records = await this.collections.get(collection);
+    if (!records) return;
+
+    const target = this.filePath(collection);
+    const tmp = `${target}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(Object.fromEntries(records)), "utf-8");
+    await fs.rename(tmp, target);
+  }
+
+  private filePath(collection: CollectionName): string {
+    return path.join(this.dataDir, `${collection}.json`);
+  }
+}
@@ -0,0 +1,56 @@
+import { config } from "../config/index.js";
+import { createChildLogger } from "../utils/logger.js";
+import { FileStore } from "./file.store.js";
+import { MemoryStore } from "./memory.store.js";
+import { RedisStore } from "./redis.store.js";
+import { PersistentCollection, type CollectionOptions } from "./collection.js";
+import type { CollectionName, PersistenceStore } from "./types.js";
+
+const logger = createChildLogger("persistence");
+
+class PersistenceManager {
+  private store: PersistenceStore = this.createStore();
+
+  get driver() {
+    return this.store.driver;
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      await this.store.connect();
+      logger.info({ driver: this.store.driver }, "Persistence initialized");
+    } catch (error) {
+      logger.error({ error, driver: this.store.driver }, "Persistence unavailable, falling back to in-memory store");
+      this.store = new MemoryStore();
+    }
+  }
+
+  collection<T>(name: CollectionName, options: CollectionOptions<T>): PersistentCollection<T> {
+    return new PersistentCollection<T>(name, () => this.store, options);
+  }
+
+  async close(): Promise<void> {
+    try {
+      await this.store.close();
+    } catch (error) {
+      logger.error({ error }, "Failed to close persistence store");
+    }
+  }
+
+  private createStore(): PersistenceStore {
+    switch (config.persistence.driver) {
+      case "redis":
+        return new RedisStore(config.redis);
+      case "memory":
+        return new MemoryStore();
+      case "file":
+      default:
+        return new FileStore(config.persistence.dataDir);
+    }
+  }
+}
+
+export const persistence = new PersistenceManager();
+
+export * from "./types.js";
+export * from "./collection.js";
@@ -0,0 +1,36 @@
+import type { CollectionName, PersistenceStore } from "./types.js";
+
+export class MemoryStore implements PersistenceStore {
+  readonly driver = "memory" as const;
+  private collections: Map<CollectionName, Map<string, unknown>> = new Map();
+
+  async connect(): Promise<void> {}
+
+  async loadAll<T>(collection: CollectionName): Promise<T[]> {
+    return Array.from(this.getCollection(collection).values()) as T[];
+  }
+
+  async save<T>(collection: CollectionName, id: string, record: T): Promise<void> {
+    this.getCollection(collection).set(id, record);
+  }
+
+  async remove(collection: CollectionName, ids: string[]): Promise<void> {
+    const records = this.getCollection(collection);
+    ids.forEach((id) => records.delete(id));
+  }
+
+  async clear(collection: CollectionName): Promise<void> {
+    this.collections.delete(collection);
+  }
+
+  async close(): Promise<void> {}
+
+  private getCollection(collection: CollectionName): Map<string, unknown> {
+    let records = this.collections.get(collection);
+    if (!records) {
+      records = new Map();
+      this.collections.set(collection, records);
+    }
+    return records;
+  }
+}
@@ -0,0 +1,67 @@
+import { Redis } from "ioredis";
+import { createChildLogger } from "../utils/logger.js";
+import type { CollectionName, PersistenceStore } from "./types.js";
+
+const logger = createChildLogger("redis-store");
+
+/**
+ * Stores each collection as a Redis hash (`octrix:<collection>`) mapping
+ * record ids to their JSON encoding.
+ */
+export class RedisStore implements PersistenceStore {
+  readonly driver = "redis" as const;
+  private client: Redis;
+  private readonly KEY_PREFIX = "octrix:";
+
+  constructor(options: { host: string; port: number; password?: string }) {
+    this.client = new Redis({
+      host: options.host,
+      port: options.port,
+      password: options.password || undefined,
+      lazyConnect: true,
+      maxRetriesPerRequest: 3,
+    });
+    this.client.on("error", (error) => {
+      logger.error({ error: error.message }, "Redis connection error");
+    });
+  }
+
+  async connect(): Promise<void> {
+    await this.client.connect();
+    logger.info({ host: this.client.options.host, port: this.client.options.port }, "Redis store connected");
+  }
+
+  async loadAll<T>(collection: CollectionName): Promise<T[]> {
+    const entries = await this.client.hvals(this.key(collection));
+    const records: T[] = [];
+    for (const entry of entries) {
+      try {
+        records.push(JSON.parse(entry) as T);
+      } catch (error) {
+        logger.warn({ error, collection }, "Skipping unreadable record");
+      }
+    }
+    return records;
+  }
+
+  async save<T>(collection: CollectionName, id: string, record: T): Promise<void> {
+    await this.client.hset(this.key(collection), id, JSON.stringify(record));
+  }
+
+  async remove(collection: CollectionName, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.client.hdel(this.key(collection), ...ids);
+  }
+
+  async clear(collection: CollectionName): Promise<void> {
+    await this.client.del(this.key(collection));
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit();
+  }
+
+  private key(collection: CollectionName): string {
+    return `${this.KEY_PREFIX}${collection}`;
+  }
+}
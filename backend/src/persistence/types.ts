@@ -0,0 +1,42 @@
+export type CollectionName =
+  | "incidents"
+  | "healing-events"
+  | "healing-rules"
+  | "escalation-records"
+  | "notifications"
+  | "approvals"
+  | "cordoned-nodes"
+  | "automation-freezes"
+  | "notification-templates"
+  | "routing-rules"
+  | "notification-windows"
+  | "action-nonces"
+  | "oncall-schedules"
+  | "users"
+  | "teams"
+  | "api-keys"
+  | "audit-log";
+
+export type PersistenceDriver = "file" | "redis" | "memory";
+
+/**
+ * A storage backend holding JSON records grouped into named collections.
+ * Records are keyed by id; writes replace the whole record.
+ */
+export interface PersistenceStore {
+  readonly driver: PersistenceDriver;
+  connect(): Promise<void>;
+  loadAll<T>(collection: CollectionName): Promise<T[]>;
+  save<T>(collection: CollectionName, id: string, record: T): Promise<void>;
+  remove(collection: CollectionName, ids: string[]): Promise<void>;
+  clear(collection: CollectionName): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface RetentionPolicy {
+  maxRecords: number;
+  maxAgeDays: number;
+}
+
+/** Retention for configuration collections, which are never pruned. */
+export const KEEP_ALL: RetentionPolicy = { maxRecords: Infinity, maxAgeDays: Infinity };
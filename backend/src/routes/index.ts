@@ -7,19 +7,17 @@ import simulatorRouter from "../api/simulator.api.js";
 import clusterRouter from "../api/cluster.api.js";
 import costRouter from "../api/cost.api.js";
 import timelineRouter from "../api/timeline.api.js";
-import overviewRouter from "./overview.routes.js";
+import overviewRouter from "../api/overview.api.js";
+import authRouter from "../api/auth.api.js";
+import auditRouter from "../api/audit.api.js";
+import responderActionsRouter from "../api/responder-actions.api.js";
+import { authenticate, authorize, requireScope } from "../middleware/auth.js";
 
 const router = Router();
 
-router.use("/metrics", metricsRouter);
-router.use("/incidents", incidentsRouter);
-router.use("/healing", healingRouter);
-router.use("/escalation", escalationRouter);
-router.use("/simulator", simulatorRouter);
-router.use("/cluster", clusterRouter);
-router.use("/costs", costRouter);
-router.use("/timeline", timelineRouter);
-router.use("/overview", overviewRouter);
+// Public: login, health, and responder actions that carry their own signatures
+router.use("/auth", authRouter);
+router.use("/escalation", responderActionsRouter);
 
 router.get("/health", async (_req, res) => {
   try {
@@ -52,4 +50,18 @@ router.get("/health", async (_req, res) => {
   }
 });
 
+// Everything below requires a signed-in user or an API key with the matching scope
+router.use(authenticate);
+
+router.use("/metrics", requireScope("metrics:read"), metricsRouter);
+router.use("/incidents", requireScope("incidents:read", "incidents:write"), incidentsRouter);
+router.use("/healing", requireScope("healing:read", "healing:write"), healingRouter);
+router.use("/escalation", requireScope("escalation:read", "escalation:write"), escalationRouter);
+router.use("/simulator", requireScope("simulator:read", "simulator:run"), simulatorRouter);
+router.use("/cluster", requireScope("cluster:read", "cluster:write"), clusterRouter);
+router.use("/costs", requireScope("costs:read", "costs:write"), costRouter);
+router.use("/timeline", requireScope("incidents:read", "incidents:write"), timelineRouter);
+router.use("/overview", requireScope("cluster:read"), overviewRouter);
+router.use("/audit", authorize("admin", "operator"), requireScope("audit:read"), auditRouter);
+
 export default router;
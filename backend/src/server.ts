@@ -4,14 +4,30 @@ import helmet from "helmet";
 import rateLimit from "express-rate-limit";
 import { Server } from "socket.io";
 import { createServer } from "http";
+import jwt from "jsonwebtoken";
 import { config } from "./config/index.js";
 import { logger } from "./utils/logger.js";
 import { errorHandler, notFoundHandler } from "./middleware/error-handler.js";
+import { requestId } from "./middleware/request-id.js";
 import routes from "./routes/index.js";
 import { incidentDetector } from "./incidents/detector.js";
 import { healingEngine } from "./healing/engine.js";
 import { collectClusterMetrics } from "./metrics/cluster.metrics.js";
 import { escalationManager } from "./escalation/escalation.manager.js";
+import { notificationService } from "./escalation/notifications.js";
+import { notificationTemplates } from "./escalation/templates.js";
+import { notificationRouter } from "./escalation/routing.js";
+import { onCallManager } from "./escalation/oncall.js";
+import { restoreUsedNonces } from "./escalation/action-links.js";
+import { healingRulesManager } from "./healing/rules.js";
+import { approvalQueue } from "./healing/approvals.js";
+import { persistence } from "./persistence/index.js";
+import { userStore } from "./auth/users.js";
+import { teamStore } from "./auth/teams.js";
+import { apiKeyStore } from "./auth/api-keys.js";
+import { allowedNamespaces, inNamespaceScope } from "./auth/namespaces.js";
+import { auditLog } from "./audit/audit-log.js";
+import type { JwtPayload } from "./types/index.js";
 
 const app = express();
 const httpServer = createServer(app);
@@ -23,8 +39,9 @@ const io = new Server(httpServer, {
   },
 });
 
+app.use(requestId);
 app.use(helmet());
-app.use(cors({ origin: config.cors.origin }));
+app.use(cors({ origin: config.cors.origin, exposedHeaders: ["X-Request-Id"] }));
 app.use(express.json());
 
 const limiter = rateLimit({
@@ -40,6 +57,20 @@ app.use("/api/v1", routes);
 app.use(notFoundHandler);
 app.use(errorHandler);
 
+// Sockets carry the same JWT as API requests, in the handshake's `auth.token`
+io.use((socket, next) => {
+  const token = socket.handshake.auth?.token;
+  try {
+    const decoded = jwt.verify(token, config.jwt.secret) as JwtPayload;
+    const user = userStore.getUser(decoded.userId);
+    if (!user || user.disabled) throw new Error("Unknown user");
+    socket.data.user = { ...decoded, email: user.email, role: user.role, namespaces: allowedNamespaces(user) };
+    next();
+  } catch {
+    next(new Error("Authentication required"));
+  }
+});
+
 io.on("connection", (socket) => {
   logger.info({ socketId: socket.id }, "Client connected");
 
@@ -69,6 +100,25 @@ io.on("connection", (socket) => {
   });
 });
 
+approvalQueue.subscribe((event, approval) => {
+  for (const socket of io.sockets.sockets.values()) {
+    const user = socket.data.user as JwtPayload | undefined;
+    if (inNamespaceScope(user?.namespaces, approval.targetNamespace)) {
+      socket.emit(`approval:${event}`, approval);
+    }
+  }
+});
+
+incidentDetector.onDetected((incident) => {
+  notificationService.queueForDigest(incident).catch((error) => {
+    logger.error({ error, incidentId: incident.id }, "Failed to queue incident for digest");
+  });
+});
+
+incidentDetector.onResolved((incident) => {
+  notificationService.sendResolution(incident);
+});
+
 export function emitClusterUpdate(clusterId: string, data: unknown) {
   io.to(`cluster:${clusterId}`).emit("cluster:update", data);
 }
@@ -84,16 +134,27 @@ export function emitHealingEvent(clusterId: string, event: unknown) {
 async function sendOverviewUpdate() {
   try {
     const clusterMetrics = await collectClusterMetrics();
-    const incidentStats = incidentDetector.getStats();
     const escalationStats = escalationManager.getStats();
-    
-    const overview = {
-      cluster: clusterMetrics,
-      incidents: incidentStats,
-      escalations: escalationStats,
-      automationFrozen: escalationManager.isAutomationFrozen(),
-    };
-    io.to("overview").emit("overview:update", overview);
+    const automationFrozen = escalationManager.isAutomationFrozen();
+
+    // Incident counts follow each subscriber's namespaces, like the overview endpoint
+    const statsByScope = new Map<string, ReturnType<typeof incidentDetector.getStats>>();
+    for (const socket of await io.in("overview").fetchSockets()) {
+      const namespaces = (socket.data.user as JwtPayload | undefined)?.namespaces;
+      const scope = namespaces ? namespaces.join(",") : "*";
+      let incidentStats = statsByScope.get(scope);
+      if (!incidentStats) {
+        incidentStats = incidentDetector.getStats(namespaces);
+        statsByScope.set(scope, incidentStats);
+      }
+
+      socket.emit("overview:update", {
+        cluster: clusterMetrics,
+        incidents: incidentStats,
+        escalations: escalationStats,
+        automationFrozen,
+      });
+    }
   } catch (error) {
     logger.error({ error }, "Failed to send overview update");
   }
@@ -113,13 +174,41 @@ function stopOverviewUpdates() {
   }
 }
 
-function startServer() {
+async function restoreState() {
+  await persistence.initialize();
+  try {
+    await Promise.all([
+      incidentDetector.restore(),
+      healingRulesManager.restore(),
+      escalationManager.restore(),
+      notificationService.restore(),
+      notificationTemplates.restore(),
+      notificationRouter.restore(),
+      onCallManager.restore(),
+      restoreUsedNonces(),
+      approvalQueue.restore(),
+      healingEngine.restore(),
+      userStore.restore(),
+      teamStore.restore(),
+      apiKeyStore.restore(),
+      auditLog.restore(),
+    ]);
+  } catch (error) {
+    logger.error({ error }, "Failed to restore persisted state");
+  }
+}
+
+async function startServer() {
+  await restoreState();
+
   httpServer.listen(config.port, () => {
     logger.info({ port: config.port, env: config.nodeEnv }, "Server started");
     
     if (config.nodeEnv !== "test") {
       healingEngine.startEvaluation();
       incidentDetector.startDetection();
+      escalationManager.startScheduler();
+      notificationService.startBatching();
       startOverviewUpdates();
     }
   });
@@ -129,9 +218,12 @@ function gracefulShutdown() {
   logger.info("Shutting down gracefully...");
   healingEngine.stopEvaluation();
   incidentDetector.stopDetection();
+  escalationManager.stopScheduler();
+  notificationService.stopBatching();
   stopOverviewUpdates();
   
-  httpServer.close(() => {
+  httpServer.close(async () => {
+    await persistence.close();
     logger.info("Server closed");
     process.exit(0);
   });
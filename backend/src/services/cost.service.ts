@@ -1,6 +1,5 @@
-import { v4 as uuidv4 } from "uuid";
 import { createChildLogger } from "../utils/logger.js";
-import { healingService } from "./healing.service.js";
+import { healingRulesManager } from "../healing/rules.js";
 import { prometheusService } from "./prometheus.service.js";
 
 const logger = createChildLogger("cost-service");
@@ -52,7 +51,7 @@ export class CostService {
 
   async getCostMetrics(): Promise<CostMetrics> {
     // Calculate costs from healing events
-    const activity = healingService.getActivity(100, "all");
+    const activity = healingRulesManager.getEvents(100);
     
     let scaleDownSavings = 0;
     let scaleUpCosts = 0;
@@ -137,7 +136,7 @@ export class CostService {
 
     // Generate trend data from healing activity
     const trendHistory: TrendDataPoint[] = [];
-    const activity = healingService.getActivity(50, "all");
+    const activity = healingRulesManager.getEvents(50);
     const now = Date.now();
     const dayMs = 24 * 60 * 60 * 1000;
     
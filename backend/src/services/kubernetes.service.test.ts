@@ -0,0 +1,47 @@
+import { workloadFromOwners } from "./kubernetes.service.js";
+import type { Pod } from "../types/index.js";
+
+function pod(ownerReferences: Pod["ownerReferences"], labels: Record<string, string> = {}): Pod {
+  return {
+    id: "uid-1",
+    name: "api-7d9f8b6c5d-x2k4p",
+    namespace: "shop",
+    status: "running",
+    phase: "Running",
+    nodeName: "worker-1",
+    containers: [],
+    restarts: 0,
+    cpuUsage: 0,
+    memoryUsage: 0,
+    createdAt: new Date().toISOString(),
+    labels,
+    annotations: {},
+    ownerReferences,
+    ip: "",
+    volumes: [],
+  };
+}
+
+describe("workloadFromOwners", () => {
+  it("names the Deployment behind a ReplicaSet from the pod-template-hash", () => {
+    const owned = pod([{ kind: "ReplicaSet", name: "api-7d9f8b6c5d", uid: "rs" }], { "pod-template-hash": "7d9f8b6c5d" });
+
+    expect(workloadFromOwners(owned)).toEqual({ kind: "Deployment", name: "api", namespace: "shop" });
+  });
+
+  it("keeps a ReplicaSet whose name does not carry the hash", () => {
+    const owned = pod([{ kind: "ReplicaSet", name: "standalone", uid: "rs" }], { "pod-template-hash": "7d9f8b6c5d" });
+
+    expect(workloadFromOwners(owned)).toEqual({ kind: "ReplicaSet", name: "standalone", namespace: "shop" });
+  });
+
+  it("returns other workload owners as they are", () => {
+    expect(workloadFromOwners(pod([{ kind: "StatefulSet", name: "db", uid: "sts" }]))).toMatchObject({ kind: "StatefulSet", name: "db" });
+    expect(workloadFromOwners(pod([{ kind: "DaemonSet", name: "agent", uid: "ds" }]))).toMatchObject({ kind: "DaemonSet", name: "agent" });
+  });
+
+  it("has no workload for bare pods or unknown owners", () => {
+    expect(workloadFromOwners(pod([]))).toBeNull();
+    expect(workloadFromOwners(pod([{ kind: "Node", name: "worker-1", uid: "node" }]))).toBeNull();
+  });
+});
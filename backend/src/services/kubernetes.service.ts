@@ -1,14 +1,62 @@
 import * as k8s from "@kubernetes/client-node";
 import { createChildLogger } from "../utils/logger.js";
-import type { Node, Pod, Service, Namespace } from "../types/index.js";
+import type { Node, Pod, Service, Namespace, WorkloadReference, Rollout } from "../types/index.js";
 
 const logger = createChildLogger("kubernetes-service");
 
+export type WatchEventType = "add" | "update" | "delete";
+
+export interface ClusterEvent {
+  type: string;
+  reason: string;
+  message: string;
+  timestamp: string;
+  involvedObject: {
+    kind: string;
+    name: string;
+    namespace: string;
+  };
+}
+
+type PodListener = (type: WatchEventType, pod: Pod) => void;
+type NodeListener = (type: WatchEventType, node: Node) => void;
+type EventListener = (event: ClusterEvent) => void;
+
+// A dropped watch is re-established after 1s, doubling up to this cap
+const WATCH_MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+/**
+ * The workload that owns a pod, from its owner references alone. A ReplicaSet
+ * is named after its Deployment plus the pod-template-hash label, so the
+ * Deployment is known without reading the ReplicaSet.
+ */
+export function workloadFromOwners(pod: Pod): WorkloadReference | null {
+  const owner = pod.ownerReferences[0];
+  if (!owner) return null;
+
+  const hash = pod.labels["pod-template-hash"];
+  if (owner.kind === "ReplicaSet" && hash && owner.name.endsWith(`-${hash}`)) {
+    return { kind: "Deployment", name: owner.name.slice(0, -(hash.length + 1)), namespace: pod.namespace };
+  }
+
+  const workloadKinds: WorkloadReference["kind"][] = ["ReplicaSet", "StatefulSet", "DaemonSet", "Job"];
+  if (workloadKinds.includes(owner.kind as WorkloadReference["kind"])) {
+    return { kind: owner.kind as WorkloadReference["kind"], name: owner.name, namespace: pod.namespace };
+  }
+  return null;
+}
+
 export class KubernetesService {
   private kc: k8s.KubeConfig;
   private coreApi: k8s.CoreV1Api;
   private appsApi: k8s.AppsV1Api;
   private mockPods: Map<string, Pod> = new Map();
+  private informers: Array<k8s.Informer<k8s.KubernetesObject>> = [];
+  private watchRetryTimers: Set<NodeJS.Timeout> = new Set();
+  private watching = false;
+  private podListeners: Set<PodListener> = new Set();
+  private nodeListeners: Set<NodeListener> = new Set();
+  private eventListeners: Set<EventListener> = new Set();
 
   constructor() {
     this.kc = new k8s.KubeConfig();
@@ -45,6 +93,69 @@ export class KubernetesService {
     }
   }
 
+  async getPod(namespace: string, name: string): Promise<Pod | null> {
+    const mockPod = this.mockPods.get(`${namespace}/${name}`);
+    if (mockPod) return mockPod;
+
+    try {
+      const response = await this.coreApi.readNamespacedPod(name, namespace);
+      return this.mapPod(response.body);
+    } catch (error: any) {
+      if (error?.response?.statusCode === 404) {
+        return null;
+      }
+      logger.error({ error, namespace, name }, "Failed to get pod");
+      throw error;
+    }
+  }
+
+  /**
+   * Follows a pod's controller ownerReference up to the top-level workload,
+   * e.g. Pod -> ReplicaSet -> Deployment. Returns null for bare pods.
+   */
+  async resolveWorkload(namespace: string, podName: string): Promise<WorkloadReference | null> {
+    const pod = await this.getPod(namespace, podName);
+    const owner = pod?.ownerReferences[0];
+    if (!owner) return null;
+
+    if (owner.kind === "ReplicaSet") {
+      try {
+        const response = await this.appsApi.readNamespacedReplicaSet(owner.name, namespace);
+        const deployment = response.body.metadata?.ownerReferences?.find((o) => o.kind === "Deployment");
+        if (deployment) {
+          return { kind: "Deployment", name: deployment.name, namespace };
+        }
+      } catch (error) {
+        logger.error({ error, namespace, replicaSet: owner.name }, "Failed to read ReplicaSet owner");
+        throw error;
+      }
+    }
+
+    const workloadKinds: WorkloadReference["kind"][] = ["ReplicaSet", "StatefulSet", "DaemonSet", "Job"];
+    if (workloadKinds.includes(owner.kind as WorkloadReference["kind"])) {
+      return { kind: owner.kind as WorkloadReference["kind"], name: owner.name, namespace };
+    }
+    return null;
+  }
+
+  async getWorkloadPods(workload: WorkloadReference): Promise<Pod[]> {
+    const pods = await this.getPods(workload.namespace);
+
+    if (workload.kind === "Deployment") {
+      // Deployment pods are owned by a ReplicaSet, so match on the selector instead
+      const deployment = await this.getDeployment(workload.namespace, workload.name);
+      const selector = deployment.spec?.selector?.matchLabels || {};
+      if (Object.keys(selector).length === 0) return [];
+      return pods.filter((pod) =>
+        Object.entries(selector).every(([key, value]) => pod.labels[key] === value)
+      );
+    }
+
+    return pods.filter((pod) =>
+      pod.ownerReferences.some((o) => o.kind === workload.kind && o.name === workload.name)
+    );
+  }
+
   async getServices(namespace?: string): Promise<Service[]> {
     try {
       const response = namespace
@@ -135,39 +246,87 @@ export class KubernetesService {
     }
   }
 
-  async getAllEvents(namespace?: string): Promise<Array<{
-    type: string;
-    reason: string;
-    message: string;
-    timestamp: string;
-    involvedObject: {
-      kind: string;
-      name: string;
-      namespace: string;
-    };
-  }>> {
+  async getAllEvents(namespace?: string): Promise<ClusterEvent[]> {
     try {
       const response = namespace
         ? await this.coreApi.listNamespacedEvent(namespace)
         : await this.coreApi.listEventForAllNamespaces();
       
-      return response.body.items.map((event) => ({
-        type: event.type || "Normal",
-        reason: event.reason || "Unknown",
-        message: event.message || "",
-        timestamp: (event.lastTimestamp || event.eventTime || new Date().toISOString()) as string,
-        involvedObject: {
-          kind: event.involvedObject?.kind || "Unknown",
-          name: event.involvedObject?.name || "Unknown",
-          namespace: event.involvedObject?.namespace || namespace || "default",
-        },
-      }));
+      return response.body.items.map((event) => this.mapEvent(event, namespace));
     } catch (error) {
       logger.error({ error, namespace }, "Failed to get all events");
       return [];
     }
   }
 
+  onPodChange(listener: PodListener): () => void {
+    this.podListeners.add(listener);
+    return () => this.podListeners.delete(listener);
+  }
+
+  onNodeChange(listener: NodeListener): () => void {
+    this.nodeListeners.add(listener);
+    return () => this.nodeListeners.delete(listener);
+  }
+
+  /** Warning events as the cluster records them, e.g. BackOff, Evicted, FailedScheduling. */
+  onWarningEvent(listener: EventListener): () => void {
+    this.eventListeners.add(listener);
+    return () => this.eventListeners.delete(listener);
+  }
+
+  /**
+   * Opens list+watch streams on Pods, Nodes and Warning Events and fans
+   * changes out to the registered listeners. The initial list is delivered
+   * as "add" for every object. Dropped streams are re-established with
+   * exponential backoff until stopWatches() is called.
+   */
+  startWatches(): void {
+    if (this.watching) return;
+    this.watching = true;
+
+    const pods = k8s.makeInformer(this.kc, "/api/v1/pods", () => this.coreApi.listPodForAllNamespaces());
+    for (const type of ["add", "update", "delete"] as const) {
+      pods.on(type, (pod) => this.emitPod(type, this.mapPod(pod)));
+    }
+
+    const nodes = k8s.makeInformer(this.kc, "/api/v1/nodes", () => this.coreApi.listNode());
+    for (const type of ["add", "update", "delete"] as const) {
+      nodes.on(type, (node) => this.emitNode(type, this.mapNode(node)));
+    }
+
+    // The initial list replays old events; only react to what happens from now on
+    const watchStartedAt = Date.now();
+    const events = k8s.makeInformer(
+      this.kc,
+      "/api/v1/events",
+      () => this.coreApi.listEventForAllNamespaces(undefined, undefined, "type=Warning"),
+      undefined,
+      "type=Warning"
+    );
+    for (const type of ["add", "update"] as const) {
+      events.on(type, (event) => {
+        const mapped = this.mapEvent(event);
+        if (new Date(mapped.timestamp).getTime() >= watchStartedAt) this.emitEvent(mapped);
+      });
+    }
+
+    this.runInformer("pods", pods);
+    this.runInformer("nodes", nodes);
+    this.runInformer("events", events);
+  }
+
+  async stopWatches(): Promise<void> {
+    if (!this.watching) return;
+    this.watching = false;
+
+    for (const timer of this.watchRetryTimers) clearTimeout(timer);
+    this.watchRetryTimers.clear();
+    await Promise.all(this.informers.map((informer) => informer.stop().catch(() => undefined)));
+    this.informers = [];
+    logger.info("Kubernetes watches stopped");
+  }
+
   async getPodLogs(namespace: string, podName: string, tailLines: number = 100): Promise<string> {
     try {
       const response = await this.coreApi.readNamespacedPodLog(
@@ -199,6 +358,7 @@ export class KubernetesService {
       state: string;
       stateReason?: string;
       stateMessage?: string;
+      lastTerminationReason?: string;
     }>;
   } | null> {
     try {
@@ -237,6 +397,7 @@ export class KubernetesService {
             state,
             stateReason,
             stateMessage,
+            lastTerminationReason: cs.lastState?.terminated?.reason,
           };
         }),
       };
@@ -246,7 +407,7 @@ export class KubernetesService {
     }
   }
 
-  async deletePod(namespace: string, name: string): Promise<void> {
+  async deletePod(namespace: string, name: string, gracePeriodSeconds?: number): Promise<void> {
     const mockKey = `${namespace}/${name}`;
     if (this.mockPods.has(mockKey)) {
       this.mockPods.delete(mockKey);
@@ -255,8 +416,8 @@ export class KubernetesService {
     }
 
     try {
-      await this.coreApi.deleteNamespacedPod(name, namespace);
-      logger.info({ namespace, name }, "Pod deleted");
+      await this.coreApi.deleteNamespacedPod(name, namespace, undefined, undefined, gracePeriodSeconds);
+      logger.info({ namespace, name, gracePeriodSeconds }, "Pod deleted");
     } catch (error) {
       logger.error({ error, namespace, name }, "Failed to delete pod");
       throw error;
@@ -373,6 +534,134 @@ export class KubernetesService {
     }
   }
 
+  async getDeployment(namespace: string, name: string): Promise<k8s.V1Deployment> {
+    try {
+      const response = await this.appsApi.readNamespacedDeployment(name, namespace);
+      return response.body;
+    } catch (error) {
+      logger.error({ error, namespace, name }, "Failed to get deployment");
+      throw error;
+    }
+  }
+
+  /**
+   * Deployments whose newest ReplicaSet was created within the window. The
+   * first revision is not a rollout: there is nothing to compare against or
+   * roll back to.
+   */
+  async getRecentRollouts(withinMs: number): Promise<Rollout[]> {
+    const REVISION_ANNOTATION = "deployment.kubernetes.io/revision";
+
+    try {
+      const response = await this.appsApi.listReplicaSetForAllNamespaces();
+      const newest = new Map<string, Rollout>();
+
+      for (const rs of response.body.items) {
+        const owner = rs.metadata?.ownerReferences?.find((o) => o.kind === "Deployment");
+        const revision = parseInt(rs.metadata?.annotations?.[REVISION_ANNOTATION] || "0", 10);
+        if (!owner || revision === 0) continue;
+
+        const namespace = rs.metadata?.namespace || "default";
+        const key = `${namespace}/${owner.name}`;
+        if ((newest.get(key)?.revision ?? 0) >= revision) continue;
+
+        newest.set(key, {
+          namespace,
+          deployment: owner.name,
+          replicaSet: rs.metadata?.name || "",
+          revision,
+          startedAt: rs.metadata?.creationTimestamp?.toISOString() || "",
+        });
+      }
+
+      const since = Date.now() - withinMs;
+      return Array.from(newest.values()).filter(
+        (rollout) => rollout.revision > 1 && new Date(rollout.startedAt).getTime() >= since
+      );
+    } catch (error) {
+      logger.error({ error }, "Failed to list recent rollouts");
+      return [];
+    }
+  }
+
+  async patchDeploymentResources(
+    namespace: string,
+    name: string,
+    containers: Array<{ name: string; resources: k8s.V1ResourceRequirements }>
+  ): Promise<void> {
+    try {
+      await this.appsApi.patchNamespacedDeployment(
+        name,
+        namespace,
+        { spec: { template: { spec: { containers } } } },
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { headers: { "Content-Type": "application/strategic-merge-patch+json" } }
+      );
+      logger.info({ namespace, name, containers: containers.map((c) => c.name) }, "Deployment resources patched");
+    } catch (error) {
+      logger.error({ error, namespace, name }, "Failed to patch deployment resources");
+      throw error;
+    }
+  }
+
+  /**
+   * Equivalent of `kubectl rollout undo`: restores the pod template of the
+   * newest ReplicaSet revision older than the deployment's current one.
+   */
+  async rollbackDeployment(namespace: string, name: string): Promise<{
+    fromRevision: number;
+    toRevision: number;
+    replicaSet: string;
+  }> {
+    const REVISION_ANNOTATION = "deployment.kubernetes.io/revision";
+
+    try {
+      const deployment = await this.getDeployment(namespace, name);
+      const currentRevision = parseInt(deployment.metadata?.annotations?.[REVISION_ANNOTATION] || "0", 10);
+
+      const response = await this.appsApi.listNamespacedReplicaSet(namespace);
+      const previous = response.body.items
+        .filter((rs) => rs.metadata?.ownerReferences?.some((o) => o.uid === deployment.metadata?.uid))
+        .map((rs) => ({ rs, revision: parseInt(rs.metadata?.annotations?.[REVISION_ANNOTATION] || "0", 10) }))
+        .filter((r) => r.revision > 0 && r.revision < currentRevision)
+        .sort((a, b) => b.revision - a.revision)[0];
+
+      if (!previous?.rs.spec?.template) {
+        throw new Error(`Deployment ${name} has no previous revision to roll back to`);
+      }
+
+      const template = JSON.parse(JSON.stringify(previous.rs.spec.template)) as k8s.V1PodTemplateSpec;
+      delete template.metadata?.labels?.["pod-template-hash"];
+
+      await this.appsApi.patchNamespacedDeployment(
+        name,
+        namespace,
+        [{ op: "replace", path: "/spec/template", value: template }],
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { headers: { "Content-Type": "application/json-patch+json" } }
+      );
+
+      const result = {
+        fromRevision: currentRevision,
+        toRevision: previous.revision,
+        replicaSet: previous.rs.metadata?.name || "",
+      };
+      logger.info({ namespace, name, ...result }, "Deployment rolled back");
+      return result;
+    } catch (error) {
+      logger.error({ error, namespace, name }, "Failed to roll back deployment");
+      throw error;
+    }
+  }
+
   async createNamespace(name: string): Promise<void> {
     try {
       const ns: k8s.V1Namespace = {
@@ -538,6 +827,170 @@ export class KubernetesService {
     }
   }
 
+  /**
+   * Cordons the node and evicts its pods through the Eviction API so
+   * PodDisruptionBudgets are honored. Evictions rejected by a PDB (HTTP 429)
+   * are retried until `timeoutSeconds` elapses. DaemonSet and mirror pods are
+   * skipped like `kubectl drain --ignore-daemonsets`; bare pods are reported
+   * as failures because nothing would recreate them.
+   */
+  async drainNode(
+    name: string,
+    options: { gracePeriodSeconds?: number; timeoutSeconds?: number; retryIntervalSeconds?: number } = {}
+  ): Promise<{
+    evicted: string[];
+    skipped: string[];
+    failed: Array<{ pod: string; reason: string }>;
+  }> {
+    const timeoutMs = (options.timeoutSeconds ?? 300) * 1000;
+    const retryMs = (options.retryIntervalSeconds ?? 5) * 1000;
+    const deadline = Date.now() + timeoutMs;
+
+    await this.cordonNode(name);
+
+    const response = await this.coreApi.listPodForAllNamespaces(
+      undefined,
+      undefined,
+      `spec.nodeName=${name}`
+    );
+
+    const evicted: string[] = [];
+    const skipped: string[] = [];
+    const failed: Array<{ pod: string; reason: string }> = [];
+
+    await Promise.all(response.body.items.map(async (pod) => {
+      const podName = pod.metadata?.name || "";
+      const podNamespace = pod.metadata?.namespace || "default";
+      const key = `${podNamespace}/${podName}`;
+      const owners = pod.metadata?.ownerReferences || [];
+
+      if (owners.some((o) => o.kind === "DaemonSet") || pod.metadata?.annotations?.["kubernetes.io/config.mirror"]) {
+        skipped.push(key);
+        return;
+      }
+      if (owners.length === 0) {
+        failed.push({ pod: key, reason: "Pod has no controller and would not be recreated" });
+        return;
+      }
+
+      while (true) {
+        try {
+          await this.coreApi.createNamespacedPodEviction(podName, podNamespace, {
+            apiVersion: "policy/v1",
+            kind: "Eviction",
+            metadata: { name: podName, namespace: podNamespace },
+            deleteOptions: { gracePeriodSeconds: options.gracePeriodSeconds },
+          });
+          evicted.push(key);
+          return;
+        } catch (error: any) {
+          const statusCode = error?.response?.statusCode;
+          if (statusCode === 404) {
+            evicted.push(key);
+            return;
+          }
+          if (statusCode === 429 && Date.now() + retryMs < deadline) {
+            await new Promise((resolve) => setTimeout(resolve, retryMs));
+            continue;
+          }
+          failed.push({
+            pod: key,
+            reason: statusCode === 429
+              ? "Eviction blocked by PodDisruptionBudget"
+              : error?.body?.message || error?.message || "Eviction failed",
+          });
+          return;
+        }
+      }
+    }));
+
+    logger.info({ name, evicted: evicted.length, skipped: skipped.length, failed: failed.length }, "Node drained");
+    return { evicted, skipped, failed };
+  }
+
+  private runInformer<T extends k8s.KubernetesObject>(resource: string, informer: k8s.Informer<T>): void {
+    this.informers.push(informer as unknown as k8s.Informer<k8s.KubernetesObject>);
+    let backoffMs = 1000;
+
+    const restart = () => {
+      if (!this.watching) return;
+      logger.warn({ resource, retryInMs: backoffMs }, "Kubernetes watch dropped, retrying");
+      const timer = setTimeout(() => {
+        this.watchRetryTimers.delete(timer);
+        start();
+      }, backoffMs);
+      this.watchRetryTimers.add(timer);
+      backoffMs = Math.min(backoffMs * 2, WATCH_MAX_BACKOFF_MS);
+    };
+
+    // start() resolves once the initial list is done and the watch is open
+    const start = () => {
+      if (!this.watching) return;
+      informer
+        .start()
+        .then(() => {
+          backoffMs = 1000;
+          logger.info({ resource }, "Kubernetes watch established");
+        })
+        .catch((error) => {
+          logger.error({ error, resource }, "Failed to start Kubernetes watch");
+          restart();
+        });
+    };
+
+    // The informer stops itself on error, so it has to be started again
+    informer.on("error", (error) => {
+      logger.error({ error, resource }, "Kubernetes watch error");
+      restart();
+    });
+
+    start();
+  }
+
+  private emitPod(type: WatchEventType, pod: Pod): void {
+    for (const listener of this.podListeners) {
+      try {
+        listener(type, pod);
+      } catch (error) {
+        logger.error({ error, pod: `${pod.namespace}/${pod.name}` }, "Pod watch listener failed");
+      }
+    }
+  }
+
+  private emitNode(type: WatchEventType, node: Node): void {
+    for (const listener of this.nodeListeners) {
+      try {
+        listener(type, node);
+      } catch (error) {
+        logger.error({ error, node: node.name }, "Node watch listener failed");
+      }
+    }
+  }
+
+  private emitEvent(event: ClusterEvent): void {
+    for (const listener of this.eventListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error({ error, reason: event.reason }, "Event watch listener failed");
+      }
+    }
+  }
+
+  private mapEvent(event: k8s.CoreV1Event, namespace?: string): ClusterEvent {
+    return {
+      type: event.type || "Normal",
+      reason: event.reason || "Unknown",
+      message: event.message || "",
+      timestamp: (event.lastTimestamp || event.eventTime || new Date().toISOString()) as string,
+      involvedObject: {
+        kind: event.involvedObject?.kind || "Unknown",
+        name: event.involvedObject?.name || "Unknown",
+        namespace: event.involvedObject?.namespace || namespace || "default",
+      },
+    };
+  }
+
   private mapNode(node: k8s.V1Node): Node {
     const status = node.status;
     const readyCondition = status?.conditions?.find((c) => c.type === "Ready");
@@ -581,9 +1034,11 @@ export class KubernetesService {
       namespace: pod.metadata?.namespace || "",
       status: this.mapPodStatus(status?.phase),
       phase: (status?.phase || "Unknown") as Pod["phase"],
+      reason: status?.reason,
       nodeName: pod.spec?.nodeName || "",
       containers: (pod.spec?.containers || []).map((c, idx) => {
-        const containerStatus = status?.containerStatuses?.[idx];
+        const containerStatus = status?.containerStatuses?.find((s) => s.name === c.name)
+          ?? status?.containerStatuses?.[idx];
         return {
           name: c.name,
           image: c.image || "",
@@ -592,6 +1047,8 @@ export class KubernetesService {
             : containerStatus?.state?.waiting
             ? "waiting"
             : "terminated",
+          reason: containerStatus?.state?.waiting?.reason ?? containerStatus?.state?.terminated?.reason,
+          lastTerminationReason: containerStatus?.lastState?.terminated?.reason,
           ready: containerStatus?.ready || false,
           restartCount: containerStatus?.restartCount || 0,
           cpuUsage: 0,
@@ -675,14 +1132,22 @@ export class KubernetesService {
     }
   }
 
-  private parseCpu(cpu: string): number {
+  parseCpu(cpu: string): number {
     if (cpu.endsWith("m")) {
       return parseInt(cpu.slice(0, -1), 10);
     }
-    return parseInt(cpu, 10) * 1000;
+    return Math.round(parseFloat(cpu) * 1000);
+  }
+
+  formatCpu(millicores: number): string {
+    return `${Math.ceil(millicores)}m`;
+  }
+
+  formatMemory(bytes: number): string {
+    return `${Math.ceil(bytes / (1024 * 1024))}Mi`;
   }
 
-  private parseMemory(memory: string): number {
+  parseMemory(memory: string): number {
     const units: Record<string, number> = {
       Ki: 1024,
       Mi: 1024 * 1024,
@@ -97,7 +97,7 @@ export class NodeUtilizationService {
   private async fetchNodeUtilization(): Promise<NodeUtilizationResponse> {
     const prometheusConnected = await prometheusService.checkConnection();
     let nodes: NodeUtilData[] = [];
-    let dataQuality: NodeUtilizationResponse["dataQuality"] = {
+    const dataQuality: NodeUtilizationResponse["dataQuality"] = {
       hasPrometheus: prometheusConnected,
       mode: prometheusConnected ? "real-usage" : "unavailable",
     };
@@ -1,7 +1,7 @@
 import { createChildLogger } from "../utils/logger.js";
 import { prometheusService } from "./prometheus.service.js";
-import { incidentService } from "./incident.service.js";
-import { healingService } from "./healing.service.js";
+import { incidentDetector } from "../incidents/detector.js";
+import { healingRulesManager } from "../healing/rules.js";
 
 const logger = createChildLogger("operational-cost-risk-service");
 
@@ -84,7 +84,7 @@ export class OperationalCostRiskService {
   private async fetchOperationalCostRisk(): Promise<OperationalCostRiskResponse> {
     const prometheusConnected = await prometheusService.checkConnection();
     let nodes: NodeUtil[] = [];
-    let dataQuality: DataQuality = {
+    const dataQuality: DataQuality = {
       hasPrometheus: prometheusConnected,
       mode: prometheusConnected ? "real-usage" : "unavailable",
     };
@@ -341,10 +341,10 @@ export class OperationalCostRiskService {
 
   private async checkIneffectiveScaling(): Promise<CostInsight | null> {
     try {
-      const activeIncidents = incidentService.getIncidents("open");
+      const activeIncidents = incidentDetector.getIncidents("open");
       if (activeIncidents.length === 0) return null;
 
-      const recentActivity = healingService.getActivity(20, "all");
+      const recentActivity = healingRulesManager.getEvents(20);
       const scalingEvents = recentActivity.filter(
         (a) => a.action === "scale-deployment" && a.status === "success"
       );
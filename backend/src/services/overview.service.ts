@@ -74,6 +74,24 @@ export class OverviewService {
     }
   }
 
+  /**
+   * The overview limited to service groups in the given namespaces, with pod
+   * counts recomputed. Cluster capacity and usage stay cluster-wide.
+   */
+  scopeToNamespaces(overview: ClusterOverview, namespaces?: string[]): ClusterOverview {
+    if (!namespaces) return overview;
+
+    const services = overview.services.filter((sg) => namespaces.includes(sg.namespace));
+    return {
+      ...overview,
+      services,
+      totalPods: services.reduce((sum, sg) => sum + sg.pods.length, 0),
+      healthyPods: services.reduce((sum, sg) => sum + sg.healthyCount, 0),
+      healingPods: services.reduce((sum, sg) => sum + sg.healingCount, 0),
+      failedPods: services.reduce((sum, sg) => sum + sg.failedCount, 0),
+    };
+  }
+
   private groupPodsByService(
     pods: Awaited<ReturnType<typeof kubernetesService.getPods>>,
     services: Awaited<ReturnType<typeof kubernetesService.getServices>>,
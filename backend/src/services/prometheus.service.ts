@@ -120,8 +120,7 @@ export class PrometheusService {
       }
       
       return this.isConnected;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    } catch {
       this.isConnected = false;
       return false;
     }
@@ -2,7 +2,7 @@ import { v4 as uuidv4 } from "uuid";
 import { createChildLogger } from "../utils/logger.js";
 import { kubernetesService } from "./kubernetes.service.js";
 import { incidentDetector } from "../incidents/detector.js";
-import type { SimulationScenario, SimulationRun, ScenarioType, SimulationStatus, Pod } from "../types/index.js";
+import type { SimulationScenario, SimulationRun } from "../types/index.js";
 
 const logger = createChildLogger("simulator-service");
 
@@ -308,7 +308,7 @@ export class SimulatorService {
   }
 
   private async executeSimulation(simulation: ActiveSimulation) {
-    const { scenario, config, run } = simulation;
+    const { scenario } = simulation;
 
     switch (scenario.type) {
       case "pod-failure":
@@ -511,7 +511,7 @@ export class SimulatorService {
   }
 
   private async executeCpuStress(simulation: ActiveSimulation) {
-    const { config, run, scenario } = simulation;
+    const { run, scenario } = simulation;
     const cpuLoad = (scenario.parameters.cpuLoad as number) || 80;
     const serviceMapping = this.simulationServiceMapping[scenario.type] || { serviceName: "streaming-service", namespace: "ott-platform" };
     const namespace = serviceMapping.namespace;
@@ -566,7 +566,7 @@ export class SimulatorService {
   }
 
   private async executeMemoryStress(simulation: ActiveSimulation) {
-    const { config, run, scenario } = simulation;
+    const { run, scenario } = simulation;
     const memoryMB = (scenario.parameters.memoryMB as number) || 256;
     const serviceMapping = this.simulationServiceMapping[scenario.type] || { serviceName: "cdn-cache", namespace: "ott-platform" };
     const namespace = serviceMapping.namespace;
@@ -1,6 +1,6 @@
 import { v4 as uuidv4 } from "uuid";
 import { createChildLogger } from "../utils/logger.js";
-import { scenarioManager, type SimulationScenario, type SimulationRun, type SimulationMetric } from "./scenarios.js";
+import { scenarioManager, type SimulationScenario, type SimulationRun } from "./scenarios.js";
 import { incidentDetector } from "../incidents/detector.js";
 import { geminiClassifier } from "../services/gemini-classifier.service.js";
 import { customPodSimulator } from "./custom-pod-simulator.js";
@@ -159,7 +159,7 @@ class SimulationRunner {
   }
 
   private async executeScenario(simulation: ActiveSimulation) {
-    const { scenario, run } = simulation;
+    const { scenario } = simulation;
 
     switch (scenario.type) {
       case "oom-killed":
@@ -56,6 +56,8 @@ export interface Pod {
   namespace: string;
   status: PodStatus;
   phase: PodPhase;
+  // Set on pods the kubelet gave up on, e.g. Evicted
+  reason?: string;
   nodeName: string;
   containers: Container[];
   restarts: number;
@@ -83,6 +85,10 @@ export interface Container {
   name: string;
   image: string;
   status: ContainerStatus;
+  // Why the container is waiting or terminated, e.g. CrashLoopBackOff or OOMKilled
+  reason?: string;
+  // Why the previous run of the container ended
+  lastTerminationReason?: string;
   ready: boolean;
   restartCount: number;
   cpuUsage: number;
@@ -104,6 +110,23 @@ export interface OwnerReference {
   uid: string;
 }
 
+export type WorkloadKind = "Deployment" | "StatefulSet" | "DaemonSet" | "ReplicaSet" | "Job";
+
+export interface WorkloadReference {
+  kind: WorkloadKind;
+  name: string;
+  namespace: string;
+}
+
+/** A Deployment whose newest ReplicaSet was created recently. */
+export interface Rollout {
+  namespace: string;
+  deployment: string;
+  replicaSet: string;
+  revision: number;
+  startedAt: string;
+}
+
 export interface Service {
   id: string;
   name: string;
@@ -134,27 +157,12 @@ export interface Endpoint {
   ready: boolean;
 }
 
-export interface HealingRule {
-  id: string;
-  name: string;
-  description: string;
-  enabled: boolean;
-  trigger: HealingTrigger;
-  action: HealingAction;
-  cooldownSeconds: number;
-  lastTriggered?: string;
-  triggerCount: number;
-  createdAt: string;
-}
-
 export interface HealingTrigger {
-  type: TriggerType;
+  resourceType: "pod" | "node";
   conditions: TriggerCondition[];
   operator: "AND" | "OR";
 }
 
-export type TriggerType = "pod-crash" | "high-cpu" | "high-memory" | "oom-killed" | "node-pressure" | "custom";
-
 export interface TriggerCondition {
   metric: string;
   operator: ">" | "<" | ">=" | "<=" | "==" | "!=";
@@ -162,29 +170,9 @@ export interface TriggerCondition {
   duration: string;
 }
 
-export interface HealingAction {
-  type: ActionType;
-  parameters: Record<string, unknown>;
-}
-
-export type ActionType = "restart-pod" | "scale-deployment" | "cordon-node" | "drain-node" | "custom-script" | "notify";
-
-export interface HealingEvent {
-  id: string;
-  ruleId: string;
-  ruleName: string;
-  timestamp: string;
-  status: "success" | "failed" | "in-progress" | "skipped";
-  targetResource: string;
-  targetNamespace: string;
-  action: ActionType;
-  details: string;
-  duration: number;
-  trigger?: string;
-  outcome?: string;
-  actionLabel?: string;
-  fromReplicas?: number;
-  toReplicas?: number;
+export interface ResourceSelector {
+  namespaces?: string[];
+  labels?: Record<string, string>;
 }
 
 export interface SimulationScenario {
@@ -262,6 +250,16 @@ export interface User {
   email: string;
   name: string;
   role: UserRole;
+  // Namespaces granted directly and through teams; a non-admin with neither sees every namespace
+  namespaces?: string[];
+  teams?: string[];
+  createdAt: string;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  namespaces: string[];
   createdAt: string;
 }
 
@@ -271,6 +269,8 @@ export interface JwtPayload {
   userId: string;
   email: string;
   role: UserRole;
+  // Resolved on each request, never signed into the token; absent means every namespace
+  namespaces?: string[];
   iat?: number;
   exp?: number;
 }
@@ -0,0 +1,65 @@
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  // 0 = Sunday
+  weekday: number;
+  // Minutes since local midnight
+  minutes: number;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** "HH:MM" to minutes since midnight. */
+export function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/** Calendar date and wall-clock time of `date` in a time zone. */
+export function zonedParts(date: Date, timezone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+
+  return {
+    year: Number(get("year")),
+    month: Number(get("month")),
+    day: Number(get("day")),
+    weekday: WEEKDAYS.indexOf(get("weekday")),
+    minutes: Number(get("hour")) * 60 + Number(get("minute")),
+  };
+}
+
+/**
+ * The instant a wall-clock time occurs in a time zone. Takes the zone's
+ * offset at a first guess and corrects once, which settles across DST changes.
+ */
+export function zonedTimeToUtc(year: number, month: number, day: number, minutes: number, timezone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  const offsetAt = (instant: number) => {
+    const p = zonedParts(new Date(instant), timezone);
+    return Date.UTC(p.year, p.month - 1, p.day, 0, p.minutes) - Math.floor(instant / 60000) * 60000;
+  };
+
+  let instant = wallClock - offsetAt(wallClock);
+  instant = wallClock - offsetAt(instant);
+  return new Date(instant);
+}
@@ -0,0 +1,348 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import {
+  RefreshCw,
+  Loader2,
+  Download,
+  ChevronDown,
+  ChevronRight,
+  ChevronLeft,
+  User,
+  Bot,
+  MessageSquare,
+  Key,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAudit, type AuditEntry, type AuditFilters, type AuditActorType } from "@/hooks/use-audit";
+import { cn } from "@/lib/utils";
+
+const ACTOR_ICONS: Record<AuditActorType, typeof User> = {
+  user: User,
+  "api-key": Key,
+  responder: MessageSquare,
+  system: Bot,
+};
+
+function formatState(value: unknown): string {
+  return value === undefined ? "—" : JSON.stringify(value, null, 2);
+}
+
+// <input type="datetime-local"> gives local time without a zone
+function toIso(value: string): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
+
+function AuditDetails({ entry }: { entry: AuditEntry }) {
+  return (
+    <div className="space-y-3 p-3">
+      {entry.message && <p className="text-sm">{entry.message}</p>}
+      <div className="grid gap-3 md:grid-cols-2">
+        <div>
+          <p className="text-xs font-medium text-muted-foreground mb-1">Before</p>
+          <pre className="text-xs bg-muted/50 rounded-md p-2 overflow-auto max-h-64">
+            {formatState(entry.before)}
+          </pre>
+        </div>
+        <div>
+          <p className="text-xs font-medium text-muted-foreground mb-1">After</p>
+          <pre className="text-xs bg-muted/50 rounded-md p-2 overflow-auto max-h-64">
+            {formatState(entry.after)}
+          </pre>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Entry {entry.id}
+        {entry.requestId && <> · Request {entry.requestId}</>}
+      </p>
+    </div>
+  );
+}
+
+export default function AuditPage() {
+  const [actor, setActor] = useState("");
+  const [actorType, setActorType] = useState("all");
+  const [action, setAction] = useState("all");
+  const [outcome, setOutcome] = useState("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<"csv" | "json" | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const filters: AuditFilters = {
+    actor: actor.trim() || undefined,
+    actorType: actorType === "all" ? undefined : (actorType as AuditActorType),
+    action: action === "all" ? undefined : action,
+    outcome: outcome === "all" ? undefined : (outcome as AuditFilters["outcome"]),
+    from: toIso(from),
+    to: toIso(to),
+  };
+
+  const { entries, actions, pagination, page, setPage, isLoading, error, refetch, exportAudit } =
+    useAudit(filters);
+
+  const handleExport = async (format: "csv" | "json") => {
+    setExporting(format);
+    setExportError(null);
+    const result = await exportAudit(format);
+    if (!result.success) setExportError(result.message ?? null);
+    setExporting(null);
+  };
+
+  // Offer "healing." style prefixes alongside the individual actions
+  const actionPrefixes = Array.from(new Set(actions.map((a) => `${a.split(".")[0]}.`)));
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 bg-transparent min-h-screen p-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Audit Log</h1>
+          <p className="text-sm text-muted-foreground">
+            Every operator and automated action, with before and after state
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {(["csv", "json"] as const).map((format) => (
+            <Button
+              key={format}
+              variant="outline"
+              size="sm"
+              onClick={() => handleExport(format)}
+              disabled={exporting !== null}
+            >
+              {exporting === format ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Download className="mr-2 h-4 w-4" />
+              )}
+              {format.toUpperCase()}
+            </Button>
+          ))}
+          <Button variant="outline" size="sm" onClick={() => refetch()}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <Input
+          placeholder="Actor (email or component)"
+          value={actor}
+          onChange={(e) => setActor(e.target.value)}
+          className="w-[220px] h-9"
+        />
+        <Select value={actorType} onValueChange={setActorType}>
+          <SelectTrigger className="w-[150px] bg-background border-border h-9">
+            <SelectValue placeholder="Actor: All" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Actor: All</SelectItem>
+            <SelectItem value="user">Users</SelectItem>
+            <SelectItem value="api-key">API keys</SelectItem>
+            <SelectItem value="responder">Responders</SelectItem>
+            <SelectItem value="system">Automation</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={action} onValueChange={setAction}>
+          <SelectTrigger className="w-[220px] bg-background border-border h-9">
+            <SelectValue placeholder="Action: All" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Action: All</SelectItem>
+            {actionPrefixes.map((prefix) => (
+              <SelectItem key={prefix} value={prefix}>
+                {prefix}*
+              </SelectItem>
+            ))}
+            {actions.map((a) => (
+              <SelectItem key={a} value={a}>
+                {a}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={outcome} onValueChange={setOutcome}>
+          <SelectTrigger className="w-[150px] bg-background border-border h-9">
+            <SelectValue placeholder="Outcome: All" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Outcome: All</SelectItem>
+            <SelectItem value="success">Success</SelectItem>
+            <SelectItem value="failure">Failure</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          type="datetime-local"
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+          className="w-[200px] h-9"
+          aria-label="From"
+        />
+        <Input
+          type="datetime-local"
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          className="w-[200px] h-9"
+          aria-label="To"
+        />
+      </div>
+
+      {(error || exportError) && (
+        <p className="text-sm text-red-400">{error || exportError}</p>
+      )}
+
+      <Card className="bg-card/50 border-border/50">
+        <CardHeader>
+          <CardTitle className="text-lg">
+            Entries
+            <span className="ml-2 text-sm font-normal text-muted-foreground">
+              {pagination.total}
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border border-border/50">
+            <Table>
+              <TableHeader>
+                <TableRow className="hover:bg-transparent">
+                  <TableHead className="w-8" />
+                  <TableHead>Time</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead>Outcome</TableHead>
+                  <TableHead>Request</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                      No audit entries match these filters
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  entries.map((entry) => {
+                    const ActorIcon = ACTOR_ICONS[entry.actor.type];
+                    const isExpanded = expanded === entry.id;
+                    return (
+                      <Fragment key={entry.id}>
+                        <TableRow
+                          className="cursor-pointer"
+                          onClick={() => setExpanded(isExpanded ? null : entry.id)}
+                        >
+                          <TableCell>
+                            {isExpanded ? (
+                              <ChevronDown className="h-4 w-4" />
+                            ) : (
+                              <ChevronRight className="h-4 w-4" />
+                            )}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap text-muted-foreground">
+                            {new Date(entry.timestamp).toLocaleString()}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <ActorIcon className="h-4 w-4 text-muted-foreground" />
+                              <span>{entry.actor.name ?? entry.actor.id}</span>
+                              {entry.actor.role && (
+                                <Badge variant="outline" className="text-xs">
+                                  {entry.actor.role}
+                                </Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">{entry.action}</TableCell>
+                          <TableCell>
+                            <span className="text-muted-foreground">{entry.target.type}/</span>
+                            {entry.target.namespace && `${entry.target.namespace}/`}
+                            {entry.target.id}
+                          </TableCell>
+                          <TableCell>
+                            <Badge
+                              variant="outline"
+                              className={cn(
+                                entry.outcome === "success"
+                                  ? "bg-green-500/10 text-green-400 border-green-500/30"
+                                  : "bg-red-500/10 text-red-400 border-red-500/30"
+                              )}
+                            >
+                              {entry.outcome}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="font-mono text-xs text-muted-foreground">
+                            {entry.requestId ? entry.requestId.slice(0, 8) : "—"}
+                          </TableCell>
+                        </TableRow>
+                        {isExpanded && (
+                          <TableRow className="hover:bg-transparent">
+                            <TableCell colSpan={7} className="bg-muted/20">
+                              <AuditDetails entry={entry} />
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {pagination.totalPages > 1 && (
+            <div className="flex items-center justify-end gap-2 pt-4">
+              <span className="text-sm text-muted-foreground">
+                Page {page} of {pagination.totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pagination.totalPages}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
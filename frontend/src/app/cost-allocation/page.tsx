@@ -28,6 +28,7 @@ import {
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import { apiFetch } from "@/lib/api";
 
 const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001";
 
@@ -79,7 +80,7 @@ export default function OperationalCostRiskPage() {
     else setIsLoading(true);
 
     try {
-      const response = await fetch(`${BACKEND_URL}/api/v1/costs/operational-risk`);
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/costs/operational-risk`);
       const result = await response.json();
 
       if (result.success && result.data) {
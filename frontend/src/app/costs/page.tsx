@@ -41,6 +41,7 @@ import {
 import { cn } from "@/lib/utils";
 import { useNodeUtilization } from "@/hooks/use-node-utilization";
 import { NodeUtilizationSection } from "@/components/costs/node-utilization-section";
+import { apiFetch } from "@/lib/api";
 
 const BACKEND_URL =
   process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001";
@@ -115,7 +116,7 @@ export default function CostsPage() {
     try {
       setIsLoading(true);
 
-      const response = await fetch(`${BACKEND_URL}/api/v1/costs/summary`);
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/costs/summary`);
       const data = await response.json();
 
       if (data.success && data.data) {
@@ -16,8 +16,12 @@ import {
   RotateCcw,
   Filter,
   ChevronsRight,
+  ShieldCheck,
+  Clock,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useApprovals, type ApprovalRequest } from "@/hooks/use-approvals";
+import { apiFetch } from "@/lib/api";
 
 const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001";
 
@@ -202,6 +206,136 @@ function ActivityCard({ activity, isExpanded, onToggle }: {
   );
 }
 
+function formatTimeLeft(expiresAt: string): string {
+  const diff = new Date(expiresAt).getTime() - Date.now();
+  if (diff <= 0) return "expiring";
+  const minutes = Math.ceil(diff / 60000);
+  return `${minutes} min${minutes > 1 ? "s" : ""} left`;
+}
+
+function ApprovalCard({ approval, onApprove, onReject }: {
+  approval: ApprovalRequest;
+  onApprove: () => Promise<void>;
+  onReject: (reason: string) => Promise<void>;
+}) {
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async (action: () => Promise<void>) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-warning/30 bg-card p-4 space-y-3">
+      <div className="flex items-start justify-between">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg border bg-warning/20 text-warning border-warning/30">
+            <ShieldCheck className="h-4 w-4" />
+          </div>
+          <div>
+            <div className="flex items-center gap-2">
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium border bg-warning/20 text-warning border-warning/30">
+                {approval.action}
+              </span>
+              <span className="text-sm text-foreground font-medium">{approval.targetResource}</span>
+              <span className="text-xs text-muted-foreground">{approval.targetNamespace}</span>
+            </div>
+            <p className="text-sm text-muted-foreground mt-1">{approval.incidentTitle}</p>
+          </div>
+        </div>
+        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Clock className="h-3 w-3" />
+          {formatTimeLeft(approval.expiresAt)}
+        </span>
+      </div>
+
+      <p className="text-sm text-muted-foreground">{approval.description}</p>
+
+      {isRejecting ? (
+        <div className="flex items-center gap-2">
+          <input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason for rejecting"
+            className="flex-1 px-3 py-2 text-sm rounded-lg bg-muted border border-border text-foreground"
+          />
+          <button
+            onClick={() => submit(() => onReject(reason.trim()))}
+            disabled={!reason.trim() || isSubmitting}
+            className="px-3 py-2 text-sm rounded-lg bg-destructive text-destructive-foreground disabled:opacity-50"
+          >
+            Reject
+          </button>
+          <button
+            onClick={() => setIsRejecting(false)}
+            className="px-3 py-2 text-sm rounded-lg bg-muted text-muted-foreground hover:text-foreground"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => submit(onApprove)}
+            disabled={isSubmitting}
+            className="px-3 py-2 text-sm rounded-lg bg-primary text-primary-foreground flex items-center gap-2 disabled:opacity-50"
+          >
+            {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle className="h-4 w-4" />}
+            Approve & Execute
+          </button>
+          <button
+            onClick={() => setIsRejecting(true)}
+            disabled={isSubmitting}
+            className="px-3 py-2 text-sm rounded-lg bg-muted text-muted-foreground hover:text-foreground flex items-center gap-2"
+          >
+            <XCircle className="h-4 w-4" />
+            Reject
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ApprovalsPanel() {
+  const { pending, approve, reject } = useApprovals();
+  const [lastMessage, setLastMessage] = useState<{ success: boolean; message: string } | null>(null);
+
+  if (pending.length === 0 && !lastMessage) {
+    return null;
+  }
+
+  return (
+    <div>
+      <h2 className="text-lg font-medium text-foreground mb-4 flex items-center gap-2">
+        Pending Approvals
+        <span className="px-2 py-0.5 rounded-full text-xs bg-warning/20 text-warning">{pending.length}</span>
+      </h2>
+      {lastMessage && (
+        <p className={cn("text-sm mb-3", lastMessage.success ? "text-success" : "text-destructive")}>
+          {lastMessage.message}
+        </p>
+      )}
+      <div className="space-y-3">
+        {pending.map((approval) => (
+          <ApprovalCard
+            key={approval.id}
+            approval={approval}
+            onApprove={async () => setLastMessage(await approve(approval.id))}
+            onReject={async (reason) => setLastMessage(await reject(approval.id, reason))}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
 export default function HealingPage() {
   const [activity, setActivity] = useState<HealingActivity[]>([]);
   const [stats, setStats] = useState<HealingStats | null>(null);
@@ -214,8 +348,8 @@ export default function HealingPage() {
   const fetchData = useCallback(async () => {
     try {
       const [activityRes, statsRes] = await Promise.all([
-        fetch(`${BACKEND_URL}/api/v1/healing/activity?filter=${activeFilter}`),
-        fetch(`${BACKEND_URL}/api/v1/healing/stats`),
+        apiFetch(`${BACKEND_URL}/api/v1/healing/activity?filter=${activeFilter}`),
+        apiFetch(`${BACKEND_URL}/api/v1/healing/stats`),
       ]);
 
       if (!activityRes.ok || !statsRes.ok) {
@@ -342,6 +476,8 @@ export default function HealingPage() {
         ))}
       </div>
 
+      <ApprovalsPanel />
+
       <div>
         <h2 className="text-lg font-medium text-foreground mb-4">Auto-Healing Activity</h2>
         <div className="space-y-3">
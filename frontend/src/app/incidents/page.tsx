@@ -25,6 +25,8 @@ import {
   XCircle,
   Terminal,
   Activity,
+  GitMerge,
+  Repeat,
 } from "lucide-react";
 import { CompactVerticalTimeline, type TimelineEvent } from "@/components/ui/compact-vertical-timeline";
 import { useTimeline } from "@/hooks/use-timeline";
@@ -46,7 +48,9 @@ import {
 import { ScrollArea } from "@/components/ui/scroll-area";
 import {
   useIncidents,
+  type CorrelationReason,
   type Incident,
+  type IncidentDetail,
   type IncidentSeverity,
   type IncidentStatus,
   type IncidentSummary,
@@ -124,6 +128,12 @@ const categoryLabels: Record<string, string> = {
   "node-pressure": "Node Pressure",
 };
 
+const correlationLabels: Record<CorrelationReason, string> = {
+  node: "Same node",
+  workload: "Same workload",
+  "time-window": "Same time window",
+};
+
 const sloBurnDriverLabels: Record<SLOBurnDriver, string> = {
   "traffic-surge": "Traffic surge",
   degradation: "Degradation",
@@ -308,6 +318,47 @@ function getDuration(incident: Incident): number {
   return Date.now() - new Date(incident.detectedAt).getTime();
 }
 
+function CorrelatedIncidents({ incidents }: { incidents: Incident[] }) {
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+        Correlated Incidents ({incidents.length})
+      </p>
+      <div className="space-y-1 rounded-lg border divide-y">
+        {incidents.map((child) => {
+          const ChildIcon = categoryIcons[child.category] || HelpCircle;
+          return (
+            <div key={child.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+              <div className="flex items-center gap-2 min-w-0">
+                <ChildIcon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <span className="truncate">{child.title}</span>
+                {!!child.childIds?.length && (
+                  <Badge variant="secondary" className="text-xs shrink-0">
+                    +{child.childIds.length}
+                  </Badge>
+                )}
+                {child.correlationReason && (
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {correlationLabels[child.correlationReason]}
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Badge variant="outline" className={cn("text-xs", severityConfig[child.severity]?.color)}>
+                  {child.severity}
+                </Badge>
+                <Badge variant="outline" className={cn("text-xs", statusConfig[child.status]?.color)}>
+                  {statusConfig[child.status]?.label || child.status}
+                </Badge>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 function IncidentCard({ incident }: { incident: Incident }) {
   const [isOpen, setIsOpen] = useState(false);
   const [summary, setSummary] = useState<IncidentSummary | null>(null);
@@ -316,7 +367,9 @@ function IncidentCard({ incident }: { incident: Incident }) {
   const [logs, setLogs] = useState<IncidentLogs | null>(null);
   const [isLoadingLogs, setIsLoadingLogs] = useState(false);
   const [logsError, setLogsError] = useState<string | null>(null);
-  const { fetchIncidentSummary, fetchIncidentLogs } = useIncidents();
+  const [detail, setDetail] = useState<IncidentDetail | null>(null);
+  const { fetchIncidentSummary, fetchIncidentLogs, fetchIncident } = useIncidents();
+  const childCount = incident.childIds?.length ?? 0;
   const SeverityIcon = severityConfig[incident.severity]?.icon || AlertCircle;
   const CategoryIcon = categoryIcons[incident.category] || HelpCircle;
   const highlightTokens = useMemo(
@@ -326,6 +379,9 @@ function IncidentCard({ incident }: { incident: Incident }) {
 
   const handleOpenChange = async (open: boolean) => {
     setIsOpen(open);
+    if (open && childCount > 0) {
+      fetchIncident(incident.id).then(setDetail);
+    }
     if (open && !summary && !isLoadingSummary) {
       setIsLoadingSummary(true);
       const summaryData = await fetchIncidentSummary(incident.id);
@@ -371,6 +427,23 @@ function IncidentCard({ incident }: { incident: Incident }) {
                     <CardTitle className="text-lg font-medium">
                       {incident.title}
                     </CardTitle>
+                    {childCount > 0 && (
+                      <Badge variant="secondary" className="text-xs">
+                        <GitMerge className="mr-1 h-3 w-3" />
+                        {childCount} correlated
+                      </Badge>
+                    )}
+                    {incident.flapping ? (
+                      <Badge variant="outline" className="text-xs bg-orange-500/10 text-orange-500 border-orange-500/20">
+                        <Repeat className="mr-1 h-3 w-3" />
+                        Flapping
+                      </Badge>
+                    ) : !!incident.reopenCount && (
+                      <Badge variant="outline" className="text-xs">
+                        <Repeat className="mr-1 h-3 w-3" />
+                        Reopened {incident.reopenCount}×
+                      </Badge>
+                    )}
                     {isOpen ? (
                       <ChevronDown className="h-4 w-4 text-muted-foreground" />
                     ) : (
@@ -383,7 +456,11 @@ function IncidentCard({ incident }: { incident: Incident }) {
                       {categoryLabels[incident.category] || incident.category}
                     </span>
                     <span>•</span>
-                    <span>{incident.resource}</span>
+                    <span>
+                      {incident.workload
+                        ? `${incident.workload.kind}/${incident.workload.name}`
+                        : incident.resource}
+                    </span>
                   </div>
                 </div>
               </div>
@@ -393,6 +470,7 @@ function IncidentCard({ incident }: { incident: Incident }) {
                   className={statusConfig[incident.status]?.color || ""}
                 >
                   {statusConfig[incident.status]?.label || incident.status}
+                  {incident.status === "resolved" && incident.autoResolved && " (auto)"}
                 </Badge>
                 <div className="text-xs text-muted-foreground text-right space-y-0.5">
                   <div className="font-medium">{formatTimestamp(incident.detectedAt)}</div>
@@ -573,6 +651,36 @@ function IncidentCard({ incident }: { incident: Incident }) {
                     >
                       {incident.autoHealingResult || "Pending"}
                     </Badge>
+                    {incident.healingAttempts !== undefined && (
+                      <p className="text-xs text-muted-foreground">
+                        Attempt {incident.healingAttempts} of {incident.maxHealingAttempts ?? "?"}
+                        {incident.status === "open" && incident.nextHealingAttemptAt &&
+                          ` · next retry ${new Date(incident.nextHealingAttemptAt).toLocaleTimeString()}`}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {detail && detail.children.length > 0 && (
+                  <CorrelatedIncidents incidents={detail.children} />
+                )}
+
+                {incident.workload && !!incident.pods?.length && (
+                  <div className="space-y-2">
+                    <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                      Affected Pods ({incident.pods.length})
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {incident.pods.map((pod) => (
+                        <Badge
+                          key={pod}
+                          variant={pod === incident.resource ? "secondary" : "outline"}
+                          className="text-xs font-mono"
+                        >
+                          {pod}
+                        </Badge>
+                      ))}
+                    </div>
                   </div>
                 )}
 
@@ -680,6 +788,13 @@ export default function IncidentsPage() {
     useIncidents();
   const [isClearing, setIsClearing] = useState(false);
 
+  // Correlated children are shown inside their parent; a child whose parent
+  // is not visible here is listed on its own
+  const topLevelIncidents = useMemo(() => {
+    const ids = new Set(incidents.map((incident) => incident.id));
+    return incidents.filter((incident) => !incident.parentId || !ids.has(incident.parentId));
+  }, [incidents]);
+
   // Convert incidents to timeline events
   const timelineEvents: TimelineEvent[] = useMemo(() => {
     return incidents.map((incident) => {
@@ -783,7 +898,7 @@ export default function IncidentsPage() {
             </Card>
           ) : (
             <div className="space-y-3">
-              {incidents.map((incident) => (
+              {topLevelIncidents.map((incident) => (
                 <IncidentCard key={incident.id} incident={incident} />
               ))}
             </div>
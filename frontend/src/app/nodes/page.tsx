@@ -7,6 +7,7 @@ import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { ClusterSelector } from "@/components/shared/cluster-selector";
 import { NodeResourceCard } from "@/components/overview/node-resource-card";
+import { apiFetch } from "@/lib/api";
 
 const BACKEND_URL =
   process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001";
@@ -92,7 +93,7 @@ export default function NodesPage() {
   const fetchData = async () => {
     try {
       // Fetch nodes from single cluster
-      const res = await fetch(`${BACKEND_URL}/api/v1/cluster/nodes`);
+      const res = await apiFetch(`${BACKEND_URL}/api/v1/cluster/nodes`);
       const data = await res.json();
 
       if (data.success && data.data) {
@@ -106,7 +107,7 @@ export default function NodesPage() {
       }
 
       // Fetch pods from overview endpoint
-      const overviewRes = await fetch(`${BACKEND_URL}/api/v1/overview`);
+      const overviewRes = await apiFetch(`${BACKEND_URL}/api/v1/overview`);
       if (overviewRes.ok) {
         const overviewData = await overviewRes.json();
         if (overviewData.success && overviewData.data?.services) {
@@ -134,7 +135,7 @@ export default function NodesPage() {
   const handleRestartAll = async () => {
     setIsRestarting(true);
     try {
-      const response = await fetch(
+      const response = await apiFetch(
         `${BACKEND_URL}/api/v1/cluster/pods/restart-all`,
         {
           method: "POST",
@@ -8,6 +8,7 @@ import { useBackendStatus } from "@/hooks/use-backend-status";
 import { useRef, useEffect, useState, useCallback } from "react";
 import { Switch } from "@/components/ui/switch";
 import type { ServiceGroup } from "@/types/overview";
+import { apiFetch } from "@/lib/api";
 
 const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001";
 
@@ -42,7 +43,7 @@ export default function OverviewPage() {
 
   const fetchOomWarnings = useCallback(async () => {
     try {
-      const response = await fetch(`${BACKEND_URL}/api/v1/overview/oom-warnings`);
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/overview/oom-warnings`);
       const data = await response.json();
       if (data.success) {
         setOomWarnings(data.data);
@@ -53,7 +54,7 @@ export default function OverviewPage() {
   }, []);
 
   useEffect(() => {
-    fetch(`${BACKEND_URL}/api/v1/healing/status`)
+    apiFetch(`${BACKEND_URL}/api/v1/healing/status`)
       .then(res => res.json())
       .then(data => {
         if (data.success) {
@@ -65,7 +66,7 @@ export default function OverviewPage() {
 
   useEffect(() => {
     const fetchNodes = () => {
-      fetch(`${BACKEND_URL}/api/v1/overview/nodes`)
+      apiFetch(`${BACKEND_URL}/api/v1/overview/nodes`)
         .then(res => res.json())
         .then(data => {
           if (data.success && data.data) {
@@ -88,7 +89,7 @@ export default function OverviewPage() {
   const toggleHealer = useCallback(async (enabled: boolean) => {
     setHealerLoading(true);
     try {
-      const res = await fetch(`${BACKEND_URL}/api/v1/healing/toggle`, {
+      const res = await apiFetch(`${BACKEND_URL}/api/v1/healing/toggle`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ enabled }),
@@ -1,6 +1,6 @@
 "use client";
 
-import { Settings, Server, Bell, Shield, Key } from "lucide-react";
+import { Settings, Server, Bell, Shield } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,6 +8,7 @@ import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ApiKeysCard } from "@/components/settings/api-keys-card";
 
 export default function SettingsPage() {
   return (
@@ -247,56 +248,7 @@ export default function SettingsPage() {
         </TabsContent>
 
         <TabsContent value="api" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-sm font-medium flex items-center gap-2">
-                <Key className="h-4 w-4" />
-                API Keys
-              </CardTitle>
-              <CardDescription>
-                Manage API keys for programmatic access
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="rounded-lg border border-border p-4">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="font-medium">Production API Key</p>
-                    <p className="text-xs text-muted-foreground">
-                      Created Jan 15, 2024
-                    </p>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <code className="rounded bg-muted px-2 py-1 text-xs">
-                      oct_prod_****...****
-                    </code>
-                    <Button variant="outline" size="sm">
-                      Revoke
-                    </Button>
-                  </div>
-                </div>
-              </div>
-              <div className="rounded-lg border border-border p-4">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="font-medium">Development API Key</p>
-                    <p className="text-xs text-muted-foreground">
-                      Created Feb 20, 2024
-                    </p>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <code className="rounded bg-muted px-2 py-1 text-xs">
-                      oct_dev_****...****
-                    </code>
-                    <Button variant="outline" size="sm">
-                      Revoke
-                    </Button>
-                  </div>
-                </div>
-              </div>
-              <Button>Generate New API Key</Button>
-            </CardContent>
-          </Card>
+          <ApiKeysCard />
 
           <Card>
             <CardHeader>
@@ -1,6 +1,6 @@
 "use client";
 
-import { Shield, CheckCircle, XCircle, Clock } from "lucide-react";
+import { Shield, CheckCircle, XCircle, Clock, MinusCircle } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -19,6 +19,8 @@ function getStatusIcon(status: HealingEvent["status"]) {
       return XCircle;
     case "in-progress":
       return Clock;
+    case "skipped":
+      return MinusCircle;
   }
 }
 
@@ -30,6 +32,8 @@ function getStatusColor(status: HealingEvent["status"]) {
       return "text-red-500";
     case "in-progress":
       return "text-yellow-500";
+    case "skipped":
+      return "text-muted-foreground";
   }
 }
 
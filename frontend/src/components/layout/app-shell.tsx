@@ -0,0 +1,62 @@
+"use client";
+
+import { useEffect, useSyncExternalStore } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { SidebarProvider } from "@/components/ui/sidebar";
+import { AppSidebar } from "./app-sidebar";
+import { Header } from "./header";
+import { useAuthStore } from "@/stores/auth-store";
+
+const PUBLIC_PATHS = ["/login"];
+
+function subscribeToHydration(onChange: () => void) {
+  return useAuthStore.persist.onFinishHydration(onChange);
+}
+
+function isHydrated() {
+  return useAuthStore.persist.hasHydrated();
+}
+
+// The server never has the stored session
+function isHydratedOnServer() {
+  return false;
+}
+
+/**
+ * Wraps pages in the sidebar and header once a user is signed in, and sends
+ * everyone else to the login page.
+ */
+export function AppShell({ children }: { children: React.ReactNode }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const token = useAuthStore((state) => state.token);
+  // The stored session is only readable in the browser, so wait for it before deciding
+  const hydrated = useSyncExternalStore(subscribeToHydration, isHydrated, isHydratedOnServer);
+  const isPublic = PUBLIC_PATHS.includes(pathname);
+
+  useEffect(() => {
+    if (hydrated && !token && !isPublic) {
+      router.replace("/login");
+    }
+  }, [hydrated, token, isPublic, router]);
+
+  if (isPublic) {
+    return <>{children}</>;
+  }
+
+  if (!hydrated || !token) {
+    return null;
+  }
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <main className="flex-1 flex flex-col min-h-screen w-full">
+        <Header />
+        <div className="flex-1 p-6">
+          {children}
+        </div>
+      </main>
+    </SidebarProvider>
+  );
+}
@@ -12,6 +12,7 @@ import {
   Loader2,
   Server,
   PieChart,
+  ScrollText,
 } from "lucide-react";
 import {
   Sidebar,
@@ -63,6 +64,11 @@ const navItems = [
     href: "/simulation",
     icon: FlaskConical,
   },
+  {
+    title: "Audit Log",
+    href: "/audit",
+    icon: ScrollText,
+  },
   {
     title: "Settings",
     href: "/settings",
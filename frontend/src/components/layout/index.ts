@@ -1,2 +1,3 @@
 export { AppSidebar } from "./app-sidebar";
 export { Header } from "./header";
+export { AppShell } from "./app-shell";
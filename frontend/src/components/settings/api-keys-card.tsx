@@ -0,0 +1,279 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Key, Loader2, Copy, Check } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useApiKeys, type ApiKey } from "@/hooks/use-api-keys";
+import { useAuthStore } from "@/stores/auth-store";
+
+function formatDate(value?: string): string {
+  return value
+    ? new Date(value).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })
+    : "never";
+}
+
+function ApiKeyRow({
+  apiKey,
+  now,
+  onRevoke,
+}: {
+  apiKey: ApiKey;
+  now: number;
+  onRevoke: (id: string) => Promise<void>;
+}) {
+  const [isRevoking, setIsRevoking] = useState(false);
+  const expired = apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= now;
+  const inactive = !!apiKey.revokedAt || !!expired;
+
+  const handleRevoke = async () => {
+    setIsRevoking(true);
+    await onRevoke(apiKey.id);
+    setIsRevoking(false);
+  };
+
+  return (
+    <div className="rounded-lg border border-border p-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="font-medium flex items-center gap-2">
+            {apiKey.name}
+            {apiKey.revokedAt && <Badge variant="destructive">Revoked</Badge>}
+            {!apiKey.revokedAt && expired && <Badge variant="secondary">Expired</Badge>}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Created {formatDate(apiKey.createdAt)} by {apiKey.createdBy} · Last used{" "}
+            {formatDate(apiKey.lastUsedAt)}
+            {apiKey.expiresAt && !expired && <> · Expires {formatDate(apiKey.expiresAt)}</>}
+            {apiKey.revokedAt && <> · Revoked {formatDate(apiKey.revokedAt)} by {apiKey.revokedBy}</>}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <code className="rounded bg-muted px-2 py-1 text-xs">{apiKey.prefix}…</code>
+          {!inactive && (
+            <Button variant="outline" size="sm" onClick={handleRevoke} disabled={isRevoking}>
+              {isRevoking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Revoke
+            </Button>
+          )}
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {apiKey.scopes.map((scope) => (
+          <Badge key={scope} variant="outline" className="text-xs font-mono">
+            {scope}
+          </Badge>
+        ))}
+        {apiKey.namespaces?.map((namespace) => (
+          <Badge key={namespace} variant="secondary" className="text-xs">
+            ns: {namespace}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function ApiKeysCard() {
+  const isAdmin = useAuthStore((state) => state.user?.role === "admin");
+  const { keys, scopes, isLoading, error, createKey, revokeKey } = useApiKeys();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [selectedScopes, setSelectedScopes] = useState<string[]>([]);
+  const [namespaces, setNamespaces] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick once a minute so keys that expire while the page is open are shown as expired
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const resetForm = () => {
+    setName("");
+    setSelectedScopes([]);
+    setNamespaces("");
+    setExpiresInDays("");
+    setFormError(null);
+    setCreatedKey(null);
+    setCopied(false);
+  };
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setSelectedScopes((current) =>
+      checked ? [...current, scope] : current.filter((s) => s !== scope)
+    );
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setFormError(null);
+    const namespaceList = namespaces.split(",").map((ns) => ns.trim()).filter(Boolean);
+    const result = await createKey({
+      name: name.trim(),
+      scopes: selectedScopes,
+      namespaces: namespaceList.length > 0 ? namespaceList : undefined,
+      expiresInDays: expiresInDays ? Number(expiresInDays) : undefined,
+    });
+    setIsCreating(false);
+
+    if (result.success && result.key) {
+      setCreatedKey(result.key);
+    } else {
+      setFormError(result.message ?? "Failed to create API key");
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey);
+    setCopied(true);
+  };
+
+  const handleRevoke = async (id: string) => {
+    await revokeKey(id);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <Key className="h-4 w-4" />
+          API Keys
+        </CardTitle>
+        <CardDescription>
+          Keys for CI and scripts. They act as an operator, limited to the scopes and namespaces you choose
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isAdmin ? (
+          <p className="text-sm text-muted-foreground">Only admins can manage API keys.</p>
+        ) : isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            {keys.length === 0 && !error && (
+              <p className="text-sm text-muted-foreground">No API keys yet.</p>
+            )}
+            {keys.map((apiKey) => (
+              <ApiKeyRow key={apiKey.id} apiKey={apiKey} now={now} onRevoke={handleRevoke} />
+            ))}
+            <Button
+              onClick={() => {
+                resetForm();
+                setIsDialogOpen(true);
+              }}
+            >
+              Generate New API Key
+            </Button>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{createdKey ? "API key created" : "Generate API key"}</DialogTitle>
+            <DialogDescription>
+              {createdKey
+                ? "Copy the key now. It is not stored and will not be shown again."
+                : "Send it as an X-API-Key header or as a bearer token."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {createdKey ? (
+            <div className="flex items-center gap-2">
+              <code className="flex-1 break-all rounded bg-muted px-2 py-2 text-xs">{createdKey}</code>
+              <Button variant="outline" size="sm" onClick={handleCopy}>
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="api-key-name">Name</Label>
+                <Input
+                  id="api-key-name"
+                  placeholder="ci-pipeline"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Scopes</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {scopes.map((scope) => (
+                    <label key={scope} className="flex items-center gap-2 text-sm font-mono">
+                      <Checkbox
+                        checked={selectedScopes.includes(scope)}
+                        onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                      />
+                      {scope}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="api-key-namespaces">Namespaces</Label>
+                <Input
+                  id="api-key-namespaces"
+                  placeholder="All namespaces (or e.g. staging, payments)"
+                  value={namespaces}
+                  onChange={(e) => setNamespaces(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="api-key-expiry">Expires in (days)</Label>
+                <Input
+                  id="api-key-expiry"
+                  type="number"
+                  min={1}
+                  max={3650}
+                  placeholder="Never"
+                  value={expiresInDays}
+                  onChange={(e) => setExpiresInDays(e.target.value)}
+                  className="w-32"
+                />
+              </div>
+              {formError && <p className="text-sm text-red-400">{formError}</p>}
+            </div>
+          )}
+
+          <DialogFooter>
+            {createdKey ? (
+              <Button onClick={() => setIsDialogOpen(false)}>Done</Button>
+            ) : (
+              <Button
+                onClick={handleCreate}
+                disabled={isCreating || !name.trim() || selectedScopes.length === 0}
+              >
+                {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Generate
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState, useEffect, useCallback } from "react";
+import { apiFetch } from "@/lib/api";
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001";
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  namespaces?: string[];
+  createdBy: string;
+  createdAt: string;
+  expiresAt?: string;
+  lastUsedAt?: string;
+  lastUsedIp?: string;
+  revokedAt?: string;
+  revokedBy?: string;
+}
+
+export interface NewApiKey {
+  name: string;
+  scopes: string[];
+  namespaces?: string[];
+  expiresInDays?: number;
+}
+
+export function useApiKeys() {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [scopes, setScopes] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchKeys = useCallback(async () => {
+    try {
+      setError(null);
+      const [keysRes, scopesRes] = await Promise.all([
+        apiFetch(`${BACKEND_URL}/api/v1/auth/api-keys`),
+        apiFetch(`${BACKEND_URL}/api/v1/auth/api-keys/scopes`),
+      ]);
+      const [keysData, scopesData] = await Promise.all([keysRes.json(), scopesRes.json()]);
+
+      if (keysData.success) {
+        setKeys(keysData.data || []);
+      } else {
+        setError(keysData.message || "Failed to fetch API keys");
+      }
+      if (scopesData.success) {
+        setScopes(scopesData.data || []);
+      }
+    } catch (err) {
+      setError("Failed to connect to backend");
+      console.error("Failed to fetch API keys:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /** Creates a key; the returned key is only ever available here. */
+  const createKey = useCallback(async (input: NewApiKey) => {
+    try {
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/auth/api-keys`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        await fetchKeys();
+        return { success: true, key: data.data.key as string };
+      }
+      return { success: false, message: data.message || "Failed to create API key" };
+    } catch (err) {
+      console.error("Failed to create API key:", err);
+      return { success: false, message: "Failed to create API key" };
+    }
+  }, [fetchKeys]);
+
+  const revokeKey = useCallback(async (id: string) => {
+    try {
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/auth/api-keys/${id}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        await fetchKeys();
+        return { success: true };
+      }
+      return { success: false, message: data.message || "Failed to revoke API key" };
+    } catch (err) {
+      console.error("Failed to revoke API key:", err);
+      return { success: false, message: "Failed to revoke API key" };
+    }
+  }, [fetchKeys]);
+
+  useEffect(() => {
+    fetchKeys();
+  }, [fetchKeys]);
+
+  return {
+    keys,
+    scopes,
+    isLoading,
+    error,
+    refetch: fetchKeys,
+    createKey,
+    revokeKey,
+  };
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { io, Socket } from "socket.io-client";
+import { apiFetch } from "@/lib/api";
+import { useAuthStore } from "@/stores/auth-store";
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001";
+
+export type ApprovalStatus = "pending" | "approved" | "rejected" | "expired" | "executed" | "failed";
+
+export interface ApprovalRequest {
+  id: string;
+  incidentId: string;
+  incidentTitle: string;
+  severity: "low" | "medium" | "high" | "critical";
+  ruleId: string;
+  ruleName: string;
+  action: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  targetResource: string;
+  targetNamespace: string;
+  status: ApprovalStatus;
+  requestedAt: string;
+  expiresAt: string;
+  decidedAt?: string;
+  decidedBy?: string;
+  rejectionReason?: string;
+  result?: string;
+}
+
+const APPROVAL_EVENTS = [
+  "approval:requested",
+  "approval:approved",
+  "approval:rejected",
+  "approval:expired",
+  "approval:executed",
+  "approval:failed",
+];
+
+interface UseApprovalsReturn {
+  approvals: ApprovalRequest[];
+  pending: ApprovalRequest[];
+  isLoading: boolean;
+  approve: (id: string) => Promise<{ success: boolean; message: string }>;
+  reject: (id: string, reason: string) => Promise<{ success: boolean; message: string }>;
+  refetch: () => Promise<void>;
+}
+
+export function useApprovals(): UseApprovalsReturn {
+  const [approvals, setApprovals] = useState<ApprovalRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const mountedRef = useRef(true);
+
+  const upsert = useCallback((approval: ApprovalRequest) => {
+    setApprovals((prev) => {
+      const rest = prev.filter((a) => a.id !== approval.id);
+      return [approval, ...rest].sort(
+        (a, b) => new Date(b.requestedAt).getTime() - new Date(a.requestedAt).getTime()
+      );
+    });
+  }, []);
+
+  const fetchApprovals = useCallback(async () => {
+    try {
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/healing/approvals`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch approvals");
+      }
+      const data = await response.json();
+      if (data.success && mountedRef.current) {
+        setApprovals(data.data);
+      }
+    } catch {
+      // Keep showing the last known queue
+    } finally {
+      if (mountedRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, []);
+
+  const decide = useCallback(async (
+    id: string,
+    decision: "approve" | "reject",
+    body: Record<string, unknown>
+  ): Promise<{ success: boolean; message: string }> => {
+    try {
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/healing/approvals/${id}/${decision}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      const approval = decision === "approve" ? data.data?.approval : data.data;
+      if (approval) {
+        upsert(approval);
+      }
+      return { success: !!data.success, message: data.message || "" };
+    } catch {
+      return { success: false, message: "Failed to reach backend" };
+    }
+  }, [upsert]);
+
+  const approve = useCallback((id: string) => decide(id, "approve", {}), [decide]);
+
+  const reject = useCallback(
+    (id: string, reason: string) => decide(id, "reject", { reason }),
+    [decide]
+  );
+
+  useEffect(() => {
+    mountedRef.current = true;
+    fetchApprovals();
+
+    const socket: Socket = io(BACKEND_URL, {
+      auth: (cb) => cb({ token: useAuthStore.getState().token }),
+      transports: ["websocket", "polling"],
+      reconnection: true,
+      reconnectionDelay: 2000,
+    });
+
+    APPROVAL_EVENTS.forEach((event) => {
+      socket.on(event, (approval: ApprovalRequest) => {
+        if (!mountedRef.current) return;
+        upsert(approval);
+      });
+    });
+
+    // Expiry happens server-side; polling keeps countdowns honest if a socket event is missed
+    const pollInterval = setInterval(fetchApprovals, 30000);
+
+    return () => {
+      mountedRef.current = false;
+      clearInterval(pollInterval);
+      socket.removeAllListeners();
+      socket.disconnect();
+    };
+  }, [fetchApprovals, upsert]);
+
+  return {
+    approvals,
+    pending: approvals.filter((a) => a.status === "pending"),
+    isLoading,
+    approve,
+    reject,
+    refetch: fetchApprovals,
+  };
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback } from "react";
+import { apiFetch } from "@/lib/api";
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001";
+
+export type AuditActorType = "user" | "api-key" | "responder" | "system";
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actor: {
+    type: AuditActorType;
+    id: string;
+    name?: string;
+    role?: string;
+  };
+  action: string;
+  target: {
+    type: string;
+    id: string;
+    namespace?: string;
+  };
+  outcome: "success" | "failure";
+  message?: string;
+  before?: unknown;
+  after?: unknown;
+  requestId?: string;
+}
+
+export interface AuditFilters {
+  actor?: string;
+  actorType?: AuditActorType;
+  action?: string;
+  outcome?: "success" | "failure";
+  from?: string;
+  to?: string;
+}
+
+interface AuditPagination {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+const PAGE_SIZE = 50;
+
+function toQuery(filters: AuditFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value);
+  }
+  return params;
+}
+
+export function useAudit(filters: AuditFilters) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [actions, setActions] = useState<string[]>([]);
+  const [pagination, setPagination] = useState<AuditPagination>({
+    page: 1,
+    pageSize: PAGE_SIZE,
+    total: 0,
+    totalPages: 0,
+  });
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the first page whenever the filters change
+  const filterKey = JSON.stringify(filters);
+  useEffect(() => {
+    setPage(1);
+  }, [filterKey]);
+
+  const fetchAudit = useCallback(async () => {
+    try {
+      setError(null);
+      const params = toQuery(JSON.parse(filterKey));
+      params.set("page", String(page));
+      params.set("pageSize", String(PAGE_SIZE));
+
+      const [entriesRes, actionsRes] = await Promise.all([
+        apiFetch(`${BACKEND_URL}/api/v1/audit?${params}`),
+        apiFetch(`${BACKEND_URL}/api/v1/audit/actions`),
+      ]);
+      const [entriesData, actionsData] = await Promise.all([
+        entriesRes.json(),
+        actionsRes.json(),
+      ]);
+
+      if (entriesData.success) {
+        setEntries(entriesData.data || []);
+        setPagination(entriesData.pagination);
+      } else {
+        setError(entriesData.message || "Failed to fetch audit log");
+      }
+      if (actionsData.success) {
+        setActions(actionsData.data || []);
+      }
+    } catch (err) {
+      setError("Failed to connect to backend");
+      console.error("Failed to fetch audit log:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filterKey, page]);
+
+  const exportAudit = useCallback(async (format: "csv" | "json") => {
+    try {
+      const params = toQuery(JSON.parse(filterKey));
+      params.set("format", format);
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/audit/export?${params}`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        return { success: false, message: data.message || "Failed to export audit log" };
+      }
+
+      const disposition = response.headers.get("Content-Disposition") || "";
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `octrix-audit.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      return { success: true };
+    } catch (err) {
+      console.error("Failed to export audit log:", err);
+      return { success: false, message: "Failed to export audit log" };
+    }
+  }, [filterKey]);
+
+  useEffect(() => {
+    fetchAudit();
+    const interval = setInterval(fetchAudit, 15000);
+    return () => clearInterval(interval);
+  }, [fetchAudit]);
+
+  return {
+    entries,
+    actions,
+    pagination,
+    page,
+    setPage,
+    isLoading,
+    error,
+    refetch: fetchAudit,
+    exportAudit,
+  };
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef } from "react";
+import { apiFetch } from "@/lib/api";
 
 const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001";
 
@@ -9,21 +10,11 @@ export interface HealingRule {
   name: string;
   description: string;
   enabled: boolean;
-  trigger: {
-    type: string;
-    conditions: Array<{
-      metric: string;
-      operator: string;
-      value: number;
-      duration: string;
-    }>;
-    operator: string;
-  };
-  action: {
-    type: string;
-    parameters: Record<string, unknown>;
-  };
+  targetCategory: string;
+  actionType: string;
+  parameters: Record<string, unknown>;
   cooldownSeconds: number;
+  maxRetries: number;
   triggerCount: number;
   lastTriggered?: string;
   createdAt: string;
@@ -33,13 +24,18 @@ export interface HealingEvent {
   id: string;
   ruleId: string;
   ruleName: string;
+  incidentId: string;
   timestamp: string;
-  status: "in-progress" | "success" | "failed";
+  status: "in-progress" | "success" | "failed" | "skipped";
   targetResource: string;
   targetNamespace: string;
   action: string;
   details: string;
   duration: number;
+  fromReplicas?: number;
+  toReplicas?: number;
+  verification?: "passed" | "failed";
+  rolledBack?: boolean;
 }
 
 interface HealingStatus {
@@ -73,9 +69,9 @@ export function useHealing(): UseHealingReturn {
       const timeoutId = setTimeout(() => controller.abort(), 15000);
 
       const [rulesRes, eventsRes, statusRes] = await Promise.all([
-        fetch(`${BACKEND_URL}/api/v1/healing/rules`, { signal: controller.signal }),
-        fetch(`${BACKEND_URL}/api/v1/healing/events?limit=50`, { signal: controller.signal }),
-        fetch(`${BACKEND_URL}/api/v1/healing/status`, { signal: controller.signal }),
+        apiFetch(`${BACKEND_URL}/api/v1/healing/rules`, { signal: controller.signal }),
+        apiFetch(`${BACKEND_URL}/api/v1/healing/events?limit=50`, { signal: controller.signal }),
+        apiFetch(`${BACKEND_URL}/api/v1/healing/status`, { signal: controller.signal }),
       ]);
 
       clearTimeout(timeoutId);
@@ -119,7 +115,7 @@ export function useHealing(): UseHealingReturn {
 
   const toggleRule = useCallback(async (id: string): Promise<boolean> => {
     try {
-      const response = await fetch(`${BACKEND_URL}/api/v1/healing/rules/${id}/toggle`, {
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/healing/rules/${id}/toggle`, {
         method: "POST",
       });
       if (response.ok) {
@@ -139,7 +135,7 @@ export function useHealing(): UseHealingReturn {
 
   const toggleHealer = useCallback(async (enabled: boolean): Promise<boolean> => {
     try {
-      const response = await fetch(`${BACKEND_URL}/api/v1/healing/toggle`, {
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/healing/toggle`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ enabled }),
@@ -159,7 +155,7 @@ export function useHealing(): UseHealingReturn {
 
   const deleteRule = useCallback(async (id: string): Promise<boolean> => {
     try {
-      const response = await fetch(`${BACKEND_URL}/api/v1/healing/rules/${id}`, {
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/healing/rules/${id}`, {
         method: "DELETE",
       });
       if (response.ok) {
@@ -176,7 +172,7 @@ export function useHealing(): UseHealingReturn {
     rule: Omit<HealingRule, "id" | "createdAt" | "triggerCount">
   ): Promise<HealingRule | null> => {
     try {
-      const response = await fetch(`${BACKEND_URL}/api/v1/healing/rules`, {
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/healing/rules`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(rule),
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef } from "react";
+import { apiFetch } from "@/lib/api";
 
 const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001";
 
@@ -24,6 +25,7 @@ export type IncidentCategory =
   | "node-pressure";
 
 export type SLOBurnDriver = "traffic-surge" | "degradation" | "mixed";
+export type CorrelationReason = "node" | "workload" | "time-window";
 
 export interface Incident {
   id: string;
@@ -38,8 +40,17 @@ export interface Incident {
   detectedAt: string;
   acknowledgedAt?: string;
   resolvedAt?: string;
+  // Lifecycle: resolved once the condition stays clear, reopened when it recurs soon after
+  autoResolved?: boolean;
+  lastSeenAt?: string;
+  reopenCount?: number;
+  reopenedAt?: string;
+  flapping?: boolean;
   autoHealingAttempted: boolean;
   autoHealingResult?: "success" | "failed" | "pending";
+  healingAttempts?: number;
+  maxHealingAttempts?: number;
+  nextHealingAttemptAt?: string;
   escalated: boolean;
   escalatedAt?: string;
   autoHealable: boolean;
@@ -54,6 +65,25 @@ export interface Incident {
   sloBurnConfidence?: number;
   // Legacy field for backward compatibility
   evidence?: string;
+  node?: string;
+  // Pod incidents belong to the pod's controller; resource is its most recent failing pod
+  workload?: WorkloadReference;
+  pods?: string[];
+  // Correlated incidents form trees under a parent
+  parentId?: string;
+  childIds?: string[];
+  correlationReason?: CorrelationReason;
+}
+
+export interface WorkloadReference {
+  kind: "Deployment" | "StatefulSet" | "DaemonSet" | "ReplicaSet" | "Job";
+  name: string;
+  namespace: string;
+}
+
+export interface IncidentDetail extends Incident {
+  parent?: Incident;
+  children: Incident[];
 }
 
 export interface IncidentSummary {
@@ -110,6 +140,7 @@ interface UseIncidentsReturn {
   clearHistory: () => Promise<boolean>;
   fetchIncidentSummary: (id: string) => Promise<IncidentSummary | null>;
   fetchIncidentLogs: (id: string) => Promise<IncidentLogs | null>;
+  fetchIncident: (id: string) => Promise<IncidentDetail | null>;
 }
 
 export function useIncidents(statusFilter?: IncidentStatus): UseIncidentsReturn {
@@ -129,8 +160,8 @@ export function useIncidents(statusFilter?: IncidentStatus): UseIncidentsReturn
       const timeoutId = setTimeout(() => controller.abort(), 15000);
 
       const [incidentsRes, statsRes] = await Promise.all([
-        fetch(url, { signal: controller.signal }),
-        fetch(`${BACKEND_URL}/api/v1/incidents/stats`, { signal: controller.signal }),
+        apiFetch(url, { signal: controller.signal }),
+        apiFetch(`${BACKEND_URL}/api/v1/incidents/stats`, { signal: controller.signal }),
       ]);
 
       clearTimeout(timeoutId);
@@ -170,7 +201,7 @@ export function useIncidents(statusFilter?: IncidentStatus): UseIncidentsReturn
 
   const acknowledgeIncident = useCallback(async (id: string): Promise<boolean> => {
     try {
-      const response = await fetch(`${BACKEND_URL}/api/v1/incidents/${id}/acknowledge`, {
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/incidents/${id}/acknowledge`, {
         method: "POST",
       });
       if (response.ok) {
@@ -185,7 +216,7 @@ export function useIncidents(statusFilter?: IncidentStatus): UseIncidentsReturn
 
   const resolveIncident = useCallback(async (id: string): Promise<boolean> => {
     try {
-      const response = await fetch(`${BACKEND_URL}/api/v1/incidents/${id}/resolve`, {
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/incidents/${id}/resolve`, {
         method: "POST",
       });
       if (response.ok) {
@@ -200,7 +231,7 @@ export function useIncidents(statusFilter?: IncidentStatus): UseIncidentsReturn
 
   const clearHistory = useCallback(async (): Promise<boolean> => {
     try {
-      const response = await fetch(`${BACKEND_URL}/api/v1/incidents/clear`, {
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/incidents/clear`, {
         method: "POST",
       });
       if (response.ok) {
@@ -215,7 +246,7 @@ export function useIncidents(statusFilter?: IncidentStatus): UseIncidentsReturn
 
   const fetchIncidentSummary = useCallback(async (id: string): Promise<IncidentSummary | null> => {
     try {
-      const response = await fetch(`${BACKEND_URL}/api/v1/incidents/${id}/summary`);
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/incidents/${id}/summary`);
       if (response.ok) {
         const data = await response.json();
         return data.data || null;
@@ -228,7 +259,20 @@ export function useIncidents(statusFilter?: IncidentStatus): UseIncidentsReturn
 
   const fetchIncidentLogs = useCallback(async (id: string): Promise<IncidentLogs | null> => {
     try {
-      const response = await fetch(`${BACKEND_URL}/api/v1/incidents/${id}/logs`);
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/incidents/${id}/logs`);
+      if (response.ok) {
+        const data = await response.json();
+        return data.data || null;
+      }
+      return null;
+    } catch {
+      return null;
+    }
+  }, []);
+
+  const fetchIncident = useCallback(async (id: string): Promise<IncidentDetail | null> => {
+    try {
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/incidents/${id}`);
       if (response.ok) {
         const data = await response.json();
         return data.data || null;
@@ -262,5 +306,6 @@ export function useIncidents(statusFilter?: IncidentStatus): UseIncidentsReturn
     clearHistory,
     fetchIncidentSummary,
     fetchIncidentLogs,
+    fetchIncident,
   };
 }
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef } from "react";
+import { apiFetch } from "@/lib/api";
 
 const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001";
 
@@ -71,7 +72,7 @@ export function useNodeUtilization(): UseNodeUtilizationReturn {
   const fetchData = useCallback(async () => {
     try {
       setIsLoading(true);
-      const response = await fetch(`${BACKEND_URL}/api/v1/costs/node-utilization`);
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/costs/node-utilization`);
       
       if (!response.ok) {
         throw new Error("Failed to fetch node utilization data");
@@ -3,6 +3,8 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { io, Socket } from "socket.io-client";
 import type { ClusterOverview } from "@/types/overview";
+import { apiFetch } from "@/lib/api";
+import { useAuthStore } from "@/stores/auth-store";
 
 const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001";
 
@@ -21,7 +23,7 @@ export function useOverview() {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 5000);
       
-      const response = await fetch(`${BACKEND_URL}/api/v1/overview`, {
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/overview`, {
         signal: controller.signal,
       });
       clearTimeout(timeoutId);
@@ -68,6 +70,7 @@ export function useOverview() {
       }
       
       globalSocket = io(BACKEND_URL, {
+        auth: (cb) => cb({ token: useAuthStore.getState().token }),
         transports: ["websocket", "polling"],
         reconnection: true,
         reconnectionAttempts: Infinity,
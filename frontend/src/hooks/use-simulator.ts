@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef } from "react";
+import { apiFetch } from "@/lib/api";
 
 const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001";
 
@@ -80,10 +81,10 @@ export function useSimulator(): UseSimulatorReturn {
       const timeoutId = setTimeout(() => controller.abort(), 5000);
 
       const [scenariosRes, runsRes, activeRes, statsRes] = await Promise.all([
-        fetch(`${BACKEND_URL}/api/v1/simulator/scenarios`, { signal: controller.signal }),
-        fetch(`${BACKEND_URL}/api/v1/simulator/runs?limit=20`, { signal: controller.signal }),
-        fetch(`${BACKEND_URL}/api/v1/simulator/runs/active`, { signal: controller.signal }),
-        fetch(`${BACKEND_URL}/api/v1/simulator/stats`, { signal: controller.signal }),
+        apiFetch(`${BACKEND_URL}/api/v1/simulator/scenarios`, { signal: controller.signal }),
+        apiFetch(`${BACKEND_URL}/api/v1/simulator/runs?limit=20`, { signal: controller.signal }),
+        apiFetch(`${BACKEND_URL}/api/v1/simulator/runs/active`, { signal: controller.signal }),
+        apiFetch(`${BACKEND_URL}/api/v1/simulator/stats`, { signal: controller.signal }),
       ]);
 
       clearTimeout(timeoutId);
@@ -139,7 +140,7 @@ export function useSimulator(): UseSimulatorReturn {
     parameters?: Record<string, unknown>
   ): Promise<SimulationRun | null> => {
     try {
-      const response = await fetch(`${BACKEND_URL}/api/v1/simulator/scenarios/${scenarioId}/start`, {
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/simulator/scenarios/${scenarioId}/start`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -169,7 +170,7 @@ export function useSimulator(): UseSimulatorReturn {
 
   const stopSimulation = useCallback(async (runId: string): Promise<boolean> => {
     try {
-      const response = await fetch(`${BACKEND_URL}/api/v1/simulator/runs/${runId}/stop`, {
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/simulator/runs/${runId}/stop`, {
         method: "POST",
       });
       if (response.ok) {
@@ -184,7 +185,7 @@ export function useSimulator(): UseSimulatorReturn {
 
   const cancelSimulation = useCallback(async (runId: string): Promise<boolean> => {
     try {
-      const response = await fetch(`${BACKEND_URL}/api/v1/simulator/runs/${runId}/cancel`, {
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/simulator/runs/${runId}/cancel`, {
         method: "POST",
       });
       if (response.ok) {
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from "react";
 import type { TimelineEvent } from "@/components/ui/compact-vertical-timeline";
+import { apiFetch } from "@/lib/api";
 
 const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001";
 
@@ -12,7 +13,7 @@ export function useTimeline() {
     try {
       setIsLoading(true);
       setError(null);
-      const response = await fetch(`${BACKEND_URL}/api/v1/timeline?limit=20`);
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/timeline?limit=20`);
       const data = await response.json();
       
       if (data.success) {
@@ -30,7 +31,7 @@ export function useTimeline() {
 
   const clearTimeline = useCallback(async () => {
     try {
-      const response = await fetch(`${BACKEND_URL}/api/v1/timeline/clear`, {
+      const response = await apiFetch(`${BACKEND_URL}/api/v1/timeline/clear`, {
         method: "POST",
       });
       const data = await response.json();
@@ -0,0 +1,21 @@
+import { useAuthStore } from "@/stores/auth-store";
+
+export const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001";
+
+/**
+ * `fetch` for backend API calls: sends the signed-in user's token and signs
+ * them out when the backend no longer accepts it.
+ */
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const { token, logout } = useAuthStore.getState();
+  const headers = new Headers(init.headers);
+  if (token) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+
+  const response = await fetch(input, { ...init, headers });
+  if (response.status === 401 && token) {
+    logout();
+  }
+  return response;
+}
@@ -200,7 +200,7 @@ export interface HealingEvent {
   ruleId: string;
   ruleName: string;
   timestamp: string;
-  status: "success" | "failed" | "in-progress";
+  status: "success" | "failed" | "in-progress" | "skipped";
   targetResource: string;
   targetNamespace: string;
   action: ActionType;
@@ -304,3 +304,17 @@ export interface ApiResponse<T> {
     totalPages: number;
   };
 }
+
+export type UserRole = "admin" | "operator" | "viewer";
+
+export interface User {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  namespaces?: string[];
+  teams?: string[];
+  createdAt: string;
+  disabled?: boolean;
+  lastLoginAt?: string;
+}